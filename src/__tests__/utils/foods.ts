@@ -0,0 +1,43 @@
+import { Timestamp } from 'firebase/firestore';
+import type { CatalogFood } from '@/lib/combinationGenerator';
+import type { FoodGroup } from '@/lib/database';
+
+// Catalog foods for tests
+
+/**
+ * An active food with no nutrients or benefits, whose ID is its name in
+ * lower case; `overrides` sets whatever else a test needs
+ */
+export function food(
+  name: string,
+  category: CatalogFood['category'],
+  overrides: Partial<CatalogFood> = {}
+): CatalogFood {
+  return {
+    id: name.toLowerCase(),
+    name,
+    category,
+    nutrients: [],
+    benefits: [],
+    isActive: true,
+    ...overrides,
+  };
+}
+
+const createdAt = Timestamp.fromDate(new Date('2026-01-01T00:00:00.000Z'));
+
+/**
+ * The same food as the database returns it, with timestamps
+ */
+export function storedFood(
+  name: string,
+  category: FoodGroup['category'],
+  overrides: Partial<FoodGroup> = {}
+): FoodGroup {
+  return {
+    ...food(name, category),
+    createdAt,
+    updatedAt: createdAt,
+    ...overrides,
+  };
+}
@@ -1,10 +1,13 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/contexts/AuthContext';
+import { api } from '@/lib/api/client';
 
 import CSVImport from '@/components/CSVImport';
+import { UsdaImport } from '@/components/UsdaImport';
 import {
   Database,
   TestTube,
@@ -15,21 +18,32 @@ import {
 } from 'lucide-react';
 
 export default function AdminPage() {
+  const { user, loading: authLoading } = useAuth();
+  // Admins hold a custom claim or are on the allowlist, which only the
+  // server can check
+  const [access, setAccess] = useState<'checking' | 'granted' | 'denied'>(
+    'checking'
+  );
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState('');
   const [messageType, setMessageType] = useState<'success' | 'error' | ''>('');
 
+  useEffect(() => {
+    if (!user) return;
+
+    setAccess('checking');
+    api
+      .get('/api/admin/access')
+      .then(result => setAccess(result.success ? 'granted' : 'denied'));
+  }, [user]);
+
   const initializeDatabase = async () => {
     setLoading(true);
     setMessage('');
     setMessageType('');
 
     try {
-      const response = await fetch('/api/database/init', {
-        method: 'POST',
-      });
-
-      const data = await response.json();
+      const data = await api.post('/api/database/init');
 
       if (data.success) {
         setMessage(
@@ -56,12 +70,11 @@ export default function AdminPage() {
     setMessageType('');
 
     try {
-      const response = await fetch('/api/food-groups');
-      const data = await response.json();
+      const data = await api.get<unknown[]>('/api/food-groups');
 
       if (data.success) {
         setMessage(
-          `API test successful! Found ${data.data.length} food groups in database.`
+          `API test successful! Found ${data.data?.length ?? 0} food groups in database.`
         );
         setMessageType('success');
       } else {
@@ -76,6 +89,33 @@ export default function AdminPage() {
     }
   };
 
+  if (authLoading || (user && access === 'checking')) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (!user || access === 'denied') {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="text-center py-8">
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-6 max-w-2xl mx-auto">
+            <h3 className="text-lg font-medium text-blue-800 mb-2">
+              {user ? 'Admin Access Required' : 'Sign In Required'}
+            </h3>
+            <p className="text-blue-700">
+              {user
+                ? 'Your account is not an admin. Ask an admin to add it to the admins allowlist.'
+                : 'Please sign in with an admin account to manage the database.'}
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="max-w-4xl mx-auto px-4">
@@ -158,6 +198,9 @@ export default function AdminPage() {
         {/* CSV Import Section */}
         <CSVImport />
 
+        {/* USDA Import Section */}
+        <UsdaImport />
+
         {/* Database Structure Info */}
         <Card className="mt-6">
           <CardHeader>
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { applyAdminGuard } from '@/middleware/adminGuard';
+
+// Force dynamic rendering to prevent build-time execution
+export const dynamic = 'force-dynamic';
+
+/**
+ * Whether the signed-in user is an admin, so the admin page only shows its
+ * tools to them. The routes behind those tools check for themselves.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await applyAdminGuard(request);
+    if (admin.response) return admin.response;
+
+    return NextResponse.json({ success: true, data: { uid: admin.uid } });
+  } catch (error) {
+    console.error('Error checking admin access:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to check admin access' },
+      { status: 500 }
+    );
+  }
+}
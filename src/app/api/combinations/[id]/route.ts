@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import { SavedCombination, savedCombinationsOperations } from '@/lib/database';
+
+// Force dynamic rendering to prevent build-time execution
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+type OwnedCombination =
+  | { combination: SavedCombination; response?: undefined }
+  | { combination?: undefined; response: NextResponse };
+
+// Load a saved combination and make sure it belongs to the signed-in user
+async function loadOwnedCombination(
+  request: NextRequest,
+  id: string
+): Promise<OwnedCombination> {
+  const uid = await requireUser(request);
+
+  const combination = await savedCombinationsOperations.getById(id);
+  if (!combination) {
+    return {
+      response: NextResponse.json(
+        { success: false, error: 'Combination not found' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  if (combination.userId !== uid) {
+    return {
+      response: NextResponse.json(
+        { success: false, error: 'Combination belongs to another user' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { combination };
+}
+
+const authFailure = (error: AuthError) =>
+  NextResponse.json(
+    { success: false, error: error.message },
+    { status: error.status }
+  );
+
+/**
+ * Mark or unmark one of the signed-in user's combinations as a favorite
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { isFavorite } = await request.json();
+    if (typeof isFavorite !== 'boolean') {
+      return NextResponse.json(
+        { success: false, error: 'isFavorite must be true or false' },
+        { status: 400 }
+      );
+    }
+
+    const { response } = await loadOwnedCombination(request, id);
+    if (response) return response;
+
+    await savedCombinationsOperations.toggleFavorite(id, isFavorite);
+
+    return NextResponse.json({ success: true, data: { isFavorite } });
+  } catch (error) {
+    if (error instanceof AuthError) return authFailure(error);
+    console.error('Error updating combination:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update combination' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete one of the signed-in user's combinations
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { response } = await loadOwnedCombination(request, id);
+    if (response) return response;
+
+    await savedCombinationsOperations.delete(id);
+
+    return NextResponse.json({ success: true, data: { success: true } });
+  } catch (error) {
+    if (error instanceof AuthError) return authFailure(error);
+    console.error('Error deleting combination:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete combination' },
+      { status: 500 }
+    );
+  }
+}
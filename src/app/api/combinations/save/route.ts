@@ -1,28 +1,42 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { savedCombinationsOperations } from '@/lib/database';
+import { AuthError, requireUser } from '@/lib/auth';
+import {
+  foodGroupOperations,
+  savedCombinationsOperations,
+} from '@/lib/database';
+import { fallbackFoodGroups } from '@/lib/fallbackData';
+import { calculateTextNutrition } from '@/lib/nutrition';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
+    // The combination is always saved for the signed-in user
+    body.userId = await requireUser(request, body.userId);
 
     // Validate required fields
-    if (
-      !body.userId ||
-      !body.name ||
-      !body.fruits ||
-      !body.vegetables ||
-      !body.grains
-    ) {
+    if (!body.name || !body.fruits || !body.vegetables || !body.grains) {
       return NextResponse.json(
         {
           success: false,
-          error:
-            'Missing required fields: userId, name, fruits, vegetables, grains',
+          error: 'Missing required fields: name, fruits, vegetables, grains',
         },
         { status: 400 }
       );
     }
 
+    // Compute nutrition from the ingredient quantities so stored facts don't
+    // depend on the client; keep the client's values if nothing matches
+    const foods = await foodGroupOperations
+      .getAll()
+      .catch(() => fallbackFoodGroups);
+    const nutrition = calculateTextNutrition(
+      [...body.fruits, ...body.vegetables, ...body.grains],
+      foods.length > 0 ? foods : fallbackFoodGroups
+    );
+    if (nutrition.unmatched.length < nutrition.ingredients.length) {
+      body.nutritionFacts = nutrition.totals;
+    }
+
     // Save the combination
     const combinationId = await savedCombinationsOperations.save(body);
 
@@ -31,10 +45,17 @@ export async function POST(request: NextRequest) {
         success: true,
         message: 'Combination saved successfully',
         id: combinationId,
+        data: { id: combinationId },
       },
       { status: 201 }
     );
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
     console.error('Error saving combination:', error);
     return NextResponse.json(
       {
@@ -1,19 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { savedCombinationsOperations } from '@/lib/database';
+import { AuthError, requireUser } from '@/lib/auth';
+import { inactiveIngredients } from '@/lib/combinations';
+import {
+  foodGroupOperations,
+  savedCombinationsOperations,
+} from '@/lib/database';
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
+    const userId = await requireUser(request, searchParams.get('userId'));
     const favorites = searchParams.get('favorites') === 'true';
 
-    if (!userId) {
-      return NextResponse.json(
-        { success: false, error: 'userId is required' },
-        { status: 400 }
-      );
-    }
-
     let combinations;
 
     if (favorites) {
@@ -24,11 +22,26 @@ export async function GET(request: NextRequest) {
       combinations = await savedCombinationsOperations.getByUserId(userId);
     }
 
+    // Flag ingredients whose food has been deactivated; without the catalog
+    // nothing is flagged
+    const foods = await foodGroupOperations
+      .getAll({ includeInactive: true })
+      .catch(() => []);
+
     return NextResponse.json({
       success: true,
-      data: combinations,
+      data: combinations.map(combination => ({
+        ...combination,
+        inactiveIngredients: inactiveIngredients(combination, foods),
+      })),
     });
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
     console.error('Error fetching user combinations:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to fetch user combinations' },
@@ -1,17 +1,33 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { applyAdminGuard } from '@/middleware/adminGuard';
+import { clearFoodGroupCache } from '@/lib/cache/foodGroups';
 import { databaseUtils } from '@/lib/database';
 import { foodGroupOperations } from '@/lib/database';
+import {
+  describeImportError,
+  importFoods,
+  parseFoodCsv,
+} from '@/lib/foodImport';
+import { toAuditContext } from '@/lib/foodAudit';
 import fs from 'fs';
 import path from 'path';
 
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
+    const admin = await applyAdminGuard(request, {
+      action: 'import',
+      resource: 'foodGroups',
+    });
+    if (admin.response) return admin.response;
+
     console.log('[database/init] Starting database initialization...');
 
     // First, check if we already have food groups
     let existingFoodGroups;
     try {
-      existingFoodGroups = await foodGroupOperations.getAll();
+      existingFoodGroups = await foodGroupOperations.getAll({
+        includeInactive: true,
+      });
       console.log(
         `[database/init] Found ${existingFoodGroups.length} existing food groups`
       );
@@ -44,7 +60,13 @@ export async function POST() {
 
     // Initialize default food groups
     console.log('[database/init] Initializing default food groups...');
-    await databaseUtils.initializeDefaultFoodGroups();
+    const audit = toAuditContext({
+      userId: admin.uid,
+      reason: 'Initialized the catalog',
+    });
+    await databaseUtils.initializeDefaultFoodGroups(audit);
+    // Pages cached while the catalog was empty hold only fallback foods
+    await clearFoodGroupCache();
 
     // Try to import from the expanded foods database CSV
     try {
@@ -54,88 +76,26 @@ export async function POST() {
       const csvPath = path.join(process.cwd(), 'expanded_foods_database.csv');
 
       if (fs.existsSync(csvPath)) {
-        const csvContent = fs.readFileSync(csvPath, 'utf-8');
-        const lines = csvContent.split('\n').filter(line => line.trim());
-
-        if (lines.length > 1) {
-          const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
-          console.log('[database/init] CSV Headers:', headers);
-
-          let importedCount = 0;
-          const errors: string[] = [];
-
-          for (let i = 1; i < lines.length; i++) {
-            const line = lines[i].trim();
-            if (!line) continue;
+        const parsed = parseFoodCsv(fs.readFileSync(csvPath, 'utf-8'));
 
-            try {
-              const values = line.split(',').map(v => v.trim());
-              const row: Record<string, string> = {};
-
-              headers.forEach((header, index) => {
-                if (values[index]) {
-                  row[header] = values[index];
-                }
-              });
-
-              // Create food group object
-              const foodGroup = {
-                name: row.name,
-                category: row.category.toLowerCase() as
-                  | 'fruits'
-                  | 'vegetables'
-                  | 'grains'
-                  | 'proteins'
-                  | 'dairy'
-                  | 'nuts'
-                  | 'herbs'
-                  | 'spices',
-                subcategory: row.subcategory || '',
-                nutrients: row.nutrients
-                  ? row.nutrients.split(';').map(n => n.trim())
-                  : [],
-                benefits: row.benefits
-                  ? row.benefits.split(';').map(b => b.trim())
-                  : [],
-                seasonality: (row.seasonality || 'year-round') as
-                  | 'spring'
-                  | 'summer'
-                  | 'fall'
-                  | 'winter'
-                  | 'year-round',
-                glycemicIndex: parseFloat(row.glycemicindex) || 0,
-                caloriesPer100g: parseFloat(row.caloriesper100g) || 0,
-                proteinPer100g: parseFloat(row.proteinper100g) || 0,
-                carbsPer100g: parseFloat(row.carbsper100g) || 0,
-                fatPer100g: parseFloat(row.fatper100g) || 0,
-                fiberPer100g: parseFloat(row.fiberper100g) || 0,
-                isActive: true,
-              };
-
-              await foodGroupOperations.create(foodGroup);
-              importedCount++;
-
-              if (importedCount % 10 === 0) {
-                console.log(
-                  `[database/init] Imported ${importedCount} food groups...`
-                );
-              }
-            } catch (error) {
-              const errorMsg = `Row ${i + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`;
-              errors.push(errorMsg);
-              console.error(`[database/init] ${errorMsg}`);
-            }
-          }
+        if (parsed.foods.length > 0) {
+          // Defaults the file also lists are matched by name and category
+          // and updated rather than added twice
+          const { counts, errors } = await importFoods(parsed, audit);
+          await clearFoodGroupCache();
+          const importedCount = counts.create;
 
           console.log(
-            `[database/init] Successfully imported ${importedCount} food groups from CSV`
+            `[database/init] Imported ${importedCount} and updated ${counts.update} food groups from CSV`
           );
 
           return NextResponse.json({
             success: true,
             message: `Database initialized successfully with ${importedCount} food groups from CSV`,
             importedCount,
-            errors: errors.length > 0 ? errors : undefined,
+            updatedCount: counts.update,
+            errors:
+              errors.length > 0 ? errors.map(describeImportError) : undefined,
             action: 'csv_import',
           });
         }
@@ -165,9 +125,14 @@ export async function POST() {
   }
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const existingFoodGroups = await foodGroupOperations.getAll();
+    const admin = await applyAdminGuard(request);
+    if (admin.response) return admin.response;
+
+    const existingFoodGroups = await foodGroupOperations.getAll({
+      includeInactive: true,
+    });
     return NextResponse.json({
       success: true,
       message: 'Database status check',
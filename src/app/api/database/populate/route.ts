@@ -1,31 +1,29 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { applyAdminGuard } from '@/middleware/adminGuard';
+import { clearFoodGroupCache } from '@/lib/cache/foodGroups';
 import { foodGroupOperations } from '@/lib/database';
+import { toAuditContext } from '@/lib/foodAudit';
+import {
+  describeImportError,
+  importFoods,
+  parseFoodCsv,
+} from '@/lib/foodImport';
 import fs from 'fs';
 import path from 'path';
 
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
-    console.log('[database/populate] Starting database population...');
-
-    // Check if we already have food groups
-    const existingFoodGroups = await foodGroupOperations.getAll();
-    console.log(
-      `[database/populate] Found ${existingFoodGroups.length} existing food groups`
-    );
+    const admin = await applyAdminGuard(request, {
+      action: 'import',
+      resource: 'foodGroups',
+    });
+    if (admin.response) return admin.response;
 
-    if (existingFoodGroups.length > 0) {
-      return NextResponse.json({
-        success: true,
-        message: `Database already contains ${existingFoodGroups.length} food groups`,
-        existingCount: existingFoodGroups.length,
-        action: 'no_action_needed',
-      });
-    }
+    console.log('[database/populate] Starting database population...');
 
-    // Import from the expanded foods database CSV
-    console.log(
-      '[database/populate] Importing from expanded foods database CSV...'
-    );
+    // Import from the expanded foods database CSV. Foods already in the
+    // catalog are matched by name and category, so running this again only
+    // writes what changed in the file.
     const csvPath = path.join(process.cwd(), 'expanded_foods_database.csv');
 
     if (!fs.existsSync(csvPath)) {
@@ -39,98 +37,39 @@ export async function POST() {
       );
     }
 
-    const csvContent = fs.readFileSync(csvPath, 'utf-8');
-    const lines = csvContent.split('\n').filter(line => line.trim());
+    const parsed = parseFoodCsv(fs.readFileSync(csvPath, 'utf-8'));
 
-    if (lines.length < 2) {
+    if (parsed.foods.length === 0) {
       return NextResponse.json(
         {
           success: false,
           error: 'Invalid CSV file',
-          details: 'CSV must have at least a header row and one data row',
+          details: 'CSV must have at least a header row and one valid data row',
         },
         { status: 400 }
       );
     }
 
-    const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
-    console.log('[database/populate] CSV Headers:', headers);
-
-    let importedCount = 0;
-    const errors: string[] = [];
-
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
-
-      try {
-        const values = line.split(',').map(v => v.trim());
-        const row: Record<string, string> = {};
-
-        headers.forEach((header, index) => {
-          if (values[index]) {
-            row[header] = values[index];
-          }
-        });
-
-        // Create food group object
-        const foodGroup = {
-          name: row.name,
-          category: row.category.toLowerCase() as
-            | 'fruits'
-            | 'vegetables'
-            | 'grains'
-            | 'proteins'
-            | 'dairy'
-            | 'nuts'
-            | 'herbs'
-            | 'spices',
-          subcategory: row.subcategory || '',
-          nutrients: row.nutrients
-            ? row.nutrients.split(';').map(n => n.trim())
-            : [],
-          benefits: row.benefits
-            ? row.benefits.split(';').map(b => b.trim())
-            : [],
-          seasonality: (row.seasonality || 'year-round') as
-            | 'spring'
-            | 'summer'
-            | 'fall'
-            | 'winter'
-            | 'year-round',
-          glycemicIndex: parseFloat(row.glycemicindex) || 0,
-          caloriesPer100g: parseFloat(row.caloriesper100g) || 0,
-          proteinPer100g: parseFloat(row.proteinper100g) || 0,
-          carbsPer100g: parseFloat(row.carbsper100g) || 0,
-          fatPer100g: parseFloat(row.fatper100g) || 0,
-          fiberPer100g: parseFloat(row.fiberper100g) || 0,
-          isActive: true,
-        };
-
-        await foodGroupOperations.create(foodGroup);
-        importedCount++;
-
-        if (importedCount % 10 === 0) {
-          console.log(
-            `[database/populate] Imported ${importedCount} food groups...`
-          );
-        }
-      } catch (error) {
-        const errorMsg = `Row ${i + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`;
-        errors.push(errorMsg);
-        console.error(`[database/populate] ${errorMsg}`);
-      }
-    }
+    const { counts, errors } = await importFoods(
+      parsed,
+      toAuditContext({
+        userId: admin.uid,
+        reason: 'Synced with expanded_foods_database.csv',
+      })
+    );
+    await clearFoodGroupCache();
 
     console.log(
-      `[database/populate] Successfully imported ${importedCount} food groups from CSV`
+      `[database/populate] Created ${counts.create}, updated ${counts.update} and left ${counts.unchanged} food groups unchanged`
     );
 
     return NextResponse.json({
       success: true,
-      message: `Database populated successfully with ${importedCount} food groups`,
-      importedCount,
-      errors: errors.length > 0 ? errors : undefined,
+      message: `Database populated: ${counts.create} food groups created, ${counts.update} updated, ${counts.unchanged} unchanged`,
+      importedCount: counts.create,
+      updatedCount: counts.update,
+      unchangedCount: counts.unchanged,
+      errors: errors.length > 0 ? errors.map(describeImportError) : undefined,
       action: 'csv_import',
     });
   } catch (error) {
@@ -146,9 +85,14 @@ export async function POST() {
   }
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const existingFoodGroups = await foodGroupOperations.getAll();
+    const admin = await applyAdminGuard(request);
+    if (admin.response) return admin.response;
+
+    const existingFoodGroups = await foodGroupOperations.getAll({
+      includeInactive: true,
+    });
     return NextResponse.json({
       success: true,
       message: 'Database population status',
@@ -157,7 +101,7 @@ export async function GET() {
       action:
         existingFoodGroups.length === 0
           ? 'Use POST to populate the database with food data'
-          : 'Database is already populated',
+          : 'Use POST to sync the database with the food data file',
     });
   } catch (error) {
     console.error('[database/populate] Status check error:', error);
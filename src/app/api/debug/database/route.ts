@@ -1,8 +1,15 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { applyAdminGuard, applyDevelopmentOnly } from '@/middleware/adminGuard';
 import { foodGroupOperations } from '@/lib/database';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const notFound = applyDevelopmentOnly();
+  if (notFound) return notFound;
+
   try {
+    const admin = await applyAdminGuard(request);
+    if (admin.response) return admin.response;
+
     console.log('[debug/database] Testing database connection...');
     console.log('[debug/database] Environment check:', {
       isServer: typeof window === 'undefined',
@@ -27,7 +34,9 @@ export async function GET() {
     console.log(
       '[debug/database] Attempting to call foodGroupOperations.getAll()...'
     );
-    const allFoodGroups = await foodGroupOperations.getAll();
+    const allFoodGroups = await foodGroupOperations.getAll({
+      includeInactive: true,
+    });
 
     console.log(
       `[debug/database] Successfully retrieved ${allFoodGroups.length} food groups`
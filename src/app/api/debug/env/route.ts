@@ -1,7 +1,14 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { applyAdminGuard, applyDevelopmentOnly } from '@/middleware/adminGuard';
+
+export async function GET(request: NextRequest) {
+  const notFound = applyDevelopmentOnly();
+  if (notFound) return notFound;
 
-export async function GET() {
   try {
+    const admin = await applyAdminGuard(request);
+    if (admin.response) return admin.response;
+
     const envVars = {
       // Firebase Configuration
       firebaseApiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY
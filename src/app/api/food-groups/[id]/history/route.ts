@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { foodGroupAuditOperations, foodGroupOperations } from '@/lib/database';
+import { applyAdminGuard } from '@/middleware/adminGuard';
+import { toFoodGroupHistory } from '@/lib/foodAudit';
+
+// Force dynamic rendering to prevent build-time execution
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * A food's versions, newest first: who changed it, why, and the food before
+ * and after each change
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await applyAdminGuard(request);
+    if (admin.response) return admin.response;
+
+    const { id } = await params;
+    if (!(await foodGroupOperations.getById(id))) {
+      return NextResponse.json(
+        { success: false, error: 'Food group not found' },
+        { status: 404 }
+      );
+    }
+
+    const entries = await foodGroupAuditOperations.getByFoodGroupId(id);
+
+    return NextResponse.json({
+      success: true,
+      data: toFoodGroupHistory(entries),
+    });
+  } catch (error) {
+    console.error('Error fetching food group history:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch food group history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clearFoodGroupCache } from '@/lib/cache/foodGroups';
+import { foodGroupOperations } from '@/lib/database';
+import { applyAdminGuard } from '@/middleware/adminGuard';
+import { toAuditContext } from '@/lib/foodAudit';
+import { CatalogAuditSchema } from '@/lib/validation/schemas';
+
+// Force dynamic rendering to prevent build-time execution
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Reactivate a deleted food. A `reason` in the body is recorded in its
+ * history with the admin restoring it.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await applyAdminGuard(request, {
+      action: 'update',
+      resource: 'foodGroups',
+    });
+    if (admin.response) return admin.response;
+
+    const { id } = await params;
+    const validation = CatalogAuditSchema.safeParse(
+      await request.json().catch(() => ({}))
+    );
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid reason',
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const food = await foodGroupOperations.getById(id);
+    if (!food) {
+      return NextResponse.json(
+        { success: false, error: 'Food group not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!food.isActive) {
+      await foodGroupOperations.restore(
+        id,
+        toAuditContext({ ...validation.data, userId: admin.uid })
+      );
+      await clearFoodGroupCache();
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: food.isActive
+        ? `${food.name} is already active`
+        : `${food.name} restored`,
+      data: { success: true },
+    });
+  } catch (error) {
+    console.error('Error restoring food group:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to restore food group' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clearFoodGroupCache } from '@/lib/cache/foodGroups';
+import { foodGroupAuditOperations, foodGroupOperations } from '@/lib/database';
+import { applyAdminGuard } from '@/middleware/adminGuard';
+import { toAuditContext, updatesTo } from '@/lib/foodAudit';
+import { FoodGroupRevertSchema } from '@/lib/validation/schemas';
+
+// Force dynamic rendering to prevent build-time execution
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Restore a food to the version an entry of its history recorded. The revert
+ * is itself a new version, so it can be reverted in turn.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await applyAdminGuard(request, {
+      action: 'update',
+      resource: 'foodGroups',
+    });
+    if (admin.response) return admin.response;
+
+    const { id } = await params;
+    const validation = FoodGroupRevertSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid revert request',
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { auditId, ...audit } = validation.data;
+    const [food, entry] = await Promise.all([
+      foodGroupOperations.getById(id),
+      foodGroupAuditOperations.getById(auditId),
+    ]);
+    if (!food) {
+      return NextResponse.json(
+        { success: false, error: 'Food group not found' },
+        { status: 404 }
+      );
+    }
+    if (!entry || entry.foodGroupId !== id) {
+      return NextResponse.json(
+        { success: false, error: "Version not found in this food's history" },
+        { status: 404 }
+      );
+    }
+
+    const changes = updatesTo(food, entry.after);
+    if (Object.keys(changes).length === 0) {
+      return NextResponse.json({
+        success: true,
+        message: 'The food is already at this version',
+        data: { fields: [] },
+      });
+    }
+
+    await foodGroupOperations.update(
+      id,
+      changes,
+      toAuditContext({ ...audit, userId: admin.uid }),
+      'revert'
+    );
+    await clearFoodGroupCache();
+
+    return NextResponse.json({
+      success: true,
+      message: `Reverted ${food.name} to the version of ${entry.createdAt}`,
+      data: { fields: Object.keys(changes) },
+    });
+  } catch (error) {
+    console.error('Error reverting food group:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to revert food group' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clearFoodGroupCache } from '@/lib/cache/foodGroups';
+import { foodGroupOperations } from '@/lib/database';
+import { applyAdminGuard } from '@/middleware/adminGuard';
+import { toAuditContext, updatesTo } from '@/lib/foodAudit';
+import { CatalogAuditSchema, FoodGroupSchema } from '@/lib/validation/schemas';
+import { sanitizeObject } from '@/lib/validation/sanitization';
+
+// Force dynamic rendering to prevent build-time execution
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const notFound = () =>
+  NextResponse.json(
+    { success: false, error: 'Food group not found' },
+    { status: 404 }
+  );
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const food = await foodGroupOperations.getById(id);
+    if (!food) return notFound();
+
+    return NextResponse.json({ success: true, data: food });
+  } catch (error) {
+    console.error('Error fetching food group:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch food group' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Update a food with the fields in the body; fields sent as null are cleared.
+ * `reason` is recorded in the food's history with the admin updating it.
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await applyAdminGuard(request, {
+      action: 'update',
+      resource: 'foodGroups',
+    });
+    if (admin.response) return admin.response;
+
+    const { id } = await params;
+    const { reason, ...updates } = await request.json();
+
+    const audit = CatalogAuditSchema.safeParse({ reason });
+    if (!audit.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid reason',
+          details: audit.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const food = await foodGroupOperations.getById(id);
+    if (!food) return notFound();
+
+    // Validate the food as it will look after the update
+    const cleared = Object.keys(updates).filter(key => updates[key] === null);
+    const validation = FoodGroupSchema.safeParse(
+      Object.fromEntries(
+        Object.entries({ ...food, ...updates }).filter(
+          ([key]) => !cleared.includes(key)
+        )
+      )
+    );
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid food group',
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Only what changed is written, so resending a food adds no history
+    const changes = updatesTo(food, sanitizeObject(validation.data));
+    if (Object.keys(changes).length > 0) {
+      await foodGroupOperations.update(
+        id,
+        changes,
+        toAuditContext({ ...audit.data, userId: admin.uid })
+      );
+      await clearFoodGroupCache();
+    }
+
+    return NextResponse.json({ success: true, data: { success: true } });
+  } catch (error) {
+    console.error('Error updating food group:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update food group' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Deactivate a food; see restore to undo it. Foods are never removed, so
+ * their history stays complete; a `reason` query parameter is recorded in it
+ * with the admin deleting it.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const admin = await applyAdminGuard(request, {
+      action: 'delete',
+      resource: 'foodGroups',
+    });
+    if (admin.response) return admin.response;
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+
+    const audit = CatalogAuditSchema.safeParse({
+      reason: searchParams.get('reason') ?? undefined,
+    });
+    if (!audit.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid reason',
+          details: audit.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const food = await foodGroupOperations.getById(id);
+    if (!food) return notFound();
+
+    if (food.isActive) {
+      await foodGroupOperations.delete(
+        id,
+        toAuditContext({ ...audit.data, userId: admin.uid })
+      );
+      await clearFoodGroupCache();
+    }
+
+    return NextResponse.json({ success: true, data: { success: true } });
+  } catch (error) {
+    console.error('Error deleting food group:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete food group' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { foodGroupOperations } from '@/lib/database';
+import { applyAdminGuard } from '@/middleware/adminGuard';
+import { serializeFoods } from '@/lib/foodExport';
+import { FOOD_FILE_TYPES } from '@/lib/foodImport';
+import { FoodExportQuerySchema } from '@/lib/validation/schemas';
+
+// Force dynamic rendering to prevent build-time execution
+export const dynamic = 'force-dynamic';
+
+/**
+ * Download the catalog as csv (the default), tsv, json or ndjson, optionally
+ * narrowed to one `category` or to active (`active=true`) or inactive
+ * (`active=false`) foods. Every format imports back unchanged. Admins only,
+ * since it includes deactivated foods.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await applyAdminGuard(request, {
+      action: 'export',
+      resource: 'foodGroups',
+    });
+    if (admin.response) return admin.response;
+
+    const { searchParams } = new URL(request.url);
+    const validation = FoodExportQuerySchema.safeParse({
+      format: searchParams.get('format') ?? undefined,
+      category: searchParams.get('category') ?? undefined,
+      active: searchParams.get('active') ?? undefined,
+    });
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid export request',
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { format, category, active } = validation.data;
+    const foods = (await foodGroupOperations.getAll({ includeInactive: true }))
+      .filter(
+        food =>
+          (!category || food.category === category) &&
+          (!active || food.isActive === (active === 'true'))
+      )
+      .sort(
+        (a, b) =>
+          a.category.localeCompare(b.category) || a.name.localeCompare(b.name)
+      );
+
+    return new NextResponse(serializeFoods(foods, format), {
+      headers: {
+        'Content-Type': FOOD_FILE_TYPES[format].contentType,
+        'Content-Disposition': `attachment; filename="food-groups.${FOOD_FILE_TYPES[format].extensions[0]}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting food groups:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to export food groups' },
+      { status: 500 }
+    );
+  }
+}
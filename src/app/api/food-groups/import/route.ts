@@ -1,205 +1,155 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { foodGroupOperations } from '@/lib/database';
-import { FoodGroup } from '@/lib/database';
+import { applyAdminGuard } from '@/middleware/adminGuard';
+import { clearFoodGroupCache } from '@/lib/cache/foodGroups';
+import type { AuditContext } from '@/lib/database';
+import { toAuditContext } from '@/lib/foodAudit';
+import {
+  describeImportError,
+  describeImportReport,
+  FOOD_COLUMNS,
+  FoodFileFormat,
+  foodFileFormat,
+  FoodImportOptions,
+  importFoods,
+  parseFoodFile,
+  REQUIRED_COLUMNS,
+} from '@/lib/foodImport';
+import {
+  CatalogAuditSchema,
+  FoodFileFormatSchema,
+} from '@/lib/validation/schemas';
 
 // Force dynamic rendering to prevent build-time execution
 export const dynamic = 'force-dynamic';
 
+type FoodUpload =
+  | {
+      text: string;
+      format: FoodFileFormat;
+      options: FoodImportOptions;
+      audit: AuditContext;
+      error?: undefined;
+    }
+  | {
+      text?: undefined;
+      format?: undefined;
+      options?: undefined;
+      audit?: undefined;
+      error: string;
+    };
+
+const SUPPORTED_FILES = FoodFileFormatSchema.options
+  .map(format => `.${format}`)
+  .join(', ');
+
+// Accept a multipart upload from the import page, whose format comes from
+// the file extension, or JSON from the API client: `{ data, format }`, or
+// `{ csvData }` for CSV. Options, and the `reason` recorded in each changed
+// food's history with the admin importing, come as fields of either.
+async function readUpload(
+  request: NextRequest,
+  userId: string
+): Promise<FoodUpload> {
+  if (request.headers.get('content-type')?.includes('application/json')) {
+    const body = await request.json();
+    const text = body.data ?? body.csvData;
+    const format = FoodFileFormatSchema.safeParse(body.format ?? 'csv');
+    const audit = CatalogAuditSchema.safeParse(body);
+    if (typeof text !== 'string') return { error: 'data is required' };
+    if (!format.success) {
+      return { error: `format must be one of ${SUPPORTED_FILES}` };
+    }
+    if (!audit.success) return { error: 'Invalid reason' };
+    return {
+      text,
+      format: format.data,
+      options: {
+        dryRun: body.dryRun === true,
+        deactivateMissing: body.deactivateMissing === true,
+      },
+      audit: toAuditContext({ ...audit.data, userId }),
+    };
+  }
+
+  const formData = await request.formData();
+  const file = formData.get('file');
+  if (!(file instanceof File)) return { error: 'No file uploaded' };
+  const format = foodFileFormat(file.name);
+  if (!format) {
+    return { error: `Unsupported file type; use ${SUPPORTED_FILES}` };
+  }
+  const audit = CatalogAuditSchema.safeParse({
+    reason: formData.get('reason') ?? undefined,
+  });
+  if (!audit.success) return { error: 'Invalid reason' };
+  return {
+    text: await file.text(),
+    format,
+    options: {
+      dryRun: formData.get('dryRun') === 'true',
+      deactivateMissing: formData.get('deactivateMissing') === 'true',
+    },
+    audit: toAuditContext({ ...audit.data, userId }),
+  };
+}
+
 export async function POST(request: NextRequest) {
   try {
-    const formData = await request.formData();
-    const file = formData.get('file') as File;
-
-    if (!file) {
-      return NextResponse.json(
-        { success: false, error: 'No file uploaded' },
-        { status: 400 }
-      );
-    }
+    const admin = await applyAdminGuard(request, {
+      action: 'import',
+      resource: 'foodGroups',
+    });
+    if (admin.response) return admin.response;
 
-    // Check file type
-    if (!file.name.endsWith('.csv')) {
-      return NextResponse.json(
-        { success: false, error: 'Only CSV files are supported' },
-        { status: 400 }
-      );
+    const { text, format, options, audit, error } = await readUpload(
+      request,
+      admin.uid
+    );
+    if (error !== undefined) {
+      return NextResponse.json({ success: false, error }, { status: 400 });
     }
 
-    // Read and parse CSV
-    const csvText = await file.text();
-    const lines = csvText.split('\n').filter(line => line.trim());
+    const parsed = parseFoodFile(text, format);
 
-    if (lines.length < 2) {
+    if (parsed.missingHeaders.length > 0) {
       return NextResponse.json(
         {
           success: false,
-          error: 'CSV must have at least a header row and one data row',
+          error: `Missing required columns: ${parsed.missingHeaders.join(', ')}`,
         },
         { status: 400 }
       );
     }
 
-    // Parse header row
-    const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
-    console.log('CSV Headers:', headers);
-
-    // Validate required headers
-    const requiredHeaders = ['name', 'category'];
-    const missingHeaders = requiredHeaders.filter(h => !headers.includes(h));
-
-    if (missingHeaders.length > 0) {
+    if (parsed.rowCount === 0) {
+      // A file that does not parse at all has no rows, only its error
       return NextResponse.json(
         {
           success: false,
-          error: `Missing required headers: ${missingHeaders.join(', ')}`,
+          error:
+            parsed.errors.length > 0
+              ? describeImportError(parsed.errors[0])
+              : 'The file must have at least one food',
         },
         { status: 400 }
       );
     }
 
-    // Parse data rows
-    const foodGroups: Omit<FoodGroup, 'id' | 'createdAt' | 'updatedAt'>[] = [];
-    const errors: string[] = [];
-    const successes: string[] = [];
-
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
-
-      try {
-        const values = line.split(',').map(v => v.trim());
-        const row: Record<string, string> = {};
-
-        headers.forEach((header, index) => {
-          if (values[index]) {
-            row[header] = values[index];
-          }
-        });
-
-        // Validate and transform data
-        if (!row.name || !row.category) {
-          errors.push(`Row ${i + 1}: Missing name or category`);
-          continue;
-        }
-
-        // Map CSV columns to database fields
-        const getNutritionValue = (value: string, unit: string = '') => {
-          if (!value) return 0;
-          // Remove units and convert to number
-          const cleanValue = value
-            .replace(new RegExp(`\\s*${unit}\\s*`, 'gi'), '')
-            .trim();
-          const num = parseFloat(cleanValue);
-          return isNaN(num) ? 0 : num;
-        };
-
-        // Create food group object with proper field mapping
-        const foodGroup: Omit<FoodGroup, 'id' | 'createdAt' | 'updatedAt'> = {
-          name: row.name,
-          category: row.category.toLowerCase() as
-            | 'fruits'
-            | 'vegetables'
-            | 'grains'
-            | 'proteins'
-            | 'dairy'
-            | 'nuts'
-            | 'herbs'
-            | 'spices', // Convert to lowercase for enum matching
-          // description field removed - not in FoodGroup interface
-          nutrients: [], // Initialize empty nutrients array
-          benefits: [], // Initialize empty benefits array
-          subcategory: row.subcategory || '',
-          seasonality: (row.seasonality || 'year-round') as
-            | 'spring'
-            | 'summer'
-            | 'fall'
-            | 'winter'
-            | 'year-round',
-          glycemicIndex: parseFloat(row.glycemicindex) || 0,
-          caloriesPer100g: getNutritionValue(
-            row.caloriesper100g || row.calories,
-            '100g'
-          ),
-          proteinPer100g: getNutritionValue(
-            row.proteinper100g || row.protein,
-            'g'
-          ),
-          carbsPer100g: getNutritionValue(row.carbsper100g || row.carbs, 'g'),
-          fatPer100g: getNutritionValue(row.fatper100g || row.fat, 'g'),
-          fiberPer100g: getNutritionValue(row.fiberper100g || row.fiber, 'g'),
-          isActive: true,
-        };
-
-        // Add micronutrients to nutrients array if available
-        if (row.micronutrients) {
-          const micronutrients = row.micronutrients
-            .split(';')
-            .map((m: string) => m.trim());
-          foodGroup.nutrients.push(...micronutrients);
-        }
-
-        // Add health benefits to benefits array if available
-        if (row['health benefits']) {
-          const benefits = row['health benefits']
-            .split(';')
-            .map((b: string) => b.trim());
-          foodGroup.benefits.push(...benefits);
-        }
-
-        // Add other data to nutrients array
-        if (row['dietary tags']) {
-          const dietaryTags = row['dietary tags']
-            .split(';')
-            .map((t: string) => t.trim());
-          foodGroup.nutrients.push(...dietaryTags);
-        }
-
-        if (row['cuisine/origin']) {
-          foodGroup.nutrients.push(row['cuisine/origin']);
-        }
-
-        if (row.pairings) {
-          const pairings = row.pairings.split(';').map((p: string) => p.trim());
-          foodGroup.nutrients.push(...pairings);
-        }
-
-        foodGroups.push(foodGroup);
-        successes.push(`Row ${i + 1}: ${row.name} (${row.category})`);
-      } catch (error) {
-        errors.push(
-          `Row ${i + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`
-        );
-      }
-    }
-
-    // Import to database
-    const importedIds: string[] = [];
-    for (const foodGroup of foodGroups) {
-      try {
-        const id = await foodGroupOperations.create(foodGroup);
-        importedIds.push(id);
-      } catch (error) {
-        errors.push(
-          `Failed to import ${foodGroup.name}: ${error instanceof Error ? error.message : 'Unknown error'}`
-        );
-      }
-    }
+    const report = await importFoods(parsed, audit, options);
+    if (!report.dryRun) await clearFoodGroupCache();
 
     return NextResponse.json({
       success: true,
-      message: `Successfully imported ${importedIds.length} food groups`,
-      imported: importedIds.length,
-      total: foodGroups.length,
-      successes,
-      errors,
-      sampleData: foodGroups.slice(0, 3), // Return first 3 for preview
+      message: describeImportReport(report),
+      data: report,
     });
   } catch (error) {
-    console.error('CSV import error:', error);
+    console.error('Food import error:', error);
     return NextResponse.json(
       {
         success: false,
-        error: 'Failed to process CSV file',
+        // Commits are idempotent, so a failed one can simply be run again
+        error: 'Failed to process the file; it is safe to retry',
         details: error instanceof Error ? error.message : 'Unknown error',
       },
       { status: 500 }
@@ -209,23 +159,26 @@ export async function POST(request: NextRequest) {
 
 export async function GET() {
   return NextResponse.json({
-    message: 'Use POST to upload CSV file',
-    requiredHeaders: ['name', 'category'],
-    optionalHeaders: [
-      'description',
-      'caloriesPer100g',
-      'proteinPer100g',
-      'carbsPer100g',
-      'fatPer100g',
-      'fiberPer100g',
-      'nutrients',
-      'benefits',
-      'subcategory',
-      'seasonality',
-      'glycemicIndex',
-    ],
-    format: 'CSV with comma-separated values',
-    example:
-      'name,category,description,caloriesPer100g,proteinPer100g,carbsPer100g,fatPer100g,fiberPer100g,nutrients,benefits,subcategory,seasonality,glycemicIndex',
+    message: `Use POST to upload a ${SUPPORTED_FILES} file`,
+    requiredHeaders: REQUIRED_COLUMNS,
+    optionalHeaders: FOOD_COLUMNS.filter(
+      column => !REQUIRED_COLUMNS.includes(column)
+    ),
+    options: {
+      dryRun:
+        'true to report what would be created, updated, unchanged or rejected without writing',
+      deactivateMissing:
+        'true to deactivate active foods the file does not list; skipped when any row is rejected',
+      reason:
+        'why, recorded in the history of each food changed with the admin importing',
+    },
+    formats: {
+      csv: 'RFC 4180 CSV: quote fields containing commas, quotes or line breaks, and double quotes inside them. Separate list values (nutrients, benefits, allergens) with semicolons.',
+      tsv: 'Like CSV, separated by tabs',
+      json: 'An array of objects whose properties are the column names',
+      ndjson: 'One such object per line',
+    },
+    matching:
+      'Rows match existing foods by fdcId when both have one, otherwise by name and category',
   });
 }
@@ -0,0 +1,211 @@
+import { NextRequest, NextResponse } from 'next/server';
+import fs from 'fs';
+import path from 'path';
+import { applyAdminGuard } from '@/middleware/adminGuard';
+import { clearFoodGroupCache } from '@/lib/cache/foodGroups';
+import { toAuditContext } from '@/lib/foodAudit';
+import { describeImportReport, importFoods } from '@/lib/foodImport';
+import {
+  FdcFood,
+  mapFdcFoods,
+  parseFdcCsv,
+  parseFdcJson,
+} from '@/lib/usdaImport';
+import {
+  CatalogAuditSchema,
+  UsdaImportRequestSchema,
+} from '@/lib/validation/schemas';
+
+// Force dynamic rendering to prevent build-time execution
+export const dynamic = 'force-dynamic';
+
+// Downloads are read from this directory on the server, never from a path in
+// the request, so only files an administrator placed there can be imported
+const FDC_DIR =
+  process.env.USDA_FDC_DIR || path.join(process.cwd(), 'data', 'usda');
+
+// Datasets are read into memory whole. Foundation Foods, SR Legacy and
+// Survey (FNDDS) fit; the full and Branded Foods downloads run to gigabytes
+// and are refused before anything is read.
+const MAX_DATASET_BYTES = 256 * 1024 * 1024;
+
+// The files of a CSV download an import reads
+const CSV_FILES = [
+  'food.csv',
+  'food_nutrient.csv',
+  'food_category.csv',
+  'food_portion.csv',
+  'measure_unit.csv',
+];
+
+interface FdcDataset {
+  name: string;
+  kind: 'json' | 'csv';
+  bytes: number; // of the files an import reads
+}
+
+const fileSize = (filePath: string) =>
+  fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+
+const toMegabytes = (bytes: number) => Math.ceil(bytes / (1024 * 1024));
+
+// JSON downloads are single files; CSV downloads are unpacked directories
+function listDatasets(): FdcDataset[] {
+  if (!fs.existsSync(FDC_DIR)) return [];
+
+  return fs
+    .readdirSync(FDC_DIR, { withFileTypes: true })
+    .flatMap((entry): FdcDataset[] => {
+      const entryPath = path.join(FDC_DIR, entry.name);
+      if (entry.isFile() && entry.name.toLowerCase().endsWith('.json')) {
+        return [{ name: entry.name, kind: 'json', bytes: fileSize(entryPath) }];
+      }
+      if (
+        entry.isDirectory() &&
+        fs.existsSync(path.join(entryPath, 'food.csv'))
+      ) {
+        const bytes = CSV_FILES.reduce(
+          (total, file) => total + fileSize(path.join(entryPath, file)),
+          0
+        );
+        return [{ name: entry.name, kind: 'csv', bytes }];
+      }
+      return [];
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function readDataset({ name, kind }: FdcDataset): FdcFood[] {
+  if (kind === 'json') {
+    return parseFdcJson(fs.readFileSync(path.join(FDC_DIR, name), 'utf-8'));
+  }
+
+  const read = (file: string) => {
+    const filePath = path.join(FDC_DIR, name, file);
+    return fs.existsSync(filePath)
+      ? fs.readFileSync(filePath, 'utf-8')
+      : undefined;
+  };
+  const foodNutrient = read('food_nutrient.csv');
+  if (!foodNutrient) throw new Error('food_nutrient.csv is missing');
+
+  return parseFdcCsv({
+    food: read('food.csv') ?? '',
+    foodNutrient,
+    foodCategory: read('food_category.csv'),
+    foodPortion: read('food_portion.csv'),
+    measureUnit: read('measure_unit.csv'),
+  });
+}
+
+/**
+ * List the FoodData Central downloads available to import
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await applyAdminGuard(request);
+    if (admin.response) return admin.response;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        directory: FDC_DIR,
+        maxBytes: MAX_DATASET_BYTES,
+        datasets: listDatasets(),
+      },
+    });
+  } catch (error) {
+    console.error('Error listing USDA datasets:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to list USDA datasets' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Import a FoodData Central download into the catalog, or with `dryRun`
+ * report what importing it would change. Foods match existing ones by FDC ID,
+ * then by name and category, so re-importing a newer release updates them.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await applyAdminGuard(request, {
+      action: 'import',
+      resource: 'foodGroups',
+    });
+    if (admin.response) return admin.response;
+
+    const validation = UsdaImportRequestSchema.merge(
+      CatalogAuditSchema
+    ).safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid USDA import request',
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { dataset: name, dryRun, ...audit } = validation.data;
+    const dataset = listDatasets().find(candidate => candidate.name === name);
+    if (!dataset) {
+      return NextResponse.json(
+        { success: false, error: `Dataset not found: ${name}` },
+        { status: 404 }
+      );
+    }
+    if (dataset.bytes > MAX_DATASET_BYTES) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Dataset too large',
+          details: `${name} is ${toMegabytes(dataset.bytes)} MB; datasets over ${toMegabytes(MAX_DATASET_BYTES)} MB, such as the full and Branded Foods downloads, cannot be imported`,
+        },
+        { status: 413 }
+      );
+    }
+
+    let foods: FdcFood[];
+    try {
+      foods = readDataset(dataset);
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Could not read the USDA dataset',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        { status: 400 }
+      );
+    }
+
+    const { skipped, ...parsed } = mapFdcFoods(foods);
+    const report = await importFoods(
+      parsed,
+      toAuditContext({ ...audit, userId: admin.uid }),
+      { dryRun }
+    );
+    if (!dryRun) await clearFoodGroupCache();
+
+    return NextResponse.json({
+      success: true,
+      message: `${describeImportReport(report)}; ${skipped} foods outside the catalog's categories skipped`,
+      data: { ...report, skipped },
+    });
+  } catch (error) {
+    console.error('USDA import error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        // Commits are idempotent, so a failed one can simply be run again
+        error: 'Failed to import the USDA dataset; it is safe to retry',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,18 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { foodGroupOperations } from '@/lib/database';
-import { getFallbackFoodGroups } from '@/lib/fallbackData';
+import { queryFallbackFoodGroups } from '@/lib/fallbackData';
+import {
+  foodGroupQueryKey,
+  readFoodGroupQuery,
+  toFoodGroupPageResponse,
+} from '@/lib/foodQuery';
+import type { FoodGroupPage } from '@/lib/foodQuery';
+import { applyAdminGuard } from '@/middleware/adminGuard';
 import { applyRateLimit } from '@/middleware/rateLimit';
 import {
   createSecurityMiddleware,
   secureResponse,
 } from '@/middleware/security';
+import { toAuditContext } from '@/lib/foodAudit';
 import {
+  CatalogAuditSchema,
+  FoodGroupQuerySchema,
   FoodGroupSchema,
-  SearchQuerySchema,
-  CategoryFilterSchema,
 } from '@/lib/validation/schemas';
 import { sanitizeInput, sanitizeObject } from '@/lib/validation/sanitization';
 import { cache } from '@/lib/cache';
+import {
+  clearFoodGroupCache,
+  FOOD_GROUPS_CACHE_PREFIX as CACHE_PREFIX,
+} from '@/lib/cache/foodGroups';
 import { monitoring } from '@/lib/monitoring';
 
 // Force dynamic rendering to prevent build-time execution
@@ -20,7 +32,6 @@ export const dynamic = 'force-dynamic';
 
 // Cache configuration
 const CACHE_TTL = 1800; // 30 minutes
-const CACHE_PREFIX = 'food-groups';
 
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
@@ -42,66 +53,48 @@ export async function GET(request: NextRequest) {
 
     const { searchParams } = new URL(request.url);
 
-    // Validate and sanitize query parameters
-    const categoryParam = searchParams.get('category');
-    const searchParam = searchParams.get('search');
-
-    // Validate category parameter
-    if (categoryParam) {
-      const categoryValidation = CategoryFilterSchema.safeParse(categoryParam);
-      if (!categoryValidation.success) {
-        monitoring.error('Invalid category parameter', {
-          category: categoryParam,
-          errors: categoryValidation.error.issues,
-        });
-
-        return secureResponse(
-          NextResponse.json(
-            {
-              success: false,
-              error: 'Invalid category parameter',
-              details: categoryValidation.error.issues,
-            },
-            { status: 400 }
-          )
-        );
-      }
+    // Validate query parameters: filters, sort and page, see readFoodGroupQuery
+    const validation = FoodGroupQuerySchema.safeParse(
+      readFoodGroupQuery(searchParams)
+    );
+    if (!validation.success) {
+      monitoring.error('Invalid food group query', {
+        query: searchParams.toString(),
+        errors: validation.error.issues,
+      });
+
+      return secureResponse(
+        NextResponse.json(
+          {
+            success: false,
+            error: 'Invalid food group query',
+            details: validation.error.issues,
+          },
+          { status: 400 }
+        )
+      );
     }
 
-    // Validate search parameter
-    if (searchParam) {
-      const searchValidation = SearchQuerySchema.safeParse(searchParam);
-      if (!searchValidation.success) {
-        monitoring.error('Invalid search parameter', {
-          search: searchParam,
-          errors: searchValidation.error.issues,
-        });
-
-        return secureResponse(
-          NextResponse.json(
-            {
-              success: false,
-              error: 'Invalid search parameter',
-              details: searchValidation.error.issues,
-            },
-            { status: 400 }
-          )
-        );
-      }
+    // Deactivated foods are listed for admins managing the catalog
+    if (validation.data.includeInactive) {
+      const admin = await applyAdminGuard(request);
+      if (admin.response) return secureResponse(admin.response);
     }
 
     // Sanitize parameters
-    const category = categoryParam ? sanitizeInput(categoryParam) : null;
-    const search = searchParam ? sanitizeInput(searchParam) : null;
+    const query = {
+      ...validation.data,
+      search: validation.data.search && sanitizeInput(validation.data.search),
+    };
 
-    monitoring.info('Food groups API parameters', { category, search });
+    monitoring.info('Food groups API parameters', { query });
 
-    // Generate cache key
-    const cacheKey = `query:${category || 'all'}:${search || 'none'}`;
+    // Queries asking for the same page share a cache entry
+    const cacheKey = `page:${foodGroupQueryKey(query)}`;
 
     // Try to get from cache first
-    const cachedData = await cache.get(CACHE_PREFIX, cacheKey);
-    if (cachedData) {
+    const cachedPage = await cache.get<FoodGroupPage>(CACHE_PREFIX, cacheKey);
+    if (cachedPage) {
       monitoring.info('Cache hit for food groups', { cacheKey });
       monitoring.recordMetric({
         name: 'cache_hit',
@@ -115,9 +108,7 @@ export async function GET(request: NextRequest) {
 
       return secureResponse(
         NextResponse.json({
-          success: true,
-          data: cachedData,
-          count: Array.isArray(cachedData) ? cachedData.length : 0,
+          ...toFoodGroupPageResponse(cachedPage),
           cached: true,
           responseTime,
         })
@@ -128,38 +119,17 @@ export async function GET(request: NextRequest) {
       cacheKey,
     });
 
-    let foodGroups;
-
     try {
-      if (search) {
-        monitoring.info('Searching food groups', { query: search });
-        foodGroups = await foodGroupOperations.search(search);
-      } else if (category) {
-        monitoring.info('Getting food groups by category', { category });
-        foodGroups = await foodGroupOperations.getByCategory(
-          category as
-            | 'fruits'
-            | 'vegetables'
-            | 'grains'
-            | 'proteins'
-            | 'dairy'
-            | 'nuts'
-            | 'herbs'
-            | 'spices'
-        );
-      } else {
-        monitoring.info('Getting all food groups');
-        foodGroups = await foodGroupOperations.getAll();
-      }
+      const page = await foodGroupOperations.query(query);
 
       monitoring.info('Successfully retrieved food groups from database', {
-        count: foodGroups.length,
-        category,
-        search,
+        count: page.items.length,
+        total: page.total,
+        cacheKey,
       });
 
       // Cache the results
-      await cache.set(CACHE_PREFIX, cacheKey, foodGroups, CACHE_TTL);
+      await cache.set(CACHE_PREFIX, cacheKey, page, CACHE_TTL);
       monitoring.info('Cached food groups data', { cacheKey, ttl: CACHE_TTL });
 
       const responseTime = Date.now() - startTime;
@@ -173,9 +143,7 @@ export async function GET(request: NextRequest) {
 
       return secureResponse(
         NextResponse.json({
-          success: true,
-          data: foodGroups,
-          count: foodGroups.length,
+          ...toFoodGroupPageResponse(page),
           cached: false,
           responseTime,
         })
@@ -183,26 +151,19 @@ export async function GET(request: NextRequest) {
     } catch (dbError) {
       monitoring.error('Database operation failed, using fallback data', {
         error: dbError instanceof Error ? dbError.message : 'Unknown error',
-        category,
-        search,
+        cacheKey,
       });
 
       // Use fallback data when Firebase fails
-      if (search) {
-        foodGroups = getFallbackFoodGroups(undefined, search);
-      } else if (category) {
-        foodGroups = getFallbackFoodGroups(category);
-      } else {
-        foodGroups = getFallbackFoodGroups();
-      }
+      const page = queryFallbackFoodGroups(query);
 
       monitoring.info('Using fallback data', {
-        count: foodGroups.length,
+        count: page.items.length,
         fallback: true,
       });
 
       // Cache fallback data with shorter TTL
-      await cache.set(CACHE_PREFIX, cacheKey, foodGroups, 300); // 5 minutes
+      await cache.set(CACHE_PREFIX, cacheKey, page, 300); // 5 minutes
 
       const responseTime = Date.now() - startTime;
       monitoring.recordRequestTime(responseTime);
@@ -215,9 +176,7 @@ export async function GET(request: NextRequest) {
 
       return secureResponse(
         NextResponse.json({
-          success: true,
-          data: foodGroups,
-          count: foodGroups.length,
+          ...toFoodGroupPageResponse(page),
           fallback: true,
           cached: false,
           message: 'Using fallback data - Firebase not available',
@@ -271,10 +230,18 @@ export async function POST(request: NextRequest) {
     const securityResponse = await securityMiddleware(request);
     if (securityResponse) return securityResponse;
 
+    const admin = await applyAdminGuard(request, {
+      action: 'create',
+      resource: 'foodGroups',
+    });
+    if (admin.response) return secureResponse(admin.response);
+
     const body = await request.json();
 
-    // Validate request body using Zod schema
-    const validationResult = FoodGroupSchema.safeParse(body);
+    // Validate request body using Zod schema; `reason` is recorded in the
+    // food's history with the admin creating it
+    const validationResult =
+      FoodGroupSchema.merge(CatalogAuditSchema).safeParse(body);
     if (!validationResult.success) {
       monitoring.error('Invalid food group data', {
         errors: validationResult.error.issues,
@@ -293,7 +260,8 @@ export async function POST(request: NextRequest) {
     }
 
     // Sanitize the validated data
-    const sanitizedData = sanitizeObject(validationResult.data);
+    const { reason, ...food } = validationResult.data;
+    const sanitizedData = sanitizeObject(food);
 
     monitoring.info('Creating new food group', {
       name: sanitizedData.name,
@@ -301,10 +269,13 @@ export async function POST(request: NextRequest) {
     });
 
     // Create new food group using sanitized data
-    const foodGroupId = await foodGroupOperations.create(sanitizedData);
+    const foodGroupId = await foodGroupOperations.create(
+      sanitizedData,
+      toAuditContext({ userId: admin.uid, reason })
+    );
 
-    // Clear cache for this category to ensure fresh data
-    await cache.clearPrefix(CACHE_PREFIX);
+    // Cached pages may now be missing the new food
+    await clearFoodGroupCache();
 
     monitoring.info('Food group created successfully', {
       id: foodGroupId,
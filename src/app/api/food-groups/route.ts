@@ -1,15 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { clearFoodGroupCache } from '@/lib/cache/foodGroups';
 import { foodGroupOperations } from '@/lib/database';
-import { getFallbackFoodGroups } from '@/lib/fallbackData';
+import { queryFallbackFoodGroups } from '@/lib/fallbackData';
+import { readFoodGroupQuery, toFoodGroupPageResponse } from '@/lib/foodQuery';
+import { applyAdminGuard } from '@/middleware/adminGuard';
 import { applyRateLimit } from '@/middleware/rateLimit';
 import {
   createSecurityMiddleware,
   secureResponse,
 } from '@/middleware/security';
+import { toAuditContext } from '@/lib/foodAudit';
 import {
+  CatalogAuditSchema,
+  FoodGroupQuerySchema,
   FoodGroupSchema,
-  SearchQuerySchema,
-  CategoryFilterSchema,
 } from '@/lib/validation/schemas';
 import { sanitizeInput, sanitizeObject } from '@/lib/validation/sanitization';
 
@@ -33,90 +37,49 @@ export async function GET(request: NextRequest) {
     console.log('[food-groups] API called');
     const { searchParams } = new URL(request.url);
 
-    // Validate and sanitize query parameters
-    const categoryParam = searchParams.get('category');
-    const searchParam = searchParams.get('search');
-
-    // Validate category parameter
-    if (categoryParam) {
-      const categoryValidation = CategoryFilterSchema.safeParse(categoryParam);
-      if (!categoryValidation.success) {
-        return secureResponse(
-          NextResponse.json(
-            {
-              success: false,
-              error: 'Invalid category parameter',
-              details: categoryValidation.error.issues,
-            },
-            { status: 400 }
-          )
-        );
-      }
+    // Validate query parameters: filters, sort and page, see readFoodGroupQuery
+    const validation = FoodGroupQuerySchema.safeParse(
+      readFoodGroupQuery(searchParams)
+    );
+    if (!validation.success) {
+      return secureResponse(
+        NextResponse.json(
+          {
+            success: false,
+            error: 'Invalid food group query',
+            details: validation.error.issues,
+          },
+          { status: 400 }
+        )
+      );
     }
 
-    // Validate search parameter
-    if (searchParam) {
-      const searchValidation = SearchQuerySchema.safeParse(searchParam);
-      if (!searchValidation.success) {
-        return secureResponse(
-          NextResponse.json(
-            {
-              success: false,
-              error: 'Invalid search parameter',
-              details: searchValidation.error.issues,
-            },
-            { status: 400 }
-          )
-        );
-      }
+    // Deactivated foods are listed for admins managing the catalog
+    if (validation.data.includeInactive) {
+      const admin = await applyAdminGuard(request);
+      if (admin.response) return secureResponse(admin.response);
     }
 
     // Sanitize parameters
-    const category = categoryParam ? sanitizeInput(categoryParam) : null;
-    const search = searchParam ? sanitizeInput(searchParam) : null;
-
-    console.log('[food-groups] Params:', { category, search });
+    const query = {
+      ...validation.data,
+      search: validation.data.search && sanitizeInput(validation.data.search),
+    };
 
-    let foodGroups;
+    console.log('[food-groups] Query:', query);
 
     try {
-      if (search) {
-        console.log('[food-groups] Searching for:', search);
-        // Search across all food groups
-        foodGroups = await foodGroupOperations.search(search);
-      } else if (category) {
-        console.log('[food-groups] Getting category:', category);
-        // Get food groups by specific category
-        foodGroups = await foodGroupOperations.getByCategory(
-          category as
-            | 'fruits'
-            | 'vegetables'
-            | 'grains'
-            | 'proteins'
-            | 'dairy'
-            | 'nuts'
-            | 'herbs'
-            | 'spices'
-        );
-      } else {
-        console.log('[food-groups] Getting all food groups');
-        // Get all food groups
-        foodGroups = await foodGroupOperations.getAll();
-      }
+      const page = await foodGroupOperations.query(query);
 
       console.log(
         '[food-groups] Successfully retrieved',
-        foodGroups.length,
+        page.items.length,
+        'of',
+        page.total,
         'food groups'
       );
 
-      return secureResponse(
-        NextResponse.json({
-          success: true,
-          data: foodGroups,
-          count: foodGroups.length,
-        })
-      );
+      return secureResponse(NextResponse.json(toFoodGroupPageResponse(page)));
     } catch (dbError) {
       console.error(
         '[food-groups] Database operation failed, using fallback data:',
@@ -124,25 +87,17 @@ export async function GET(request: NextRequest) {
       );
 
       // Use fallback data when Firebase fails
-      if (search) {
-        foodGroups = getFallbackFoodGroups(undefined, search);
-      } else if (category) {
-        foodGroups = getFallbackFoodGroups(category);
-      } else {
-        foodGroups = getFallbackFoodGroups();
-      }
+      const page = queryFallbackFoodGroups(query);
 
       console.log(
         '[food-groups] Using fallback data:',
-        foodGroups.length,
+        page.items.length,
         'food groups'
       );
 
       return secureResponse(
         NextResponse.json({
-          success: true,
-          data: foodGroups,
-          count: foodGroups.length,
+          ...toFoodGroupPageResponse(page),
           fallback: true,
           message: 'Using fallback data - Firebase not available',
         })
@@ -181,10 +136,18 @@ export async function POST(request: NextRequest) {
     const securityResponse = await securityMiddleware(request);
     if (securityResponse) return securityResponse;
 
+    const admin = await applyAdminGuard(request, {
+      action: 'create',
+      resource: 'foodGroups',
+    });
+    if (admin.response) return secureResponse(admin.response);
+
     const body = await request.json();
 
-    // Validate request body using Zod schema
-    const validationResult = FoodGroupSchema.safeParse(body);
+    // Validate request body using Zod schema; `reason` is recorded in the
+    // food's history with the admin creating it
+    const validationResult =
+      FoodGroupSchema.merge(CatalogAuditSchema).safeParse(body);
     if (!validationResult.success) {
       return secureResponse(
         NextResponse.json(
@@ -199,10 +162,15 @@ export async function POST(request: NextRequest) {
     }
 
     // Sanitize the validated data
-    const sanitizedData = sanitizeObject(validationResult.data);
+    const { reason, ...food } = validationResult.data;
+    const sanitizedData = sanitizeObject(food);
 
     // Create new food group using sanitized data
-    const foodGroupId = await foodGroupOperations.create(sanitizedData);
+    const foodGroupId = await foodGroupOperations.create(
+      sanitizedData,
+      toAuditContext({ userId: admin.uid, reason })
+    );
+    await clearFoodGroupCache();
 
     return secureResponse(
       NextResponse.json(
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import { FoodLogEntry, foodLogOperations } from '@/lib/database';
+import { FoodLogUpdateSchema } from '@/lib/validation/schemas';
+import { sanitizeObject } from '@/lib/validation/sanitization';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+type OwnedEntry =
+  | { entry: FoodLogEntry; response?: undefined }
+  | { entry?: undefined; response: NextResponse };
+
+// Load an entry and make sure it belongs to the signed-in user
+async function loadOwnedEntry(
+  request: NextRequest,
+  id: string,
+  userId: string | null | undefined
+): Promise<OwnedEntry> {
+  const uid = await requireUser(request, userId);
+
+  const entry = await foodLogOperations.getById(id);
+  if (!entry) {
+    return {
+      response: NextResponse.json(
+        { success: false, error: 'Food log entry not found' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  if (entry.userId !== uid) {
+    return {
+      response: NextResponse.json(
+        { success: false, error: 'Food log entry belongs to another user' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { entry };
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const { response } = await loadOwnedEntry(request, id, body.userId);
+    if (response) return response;
+
+    const validation = FoodLogUpdateSchema.safeParse(body.updates ?? {});
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid food log entry',
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    await foodLogOperations.update(id, sanitizeObject(validation.data));
+
+    return NextResponse.json({ success: true, data: { success: true } });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error updating food log entry:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update food log entry' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const userId = new URL(request.url).searchParams.get('userId');
+
+    const { response } = await loadOwnedEntry(request, id, userId);
+    if (response) return response;
+
+    await foodLogOperations.delete(id);
+
+    return NextResponse.json({ success: true, data: { success: true } });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error deleting food log entry:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete food log entry' },
+      { status: 500 }
+    );
+  }
+}
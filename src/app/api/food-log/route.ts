@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import {
+  foodGroupOperations,
+  foodLogOperations,
+  savedCombinationsOperations,
+} from '@/lib/database';
+import { fallbackFoodGroups } from '@/lib/fallbackData';
+import { summarizeDiary } from '@/lib/foodLog';
+import { DiaryDateSchema, FoodLogEntrySchema } from '@/lib/validation/schemas';
+import { sanitizeObject } from '@/lib/validation/sanitization';
+
+/**
+ * Get a user's diary between `from` and `to` (inclusive, YYYY-MM-DD),
+ * grouped by day with daily and per-slot macro totals
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = await requireUser(request, searchParams.get('userId'));
+    const from = searchParams.get('from');
+    const to = searchParams.get('to') ?? from;
+
+    if (
+      !DiaryDateSchema.safeParse(from).success ||
+      !DiaryDateSchema.safeParse(to).success
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'from and to must be YYYY-MM-DD dates' },
+        { status: 400 }
+      );
+    }
+
+    // Entries logged before a food was deactivated still count
+    const [entries, combinations, foods] = await Promise.all([
+      foodLogOperations.getByUserId(userId, from ?? undefined, to ?? undefined),
+      savedCombinationsOperations.getByUserId(userId),
+      foodGroupOperations
+        .getAll({ includeInactive: true })
+        .catch(() => fallbackFoodGroups),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: summarizeDiary(
+        entries,
+        foods.length > 0 ? foods : fallbackFoodGroups,
+        combinations
+      ),
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error fetching food log:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch food log' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const userId = await requireUser(request, body.userId);
+
+    if (!body.entry) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required field: entry' },
+        { status: 400 }
+      );
+    }
+
+    const validation = FoodLogEntrySchema.safeParse(body.entry);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid food log entry',
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const entry = sanitizeObject(validation.data);
+
+    // Resolve the reference now so the entry keeps a readable name
+    let name: string | undefined;
+    if (entry.combinationId) {
+      const combination = await savedCombinationsOperations.getById(
+        entry.combinationId
+      );
+      if (combination && combination.userId !== userId) {
+        return NextResponse.json(
+          { success: false, error: 'Combination belongs to another user' },
+          { status: 403 }
+        );
+      }
+      name = combination?.name;
+    } else {
+      const foods = await foodGroupOperations
+        .getAll()
+        .catch(() => fallbackFoodGroups);
+      name = (foods.length > 0 ? foods : fallbackFoodGroups).find(
+        food => food.id === entry.foodGroupId
+      )?.name;
+    }
+
+    if (!name) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: entry.combinationId
+            ? 'Saved combination not found'
+            : 'Food not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const id = await foodLogOperations.create({
+      ...entry,
+      userId,
+      name,
+    });
+
+    return NextResponse.json(
+      { success: true, message: 'Entry logged successfully', data: { id } },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error logging food:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to log food',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import { NutritionGoal, nutritionGoalsOperations } from '@/lib/database';
+import { NutritionGoalSchema } from '@/lib/validation/schemas';
+import { sanitizeObject } from '@/lib/validation/sanitization';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+type OwnedGoal =
+  | { goal: NutritionGoal; response?: undefined }
+  | { goal?: undefined; response: NextResponse };
+
+// Load a goal and make sure it belongs to the signed-in user
+async function loadOwnedGoal(
+  request: NextRequest,
+  id: string,
+  userId: string | null | undefined
+): Promise<OwnedGoal> {
+  const uid = await requireUser(request, userId);
+
+  const goal = await nutritionGoalsOperations.getById(id);
+  if (!goal) {
+    return {
+      response: NextResponse.json(
+        { success: false, error: 'Nutrition goal not found' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  if (goal.userId !== uid) {
+    return {
+      response: NextResponse.json(
+        { success: false, error: 'Nutrition goal belongs to another user' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { goal };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const userId = new URL(request.url).searchParams.get('userId');
+
+    const { goal, response } = await loadOwnedGoal(request, id, userId);
+    if (response) return response;
+
+    return NextResponse.json({ success: true, data: goal });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error fetching nutrition goal:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch nutrition goal' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const { goal, response } = await loadOwnedGoal(request, id, body.userId);
+    if (response) return response;
+
+    // Validate the goal as it will look after the update. Targets sent as
+    // null are cleared.
+    const updates: Record<string, unknown> = body.updates ?? {};
+    const cleared = Object.keys(updates).filter(key => updates[key] === null);
+    const validation = NutritionGoalSchema.safeParse(
+      Object.fromEntries(
+        Object.entries({ ...goal, ...updates }).filter(
+          ([key]) => !cleared.includes(key)
+        )
+      )
+    );
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid nutrition goal',
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const updated = sanitizeObject(validation.data);
+    await nutritionGoalsOperations.update(id, {
+      ...Object.fromEntries(cleared.map(key => [key, undefined])),
+      ...updated,
+    });
+    if (updated.isActive && !goal.isActive) {
+      await nutritionGoalsOperations.activate(goal.userId, id);
+    }
+
+    return NextResponse.json({ success: true, data: { success: true } });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error updating nutrition goal:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update nutrition goal' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const userId = new URL(request.url).searchParams.get('userId');
+
+    const { response } = await loadOwnedGoal(request, id, userId);
+    if (response) return response;
+
+    await nutritionGoalsOperations.delete(id);
+
+    return NextResponse.json({ success: true, data: { success: true } });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error deleting nutrition goal:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete nutrition goal' },
+      { status: 500 }
+    );
+  }
+}
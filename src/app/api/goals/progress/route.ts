@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import {
+  foodGroupOperations,
+  foodLogOperations,
+  nutritionGoalsOperations,
+  savedCombinationsOperations,
+} from '@/lib/database';
+import { fallbackFoodGroups } from '@/lib/fallbackData';
+import { summarizeDiary } from '@/lib/foodLog';
+import {
+  eatenEntries,
+  GoalPeriod,
+  savedCombinationEntries,
+  summarizeGoalProgress,
+} from '@/lib/goals';
+
+const MAX_PERIODS = { day: 90, week: 52 } as const;
+const DEFAULT_PERIODS = { day: 14, week: 8 } as const;
+
+/**
+ * Compare saved and eaten nutrition with a goal, averaged per day over the
+ * last few days or weeks. Uses the active goal unless `goalId` is given.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = await requireUser(request, searchParams.get('userId'));
+    const goalId = searchParams.get('goalId');
+    const period = (searchParams.get('period') ?? 'day') as GoalPeriod;
+    const count = Number(searchParams.get('count') ?? DEFAULT_PERIODS[period]);
+
+    if (period !== 'day' && period !== 'week') {
+      return NextResponse.json(
+        { success: false, error: 'period must be "day" or "week"' },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(count) || count < 1 || count > MAX_PERIODS[period]) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `count must be between 1 and ${MAX_PERIODS[period]}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const goal = goalId
+      ? await nutritionGoalsOperations.getById(goalId)
+      : await nutritionGoalsOperations.getActive(userId);
+    if (!goal) {
+      return NextResponse.json(
+        { success: false, error: 'Nutrition goal not found' },
+        { status: 404 }
+      );
+    }
+    if (goal.userId !== userId) {
+      return NextResponse.json(
+        { success: false, error: 'Nutrition goal belongs to another user' },
+        { status: 403 }
+      );
+    }
+
+    const [combinations, diary, loaded] = await Promise.all([
+      savedCombinationsOperations.getByUserId(userId),
+      foodLogOperations.getByUserId(userId),
+      foodGroupOperations
+        .getAll({ includeInactive: true })
+        .catch(() => fallbackFoodGroups),
+    ]);
+    const foods = loaded.length > 0 ? loaded : fallbackFoodGroups;
+    const entries = [
+      ...savedCombinationEntries(combinations, foods),
+      ...eatenEntries(summarizeDiary(diary, foods, combinations)),
+    ];
+
+    return NextResponse.json({
+      success: true,
+      data: summarizeGoalProgress(goal, entries, period, count),
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error fetching goal progress:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch goal progress' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import { nutritionGoalsOperations } from '@/lib/database';
+import { NutritionGoalSchema } from '@/lib/validation/schemas';
+import { sanitizeObject } from '@/lib/validation/sanitization';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = await requireUser(request, searchParams.get('userId'));
+
+    const goals = await nutritionGoalsOperations.getByUserId(userId);
+
+    return NextResponse.json({ success: true, data: goals });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error fetching nutrition goals:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch nutrition goals' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const userId = await requireUser(request, body.userId);
+
+    if (!body.goal) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required field: goal' },
+        { status: 400 }
+      );
+    }
+
+    const validation = NutritionGoalSchema.safeParse(body.goal);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid nutrition goal',
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const goal = sanitizeObject(validation.data);
+    const id = await nutritionGoalsOperations.create(userId, goal);
+    // Only one goal is active at a time
+    if (goal.isActive) {
+      await nutritionGoalsOperations.activate(userId, id);
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Nutrition goal saved successfully',
+        data: { id },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error saving nutrition goal:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to save nutrition goal',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
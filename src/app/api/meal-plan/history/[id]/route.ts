@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import { generationHistoryOperations } from '@/lib/database';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const userId = await requireUser(
+      request,
+      new URL(request.url).searchParams.get('userId')
+    );
+
+    const generation = await generationHistoryOperations.getById(id);
+    if (!generation) {
+      return NextResponse.json(
+        { success: false, error: 'Generation not found' },
+        { status: 404 }
+      );
+    }
+
+    if (generation.userId !== userId) {
+      return NextResponse.json(
+        { success: false, error: 'Generation belongs to another user' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: generation });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error fetching generation:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch generation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import { generationHistoryOperations } from '@/lib/database';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = await requireUser(request, searchParams.get('userId'));
+
+    const generations = await generationHistoryOperations.getByUserId(userId);
+
+    return NextResponse.json({ success: true, data: generations });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error fetching meal plan history:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch meal plan history' },
+      { status: 500 }
+    );
+  }
+}
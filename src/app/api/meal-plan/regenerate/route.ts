@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import { generateMealPlan } from '@/lib/ai';
+import { recordGeneration } from '@/lib/generationHistory';
+import { withActiveGoal } from '@/lib/goals';
+import { withPantry } from '@/lib/pantry';
+import { loadUserPreferences, mergePreferences } from '@/lib/preferences';
+import { applyRateLimit } from '@/middleware/rateLimit';
+import {
+  createSecurityMiddleware,
+  secureResponse,
+} from '@/middleware/security';
+import { MealPlanRegenerationRequestSchema } from '@/lib/validation/schemas';
+import { sanitizeObject } from '@/lib/validation/sanitization';
+
+/**
+ * Regenerate part of an existing week: the targeted days (or just some of
+ * their categories) get new ingredients while locked ingredients and every
+ * other day are kept. A meal plan instead sends its `plan` options and the
+ * meals to replace by day and slot. Responds with the full merged week or
+ * plan.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Apply rate limiting (strict for AI endpoints)
+    const rateLimitResponse = await applyRateLimit(request, 'ai');
+    if (rateLimitResponse) return rateLimitResponse;
+
+    // Apply security middleware
+    const securityMiddleware = createSecurityMiddleware({
+      allowedMethods: ['POST'],
+      maxRequestSize: 1024 * 1024, // 1MB
+    });
+    const securityResponse = await securityMiddleware(request);
+    if (securityResponse) return securityResponse;
+
+    const body = await request.json();
+
+    const validationResult = MealPlanRegenerationRequestSchema.safeParse(body);
+    if (!validationResult.success) {
+      return secureResponse(
+        NextResponse.json(
+          {
+            success: false,
+            error: 'Invalid request data',
+            details: validationResult.error.issues,
+          },
+          { status: 400 }
+        )
+      );
+    }
+
+    const {
+      userId: requestedUserId,
+      parentId,
+      regenerate,
+      regenerateMeals,
+      ...sanitizedData
+    } = sanitizeObject(validationResult.data);
+    // Anyone may generate; naming a user, whose preferences, goal, pantry
+    // and history are used, requires being signed in as them
+    const userId = requestedUserId
+      ? await requireUser(request, requestedUserId)
+      : undefined;
+    // The pantry is stored per user, so pantry modes need a signed-in user
+    if (sanitizedData.pantryMode && !userId) {
+      return secureResponse(
+        NextResponse.json(
+          { success: false, error: 'userId is required for pantry modes' },
+          { status: 400 }
+        )
+      );
+    }
+
+    const inputs = userId
+      ? await withPantry(
+          await withActiveGoal(
+            mergePreferences(sanitizedData, await loadUserPreferences(userId)),
+            userId
+          ),
+          userId
+        )
+      : sanitizedData;
+
+    const response = await generateMealPlan({
+      ...inputs,
+      regenerate,
+      regenerateMeals,
+    });
+    // The stored inputs describe the request; the week or plan it started
+    // from is already recorded on the parent generation
+    const generationId = userId
+      ? await recordGeneration(userId, parentId, inputs, response)
+      : undefined;
+
+    if (response.success && response.mealPlan) {
+      return secureResponse(
+        NextResponse.json({
+          success: true,
+          data: {
+            ...response.mealPlan,
+            generationId,
+            violations: response.violations,
+            pantryUsage: response.pantryUsage,
+          },
+        })
+      );
+    } else if (response.success && response.combinations) {
+      return secureResponse(
+        NextResponse.json({
+          success: true,
+          data: {
+            combinations: response.combinations,
+            provider: response.provider,
+            seed: response.seed,
+            coverage: response.coverage,
+            violations: response.violations,
+            pantryUsage: response.pantryUsage,
+            generationId,
+          },
+        })
+      );
+    }
+
+    return secureResponse(
+      NextResponse.json(
+        {
+          success: false,
+          error: response.error || 'Failed to regenerate meal plan',
+        },
+        { status: 500 }
+      )
+    );
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return secureResponse(
+        NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.status }
+        )
+      );
+    }
+    console.error('Meal plan regeneration error:', error);
+    return secureResponse(
+      NextResponse.json(
+        {
+          success: false,
+          error: 'Internal server error',
+        },
+        { status: 500 }
+      )
+    );
+  }
+}
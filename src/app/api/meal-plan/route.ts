@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
 import { generateMealPlan, MealPlanRequest } from '@/lib/ai';
+import { recordGeneration } from '@/lib/generationHistory';
+import { withActiveGoal } from '@/lib/goals';
+import { withPantry } from '@/lib/pantry';
+import { loadUserPreferences, mergePreferences } from '@/lib/preferences';
 import { applyRateLimit } from '@/middleware/rateLimit';
 import {
   createSecurityMiddleware,
@@ -43,16 +48,71 @@ export async function POST(request: NextRequest) {
     }
 
     // Sanitize the validated data
-    const sanitizedData = sanitizeObject(validationResult.data);
+    const {
+      userId: requestedUserId,
+      parentId,
+      ...sanitizedData
+    } = sanitizeObject(validationResult.data);
+    // Anyone may generate; naming a user, whose preferences, goal, pantry
+    // and history are used, requires being signed in as them
+    const userId = requestedUserId
+      ? await requireUser(request, requestedUserId)
+      : undefined;
+
+    // The pantry is stored per user, so pantry modes need a signed-in user
+    if (sanitizedData.pantryMode && !userId) {
+      return secureResponse(
+        NextResponse.json(
+          { success: false, error: 'userId is required for pantry modes' },
+          { status: 400 }
+        )
+      );
+    }
+
+    // Signed-in users get their stored preferences applied automatically,
+    // their active goal when they ask to optimize for it and their pantry
+    // when they ask for a pantry mode
+    const inputs = userId
+      ? await withPantry(
+          await withActiveGoal(
+            mergePreferences(sanitizedData, await loadUserPreferences(userId)),
+            userId
+          ),
+          userId
+        )
+      : sanitizedData;
 
     // Generate the meal plan using the server-side AI function with sanitized data
-    const response = await generateMealPlan(sanitizedData);
+    const response = await generateMealPlan(inputs);
+    const generationId = userId
+      ? await recordGeneration(userId, parentId, inputs, response)
+      : undefined;
 
     if (response.success && response.mealPlan) {
       return secureResponse(
         NextResponse.json({
           success: true,
-          mealPlan: response.mealPlan,
+          data: {
+            ...response.mealPlan,
+            generationId,
+            violations: response.violations,
+            pantryUsage: response.pantryUsage,
+          },
+        })
+      );
+    } else if (response.success && response.combinations) {
+      return secureResponse(
+        NextResponse.json({
+          success: true,
+          data: {
+            combinations: response.combinations,
+            provider: response.provider,
+            seed: response.seed,
+            coverage: response.coverage,
+            violations: response.violations,
+            pantryUsage: response.pantryUsage,
+            generationId,
+          },
         })
       );
     } else {
@@ -67,6 +127,14 @@ export async function POST(request: NextRequest) {
       );
     }
   } catch (error) {
+    if (error instanceof AuthError) {
+      return secureResponse(
+        NextResponse.json(
+          { success: false, error: error.message },
+          { status: error.status }
+        )
+      );
+    }
     console.error('Meal plan generation error:', error);
     return secureResponse(
       NextResponse.json(
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import { foodGroupOperations, mealPlanOperations } from '@/lib/database';
+import { fallbackFoodGroups } from '@/lib/fallbackData';
+import { composeMealPlan, MealPlan } from '@/lib/mealPlans';
+import { MealPlanSchema } from '@/lib/validation/schemas';
+import { sanitizeObject } from '@/lib/validation/sanitization';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+type OwnedPlan =
+  | { mealPlan: MealPlan; response?: undefined }
+  | { mealPlan?: undefined; response: NextResponse };
+
+// Load a plan and make sure it belongs to the signed-in user
+async function loadOwnedPlan(
+  request: NextRequest,
+  id: string,
+  userId: string | null | undefined
+): Promise<OwnedPlan> {
+  const uid = await requireUser(request, userId);
+
+  const mealPlan = await mealPlanOperations.getById(id);
+  if (!mealPlan) {
+    return {
+      response: NextResponse.json(
+        { success: false, error: 'Meal plan not found' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  if (mealPlan.userId !== uid) {
+    return {
+      response: NextResponse.json(
+        { success: false, error: 'Meal plan belongs to another user' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { mealPlan };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const userId = new URL(request.url).searchParams.get('userId');
+
+    const { mealPlan, response } = await loadOwnedPlan(request, id, userId);
+    if (response) return response;
+
+    return NextResponse.json({ success: true, data: mealPlan });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error fetching meal plan:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch meal plan' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const { mealPlan, response } = await loadOwnedPlan(
+      request,
+      id,
+      body.userId
+    );
+    if (response) return response;
+
+    // Validate the plan as it will look after the update, then recompute its
+    // nutrition so edited meals never keep stale totals
+    const validation = MealPlanSchema.safeParse({
+      ...mealPlan,
+      ...body.updates,
+    });
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid meal plan',
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const plan = sanitizeObject(validation.data);
+    const foods = await foodGroupOperations
+      .getAll({ includeInactive: true })
+      .catch(() => fallbackFoodGroups);
+    await mealPlanOperations.update(
+      id,
+      composeMealPlan(
+        plan.meals,
+        plan,
+        foods.length > 0 ? foods : fallbackFoodGroups,
+        plan
+      )
+    );
+
+    return NextResponse.json({ success: true, data: { success: true } });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error updating meal plan:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update meal plan' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const userId = new URL(request.url).searchParams.get('userId');
+
+    const { response } = await loadOwnedPlan(request, id, userId);
+    if (response) return response;
+
+    await mealPlanOperations.delete(id);
+
+    return NextResponse.json({ success: true, data: { success: true } });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error deleting meal plan:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete meal plan' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import { foodGroupOperations, mealPlanOperations } from '@/lib/database';
+import { fallbackFoodGroups } from '@/lib/fallbackData';
+import { composeMealPlan } from '@/lib/mealPlans';
+import { MealPlanSchema } from '@/lib/validation/schemas';
+import { sanitizeObject } from '@/lib/validation/sanitization';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = await requireUser(request, searchParams.get('userId'));
+
+    const mealPlans = await mealPlanOperations.getByUserId(userId);
+
+    return NextResponse.json({ success: true, data: mealPlans });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error fetching meal plans:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch meal plans' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const userId = await requireUser(request, body.userId);
+
+    if (!body.mealPlan) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required field: mealPlan' },
+        { status: 400 }
+      );
+    }
+
+    const validation = MealPlanSchema.safeParse(body.mealPlan);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid meal plan',
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Recompute nutrition from the ingredients so stored plans don't depend
+    // on values sent by the client
+    const plan = sanitizeObject(validation.data);
+    const foods = await foodGroupOperations
+      .getAll({ includeInactive: true })
+      .catch(() => fallbackFoodGroups);
+    const mealPlan = composeMealPlan(
+      plan.meals,
+      plan,
+      foods.length > 0 ? foods : fallbackFoodGroups,
+      plan
+    );
+
+    const id = await mealPlanOperations.save(userId, mealPlan);
+
+    return NextResponse.json(
+      { success: true, message: 'Meal plan saved successfully', data: { id } },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error saving meal plan:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to save meal plan',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
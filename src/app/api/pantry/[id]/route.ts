@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import { PantryItem, pantryOperations } from '@/lib/database';
+import {
+  PantryItemSchema,
+  PantryItemUpdateSchema,
+} from '@/lib/validation/schemas';
+import { sanitizeObject } from '@/lib/validation/sanitization';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+type OwnedItem =
+  | { item: PantryItem; response?: undefined }
+  | { item?: undefined; response: NextResponse };
+
+// Load a pantry item and make sure it belongs to the signed-in user
+async function loadOwnedItem(
+  request: NextRequest,
+  id: string,
+  userId: string | null | undefined
+): Promise<OwnedItem> {
+  const uid = await requireUser(request, userId);
+
+  const item = await pantryOperations.getById(id);
+  if (!item) {
+    return {
+      response: NextResponse.json(
+        { success: false, error: 'Pantry item not found' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  if (item.userId !== uid) {
+    return {
+      response: NextResponse.json(
+        { success: false, error: 'Pantry item belongs to another user' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { item };
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const { item, response } = await loadOwnedItem(request, id, body.userId);
+    if (response) return response;
+
+    const parsed = PantryItemUpdateSchema.safeParse(body.updates ?? {});
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid pantry item',
+          details: parsed.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate the item as it will look after the update. Optional fields
+    // sent as null, such as an expiry date, are cleared.
+    const updates: Record<string, unknown> = parsed.data;
+    const cleared = Object.keys(updates).filter(key => updates[key] === null);
+    const validation = PantryItemSchema.safeParse(
+      Object.fromEntries(
+        Object.entries({ ...item, ...updates }).filter(
+          ([key]) => !cleared.includes(key)
+        )
+      )
+    );
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid pantry item',
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    await pantryOperations.update(id, {
+      ...Object.fromEntries(cleared.map(key => [key, undefined])),
+      ...sanitizeObject(validation.data),
+    });
+
+    return NextResponse.json({ success: true, data: { success: true } });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error updating pantry item:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update pantry item' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const userId = new URL(request.url).searchParams.get('userId');
+
+    const { response } = await loadOwnedItem(request, id, userId);
+    if (response) return response;
+
+    await pantryOperations.delete(id);
+
+    return NextResponse.json({ success: true, data: { success: true } });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error deleting pantry item:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete pantry item' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import { pantryOperations } from '@/lib/database';
+import { PantryItemSchema } from '@/lib/validation/schemas';
+import { sanitizeObject } from '@/lib/validation/sanitization';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = await requireUser(request, searchParams.get('userId'));
+
+    const items = await pantryOperations.getByUserId(userId);
+
+    return NextResponse.json({ success: true, data: items });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error fetching pantry:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch pantry' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const userId = await requireUser(request, body.userId);
+
+    if (!body.item) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required field: item' },
+        { status: 400 }
+      );
+    }
+
+    const validation = PantryItemSchema.safeParse(body.item);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid pantry item',
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const id = await pantryOperations.create(
+      userId,
+      sanitizeObject(validation.data)
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Pantry item saved successfully',
+        data: { id },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error saving pantry item:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to save pantry item',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
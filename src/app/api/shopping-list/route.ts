@@ -0,0 +1,228 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
+import {
+  foodGroupOperations,
+  generationHistoryOperations,
+  mealPlanOperations,
+  savedCombinationsOperations,
+  shoppingListOperations,
+} from '@/lib/database';
+import { fallbackFoodGroups } from '@/lib/fallbackData';
+import {
+  buildShoppingList,
+  combinationIngredients,
+  exportShoppingList,
+  planIngredients,
+  savedCombinationIngredients,
+  ShoppingIngredient,
+  ShoppingListSource,
+  shoppingListKeys,
+} from '@/lib/shoppingList';
+import {
+  ShoppingListCheckedSchema,
+  ShoppingListFormatSchema,
+  ShoppingListSourceSchema,
+} from '@/lib/validation/schemas';
+
+type LoadedSource =
+  | {
+      key: string;
+      title: string;
+      ingredients: ShoppingIngredient[];
+      response?: undefined;
+    }
+  | { key?: undefined; response: NextResponse };
+
+const refuse = (error: string, status: number): LoadedSource => ({
+  response: NextResponse.json({ success: false, error }, { status }),
+});
+
+// Load the plan, generation or combinations a list is built from, making
+// sure they belong to the requesting user
+async function loadSource(
+  source: ShoppingListSource,
+  userId: string
+): Promise<LoadedSource> {
+  if (source.planId) {
+    const plan = await mealPlanOperations.getById(source.planId);
+    if (!plan) return refuse('Meal plan not found', 404);
+    if (plan.userId !== userId) {
+      return refuse('Meal plan belongs to another user', 403);
+    }
+    return {
+      key: shoppingListKeys.plan(plan.id),
+      title: plan.title,
+      ingredients: planIngredients(plan),
+    };
+  }
+
+  if (source.generationId) {
+    const generation = await generationHistoryOperations.getById(
+      source.generationId
+    );
+    if (!generation) return refuse('Generation not found', 404);
+    if (generation.userId !== userId) {
+      return refuse('Generation belongs to another user', 403);
+    }
+    return {
+      key: shoppingListKeys.generation(generation.id),
+      title: generation.mealPlan?.title ?? 'Weekly combinations',
+      ingredients: generation.mealPlan
+        ? planIngredients(generation.mealPlan)
+        : combinationIngredients(generation.combinations ?? []),
+    };
+  }
+
+  const ids = source.combinationIds ?? [];
+  const combinations = await Promise.all(
+    ids.map(id => savedCombinationsOperations.getById(id))
+  );
+  if (combinations.some(combination => !combination)) {
+    return refuse('Saved combination not found', 404);
+  }
+  if (combinations.some(combination => combination?.userId !== userId)) {
+    return refuse('Saved combination belongs to another user', 403);
+  }
+
+  const found = combinations.flatMap(combination =>
+    combination ? [combination] : []
+  );
+  return {
+    key: shoppingListKeys.combinations(ids),
+    title:
+      found.length === 1 ? found[0].name : `${found.length} saved combinations`,
+    ingredients: savedCombinationIngredients(found),
+  };
+}
+
+const EXPORT_TYPES = {
+  text: 'text/plain; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+} as const;
+
+/**
+ * Build a consolidated shopping list from `planId`, `generationId` or a
+ * comma-separated `combinationIds`. `format` may be json (the default),
+ * text, csv or html; the latter three are returned as files.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = await requireUser(request, searchParams.get('userId'));
+
+    const combinationIds = searchParams.get('combinationIds');
+    const sourceValidation = ShoppingListSourceSchema.safeParse({
+      planId: searchParams.get('planId') ?? undefined,
+      generationId: searchParams.get('generationId') ?? undefined,
+      combinationIds: combinationIds
+        ? combinationIds.split(',').filter(Boolean)
+        : undefined,
+    });
+    const formatValidation = ShoppingListFormatSchema.safeParse(
+      searchParams.get('format') ?? 'json'
+    );
+
+    if (!sourceValidation.success || !formatValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid shopping list request',
+          details: [
+            ...(sourceValidation.error?.issues ?? []),
+            ...(formatValidation.error?.issues ?? []),
+          ],
+        },
+        { status: 400 }
+      );
+    }
+
+    const source = await loadSource(sourceValidation.data, userId);
+    if (source.response) return source.response;
+
+    const [foods, checked] = await Promise.all([
+      foodGroupOperations
+        .getAll({ includeInactive: true })
+        .catch(() => fallbackFoodGroups),
+      // Checked state is a convenience; a failed read starts the list fresh
+      shoppingListOperations
+        .getChecked(userId, source.key)
+        .catch((error: unknown) => {
+          console.warn('Could not load shopping list state:', error);
+          return [];
+        }),
+    ]);
+
+    const list = buildShoppingList(
+      source.ingredients,
+      foods.length > 0 ? foods : fallbackFoodGroups,
+      { key: source.key, title: source.title, checked }
+    );
+
+    const format = formatValidation.data;
+    if (format === 'json') {
+      return NextResponse.json({ success: true, data: list });
+    }
+
+    const extension = format === 'text' ? 'txt' : format;
+    return new NextResponse(exportShoppingList(list, format), {
+      headers: {
+        'Content-Type': EXPORT_TYPES[format],
+        'Content-Disposition': `${
+          format === 'html' ? 'inline' : 'attachment'
+        }; filename="shopping-list.${extension}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error building shopping list:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to build shopping list' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Save which items of a list are checked off
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const userId = await requireUser(request, body.userId);
+
+    const validation = ShoppingListCheckedSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid shopping list state',
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { listKey, checked } = validation.data;
+    await shoppingListOperations.setChecked(userId, listKey, checked);
+
+    return NextResponse.json({ success: true, data: { success: true } });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error saving shopping list state:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to save shopping list state' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,20 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requireUser } from '@/lib/auth';
 import { userPreferencesOperations } from '@/lib/database';
+import { UserPreferencesSchema } from '@/lib/validation/schemas';
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
-
-    if (!userId) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'User ID is required',
-        },
-        { status: 400 }
-      );
-    }
+    const userId = await requireUser(request, searchParams.get('userId'));
 
     const preferences = await userPreferencesOperations.get(userId);
 
@@ -23,6 +15,12 @@ export async function GET(request: NextRequest) {
       data: preferences,
     });
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
     console.error('Error fetching user preferences:', error);
     return NextResponse.json(
       {
@@ -38,25 +36,34 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
+    const userId = await requireUser(request, body.userId);
 
-    if (!body.userId) {
+    const validationResult = UserPreferencesSchema.safeParse(body);
+    if (!validationResult.success) {
       return NextResponse.json(
         {
           success: false,
-          error: 'User ID is required',
+          error: 'Invalid preferences',
+          details: validationResult.error.issues,
         },
         { status: 400 }
       );
     }
 
     // Create or update user preferences
-    await userPreferencesOperations.upsert(body.userId, body);
+    await userPreferencesOperations.upsert(userId, validationResult.data);
 
     return NextResponse.json({
       success: true,
       message: 'User preferences saved successfully',
     });
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
     console.error('Error saving user preferences:', error);
     return NextResponse.json(
       {
@@ -72,25 +79,34 @@ export async function POST(request: NextRequest) {
 export async function PUT(request: NextRequest) {
   try {
     const body = await request.json();
+    const userId = await requireUser(request, body.userId);
 
-    if (!body.userId) {
+    const validationResult = UserPreferencesSchema.partial().safeParse(body);
+    if (!validationResult.success) {
       return NextResponse.json(
         {
           success: false,
-          error: 'User ID is required',
+          error: 'Invalid preferences',
+          details: validationResult.error.issues,
         },
         { status: 400 }
       );
     }
 
     // Update specific preference fields
-    await userPreferencesOperations.update(body.userId, body);
+    await userPreferencesOperations.update(userId, validationResult.data);
 
     return NextResponse.json({
       success: true,
       message: 'User preferences updated successfully',
     });
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
     console.error('Error updating user preferences:', error);
     return NextResponse.json(
       {
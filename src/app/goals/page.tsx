@@ -0,0 +1,52 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Target } from 'lucide-react';
+import { Navigation } from '@/components/Navigation';
+import { GoalSetup } from '@/components/GoalSetup';
+import { GoalDashboard } from '@/components/GoalDashboard';
+import { useAuth } from '@/contexts/AuthContext';
+
+export default function GoalsPage() {
+  const { user } = useAuth();
+  // Reloads the dashboard whenever goals are created, edited or activated
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+      <main className="py-8">
+        <div className="max-w-7xl mx-auto px-4 space-y-6">
+          <div>
+            <h2 className="text-2xl font-bold text-foreground flex items-center gap-2">
+              <Target className="w-6 h-6" />
+              Nutrition Goals
+            </h2>
+            <p className="text-muted-foreground">
+              Your active goal steers generation when you optimize for it and is
+              the target on the dashboard below.
+            </p>
+          </div>
+
+          {user ? (
+            <>
+              <GoalSetup onGoalsChange={() => setRefreshKey(key => key + 1)} />
+              <GoalDashboard refreshKey={refreshKey} />
+            </>
+          ) : (
+            <div className="text-center py-8">
+              <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-6 max-w-2xl mx-auto">
+                <h3 className="text-lg font-medium text-blue-800 dark:text-blue-200 mb-2">
+                  Sign In Required
+                </h3>
+                <p className="text-blue-700 dark:text-blue-300">
+                  Please sign in to set nutrition goals.
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import React from 'react';
+import { Refrigerator } from 'lucide-react';
+import { Navigation } from '@/components/Navigation';
+import { PantryManager } from '@/components/PantryManager';
+import { useAuth } from '@/contexts/AuthContext';
+
+export default function PantryPage() {
+  const { user } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+      <main className="py-8">
+        <div className="max-w-7xl mx-auto px-4 space-y-6">
+          <div>
+            <h2 className="text-2xl font-bold text-foreground flex items-center gap-2">
+              <Refrigerator className="w-6 h-6" />
+              Pantry
+            </h2>
+            <p className="text-muted-foreground">
+              Keep track of what you have at home. The planner can cook only
+              from your pantry or use what expires soonest first.
+            </p>
+          </div>
+
+          {user ? (
+            <PantryManager />
+          ) : (
+            <div className="text-center py-8">
+              <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-6 max-w-2xl mx-auto">
+                <h3 className="text-lg font-medium text-blue-800 dark:text-blue-200 mb-2">
+                  Sign In Required
+                </h3>
+                <p className="text-blue-700 dark:text-blue-300">
+                  Please sign in to keep a pantry.
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
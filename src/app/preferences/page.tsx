@@ -0,0 +1,18 @@
+'use client';
+
+import React from 'react';
+import { Navigation } from '@/components/Navigation';
+import { PreferencesEditor } from '@/components/PreferencesEditor';
+
+export default function PreferencesPage() {
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+      <main className="py-8">
+        <div className="max-w-7xl mx-auto px-4">
+          <PreferencesEditor />
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ShoppingCart } from 'lucide-react';
+import { Navigation } from '@/components/Navigation';
+import { ShoppingList } from '@/components/ShoppingList';
+import { useAuth } from '@/contexts/AuthContext';
+import type { ShoppingListSource } from '@/lib/shoppingList';
+
+// The list to show comes from ?planId=, ?generationId= or ?combinationIds=a,b
+function readSource(search: string): ShoppingListSource | null {
+  const params = new URLSearchParams(search);
+  const planId = params.get('planId');
+  const generationId = params.get('generationId');
+  const combinationIds = params.get('combinationIds');
+
+  if (planId) return { planId };
+  if (generationId) return { generationId };
+  if (combinationIds) return { combinationIds: combinationIds.split(',') };
+  return null;
+}
+
+export default function ShoppingListPage() {
+  const { user } = useAuth();
+  const [source, setSource] = useState<ShoppingListSource | null>(null);
+
+  useEffect(() => {
+    setSource(readSource(window.location.search));
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+      <main className="py-8">
+        <div className="max-w-3xl mx-auto px-4 space-y-6">
+          <div>
+            <h2 className="text-2xl font-bold text-foreground flex items-center gap-2">
+              <ShoppingCart className="w-6 h-6" />
+              Shopping List
+            </h2>
+            <p className="text-muted-foreground">
+              Ingredients are merged across days and grouped by aisle. Checked
+              items are remembered.
+            </p>
+          </div>
+
+          {!user ? (
+            <div className="text-center py-8">
+              <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-6 max-w-2xl mx-auto">
+                <h3 className="text-lg font-medium text-blue-800 dark:text-blue-200 mb-2">
+                  Sign In Required
+                </h3>
+                <p className="text-blue-700 dark:text-blue-300">
+                  Please sign in to build shopping lists.
+                </p>
+              </div>
+            </div>
+          ) : source ? (
+            <ShoppingList source={source} />
+          ) : (
+            <p className="text-muted-foreground">
+              Open a list from a generated plan in the{' '}
+              <Link href="/planner" className="underline">
+                planner
+              </Link>{' '}
+              or select combinations on{' '}
+              <Link href="/saved" className="underline">
+                Saved Meals
+              </Link>
+              .
+            </p>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -3,25 +3,21 @@
 import React, { useState, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Upload, FileText, X, Download, Loader2 } from 'lucide-react';
+import { api } from '@/lib/api/client';
+import { foodTemplate } from '@/lib/foodExport';
 import {
-  Upload,
-  FileText,
-  CheckCircle,
-  AlertCircle,
-  X,
-  Download,
-  Loader2,
-} from 'lucide-react';
+  FOOD_FILE_TYPES,
+  FoodFileFormat,
+  foodFileFormat,
+} from '@/lib/foodImport';
+import { FoodFileFormatSchema } from '@/lib/validation/schemas';
+import { ImportReport, ImportResult } from './ImportReport';
 
-interface ImportResult {
-  success: boolean;
-  message: string;
-  imported: number;
-  total: number;
-  successes: string[];
-  errors: string[];
-  sampleData: Record<string, string>[];
-}
+const ACCEPTED_FILES = FoodFileFormatSchema.options
+  .flatMap(format => FOOD_FILE_TYPES[format].extensions)
+  .map(extension => `.${extension}`)
+  .join(',');
 
 export default function CSVImport() {
   const [isDragging, setIsDragging] = useState(false);
@@ -32,6 +28,7 @@ export default function CSVImport() {
   const [uploadProgress, setUploadProgress] = useState(0);
   const [uploadStatus, setUploadStatus] = useState('');
   const [startTime, setStartTime] = useState<number | null>(null);
+  const [deactivateMissing, setDeactivateMissing] = useState(false);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -61,10 +58,10 @@ export default function CSVImport() {
     const files = Array.from(e.dataTransfer.files);
     if (files.length > 0) {
       const file = files[0];
-      if (file.type === 'text/csv' || file.name.endsWith('.csv')) {
+      if (foodFileFormat(file.name)) {
         setSelectedFile(file);
       } else {
-        alert('Please select a CSV file');
+        alert('Please select a CSV, TSV, JSON or NDJSON file');
       }
     }
   };
@@ -76,29 +73,39 @@ export default function CSVImport() {
     }
   };
 
-  const handleUpload = async () => {
+  // Uploads run twice: a dry run to preview the changes, then the commit
+  const handleUpload = async (dryRun: boolean) => {
     if (!selectedFile) return;
 
     setIsUploading(true);
     setUploadProgress(0);
-    setUploadStatus('Starting upload...');
+    setUploadStatus(dryRun ? 'Checking file...' : 'Importing...');
     setStartTime(Date.now());
     setImportResult(null);
 
     const formData = new FormData();
     formData.append('file', selectedFile);
+    formData.append('dryRun', String(dryRun));
+    formData.append('deactivateMissing', String(deactivateMissing));
 
     try {
       const response = await fetch('/api/food-groups/import', {
         method: 'POST',
+        headers: await api.authHeaders(),
         body: formData,
       });
 
       const result = await response.json();
-      setImportResult(result);
+      setImportResult({
+        success: result.success,
+        message: result.success ? result.message : result.error,
+        report: result.data,
+      });
 
       if (result.success) {
-        setUploadStatus('Import completed successfully!');
+        setUploadStatus(
+          dryRun ? 'Preview ready' : 'Import completed successfully!'
+        );
         setUploadProgress(100);
       } else {
         setUploadStatus('Import failed');
@@ -107,12 +114,7 @@ export default function CSVImport() {
     } catch {
       setImportResult({
         success: false,
-        message: 'Upload failed',
-        imported: 0,
-        total: 0,
-        successes: [],
-        errors: ['Network error occurred'],
-        sampleData: [],
+        message: 'Upload failed: network error occurred',
       });
       setUploadStatus('Upload failed');
       setUploadProgress(0);
@@ -121,16 +123,14 @@ export default function CSVImport() {
     }
   };
 
-  const downloadTemplate = () => {
-    const template = `name,category,description,caloriesPer100g,proteinPer100g,carbsPer100g,fatPer100g,fiberPer100g,nutrients,benefits,subcategory,seasonality,glycemicIndex
-Apple,fruits,"Sweet, crisp fruit rich in fiber and antioxidants",52,0.3,14,0.2,2.4,"Vitamin C;Potassium;Fiber","Heart health;Digestive health;Immune support",pome fruits,fall,36
-Banana,fruits,"Yellow fruit high in potassium and natural sugars",89,1.1,23,0.3,2.6,"Potassium;Vitamin B6;Fiber","Energy boost;Heart health;Muscle function",tropical fruits,year-round,51`;
-
-    const blob = new Blob([template], { type: 'text/csv' });
+  const downloadTemplate = (format: FoodFileFormat) => {
+    const blob = new Blob([foodTemplate(format)], {
+      type: FOOD_FILE_TYPES[format].contentType,
+    });
     const url = window.URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'foods_template.csv';
+    a.download = `foods_template.${FOOD_FILE_TYPES[format].extensions[0]}`;
     a.click();
     window.URL.revokeObjectURL(url);
   };
@@ -170,30 +170,41 @@ Banana,fruits,"Yellow fruit high in potassium and natural sugars",89,1.1,23,0.3,
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
           <h3 className="font-medium text-blue-900 mb-2">How to Import:</h3>
           <ol className="list-decimal list-inside text-sm text-blue-800 space-y-1">
-            <li>Download the template below to see the required format</li>
-            <li>Prepare your CSV file with the exact column headers</li>
-            <li>Drag and drop your CSV file or click to browse</li>
-            <li>Click &quot;Import Foods&quot; to add them to your database</li>
+            <li>Download a template below to see the required format</li>
+            <li>
+              Prepare a CSV, TSV, JSON or NDJSON file with the same columns,
+              quoting CSV values that contain commas
+            </li>
+            <li>Drag and drop your file or click to browse</li>
+            <li>
+              Click &quot;Preview Import&quot; to see what would change, then
+              confirm
+            </li>
           </ol>
         </div>
 
         {/* Template Download */}
         <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
           <div>
-            <h4 className="font-medium text-gray-900">CSV Template</h4>
+            <h4 className="font-medium text-gray-900">Templates</h4>
             <p className="text-sm text-gray-600">
-              Download the template to see the required format
+              Download a template to see the required format
             </p>
           </div>
-          <Button
-            onClick={downloadTemplate}
-            variant="outline"
-            size="sm"
-            className="flex items-center gap-2"
-          >
-            <Download className="w-4 h-4" />
-            Download Template
-          </Button>
+          <div className="flex flex-wrap justify-end gap-2">
+            {FoodFileFormatSchema.options.map(format => (
+              <Button
+                key={format}
+                onClick={() => downloadTemplate(format)}
+                variant="outline"
+                size="sm"
+                className="flex items-center gap-2"
+              >
+                <Download className="w-4 h-4" />
+                {format.toUpperCase()}
+              </Button>
+            ))}
+          </div>
         </div>
 
         {/* Upload Area */}
@@ -214,9 +225,20 @@ Banana,fruits,"Yellow fruit high in potassium and natural sugars",89,1.1,23,0.3,
                 <FileText className="w-8 h-8" />
                 <span className="font-medium">{selectedFile.name}</span>
               </div>
+              <label className="flex items-center justify-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={deactivateMissing}
+                  onChange={e => {
+                    setDeactivateMissing(e.target.checked);
+                    setImportResult(null);
+                  }}
+                />
+                Deactivate foods missing from this file
+              </label>
               <div className="flex items-center gap-2 justify-center">
                 <Button
-                  onClick={handleUpload}
+                  onClick={() => handleUpload(true)}
                   disabled={isUploading}
                   className="flex items-center gap-2"
                 >
@@ -225,7 +247,7 @@ Banana,fruits,"Yellow fruit high in potassium and natural sugars",89,1.1,23,0.3,
                   ) : (
                     <Upload className="w-4 h-4" />
                   )}
-                  {isUploading ? 'Importing...' : 'Import Foods'}
+                  {isUploading ? 'Checking...' : 'Preview Import'}
                 </Button>
                 <Button onClick={clearResults} variant="outline" size="sm">
                   <X className="w-4 h-4" />
@@ -237,7 +259,7 @@ Banana,fruits,"Yellow fruit high in potassium and natural sugars",89,1.1,23,0.3,
               <Upload className="w-12 h-12 text-gray-400 mx-auto" />
               <div>
                 <p className="text-lg font-medium text-gray-900">
-                  Drag and drop your CSV file here
+                  Drag and drop your food file here
                 </p>
                 <p className="text-gray-500">or</p>
                 <Button
@@ -251,7 +273,7 @@ Banana,fruits,"Yellow fruit high in potassium and natural sugars",89,1.1,23,0.3,
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".csv"
+                accept={ACCEPTED_FILES}
                 onChange={handleFileSelect}
                 className="hidden"
               />
@@ -277,111 +299,13 @@ Banana,fruits,"Yellow fruit high in potassium and natural sugars",89,1.1,23,0.3,
 
         {/* Import Results */}
         {importResult && (
-          <div className="space-y-4">
-            <div
-              className={`p-4 rounded-lg border ${
-                importResult.success
-                  ? 'bg-green-50 border-green-200'
-                  : 'bg-red-50 border-red-200'
-              }`}
-            >
-              <div className="flex items-center gap-2 mb-2">
-                {importResult.success ? (
-                  <CheckCircle className="w-5 h-5 text-green-600" />
-                ) : (
-                  <AlertCircle className="w-5 h-5 text-red-600" />
-                )}
-                <h4
-                  className={`font-medium ${
-                    importResult.success ? 'text-green-800' : 'text-red-800'
-                  }`}
-                >
-                  {importResult.success
-                    ? 'Import Successful!'
-                    : 'Import Failed'}
-                </h4>
-              </div>
-              <p
-                className={`text-sm ${
-                  importResult.success ? 'text-green-700' : 'text-red-700'
-                }`}
-              >
-                {importResult.message}
-              </p>
-              {importResult.success && (
-                <div className="mt-2 text-sm text-green-600">
-                  <p>
-                    Imported: {importResult.imported} / {importResult.total}{' '}
-                    foods
-                  </p>
-                </div>
-              )}
-            </div>
-
-            {/* Successes */}
-            {importResult.successes.length > 0 && (
-              <div className="bg-green-50 border border-green-200 rounded-lg p-4">
-                <h4 className="font-medium text-green-800 mb-2">
-                  Successfully Imported:
-                </h4>
-                <div className="max-h-32 overflow-y-auto space-y-1">
-                  {importResult.successes.map((success, index) => (
-                    <div
-                      key={index}
-                      className="text-sm text-green-700 flex items-center gap-2"
-                    >
-                      <CheckCircle className="w-3 h-3" />
-                      {success}
-                    </div>
-                  ))}
-                </div>
-              </div>
-            )}
-
-            {/* Errors */}
-            {importResult.errors.length > 0 && (
-              <div className="bg-red-50 border border-red-200 rounded-lg p-4">
-                <h4 className="font-medium text-red-800 mb-2">Errors:</h4>
-                <div className="max-h-32 overflow-y-auto space-y-1">
-                  {importResult.errors.map((error, index) => (
-                    <div
-                      key={index}
-                      className="text-sm text-red-700 flex items-center gap-2"
-                    >
-                      <AlertCircle className="w-3 h-3" />
-                      {error}
-                    </div>
-                  ))}
-                </div>
-              </div>
-            )}
-
-            {/* Sample Data Preview */}
-            {importResult.sampleData && importResult.sampleData.length > 0 && (
-              <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
-                <h4 className="font-medium text-gray-800 mb-2">
-                  Sample Imported Data:
-                </h4>
-                <div className="space-y-2">
-                  {importResult.sampleData.map((food, index) => (
-                    <div
-                      key={index}
-                      className="text-sm bg-white p-2 rounded border"
-                    >
-                      <div className="font-medium">{food.name}</div>
-                      <div className="text-gray-600">
-                        {food.category} • {food.description}
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            )}
-
-            <Button onClick={clearResults} variant="outline" className="w-full">
-              Import Another File
-            </Button>
-          </div>
+          <ImportReport
+            result={importResult}
+            busy={isUploading}
+            onConfirm={() => handleUpload(false)}
+            onReset={clearResults}
+            resetLabel="Import Another File"
+          />
         )}
       </CardContent>
     </Card>
@@ -19,31 +19,45 @@ import {
   Copy,
   Download,
   ExternalLink,
+  Lock,
+  Unlock,
+  RefreshCw,
 } from 'lucide-react';
 import { useDatabase } from '@/hooks/useDatabase';
 import { useAuth } from '@/contexts/AuthContext';
-
-interface Combination {
-  name?: string;
-  fruits?: string;
-  vegetables?: string;
-  grain?: string;
-  benefits?: string;
-  preparation?: string;
-}
+import {
+  CombinationIngredient,
+  CombinationWithNutrition,
+  formatIngredient,
+  formatIngredients,
+  IngredientLock,
+  PlateCategory,
+  RegenerationTarget,
+  Weekday,
+} from '@/lib/combinations';
+import {
+  CombinationNutrition,
+  EMPTY_NUTRITION,
+  REFERENCE_INTAKES,
+} from '@/lib/nutrition';
 
 interface CombinationDisplayProps {
-  combinations: Combination[] | string;
-  individualCombinations?: Combination[];
-  parsedCombinations?: Combination[];
+  combinations: CombinationWithNutrition[];
   onRegenerate?: () => void;
+  // Regenerate only some days or categories, keeping the locked ingredients
+  onRegenerateCombinations?: (
+    targets: RegenerationTarget[],
+    locks: IngredientLock[]
+  ) => void;
 }
 
+const isSameLock = (a: IngredientLock, b: IngredientLock) =>
+  a.day === b.day && a.category === b.category && a.name === b.name;
+
 export function CombinationDisplay({
   combinations,
-  individualCombinations = [],
-  parsedCombinations = [],
   onRegenerate,
+  onRegenerateCombinations,
 }: CombinationDisplayProps) {
   const { user } = useAuth();
   const { saveCombination, loading, error, clearError } = useDatabase();
@@ -56,8 +70,43 @@ export function CombinationDisplay({
   const [showShareOptions, setShowShareOptions] = useState<{
     [key: number]: boolean;
   }>({});
+  const [locks, setLocks] = useState<IngredientLock[]>([]);
+  const [lockedDays, setLockedDays] = useState<Weekday[]>([]);
   const shareDropdownRef = useRef<HTMLDivElement>(null);
 
+  // Drop locks on ingredients that are no longer in the plan
+  useEffect(() => {
+    setLocks(prev =>
+      prev.filter(lock =>
+        combinations.some(
+          combination =>
+            combination.day === lock.day &&
+            combination[lock.category].some(item => item.name === lock.name)
+        )
+      )
+    );
+  }, [combinations]);
+
+  const toggleLock = (lock: IngredientLock) => {
+    setLocks(prev =>
+      prev.some(item => isSameLock(item, lock))
+        ? prev.filter(item => !isSameLock(item, lock))
+        : [...prev, lock]
+    );
+  };
+
+  const toggleDayLock = (day: Weekday) => {
+    setLockedDays(prev =>
+      prev.includes(day) ? prev.filter(item => item !== day) : [...prev, day]
+    );
+  };
+
+  const regenerate = (targets: RegenerationTarget[]) => {
+    if (onRegenerateCombinations && targets.length > 0) {
+      onRegenerateCombinations(targets, locks);
+    }
+  };
+
   // Close share dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -93,6 +142,16 @@ export function CombinationDisplay({
 
   function handleRecycleAll() {
     console.log('🔄 Regenerate button clicked');
+    // With anything locked, only replace what is still unlocked
+    if (onRegenerateCombinations && (locks.length || lockedDays.length)) {
+      regenerate(
+        combinations
+          .filter(combination => !lockedDays.includes(combination.day))
+          .map(combination => ({ day: combination.day }))
+      );
+      return;
+    }
+
     console.log('onRegenerate function:', onRegenerate);
     if (typeof onRegenerate === 'function') {
       console.log('✅ Calling onRegenerate function');
@@ -102,16 +161,8 @@ export function CombinationDisplay({
     }
   }
 
-  function isValidCombination(combination: Combination): boolean {
-    return !!(
-      combination.fruits ||
-      combination.vegetables ||
-      combination.grain
-    );
-  }
-
   const handleSaveCombination = async (
-    combination: Combination,
+    combination: CombinationWithNutrition,
     index: number
   ) => {
     if (!user) {
@@ -127,21 +178,16 @@ export function CombinationDisplay({
       // Parse the combination data for database storage
       const combinationData = {
         userId: user.uid,
-        name: combination.name || `Combination ${index + 1}`,
-        fruits: combination.fruits ? [combination.fruits] : [],
-        vegetables: combination.vegetables ? [combination.vegetables] : [],
-        grains: combination.grain ? [combination.grain] : [],
-        benefits: combination.benefits ? [combination.benefits] : [],
-        preparation: combination.preparation || '',
+        name: combination.name,
+        fruits: combination.fruits.map(formatIngredient),
+        vegetables: combination.vegetables.map(formatIngredient),
+        grains: combination.grains.map(formatIngredient),
+        benefits: [combination.benefits],
+        preparation: combination.preparation,
         tags: [],
         isFavorite: true,
-        nutritionFacts: {
-          calories: 0, // You can calculate this based on food groups
-          protein: 0,
-          carbs: 0,
-          fat: 0,
-          fiber: 0,
-        },
+        // Recomputed by the save route from the ingredient quantities
+        nutritionFacts: combination.nutrition?.totals ?? EMPTY_NUTRITION,
       };
 
       await saveCombination(combinationData);
@@ -163,18 +209,18 @@ export function CombinationDisplay({
   };
 
   const handleShareCombination = async (
-    combination: Combination,
+    combination: CombinationWithNutrition,
     index: number,
     shareType: 'copy' | 'download' | 'social' = 'copy'
   ) => {
     try {
       const shareText =
-        `${combination.name || `Combination ${index + 1}`}\n\n` +
-        `🍎 Fruits: ${combination.fruits || 'None'}\n` +
-        `🥕 Vegetables: ${combination.vegetables || 'None'}\n` +
-        `🌾 Grain: ${combination.grain || 'None'}\n\n` +
-        `💪 Benefits: ${combination.benefits || 'None'}\n\n` +
-        `👨‍🍳 Preparation: ${combination.preparation || 'None'}\n\n` +
+        `${combination.name} (${combination.day})\n\n` +
+        `🍎 Fruits: ${formatIngredients(combination.fruits)}\n` +
+        `🥕 Vegetables: ${formatIngredients(combination.vegetables)}\n` +
+        `🌾 Grain: ${formatIngredients(combination.grains)}\n\n` +
+        `💪 Benefits: ${combination.benefits}\n\n` +
+        `👨‍🍳 Preparation: ${combination.preparation}\n\n` +
         `Generated by Superhuman Nutrition AI - super-human-nutrients.vercel.app`;
 
       if (shareType === 'copy') {
@@ -190,7 +236,7 @@ export function CombinationDisplay({
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = `${combination.name || `combination-${index + 1}`}.txt`;
+        a.download = `${combination.name}.txt`;
         document.body.appendChild(a);
         a.click();
         document.body.removeChild(a);
@@ -244,28 +290,7 @@ export function CombinationDisplay({
     }));
   };
 
-  // Compute display combinations directly from props
-  let displayCombinations: Combination[] = [];
-
-  console.log('CombinationDisplay received:', {
-    combinations: Array.isArray(combinations)
-      ? combinations.length
-      : typeof combinations,
-    parsedCombinations: parsedCombinations.length,
-    individualCombinations: individualCombinations.length,
-  });
-
-  if (Array.isArray(combinations)) {
-    displayCombinations = combinations;
-  } else if (parsedCombinations.length > 0) {
-    displayCombinations = parsedCombinations;
-  } else if (individualCombinations.length > 0) {
-    displayCombinations = individualCombinations;
-  }
-
-  console.log('Display combinations:', displayCombinations.length);
-
-  if (!displayCombinations || displayCombinations.length === 0) {
+  if (combinations.length === 0) {
     return (
       <div className="text-center py-8">
         <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6 max-w-2xl mx-auto">
@@ -273,19 +298,10 @@ export function CombinationDisplay({
             No Combinations Found
           </h3>
           <p className="text-yellow-700 mb-4">
-            The AI response couldn&apos;t be parsed into combinations. This
-            might happen if the AI format changed.
+            No combinations were generated. Please try again.
           </p>
-          <div className="bg-gray-100 p-4 rounded-lg text-left">
-            <p className="text-sm text-gray-600 mb-2">Raw AI Response:</p>
-            <pre className="text-xs text-gray-700 whitespace-pre-wrap overflow-auto max-h-40">
-              {typeof combinations === 'string'
-                ? combinations.substring(0, 500) + '...'
-                : 'No raw response available'}
-            </pre>
-          </div>
           <button
-            onClick={() => window.location.reload()}
+            onClick={handleRecycleAll}
             className="mt-4 bg-yellow-600 hover:bg-yellow-700 text-white px-4 py-2 rounded-lg"
           >
             Try Again
@@ -295,8 +311,6 @@ export function CombinationDisplay({
     );
   }
 
-  const validCombinations = displayCombinations.filter(isValidCombination);
-
   return (
     <div className="space-y-8">
       {/* Error Display */}
@@ -326,17 +340,11 @@ export function CombinationDisplay({
         <p className="text-muted-foreground max-w-2xl mx-auto">
           One unique fruit-vegetable-grain combination for each day of the week
         </p>
-        <div className="bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800 rounded-lg px-4 py-2 inline-block">
-          <p className="text-sm text-blue-700 dark:text-blue-300">
-            Successfully parsed {validCombinations.length} of{' '}
-            {displayCombinations.length} combinations
-          </p>
-        </div>
       </div>
 
       {/* Combinations Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 max-w-7xl mx-auto">
-        {validCombinations.map((combination, index) => (
+        {combinations.map((combination, index) => (
           <Card
             key={index}
             data-card-index={index}
@@ -348,8 +356,40 @@ export function CombinationDisplay({
               <div className="flex items-center justify-between">
                 <CardTitle className="text-lg font-semibold flex items-center gap-2">
                   <Star className="w-5 h-5" />
-                  {combination.name || `Combination ${index + 1}`}
+                  {combination.name}
                 </CardTitle>
+                <span className="flex items-center gap-1">
+                  {onRegenerateCombinations && (
+                    <>
+                      <button
+                        onClick={() => toggleDayLock(combination.day)}
+                        className="p-1 rounded-full hover:bg-white/20"
+                        title={
+                          lockedDays.includes(combination.day)
+                            ? 'Unlock this combination'
+                            : 'Keep this combination'
+                        }
+                      >
+                        {lockedDays.includes(combination.day) ? (
+                          <Lock className="w-4 h-4" />
+                        ) : (
+                          <Unlock className="w-4 h-4" />
+                        )}
+                      </button>
+                      <button
+                        onClick={() => regenerate([{ day: combination.day }])}
+                        disabled={lockedDays.includes(combination.day)}
+                        className="p-1 rounded-full hover:bg-white/20 disabled:opacity-50"
+                        title={`Regenerate ${combination.day}`}
+                      >
+                        <RefreshCw className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                  <span className="text-xs font-medium bg-white/20 px-2 py-1 rounded-full">
+                    {combination.day}
+                  </span>
+                </span>
               </div>
             </CardHeader>
 
@@ -360,49 +400,159 @@ export function CombinationDisplay({
                   Ingredients:
                 </h4>
 
-                {combination.fruits && (
+                {combination.fruits.length > 0 && (
                   <div className="flex items-center gap-2 bg-red-50 dark:bg-red-900/30 p-3 rounded-lg border border-red-200 dark:border-red-800">
                     <Apple className="w-4 h-4 text-red-500 dark:text-red-400" />
                     <div>
                       <span className="text-xs font-medium text-red-700 dark:text-red-300">
                         Fruits:
                       </span>
-                      <p className="text-sm text-muted-foreground">
-                        {combination.fruits}
-                      </p>
+                      {onRegenerateCombinations ? (
+                        <IngredientList
+                          category="fruits"
+                          ingredients={combination.fruits}
+                          isLocked={name =>
+                            lockedDays.includes(combination.day) ||
+                            locks.some(lock =>
+                              isSameLock(lock, {
+                                day: combination.day,
+                                category: 'fruits',
+                                name,
+                              })
+                            )
+                          }
+                          onToggleLock={name =>
+                            toggleLock({
+                              day: combination.day,
+                              category: 'fruits',
+                              name,
+                            })
+                          }
+                          onRegenerate={
+                            lockedDays.includes(combination.day)
+                              ? undefined
+                              : () =>
+                                  regenerate([
+                                    {
+                                      day: combination.day,
+                                      categories: ['fruits'],
+                                    },
+                                  ])
+                          }
+                        />
+                      ) : (
+                        <p className="text-sm text-muted-foreground">
+                          {formatIngredients(combination.fruits)}
+                        </p>
+                      )}
                     </div>
                   </div>
                 )}
 
-                {combination.vegetables && (
+                {combination.vegetables.length > 0 && (
                   <div className="flex items-center gap-2 bg-green-50 dark:bg-green-900/30 p-3 rounded-lg border border-green-200 dark:border-green-800">
                     <Carrot className="w-4 h-4 text-green-500 dark:text-green-400" />
                     <div>
                       <span className="text-xs font-medium text-green-700 dark:text-green-300">
                         Vegetables:
                       </span>
-                      <p className="text-sm text-muted-foreground">
-                        {combination.vegetables}
-                      </p>
+                      {onRegenerateCombinations ? (
+                        <IngredientList
+                          category="vegetables"
+                          ingredients={combination.vegetables}
+                          isLocked={name =>
+                            lockedDays.includes(combination.day) ||
+                            locks.some(lock =>
+                              isSameLock(lock, {
+                                day: combination.day,
+                                category: 'vegetables',
+                                name,
+                              })
+                            )
+                          }
+                          onToggleLock={name =>
+                            toggleLock({
+                              day: combination.day,
+                              category: 'vegetables',
+                              name,
+                            })
+                          }
+                          onRegenerate={
+                            lockedDays.includes(combination.day)
+                              ? undefined
+                              : () =>
+                                  regenerate([
+                                    {
+                                      day: combination.day,
+                                      categories: ['vegetables'],
+                                    },
+                                  ])
+                          }
+                        />
+                      ) : (
+                        <p className="text-sm text-muted-foreground">
+                          {formatIngredients(combination.vegetables)}
+                        </p>
+                      )}
                     </div>
                   </div>
                 )}
 
-                {combination.grain && (
+                {combination.grains.length > 0 && (
                   <div className="flex items-center gap-2 bg-amber-50 dark:bg-amber-900/30 p-3 rounded-lg border border-amber-200 dark:border-amber-800">
                     <Wheat className="w-4 h-4 text-amber-600 dark:text-amber-400" />
                     <div>
                       <span className="text-xs font-medium text-amber-700 dark:text-amber-300">
                         Grain:
                       </span>
-                      <p className="text-sm text-muted-foreground">
-                        {combination.grain}
-                      </p>
+                      {onRegenerateCombinations ? (
+                        <IngredientList
+                          category="grains"
+                          ingredients={combination.grains}
+                          isLocked={name =>
+                            lockedDays.includes(combination.day) ||
+                            locks.some(lock =>
+                              isSameLock(lock, {
+                                day: combination.day,
+                                category: 'grains',
+                                name,
+                              })
+                            )
+                          }
+                          onToggleLock={name =>
+                            toggleLock({
+                              day: combination.day,
+                              category: 'grains',
+                              name,
+                            })
+                          }
+                          onRegenerate={
+                            lockedDays.includes(combination.day)
+                              ? undefined
+                              : () =>
+                                  regenerate([
+                                    {
+                                      day: combination.day,
+                                      categories: ['grains'],
+                                    },
+                                  ])
+                          }
+                        />
+                      ) : (
+                        <p className="text-sm text-muted-foreground">
+                          {formatIngredients(combination.grains)}
+                        </p>
+                      )}
                     </div>
                   </div>
                 )}
               </div>
 
+              {/* Nutrition Section */}
+              {combination.nutrition && (
+                <NutritionPanel nutrition={combination.nutrition} />
+              )}
+
               {/* Health Benefits Section */}
               {combination.benefits && (
                 <div className="space-y-2">
@@ -606,15 +756,15 @@ export function CombinationDisplay({
         <button
           onClick={() => {
             // Copy combinations to clipboard
-            const combinationsText = validCombinations
+            const combinationsText = combinations
               .map(
                 (combo, index) =>
-                  `${index + 1}. ${combo.name || `Combination ${index + 1}`}\n` +
-                  `   Fruits: ${combo.fruits || 'None'}\n` +
-                  `   Vegetables: ${combo.vegetables || 'None'}\n` +
-                  `   Grain: ${combo.grain || 'None'}\n` +
-                  `   Benefits: ${combo.benefits || 'None'}\n` +
-                  `   Preparation: ${combo.preparation || 'None'}`
+                  `${index + 1}. ${combo.name} (${combo.day})\n` +
+                  `   Fruits: ${formatIngredients(combo.fruits)}\n` +
+                  `   Vegetables: ${formatIngredients(combo.vegetables)}\n` +
+                  `   Grain: ${formatIngredients(combo.grains)}\n` +
+                  `   Benefits: ${combo.benefits}\n` +
+                  `   Preparation: ${combo.preparation}`
               )
               .join('\n\n');
 
@@ -636,3 +786,100 @@ export function CombinationDisplay({
     </div>
   );
 }
+
+function IngredientList({
+  category,
+  ingredients,
+  isLocked,
+  onToggleLock,
+  onRegenerate,
+}: {
+  category: PlateCategory;
+  ingredients: CombinationIngredient[];
+  isLocked: (name: string) => boolean;
+  onToggleLock: (name: string) => void;
+  onRegenerate?: () => void;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-1 text-sm text-muted-foreground">
+      {ingredients.map(ingredient => (
+        <button
+          key={ingredient.name}
+          onClick={() => onToggleLock(ingredient.name)}
+          className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border ${
+            isLocked(ingredient.name)
+              ? 'border-foreground/40 bg-background text-foreground'
+              : 'border-transparent hover:border-border'
+          }`}
+          title={
+            isLocked(ingredient.name)
+              ? 'Locked: kept when regenerating'
+              : 'Lock this ingredient'
+          }
+        >
+          {isLocked(ingredient.name) && <Lock className="w-3 h-3" />}
+          {formatIngredient(ingredient)}
+        </button>
+      ))}
+      {onRegenerate && (
+        <button
+          onClick={onRegenerate}
+          className="p-1 rounded-full hover:bg-muted"
+          title={`Regenerate ${category}`}
+        >
+          <RefreshCw className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  );
+}
+
+function NutritionPanel({ nutrition }: { nutrition: CombinationNutrition }) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Target className="w-4 h-4 text-purple-500 dark:text-purple-400" />
+        <h5 className="font-medium text-foreground text-sm">
+          Nutrition (estimated):
+        </h5>
+      </div>
+      <div className="grid grid-cols-5 gap-1 text-center bg-muted p-3 rounded-lg">
+        {(
+          [
+            ['Calories', nutrition.totals.calories, ''],
+            ['Protein', nutrition.totals.protein, 'g'],
+            ['Carbs', nutrition.totals.carbs, 'g'],
+            ['Fat', nutrition.totals.fat, 'g'],
+            ['Fiber', nutrition.totals.fiber, 'g'],
+          ] as const
+        ).map(([label, value, unit]) => (
+          <div key={label}>
+            <div className="text-sm font-semibold text-foreground">
+              {Math.round(value)}
+              {unit}
+            </div>
+            <div className="text-xs text-muted-foreground">{label}</div>
+          </div>
+        ))}
+      </div>
+      {nutrition.dailyValues.covered.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {nutrition.dailyValues.covered.map(key => (
+            <span
+              key={key}
+              className="text-xs px-2 py-1 rounded-full bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-300"
+            >
+              {REFERENCE_INTAKES[key].label}{' '}
+              {nutrition.dailyValues.percentDailyValue[key]}% DV
+            </span>
+          ))}
+        </div>
+      )}
+      {nutrition.unmatched.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Not included: {nutrition.unmatched.join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
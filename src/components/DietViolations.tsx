@@ -0,0 +1,46 @@
+'use client';
+
+import React from 'react';
+import { ShieldCheck } from 'lucide-react';
+import type { DietViolation } from '@/lib/dietary';
+
+interface DietViolationsProps {
+  violations: DietViolation[];
+}
+
+const describeAction = (violation: DietViolation) => {
+  if (violation.action === 'replaced') {
+    return `${violation.ingredient} → ${violation.replacement}`;
+  }
+  return violation.action === 'removed'
+    ? `${violation.ingredient} removed`
+    : `${violation.ingredient} rejected`;
+};
+
+/**
+ * Lists the ingredients the server changed because they broke the user's
+ * dietary restrictions or allergies
+ */
+export function DietViolations({ violations }: DietViolationsProps) {
+  if (violations.length === 0) return null;
+
+  return (
+    <div className="p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg text-sm text-amber-800 dark:text-amber-200">
+      <p className="flex items-center gap-2 font-medium mb-2">
+        <ShieldCheck className="w-4 h-4" />
+        Adjusted to your dietary restrictions and allergies
+      </p>
+      <ul className="space-y-1">
+        {violations.map((violation, index) => (
+          <li key={index}>
+            <span className="font-medium">{violation.slot}:</span>{' '}
+            {describeAction(violation)}{' '}
+            <span className="text-amber-700/80 dark:text-amber-300/80">
+              ({violation.rules.join(', ')})
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
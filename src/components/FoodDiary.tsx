@@ -0,0 +1,391 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  AlertCircle,
+  BarChart3,
+  Bookmark,
+  ChevronLeft,
+  ChevronRight,
+  Loader2,
+  NotebookPen,
+  Plus,
+  Trash2,
+} from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useDatabase } from '@/hooks/useDatabase';
+import { foodGroupsApi } from '@/lib/api/services/foodGroups';
+import { foodLogApi } from '@/lib/api/services/foodLog';
+import { nutritionGoalsApi } from '@/lib/api/services/nutritionGoals';
+import type { FoodGroup, SavedCombination } from '@/lib/database';
+import { addDays, currentMealSlot, DiaryDay, toDiaryDate } from '@/lib/foodLog';
+import { dailyTargets, percentOfTarget } from '@/lib/goals';
+import { MEAL_TYPES, MealType } from '@/lib/mealPlans';
+import { EMPTY_NUTRITION, NutritionTotals } from '@/lib/nutrition';
+
+const MACROS: { key: keyof NutritionTotals; label: string; unit: string }[] = [
+  { key: 'calories', label: 'Calories', unit: 'kcal' },
+  { key: 'protein', label: 'Protein', unit: 'g' },
+  { key: 'carbs', label: 'Carbs', unit: 'g' },
+  { key: 'fat', label: 'Fat', unit: 'g' },
+  { key: 'fiber', label: 'Fiber', unit: 'g' },
+];
+
+const capitalize = (value: string) =>
+  value.charAt(0).toUpperCase() + value.slice(1);
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+
+export function FoodDiary() {
+  const { user } = useAuth();
+  const { getUserCombinations } = useDatabase();
+  const [date, setDate] = useState(() => toDiaryDate());
+  const [day, setDay] = useState<DiaryDay | null>(null);
+  const [foods, setFoods] = useState<FoodGroup[]>([]);
+  const [combinations, setCombinations] = useState<SavedCombination[]>([]);
+  const [targets, setTargets] = useState<Partial<NutritionTotals>>({});
+  const [search, setSearch] = useState('');
+  const [foodId, setFoodId] = useState<string | null>(null);
+  const [quantity, setQuantity] = useState('100g');
+  const [mealSlot, setMealSlot] = useState<MealType>(() => currentMealSlot());
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadDay = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    const response = await foodLogApi.getDiary(user.uid, date);
+    if (response.success && response.data) {
+      setDay(response.data[0] ?? null);
+      setError('');
+    } else {
+      setError(response.error || 'Failed to load diary');
+    }
+    setLoading(false);
+  }, [user, date]);
+
+  useEffect(() => {
+    loadDay();
+  }, [loadDay]);
+
+  // The catalog, saved combinations and active goal only load once
+  useEffect(() => {
+    if (!user) return;
+
+    foodGroupsApi.getAll().then(response => {
+      if (response.success && response.data) setFoods(response.data);
+    });
+    getUserCombinations(user.uid)
+      .then(setCombinations)
+      .catch(() => setCombinations([]));
+    nutritionGoalsApi.getAll(user.uid).then(response => {
+      const goal = response.data?.find(item => item.isActive);
+      setTargets(goal ? dailyTargets(goal) : {});
+    });
+  }, [user, getUserCombinations]);
+
+  const log = async (entry: {
+    foodGroupId?: string;
+    combinationId?: string;
+  }) => {
+    if (!user) return;
+
+    setSaving(true);
+    const response = await foodLogApi.log(user.uid, {
+      date,
+      mealSlot,
+      quantity: entry.combinationId ? '1' : quantity,
+      ...entry,
+    });
+    setSaving(false);
+
+    if (!response.success) {
+      setError(response.error || 'Failed to log food');
+      return;
+    }
+
+    setFoodId(null);
+    setSearch('');
+    await loadDay();
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!user) return;
+    await foodLogApi.delete(id, user.uid);
+    await loadDay();
+  };
+
+  if (!user) return null;
+
+  const totals = day?.totals ?? EMPTY_NUTRITION;
+  const selected = foods.find(food => food.id === foodId);
+  const matches = search.trim()
+    ? foods
+        .filter(food =>
+          food.name.toLowerCase().includes(search.trim().toLowerCase())
+        )
+        .slice(0, 6)
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setDate(prev => addDays(prev, -1))}
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <div className="text-center">
+          <p className="font-medium text-foreground">{formatDay(date)}</p>
+          {date !== toDiaryDate() && (
+            <button
+              className="text-xs text-blue-600 dark:text-blue-400"
+              onClick={() => setDate(toDiaryDate())}
+            >
+              Back to today
+            </button>
+          )}
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setDate(prev => addDays(prev, 1))}
+        >
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-300 text-sm">
+          {error}
+        </div>
+      )}
+
+      <Card className="border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <BarChart3 className="w-5 h-5 text-purple-500" />
+            Daily Totals
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+            {MACROS.map(({ key, label, unit }) => {
+              const target = targets[key];
+              const percent = percentOfTarget(totals[key], target);
+              return (
+                <div key={key} className="space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span>{label}</span>
+                    <span className="text-muted-foreground">
+                      {totals[key]}
+                      {target !== undefined && `/${target}`}
+                      {unit}
+                    </span>
+                  </div>
+                  {percent !== null && (
+                    <div className="h-1.5 rounded-full bg-muted">
+                      <div
+                        className="h-1.5 rounded-full bg-green-500"
+                        style={{ width: `${Math.min(percent, 100)}%` }}
+                      />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          {day && day.unmeasured.length > 0 && (
+            <p className="flex items-center gap-2 text-xs text-muted-foreground">
+              <AlertCircle className="w-4 h-4" />
+              Not counted: {day.unmeasured.join(', ')}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card className="border-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Plus className="w-5 h-5 text-blue-500" />
+              Log Food
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {MEAL_TYPES.map(slot => (
+                <Button
+                  key={slot}
+                  size="sm"
+                  variant={mealSlot === slot ? 'default' : 'outline'}
+                  onClick={() => setMealSlot(slot)}
+                >
+                  {capitalize(slot)}
+                </Button>
+              ))}
+            </div>
+
+            <div>
+              <Label htmlFor="diary-food" className="mb-2 block">
+                Food
+              </Label>
+              <Input
+                id="diary-food"
+                value={selected ? selected.name : search}
+                onChange={e => {
+                  setFoodId(null);
+                  setSearch(e.target.value);
+                }}
+                placeholder="Search foods..."
+              />
+              {!selected && matches.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {matches.map(food => (
+                    <Button
+                      key={food.id}
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setFoodId(food.id)}
+                    >
+                      {food.name}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor="diary-quantity" className="mb-2 block">
+                Quantity
+              </Label>
+              <Input
+                id="diary-quantity"
+                value={quantity}
+                onChange={e => setQuantity(e.target.value)}
+                placeholder="e.g., 150g, 1 cup, 2 pieces"
+              />
+            </div>
+
+            <Button
+              onClick={() => selected && log({ foodGroupId: selected.id })}
+              disabled={!selected || saving}
+            >
+              {saving ? (
+                <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+              ) : (
+                <NotebookPen className="w-4 h-4 mr-1" />
+              )}
+              Log to {capitalize(mealSlot)}
+            </Button>
+
+            {combinations.length > 0 && (
+              <div className="space-y-2 pt-2 border-t border-border">
+                <p className="flex items-center gap-2 text-sm font-medium text-foreground">
+                  <Bookmark className="w-4 h-4" />
+                  Saved combinations
+                </p>
+                {combinations.map(combination => (
+                  <div
+                    key={combination.id}
+                    className="flex items-center justify-between gap-2 text-sm"
+                  >
+                    <span className="truncate">{combination.name}</span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={saving}
+                      onClick={() => log({ combinationId: combination.id })}
+                    >
+                      Log
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="border-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <NotebookPen className="w-5 h-5 text-green-600" />
+              Meals
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : !day ? (
+              <p className="text-sm text-muted-foreground">
+                Nothing logged for this day yet.
+              </p>
+            ) : (
+              MEAL_TYPES.map(slot => {
+                const entries = day.entries.filter(
+                  entry => entry.mealSlot === slot
+                );
+                if (entries.length === 0) return null;
+
+                return (
+                  <div key={slot} className="space-y-2">
+                    <div className="flex justify-between text-sm font-medium text-foreground">
+                      <span>{capitalize(slot)}</span>
+                      <span className="text-muted-foreground">
+                        {day.slots[slot]?.calories ?? 0} kcal
+                      </span>
+                    </div>
+                    {entries.map(entry => (
+                      <div
+                        key={entry.id}
+                        className="flex items-center justify-between gap-2 rounded-lg border border-border p-2 text-sm"
+                      >
+                        <span>
+                          {entry.name}{' '}
+                          <span className="text-muted-foreground">
+                            · {entry.quantity}
+                            {entry.combinationId && ' serving(s)'}
+                          </span>
+                        </span>
+                        <span className="flex items-center gap-2">
+                          <span className="text-xs text-muted-foreground">
+                            {entry.nutrition
+                              ? `${entry.nutrition.calories} kcal`
+                              : 'not measured'}
+                          </span>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleDelete(entry.id)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                );
+              })
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
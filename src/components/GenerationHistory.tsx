@@ -0,0 +1,297 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import {
+  AlertCircle,
+  GitBranch,
+  GitCompare,
+  History,
+  Loader2,
+  RotateCcw,
+} from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { mealPlanningApi } from '@/lib/api/services/mealPlanning';
+import {
+  diffGenerations,
+  GenerationDiff,
+  GenerationRecord,
+  getLineage,
+} from '@/lib/generationHistory';
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+function describeGeneration(generation: GenerationRecord): string {
+  if (generation.mealPlan) return generation.mealPlan.title;
+  const count = generation.combinations?.length ?? 0;
+  return `${count} combination${count === 1 ? '' : 's'}`;
+}
+
+function DiffView({ diff }: { diff: GenerationDiff }) {
+  if (!diff.inputs.length && !diff.slots.length && !diff.providerChanged) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        These generations are identical.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      {diff.inputs.length > 0 && (
+        <div>
+          <h4 className="font-medium text-foreground mb-1">Inputs</h4>
+          <ul className="space-y-1">
+            {diff.inputs.map(change => (
+              <li key={change.field}>
+                <span className="font-medium">{change.field}:</span>{' '}
+                <span className="line-through text-red-600 dark:text-red-400">
+                  {change.before || 'none'}
+                </span>{' '}
+                →{' '}
+                <span className="text-green-700 dark:text-green-300">
+                  {change.after || 'none'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {diff.slots.length > 0 && (
+        <div>
+          <h4 className="font-medium text-foreground mb-1">Ingredients</h4>
+          <ul className="space-y-1">
+            {diff.slots.map(change => (
+              <li key={change.slot}>
+                <span className="font-medium">{change.slot}:</span>{' '}
+                {change.removed.map(item => (
+                  <span
+                    key={`-${item}`}
+                    className="mr-1 text-red-600 dark:text-red-400"
+                  >
+                    −{item}
+                  </span>
+                ))}
+                {change.added.map(item => (
+                  <span
+                    key={`+${item}`}
+                    className="mr-1 text-green-700 dark:text-green-300"
+                  >
+                    +{item}
+                  </span>
+                ))}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {diff.providerChanged && (
+        <p className="text-muted-foreground">
+          Generated by a different provider.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function GenerationHistory() {
+  const { user } = useAuth();
+  const [generations, setGenerations] = useState<GenerationRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  // Oldest selection first, so the diff reads "before → after"
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const loadHistory = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    const response = await mealPlanningApi.getHistory(user.uid);
+    if (response.success && response.data) {
+      setGenerations(response.data);
+      setError('');
+    } else {
+      setError(response.error || 'Failed to load history');
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const byId = useMemo(
+    () => new Map(generations.map(generation => [generation.id, generation])),
+    [generations]
+  );
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      if (prev.includes(id)) return prev.filter(item => item !== id);
+      const next = [...prev, id].slice(-2);
+      return next.sort((a, b) =>
+        (byId.get(a)?.createdAt ?? '').localeCompare(
+          byId.get(b)?.createdAt ?? ''
+        )
+      );
+    });
+  };
+
+  const compareWithParent = (generation: GenerationRecord) => {
+    if (generation.parentId) {
+      setSelected([generation.parentId, generation.id]);
+    }
+  };
+
+  const [before, after] = selected.map(id => byId.get(id));
+  const diff = before && after ? diffGenerations(before, after) : null;
+
+  if (!user) {
+    return (
+      <div className="text-center py-8">
+        <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-6 max-w-2xl mx-auto">
+          <h3 className="text-lg font-medium text-blue-800 dark:text-blue-200 mb-2">
+            Sign In Required
+          </h3>
+          <p className="text-blue-700 dark:text-blue-300">
+            Please sign in to view your meal plan history.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-foreground flex items-center gap-2">
+          <History className="w-6 h-6" />
+          Meal Plan History
+        </h2>
+        <p className="text-muted-foreground">
+          Every plan you have generated. Select two to compare them, or restore
+          one into the planner.
+        </p>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-300 text-sm">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </div>
+      )}
+
+      {diff && before && after && (
+        <Card className="border-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <GitCompare className="w-5 h-5 text-purple-500" />
+              {formatDate(before.createdAt)} → {formatDate(after.createdAt)}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <DiffView diff={diff} />
+          </CardContent>
+        </Card>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : generations.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">
+          No generated plans yet.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {generations.map(generation => {
+            const lineage = getLineage(generation, generations);
+            const parent = generation.parentId
+              ? byId.get(generation.parentId)
+              : undefined;
+
+            return (
+              <Card
+                key={generation.id}
+                className={`border-border ${
+                  selected.includes(generation.id) ? 'ring-2 ring-blue-500' : ''
+                }`}
+              >
+                <CardContent className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        aria-label="Select for comparison"
+                        checked={selected.includes(generation.id)}
+                        onChange={() => toggleSelected(generation.id)}
+                      />
+                      <span className="font-medium text-foreground">
+                        {describeGeneration(generation)}
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        {formatDate(generation.createdAt)}
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {generation.provider}
+                      {generation.seed !== undefined &&
+                        ` · seed ${generation.seed}`}
+                      {generation.request.dietaryRestrictions?.length
+                        ? ` · ${generation.request.dietaryRestrictions.join(', ')}`
+                        : ''}
+                    </p>
+                    {generation.request.userPrompt && (
+                      <p className="text-sm text-muted-foreground">
+                        “{generation.request.userPrompt}”
+                      </p>
+                    )}
+                    {parent && (
+                      <p className="text-xs text-muted-foreground flex items-center gap-1">
+                        <GitBranch className="w-3 h-3" />
+                        Regenerated from {formatDate(parent.createdAt)}
+                        {lineage.length > 2 &&
+                          ` (${lineage.length - 1} regenerations deep)`}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="flex gap-2">
+                    {parent && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => compareWithParent(generation)}
+                      >
+                        <GitCompare className="w-4 h-4 mr-1" />
+                        Diff with parent
+                      </Button>
+                    )}
+                    <Link href={`/planner?restore=${generation.id}`}>
+                      <Button size="sm">
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Restore
+                      </Button>
+                    </Link>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { BarChart3, Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { nutritionGoalsApi } from '@/lib/api/services/nutritionGoals';
+import { GoalPeriod, GoalProgress, percentOfTarget } from '@/lib/goals';
+import type { NutritionTotals } from '@/lib/nutrition';
+
+const MACROS: { key: keyof NutritionTotals; label: string; unit: string }[] = [
+  { key: 'calories', label: 'Calories', unit: 'kcal' },
+  { key: 'protein', label: 'Protein', unit: 'g' },
+  { key: 'carbs', label: 'Carbs', unit: 'g' },
+  { key: 'fat', label: 'Fat', unit: 'g' },
+  { key: 'fiber', label: 'Fiber', unit: 'g' },
+];
+
+const formatStart = (start: string, period: GoalPeriod) => {
+  const label = new Date(`${start}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+  return period === 'week' ? `Week of ${label}` : label;
+};
+
+function ProgressBar({
+  percent,
+  className,
+}: {
+  percent: number | null;
+  className: string;
+}) {
+  return (
+    <div className="h-1.5 rounded-full bg-muted">
+      <div
+        className={`h-1.5 rounded-full ${className}`}
+        style={{ width: `${Math.min(percent ?? 0, 100)}%` }}
+      />
+    </div>
+  );
+}
+
+interface GoalDashboardProps {
+  refreshKey?: number; // bump to reload after goals change
+}
+
+export function GoalDashboard({ refreshKey }: GoalDashboardProps) {
+  const { user } = useAuth();
+  const [period, setPeriod] = useState<GoalPeriod>('day');
+  const [progress, setProgress] = useState<GoalProgress | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadProgress = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    const response = await nutritionGoalsApi.getProgress(user.uid, period);
+    if (response.success && response.data) {
+      setProgress(response.data);
+      setError('');
+    } else {
+      setProgress(null);
+      setError(response.error || 'Failed to load progress');
+    }
+    setLoading(false);
+  }, [user, period]);
+
+  useEffect(() => {
+    loadProgress();
+  }, [loadProgress, refreshKey]);
+
+  if (!user) return null;
+
+  const macros = progress
+    ? MACROS.filter(({ key }) => progress.targets[key] !== undefined)
+    : [];
+  // Newest period first
+  const periods = progress ? [...progress.periods].reverse() : [];
+
+  return (
+    <Card className="border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2 text-lg">
+          <span className="flex items-center gap-2">
+            <BarChart3 className="w-5 h-5 text-purple-500" />
+            Progress
+          </span>
+          <span className="flex gap-2">
+            {(['day', 'week'] as const).map(option => (
+              <Button
+                key={option}
+                size="sm"
+                variant={period === option ? 'default' : 'outline'}
+                onClick={() => setPeriod(option)}
+              >
+                {option === 'day' ? 'Daily' : 'Weekly'}
+              </Button>
+            ))}
+          </span>
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          Average per day against your active goal.{' '}
+          <span className="text-green-700 dark:text-green-300">Eaten</span> and{' '}
+          <span className="text-blue-700 dark:text-blue-300">saved</span>{' '}
+          combinations are shown separately.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : error || !progress ? (
+          <p className="text-sm text-muted-foreground">
+            {error === 'Nutrition goal not found'
+              ? 'Activate a goal to track your progress.'
+              : error}
+          </p>
+        ) : macros.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Your active goal has no macro targets to compare against.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {periods.map(item => (
+              <div key={item.start} className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium text-foreground">
+                    {formatStart(item.start, progress.period)}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {item.entries.eaten} eaten · {item.entries.saved} saved
+                  </span>
+                </div>
+                <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+                  {macros.map(({ key, label, unit }) => {
+                    const target = progress.targets[key];
+                    const eaten = percentOfTarget(item.eaten[key], target);
+                    const saved = percentOfTarget(item.saved[key], target);
+                    return (
+                      <div key={key} className="space-y-1 text-xs">
+                        <div className="flex justify-between">
+                          <span>{label}</span>
+                          <span className="text-muted-foreground">
+                            {item.eaten[key]}/{target}
+                            {unit}
+                          </span>
+                        </div>
+                        <ProgressBar percent={eaten} className="bg-green-500" />
+                        <ProgressBar percent={saved} className="bg-blue-500" />
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,394 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  AlertCircle,
+  CheckCircle,
+  Loader2,
+  Pencil,
+  Plus,
+  Target,
+  Trash2,
+} from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { nutritionGoalsApi } from '@/lib/api/services/nutritionGoals';
+import type { NutritionGoal, NutritionGoalInput } from '@/lib/database';
+import { NutritionGoalSchema } from '@/lib/validation/schemas';
+
+type TargetField =
+  | 'targetCalories'
+  | 'targetProtein'
+  | 'targetCarbs'
+  | 'targetFat'
+  | 'targetFiber';
+
+const TARGET_FIELDS: { field: TargetField; label: string; unit: string }[] = [
+  { field: 'targetCalories', label: 'Calories', unit: 'kcal' },
+  { field: 'targetProtein', label: 'Protein', unit: 'g' },
+  { field: 'targetCarbs', label: 'Carbs', unit: 'g' },
+  { field: 'targetFat', label: 'Fat', unit: 'g' },
+  { field: 'targetFiber', label: 'Fiber', unit: 'g' },
+];
+
+// Numbers are kept as strings while editing so fields can be left empty
+interface GoalForm {
+  name: string;
+  description: string;
+  targetNutrients: string;
+  targets: Record<TargetField, string>;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: GoalForm = {
+  name: '',
+  description: '',
+  targetNutrients: '',
+  targets: {
+    targetCalories: '',
+    targetProtein: '',
+    targetCarbs: '',
+    targetFat: '',
+    targetFiber: '',
+  },
+  isActive: true,
+};
+
+function toForm(goal: NutritionGoal): GoalForm {
+  return {
+    name: goal.name,
+    description: goal.description,
+    targetNutrients: goal.targetNutrients.join(', '),
+    targets: Object.fromEntries(
+      TARGET_FIELDS.map(({ field }) => [field, String(goal[field] ?? '')])
+    ) as Record<TargetField, string>,
+    isActive: goal.isActive,
+  };
+}
+
+function fromForm(form: GoalForm) {
+  return {
+    name: form.name,
+    description: form.description,
+    targetNutrients: form.targetNutrients
+      .split(',')
+      .map(item => item.trim())
+      .filter(Boolean),
+    ...Object.fromEntries(
+      TARGET_FIELDS.filter(({ field }) => form.targets[field].trim()).map(
+        ({ field }) => [field, Number(form.targets[field])]
+      )
+    ),
+    isActive: form.isActive,
+  };
+}
+
+function describeTargets(goal: NutritionGoal): string {
+  const targets = TARGET_FIELDS.filter(({ field }) => goal[field]).map(
+    ({ field, label, unit }) => `${label} ${goal[field]}${unit}`
+  );
+  return targets.length ? targets.join(' · ') : 'No macro targets';
+}
+
+interface GoalSetupProps {
+  onGoalsChange?: () => void;
+}
+
+export function GoalSetup({ onGoalsChange }: GoalSetupProps) {
+  const { user } = useAuth();
+  const [goals, setGoals] = useState<NutritionGoal[]>([]);
+  const [form, setForm] = useState<GoalForm>(EMPTY_FORM);
+  // The goal being edited, or null while creating one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saved, setSaved] = useState(false);
+
+  const loadGoals = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    const response = await nutritionGoalsApi.getAll(user.uid);
+    if (response.success && response.data) {
+      setGoals(response.data);
+    } else {
+      setErrors([response.error || 'Failed to load goals']);
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    loadGoals();
+  }, [loadGoals]);
+
+  const afterChange = async () => {
+    await loadGoals();
+    onGoalsChange?.();
+  };
+
+  const startEditing = (goal: NutritionGoal) => {
+    setEditingId(goal.id);
+    setForm(toForm(goal));
+    setErrors([]);
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setErrors([]);
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    const result = NutritionGoalSchema.safeParse(fromForm(form));
+    if (!result.success) {
+      setErrors(
+        result.error.issues.map(
+          issue => `${issue.path.join('.') || 'goal'}: ${issue.message}`
+        )
+      );
+      return;
+    }
+
+    setSaving(true);
+    const goal: NutritionGoalInput = result.data;
+    const response = editingId
+      ? await nutritionGoalsApi.update(editingId, user.uid, {
+          // Emptied targets are sent as null so the stored ones are cleared
+          ...Object.fromEntries(
+            TARGET_FIELDS.map(({ field }) => [field, null])
+          ),
+          ...goal,
+        })
+      : await nutritionGoalsApi.create(user.uid, goal);
+    setSaving(false);
+
+    if (!response.success) {
+      setErrors([response.error || 'Failed to save goal']);
+      return;
+    }
+
+    resetForm();
+    setSaved(true);
+    setTimeout(() => setSaved(false), 3000);
+    await afterChange();
+  };
+
+  const handleActivate = async (goal: NutritionGoal) => {
+    if (!user) return;
+    await nutritionGoalsApi.update(goal.id, user.uid, { isActive: true });
+    await afterChange();
+  };
+
+  const handleDelete = async (goal: NutritionGoal) => {
+    if (!user) return;
+    await nutritionGoalsApi.delete(goal.id, user.uid);
+    if (editingId === goal.id) resetForm();
+    await afterChange();
+  };
+
+  if (!user) return null;
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <Card className="border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            {editingId ? (
+              <Pencil className="w-5 h-5 text-blue-500" />
+            ) : (
+              <Plus className="w-5 h-5 text-blue-500" />
+            )}
+            {editingId ? 'Edit Goal' : 'New Goal'}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {errors.length > 0 && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-300 text-sm">
+              <ul className="list-disc pl-5">
+                {errors.map(error => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="goal-name" className="mb-2 block">
+              Name
+            </Label>
+            <Input
+              id="goal-name"
+              value={form.name}
+              onChange={e =>
+                setForm(prev => ({ ...prev, name: e.target.value }))
+              }
+              placeholder="e.g., High fiber cut"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="goal-description" className="mb-2 block">
+              Description
+            </Label>
+            <Input
+              id="goal-description"
+              value={form.description}
+              onChange={e =>
+                setForm(prev => ({ ...prev, description: e.target.value }))
+              }
+            />
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {TARGET_FIELDS.map(({ field, label, unit }) => (
+              <div key={field}>
+                <Label htmlFor={field} className="mb-2 block">
+                  {label} ({unit}/day)
+                </Label>
+                <Input
+                  id={field}
+                  type="number"
+                  min={0}
+                  value={form.targets[field]}
+                  onChange={e =>
+                    setForm(prev => ({
+                      ...prev,
+                      targets: { ...prev.targets, [field]: e.target.value },
+                    }))
+                  }
+                />
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <Label htmlFor="goal-nutrients" className="mb-2 block">
+              Nutrients to prioritize
+            </Label>
+            <Input
+              id="goal-nutrients"
+              value={form.targetNutrients}
+              onChange={e =>
+                setForm(prev => ({ ...prev, targetNutrients: e.target.value }))
+              }
+              placeholder="e.g., iron, vitamin C, omega-3"
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={form.isActive}
+              onChange={e =>
+                setForm(prev => ({ ...prev, isActive: e.target.checked }))
+              }
+            />
+            Make this my active goal
+          </label>
+
+          <div className="flex items-center gap-2">
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? (
+                <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+              ) : (
+                <Target className="w-4 h-4 mr-1" />
+              )}
+              {editingId ? 'Update Goal' : 'Create Goal'}
+            </Button>
+            {editingId && (
+              <Button variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+            {saved && (
+              <span className="flex items-center gap-1 text-sm text-green-700 dark:text-green-300">
+                <CheckCircle className="w-4 h-4" />
+                Saved
+              </span>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Target className="w-5 h-5 text-green-600" />
+            Your Goals
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : goals.length === 0 ? (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground">
+              <AlertCircle className="w-4 h-4" />
+              No goals yet. Create one to steer generation and track progress.
+            </p>
+          ) : (
+            goals.map(goal => (
+              <div
+                key={goal.id}
+                className="rounded-lg border border-border p-3 space-y-2"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-foreground">
+                    {goal.name}
+                  </span>
+                  {goal.isActive && <Badge>Active</Badge>}
+                </div>
+                {goal.description && (
+                  <p className="text-sm text-muted-foreground">
+                    {goal.description}
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {describeTargets(goal)}
+                  {goal.targetNutrients.length > 0 &&
+                    ` · Prioritizes ${goal.targetNutrients.join(', ')}`}
+                </p>
+                <div className="flex gap-2">
+                  {!goal.isActive && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleActivate(goal)}
+                    >
+                      <CheckCircle className="w-4 h-4 mr-1" />
+                      Activate
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => startEditing(goal)}
+                  >
+                    <Pencil className="w-4 h-4 mr-1" />
+                    Edit
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleDelete(goal)}
+                  >
+                    <Trash2 className="w-4 h-4 mr-1" />
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { CheckCircle, AlertCircle } from 'lucide-react';
+import {
+  describeImportError,
+  FoodImportAction,
+  FoodImportReport,
+} from '@/lib/foodImport';
+
+export interface ImportResult {
+  success: boolean;
+  message: string;
+  // unset when the file was rejected outright; `skipped` counts source foods
+  // an importer left out before planning, such as USDA foods in no category
+  report?: FoodImportReport & { skipped?: number };
+}
+
+interface ImportReportProps {
+  result: ImportResult;
+  busy: boolean;
+  onConfirm: () => void;
+  onReset: () => void;
+  resetLabel: string;
+}
+
+const ACTION_STYLES: Record<
+  Exclude<FoodImportAction, 'unchanged'>,
+  { label: string; className: string }
+> = {
+  create: { label: 'New', className: 'bg-green-100 text-green-800' },
+  update: { label: 'Updated', className: 'bg-blue-100 text-blue-800' },
+  deactivate: { label: 'Deactivated', className: 'bg-gray-200 text-gray-700' },
+};
+
+/**
+ * Shows an import's outcome, and for a dry run the changes it would make
+ * with buttons to confirm or cancel them
+ */
+export function ImportReport({
+  result,
+  busy,
+  onConfirm,
+  onReset,
+  resetLabel,
+}: ImportReportProps) {
+  const report = result.report;
+  const changes =
+    report?.changes.filter(change => change.action !== 'unchanged') ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div
+        className={`p-4 rounded-lg border ${
+          result.success
+            ? 'bg-green-50 border-green-200'
+            : 'bg-red-50 border-red-200'
+        }`}
+      >
+        <div className="flex items-center gap-2 mb-2">
+          {result.success ? (
+            <CheckCircle className="w-5 h-5 text-green-600" />
+          ) : (
+            <AlertCircle className="w-5 h-5 text-red-600" />
+          )}
+          <h4
+            className={`font-medium ${
+              result.success ? 'text-green-800' : 'text-red-800'
+            }`}
+          >
+            {!result.success
+              ? 'Import Failed'
+              : report?.dryRun
+                ? 'Import Preview'
+                : 'Import Successful!'}
+          </h4>
+        </div>
+        <p
+          className={`text-sm ${
+            result.success ? 'text-green-700' : 'text-red-700'
+          }`}
+        >
+          {result.message}
+        </p>
+        {report && (
+          <div className="mt-2 flex flex-wrap gap-3 text-sm text-gray-700">
+            <span>New: {report.counts.create}</span>
+            <span>Updated: {report.counts.update}</span>
+            <span>Unchanged: {report.counts.unchanged}</span>
+            <span>Deactivated: {report.counts.deactivate}</span>
+            <span>Rejected: {report.counts.rejected}</span>
+            <span className="text-gray-500">({report.total} rows in file)</span>
+          </div>
+        )}
+      </div>
+
+      {/* Changes */}
+      {changes.length > 0 && (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+          <h4 className="font-medium text-gray-800 mb-2">
+            {report?.dryRun ? 'Changes to Import:' : 'Imported Changes:'}
+          </h4>
+          <div className="max-h-64 overflow-y-auto space-y-1">
+            {changes.map(change => {
+              const style =
+                ACTION_STYLES[change.action as keyof typeof ACTION_STYLES];
+              return (
+                <div
+                  key={`${change.action}-${change.id ?? change.row}`}
+                  className="text-sm text-gray-700 flex items-center gap-2"
+                >
+                  <span className={`px-1.5 rounded text-xs ${style.className}`}>
+                    {style.label}
+                  </span>
+                  <span className="font-medium">{change.name}</span>
+                  <span className="text-gray-500">
+                    {change.category}
+                    {change.row !== undefined && ` • row ${change.row}`}
+                    {change.fields && ` • ${change.fields.join(', ')}`}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Errors */}
+      {report && report.errors.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <h4 className="font-medium text-red-800 mb-2">Rejected Rows:</h4>
+          <div className="max-h-32 overflow-y-auto space-y-1">
+            {report.errors.map((error, index) => (
+              <div
+                key={index}
+                className="text-sm text-red-700 flex items-center gap-2"
+              >
+                <AlertCircle className="w-3 h-3" />
+                {describeImportError(error)}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Warnings */}
+      {report &&
+        (report.ignoredHeaders.length > 0 ||
+          report.deactivationSkipped ||
+          !!report.skipped) && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800 space-y-1">
+            {report.ignoredHeaders.length > 0 && (
+              <p>Ignored columns: {report.ignoredHeaders.join(', ')}</p>
+            )}
+            {!!report.skipped && (
+              <p>
+                {report.skipped} foods outside the catalog&apos;s categories
+                were skipped.
+              </p>
+            )}
+            {report.deactivationSkipped && (
+              <p>
+                Missing foods were not deactivated because some rows were
+                rejected. Fix them and import again.
+              </p>
+            )}
+          </div>
+        )}
+
+      {report?.dryRun ? (
+        <div className="flex gap-2">
+          <Button
+            onClick={onConfirm}
+            disabled={busy || changes.length === 0}
+            className="flex-1 flex items-center justify-center gap-2"
+          >
+            <CheckCircle className="w-4 h-4" />
+            Confirm Import
+          </Button>
+          <Button onClick={onReset} variant="outline">
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        <Button onClick={onReset} variant="outline" className="w-full">
+          {resetLabel}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import {
+  CalendarDays,
+  CheckCircle,
+  AlertCircle,
+  Clock,
+  Save,
+  ChefHat,
+  RefreshCw,
+  ShoppingCart,
+} from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { AnimatedButton } from './ui/animated-button';
+import { useAuth } from '@/contexts/AuthContext';
+import { mealPlanningApi } from '@/lib/api/services/mealPlanning';
+import {
+  formatMealIngredient,
+  Meal,
+  MEAL_TYPES,
+  MealPlan,
+  MealSlot,
+} from '@/lib/mealPlans';
+
+interface MealPlanDisplayProps {
+  mealPlan: MealPlan;
+  generationId?: string | null; // links the plan's shopping list
+  onRegenerate?: () => void;
+  onRegenerateMeal?: (slot: MealSlot) => void;
+}
+
+const MEAL_LABELS: Record<Meal['type'], string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Dinner',
+  snack: 'Snack',
+};
+
+function MealCard({
+  meal,
+  onRegenerate,
+}: {
+  meal: Meal;
+  onRegenerate?: () => void;
+}) {
+  const { nutritionFacts } = meal;
+
+  return (
+    <div className="rounded-lg border border-border p-4 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="text-xs font-medium uppercase text-muted-foreground">
+            {MEAL_LABELS[meal.type]}
+          </p>
+          <h4 className="font-semibold text-foreground">{meal.name}</h4>
+        </div>
+        <span className="flex items-center gap-1 text-xs text-muted-foreground whitespace-nowrap">
+          <Clock className="w-3 h-3" />
+          {meal.preparationTime} + {meal.cookingTime}
+          {onRegenerate && (
+            <button
+              onClick={onRegenerate}
+              className="ml-1 p-1 rounded-full hover:bg-muted"
+              title={`Regenerate this ${MEAL_LABELS[meal.type].toLowerCase()}`}
+            >
+              <RefreshCw className="w-3 h-3" />
+            </button>
+          )}
+        </span>
+      </div>
+
+      <ul className="text-sm text-foreground list-disc pl-5">
+        {meal.ingredients.map(ingredient => (
+          <li key={ingredient.name}>{formatMealIngredient(ingredient)}</li>
+        ))}
+      </ul>
+
+      <ol className="text-sm text-muted-foreground list-decimal pl-5 space-y-1">
+        {meal.instructions.map((step, index) => (
+          <li key={index}>{step}</li>
+        ))}
+      </ol>
+
+      <div className="grid grid-cols-5 gap-2 text-center text-xs">
+        <div>
+          <div className="font-semibold">{nutritionFacts.calories}</div>
+          <div className="text-muted-foreground">kcal</div>
+        </div>
+        <div>
+          <div className="font-semibold">{nutritionFacts.protein}g</div>
+          <div className="text-muted-foreground">protein</div>
+        </div>
+        <div>
+          <div className="font-semibold">{nutritionFacts.carbohydrates}g</div>
+          <div className="text-muted-foreground">carbs</div>
+        </div>
+        <div>
+          <div className="font-semibold">{nutritionFacts.fat}g</div>
+          <div className="text-muted-foreground">fat</div>
+        </div>
+        <div>
+          <div className="font-semibold">{nutritionFacts.fiber}g</div>
+          <div className="text-muted-foreground">fiber</div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function MealPlanDisplay({
+  mealPlan,
+  generationId,
+  onRegenerate,
+  onRegenerateMeal,
+}: MealPlanDisplayProps) {
+  const { user } = useAuth();
+  const [saving, setSaving] = useState(false);
+  const [savedStatus, setSavedStatus] = useState<'saved' | 'error' | null>(
+    null
+  );
+
+  const handleSave = async () => {
+    if (!user) {
+      setSavedStatus('error');
+      return;
+    }
+
+    setSaving(true);
+    const response = await mealPlanningApi.save(user.uid, mealPlan);
+    setSavedStatus(response.success ? 'saved' : 'error');
+    setSaving(false);
+
+    setTimeout(() => setSavedStatus(null), 3000);
+  };
+
+  const days = Array.from({ length: mealPlan.days }, (_, index) => index + 1);
+  const { nutritionSummary } = mealPlan;
+
+  return (
+    <div className="space-y-4">
+      <Card className="border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between gap-2 text-lg">
+            <span className="flex items-center gap-2">
+              <ChefHat className="w-5 h-5 text-green-600" />
+              {mealPlan.title}
+            </span>
+            <span className="flex gap-2">
+              {generationId && (
+                <Link href={`/shopping-list?generationId=${generationId}`}>
+                  <AnimatedButton
+                    variant="outline"
+                    size="sm"
+                    icon={<ShoppingCart className="w-4 h-4" />}
+                  >
+                    Shopping List
+                  </AnimatedButton>
+                </Link>
+              )}
+              {onRegenerate && (
+                <AnimatedButton
+                  variant="outline"
+                  size="sm"
+                  onClick={onRegenerate}
+                  icon={<RefreshCw className="w-4 h-4" />}
+                >
+                  Regenerate
+                </AnimatedButton>
+              )}
+              <AnimatedButton
+                variant="outline"
+                size="sm"
+                onClick={handleSave}
+                loading={saving}
+                icon={
+                  savedStatus === 'saved' ? (
+                    <CheckCircle className="w-4 h-4" />
+                  ) : savedStatus === 'error' ? (
+                    <AlertCircle className="w-4 h-4" />
+                  ) : (
+                    <Save className="w-4 h-4" />
+                  )
+                }
+              >
+                {savedStatus === 'saved'
+                  ? 'Saved'
+                  : savedStatus === 'error'
+                    ? user
+                      ? 'Save failed'
+                      : 'Sign in to save'
+                    : 'Save Plan'}
+              </AnimatedButton>
+            </span>
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {mealPlan.description} · {mealPlan.preparationTime} ·{' '}
+            {mealPlan.difficulty}
+          </p>
+        </CardHeader>
+        <CardContent className="grid grid-cols-2 md:grid-cols-4 gap-2 text-center text-sm">
+          <div>
+            <div className="font-semibold">
+              {Math.round(nutritionSummary.totalCalories / mealPlan.days)}
+            </div>
+            <div className="text-xs text-muted-foreground">kcal per day</div>
+          </div>
+          <div>
+            <div className="font-semibold">
+              {nutritionSummary.dailyValues.protein}%
+            </div>
+            <div className="text-xs text-muted-foreground">protein DV</div>
+          </div>
+          <div>
+            <div className="font-semibold">
+              {nutritionSummary.dailyValues.carbohydrates}%
+            </div>
+            <div className="text-xs text-muted-foreground">carbs DV</div>
+          </div>
+          <div>
+            <div className="font-semibold">
+              {nutritionSummary.dailyValues.fiber}%
+            </div>
+            <div className="text-xs text-muted-foreground">fiber DV</div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {days.map(day => (
+        <Card key={day} className="border-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <CalendarDays className="w-4 h-4 text-blue-500" />
+              Day {day}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {mealPlan.meals
+              .filter(meal => meal.day === day)
+              .sort(
+                (a, b) =>
+                  MEAL_TYPES.indexOf(a.type) - MEAL_TYPES.indexOf(b.type)
+              )
+              .map(meal => (
+                <MealCard
+                  key={`${meal.day}-${meal.type}`}
+                  meal={meal}
+                  onRegenerate={
+                    onRegenerateMeal &&
+                    (() => onRegenerateMeal({ day: meal.day, type: meal.type }))
+                  }
+                />
+              ))}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
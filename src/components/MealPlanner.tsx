@@ -1,6 +1,7 @@
 'use client';
 
 import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
 import { motion, AnimatePresence } from 'framer-motion';
 import { AnimatedCard, ElevatedCard } from '@/components/ui/animated-card';
 import {
@@ -24,20 +25,47 @@ import {
   RefreshCw,
   Save,
   Share2,
+  ShoppingCart,
 } from 'lucide-react';
 import { CombinationDisplay } from './CombinationDisplay';
+import { MealPlanDisplay } from './MealPlanDisplay';
+import { NutrientCoverage } from './NutrientCoverage';
+import { DietViolations } from './DietViolations';
+import { PantryUsage } from './PantryUsage';
 import { useAuth } from '@/contexts/AuthContext';
 import { useDatabase } from '@/hooks/useDatabase';
 import { fadeInUp, staggerContainer } from '@/lib/animations';
-
-interface Combination {
-  name?: string;
-  fruits?: string;
-  vegetables?: string;
-  grain?: string;
-  benefits?: string;
-  preparation?: string;
-}
+import {
+  CombinationWithNutrition,
+  IngredientLock,
+  RegenerationTarget,
+} from '@/lib/combinations';
+import type { DailyValueCoverage } from '@/lib/nutrition';
+import type { DietViolation } from '@/lib/dietary';
+import { MEAL_TYPES, MealPlan, MealSlot, MealType } from '@/lib/mealPlans';
+import { api } from '@/lib/api/client';
+import { mealPlanningApi } from '@/lib/api/services/mealPlanning';
+import type { GenerationRecord } from '@/lib/generationHistory';
+import type { PantryMode, PantryUsage as PantryUsageData } from '@/lib/pantry';
+
+// What the generation routes answer with: a plan, or a week of combinations
+type GenerationResult = MealPlan & {
+  combinations: CombinationWithNutrition[];
+  coverage?: DailyValueCoverage;
+  generationId?: string;
+  violations?: DietViolation[];
+  pantryUsage?: PantryUsageData[];
+};
+
+// Generating can take a while, and a retry would generate and record the
+// week a second time
+const GENERATION_REQUEST = { timeout: 120000, retries: 0 };
+
+const PANTRY_MODES: { value?: PantryMode; label: string }[] = [
+  { label: 'Off' },
+  { value: 'expiring-first', label: 'Use expiring items first' },
+  { value: 'only', label: 'Only what I have' },
+];
 
 interface FoodGroup {
   id: string;
@@ -79,11 +107,26 @@ export function MealPlanner() {
   const [userPrompt, setUserPrompt] = useState('');
   const [preferences, setPreferences] = useState('');
   const [dietaryRestrictions, setDietaryRestrictions] = useState<string[]>([]);
+  const [optimizeForGoal, setOptimizeForGoal] = useState(false);
+  const [pantryMode, setPantryMode] = useState<PantryMode>();
   const [loading, setLoading] = useState(false);
-
-  const [parsedCombinations, setParsedCombinations] = useState<Combination[]>(
+  const [mode, setMode] = useState<'combinations' | 'plan'>('combinations');
+  const [planDays, setPlanDays] = useState(3);
+  const [mealSlots, setMealSlots] = useState<MealType[]>([
+    'breakfast',
+    'lunch',
+    'dinner',
+  ]);
+
+  const [combinations, setCombinations] = useState<CombinationWithNutrition[]>(
     []
   );
+  const [coverage, setCoverage] = useState<DailyValueCoverage | null>(null);
+  const [mealPlan, setMealPlan] = useState<MealPlan | null>(null);
+  const [violations, setViolations] = useState<DietViolation[]>([]);
+  const [pantryUsage, setPantryUsage] = useState<PantryUsageData[]>([]);
+  // History entry for the plan on screen; regenerating links back to it
+  const [generationId, setGenerationId] = useState<string | null>(null);
   const [error, setError] = useState<string>('');
 
   const loadFoodGroups = useCallback(async () => {
@@ -98,6 +141,46 @@ export function MealPlanner() {
     loadFoodGroups();
   }, [loadFoodGroups]);
 
+  const restoreGeneration = useCallback((generation: GenerationRecord) => {
+    const { request } = generation;
+    setFruits(request.fruits);
+    setVegetables(request.vegetables);
+    setGrains(request.grains);
+    setUserPrompt(request.userPrompt ?? '');
+    setPreferences(request.preferences ?? '');
+    setDietaryRestrictions(request.dietaryRestrictions ?? []);
+    setOptimizeForGoal(request.optimizeForGoal ?? false);
+    setPantryMode(request.pantryMode);
+    setMode(request.plan ? 'plan' : 'combinations');
+    if (request.plan) {
+      setPlanDays(request.plan.days);
+      setMealSlots(request.plan.mealSlots);
+    }
+
+    setCombinations(generation.combinations ?? []);
+    setCoverage(generation.coverage ?? null);
+    setMealPlan(generation.mealPlan ?? null);
+    setViolations([]);
+    setPantryUsage([]);
+    setGenerationId(generation.id);
+  }, []);
+
+  // Restore a past generation when opened from the history page
+  useEffect(() => {
+    const restoreId = new URLSearchParams(window.location.search).get(
+      'restore'
+    );
+    if (!user || !restoreId) return;
+
+    mealPlanningApi.getGeneration(restoreId, user.uid).then(response => {
+      if (response.success && response.data) {
+        restoreGeneration(response.data);
+      } else {
+        setError(response.error || 'Could not restore that meal plan');
+      }
+    });
+  }, [user, restoreGeneration]);
+
   const addFoodItem = (
     type: 'fruits' | 'vegetables' | 'grains',
     value: string,
@@ -144,10 +227,22 @@ export function MealPlanner() {
   const resetAll = () => {
     clearAllFoods();
     clearAllPreferences();
-    setParsedCombinations([]);
+    setCombinations([]);
+    setCoverage(null);
+    setMealPlan(null);
+    setViolations([]);
+    setGenerationId(null);
     setError('');
   };
 
+  const toggleMealSlot = (slot: MealType) => {
+    setMealSlots(prev =>
+      prev.includes(slot)
+        ? prev.filter(s => s !== slot)
+        : MEAL_TYPES.filter(type => type === slot || prev.includes(type))
+    );
+  };
+
   const toggleDietaryRestriction = (restriction: string) => {
     setDietaryRestrictions(prev =>
       prev.includes(restriction)
@@ -156,7 +251,7 @@ export function MealPlanner() {
     );
   };
 
-  const handleGenerateMealPlan = async () => {
+  const handleGenerateMealPlan = async (regenerate = false) => {
     console.log('🚀 handleGenerateMealPlan called');
     console.log('User:', user);
     console.log('Foods:', { fruits, vegetables, grains });
@@ -179,9 +274,18 @@ export function MealPlanner() {
       return;
     }
 
+    if (mode === 'plan' && mealSlots.length === 0) {
+      setError('Please choose at least one meal for each day');
+      return;
+    }
+
     setLoading(true);
     setError('');
-    setParsedCombinations([]);
+    setCombinations([]);
+    setCoverage(null);
+    setMealPlan(null);
+    setViolations([]);
+    setPantryUsage([]);
 
     try {
       const request = {
@@ -192,45 +296,41 @@ export function MealPlanner() {
         preferences: preferences || undefined,
         dietaryRestrictions:
           dietaryRestrictions.length > 0 ? dietaryRestrictions : undefined,
+        optimizeForGoal: optimizeForGoal || undefined,
+        pantryMode,
+        plan: mode === 'plan' ? { days: planDays, mealSlots } : undefined,
+        userId: user.uid,
+        parentId: regenerate ? (generationId ?? undefined) : undefined,
       };
 
       // Call the API route instead of the direct AI function
       console.log('📡 Calling API endpoint: /api/meal-plan');
       console.log('Request payload:', request);
 
-      const response = await fetch('/api/meal-plan', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(request),
-      });
-
-      console.log('📡 API Response status:', response.status);
-      console.log('📡 API Response headers:', response.headers);
+      // The client sends the user's ID token, which the route requires for
+      // a request naming a user
+      const data = await api.post<GenerationResult>(
+        '/api/meal-plan',
+        request,
+        GENERATION_REQUEST
+      );
+      console.log('📡 API Response data:', data);
 
-      if (!response.ok) {
-        throw new Error(
-          `API returned ${response.status}: ${response.statusText}`
-        );
+      if (data.success && data.data) {
+        setGenerationId(data.data.generationId ?? null);
+        setViolations(data.data.violations ?? []);
+        setPantryUsage(data.data.pantryUsage ?? []);
       }
 
-      const data = await response.json();
-      console.log('📡 API Response data:', data);
-
-      if (data.success) {
-        console.log('Raw AI Response:', data.mealPlan); // Debug log
-        // Parse the AI response into structured combinations
-        const parsed = parseAIResponse(data.mealPlan);
-        setParsedCombinations(parsed);
-        console.log('Parsed combinations count:', parsed.length); // Debug log
-
-        // If parsing failed, try to use a fallback response
-        if (parsed.length === 0) {
-          console.log('Parsing failed, using fallback response');
-          const fallbackCombinations = getFallbackCombinations();
-          setParsedCombinations(fallbackCombinations);
-        }
+      if (data.success && data.data && mode === 'plan') {
+        setMealPlan(data.data);
+        console.log('Meals count:', data.data.meals.length);
+      } else if (data.success && data.data) {
+        // The server validates the combinations against the schema,
+        // so they can be rendered as-is
+        setCombinations(data.data.combinations);
+        setCoverage(data.data.coverage ?? null);
+        console.log('Combinations count:', data.data.combinations.length);
       } else {
         setError(data.error || 'Failed to generate meal plan');
       }
@@ -244,6 +344,110 @@ export function MealPlanner() {
     }
   };
 
+  // Replace only some days or categories of the week on screen. The server
+  // keeps everything else, so the current week stays visible meanwhile.
+  const handleRegenerateCombinations = async (
+    targets: RegenerationTarget[],
+    locks: IngredientLock[]
+  ) => {
+    if (!user) {
+      setError('Please sign in to generate meal plans');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const data = await api.post<GenerationResult>(
+        '/api/meal-plan/regenerate',
+        {
+          fruits,
+          vegetables,
+          grains,
+          userPrompt: userPrompt || undefined,
+          preferences: preferences || undefined,
+          dietaryRestrictions:
+            dietaryRestrictions.length > 0 ? dietaryRestrictions : undefined,
+          optimizeForGoal: optimizeForGoal || undefined,
+          pantryMode,
+          userId: user.uid,
+          parentId: generationId ?? undefined,
+          // Nutrition is stripped by the schema and recalculated server-side
+          regenerate: { current: combinations, targets, locks },
+        },
+        GENERATION_REQUEST
+      );
+
+      if (data.success && data.data) {
+        setCombinations(data.data.combinations);
+        setCoverage(data.data.coverage ?? null);
+        setGenerationId(data.data.generationId ?? null);
+        setViolations(data.data.violations ?? []);
+        setPantryUsage(data.data.pantryUsage ?? []);
+      } else {
+        setError(data.error || 'Failed to regenerate combinations');
+      }
+    } catch (err) {
+      console.error('Error regenerating combinations:', err);
+      const errorMessage =
+        err instanceof Error ? err.message : 'An unexpected error occurred';
+      setError(`Failed to regenerate combinations: ${errorMessage}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Replace a single meal of the plan on screen, keeping every other meal
+  const handleRegenerateMeal = async (slot: MealSlot) => {
+    if (!user || !mealPlan) {
+      setError('Please sign in to generate meal plans');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const data = await api.post<GenerationResult>(
+        '/api/meal-plan/regenerate',
+        {
+          fruits,
+          vegetables,
+          grains,
+          userPrompt: userPrompt || undefined,
+          preferences: preferences || undefined,
+          dietaryRestrictions:
+            dietaryRestrictions.length > 0 ? dietaryRestrictions : undefined,
+          optimizeForGoal: optimizeForGoal || undefined,
+          pantryMode,
+          plan: { days: mealPlan.days, mealSlots: mealPlan.mealSlots },
+          userId: user.uid,
+          parentId: generationId ?? undefined,
+          // Nutrition is stripped by the schema and recalculated server-side
+          regenerateMeals: { current: mealPlan.meals, targets: [slot] },
+        },
+        GENERATION_REQUEST
+      );
+
+      if (data.success && data.data) {
+        setMealPlan(data.data);
+        setGenerationId(data.data.generationId ?? null);
+        setViolations(data.data.violations ?? []);
+        setPantryUsage(data.data.pantryUsage ?? []);
+      } else {
+        setError(data.error || 'Failed to regenerate meal');
+      }
+    } catch (err) {
+      console.error('Error regenerating meal:', err);
+      const errorMessage =
+        err instanceof Error ? err.message : 'An unexpected error occurred';
+      setError(`Failed to regenerate meal: ${errorMessage}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const FoodSelector = ({
     title,
     items,
@@ -376,170 +580,6 @@ export function MealPlanner() {
     </div>
   );
 
-  const getFallbackCombinations = (): Combination[] => {
-    return [
-      {
-        name: 'Iron-Rich Power Bowl',
-        fruits: '1 cup strawberries, 1 medium orange',
-        vegetables: '2 cups spinach, 1 cup broccoli',
-        grain: '1/2 cup quinoa',
-        benefits: 'Rich in iron, vitamin C, and fiber for energy and immunity',
-        preparation: 'Steam quinoa, sauté vegetables, add fresh fruits',
-      },
-      {
-        name: 'Potassium Boost Medley',
-        fruits: '1 medium banana, 1 cup blueberries',
-        vegetables: '1 cup sweet potato, 1 cup kale',
-        grain: '1/2 cup brown rice',
-        benefits:
-          'High in potassium, antioxidants, and complex carbs for sustained energy',
-        preparation:
-          'Cook rice, roast sweet potato, steam kale, add fresh fruits',
-      },
-      {
-        name: 'Vitamin C Immunity Shield',
-        fruits: '1 cup pineapple, 1 medium kiwi',
-        vegetables: '1 cup bell peppers, 1 cup Brussels sprouts',
-        grain: '1/2 cup farro',
-        benefits: 'Packed with vitamin C, fiber, and immune-boosting nutrients',
-        preparation: 'Cook farro, roast vegetables, add fresh fruits',
-      },
-      {
-        name: 'Fiber-Rich Energy Explosion',
-        fruits: '1 cup raspberries, 1 medium apple',
-        vegetables: '1 cup carrots, 1 cup cauliflower',
-        grain: '1/2 cup barley',
-        benefits:
-          'High fiber content for digestive health and sustained energy',
-        preparation: 'Cook barley, steam vegetables, add fresh fruits',
-      },
-      {
-        name: 'Antioxidant Power Pack',
-        fruits: '1 cup blackberries, 1 medium pomegranate',
-        vegetables: '1 cup beets, 1 cup arugula',
-        grain: '1/2 cup wild rice',
-        benefits:
-          'Rich in antioxidants, nitrates, and anti-inflammatory compounds',
-        preparation:
-          'Cook wild rice, roast beets, add fresh arugula and fruits',
-      },
-      {
-        name: 'Calcium-Rich Bone Builder',
-        fruits: '1 cup figs, 1 medium pear',
-        vegetables: '1 cup collard greens, 1 cup bok choy',
-        grain: '1/2 cup amaranth',
-        benefits: 'High in calcium, vitamin K, and minerals for bone health',
-        preparation: 'Cook amaranth, steam greens, add fresh fruits',
-      },
-      {
-        name: 'Omega-3 Brain Fuel',
-        fruits: '1 cup avocado, 1 medium grapefruit',
-        vegetables: '1 cup Brussels sprouts, 1 cup asparagus',
-        grain: '1/2 cup teff',
-        benefits:
-          'Rich in healthy fats, B vitamins, and minerals for brain function',
-        preparation:
-          'Cook teff, roast vegetables, add fresh avocado and grapefruit',
-      },
-    ];
-  };
-
-  const parseAIResponse = (response: string): Combination[] => {
-    const combinations: Combination[] = [];
-
-    try {
-      // Try to find structured combinations first
-      const combinationRegex =
-        /COMBINATION\s+\d+\s*\([^)]+\):([\s\S]*?)(?=COMBINATION\s+\d+\s*\([^)]+\):|$)/gi;
-      const matches = response.match(combinationRegex);
-
-      if (matches && matches.length > 0) {
-        // Parse structured format
-        matches.forEach(match => {
-          const combination: Combination = {};
-          const lines = match
-            .split('\n')
-            .map(line => line.trim())
-            .filter(line => line);
-
-          lines.forEach(line => {
-            if (line.toLowerCase().includes('name:')) {
-              combination.name = line.replace(/.*name:\s*/i, '').trim();
-            } else if (line.toLowerCase().includes('fruit')) {
-              combination.fruits = line.replace(/.*?:/i, '').trim();
-            } else if (line.toLowerCase().includes('vegetable')) {
-              combination.vegetables = line.replace(/.*?:/i, '').trim();
-            } else if (line.toLowerCase().includes('grain')) {
-              combination.grain = line.replace(/.*?:/i, '').trim();
-            } else if (line.toLowerCase().includes('benefit')) {
-              combination.benefits = line.replace(/.*?:/i, '').trim();
-            } else if (
-              line.toLowerCase().includes('preparation') ||
-              line.toLowerCase().includes('recipe')
-            ) {
-              combination.preparation = line.replace(/.*?:/i, '').trim();
-            }
-          });
-
-          if (
-            combination.fruits ||
-            combination.vegetables ||
-            combination.grain
-          ) {
-            combinations.push(combination);
-          }
-        });
-      } else {
-        // Fallback: try to parse any structured format
-        const sections = response.split(/\n\n|\r\n\r\n/);
-
-        sections.forEach(section => {
-          if (section.trim()) {
-            const lines = section
-              .split('\n')
-              .map(line => line.trim())
-              .filter(line => line);
-
-            if (lines.length > 0) {
-              const combination: Combination = {};
-
-              lines.forEach(line => {
-                if (line.toLowerCase().includes('name:')) {
-                  combination.name = line.replace(/.*name:\s*/i, '').trim();
-                } else if (line.toLowerCase().includes('fruit')) {
-                  combination.fruits = line.replace(/.*?:/i, '').trim();
-                } else if (line.toLowerCase().includes('vegetable')) {
-                  combination.vegetables = line.replace(/.*?:/i, '').trim();
-                } else if (line.toLowerCase().includes('grain')) {
-                  combination.grain = line.replace(/.*?:/i, '').trim();
-                } else if (line.toLowerCase().includes('benefit')) {
-                  combination.benefits = line.replace(/.*?:/i, '').trim();
-                } else if (
-                  line.toLowerCase().includes('preparation') ||
-                  line.toLowerCase().includes('recipe')
-                ) {
-                  combination.preparation = line.replace(/.*?:/i, '').trim();
-                }
-              });
-
-              if (
-                combination.fruits ||
-                combination.vegetables ||
-                combination.grain
-              ) {
-                combinations.push(combination);
-              }
-            }
-          }
-        });
-      }
-    } catch (error) {
-      console.error('Error parsing AI response:', error);
-    }
-
-    return combinations;
-  };
-
   const dietaryRestrictionOptions = [
     'Vegetarian',
     'Vegan',
@@ -591,9 +631,11 @@ export function MealPlanner() {
         <AnimatedCard className="text-center p-4">
           <Star className="w-6 h-6 text-purple-500 mx-auto mb-2" />
           <div className="text-2xl font-bold text-foreground">
-            {parsedCombinations.length}
+            {mealPlan ? mealPlan.meals.length : combinations.length}
+          </div>
+          <div className="text-sm text-muted-foreground">
+            {mealPlan ? 'Meals' : 'Combinations'}
           </div>
-          <div className="text-sm text-muted-foreground">Combinations</div>
         </AnimatedCard>
       </motion.div>
 
@@ -689,6 +731,78 @@ export function MealPlanner() {
               </h2>
 
               <div className="space-y-4">
+                <div>
+                  <Label className="text-sm font-medium text-foreground mb-2 block">
+                    What to generate
+                  </Label>
+                  <div className="flex flex-wrap gap-2">
+                    {(
+                      [
+                        ['combinations', 'Weekly combinations'],
+                        ['plan', 'Meal plan'],
+                      ] as const
+                    ).map(([value, label]) => (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() => setMode(value)}
+                        className={`px-3 py-1 rounded-full text-sm border transition-all ${
+                          mode === value
+                            ? 'bg-blue-500 text-white border-blue-500'
+                            : 'border-gray-300 text-gray-700 hover:border-blue-500 hover:text-blue-600'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {mode === 'plan' && (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                      <Label
+                        htmlFor="plan-days"
+                        className="text-sm font-medium text-foreground mb-2 block"
+                      >
+                        Days
+                      </Label>
+                      <Input
+                        id="plan-days"
+                        type="number"
+                        min={1}
+                        max={14}
+                        value={planDays}
+                        onChange={e =>
+                          setPlanDays(
+                            Math.min(14, Math.max(1, Number(e.target.value)))
+                          )
+                        }
+                      />
+                    </div>
+                    <div>
+                      <Label className="text-sm font-medium text-foreground mb-2 block">
+                        Meals per day
+                      </Label>
+                      <div className="flex flex-wrap gap-3">
+                        {MEAL_TYPES.map(slot => (
+                          <label
+                            key={slot}
+                            className="flex items-center gap-1 text-sm capitalize"
+                          >
+                            <input
+                              type="checkbox"
+                              checked={mealSlots.includes(slot)}
+                              onChange={() => toggleMealSlot(slot)}
+                            />
+                            {slot}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                )}
+
                 <div data-tour="user-prompt">
                   <Label className="text-sm font-medium text-foreground mb-2 block">
                     Describe your nutrition goal
@@ -735,6 +849,42 @@ export function MealPlanner() {
                     ))}
                   </div>
                 </div>
+
+                <label className="flex items-center gap-2 text-sm text-foreground">
+                  <input
+                    type="checkbox"
+                    checked={optimizeForGoal}
+                    onChange={e => setOptimizeForGoal(e.target.checked)}
+                  />
+                  Optimize for my active nutrition goal
+                </label>
+
+                <div>
+                  <Label className="text-sm font-medium text-foreground mb-2 block">
+                    Cook from my pantry{' '}
+                    <Link
+                      href="/pantry"
+                      className="text-xs font-normal text-blue-600 dark:text-blue-400"
+                    >
+                      (manage)
+                    </Link>
+                  </Label>
+                  <div className="flex flex-wrap gap-2">
+                    {PANTRY_MODES.map(option => (
+                      <button
+                        key={option.label}
+                        onClick={() => setPantryMode(option.value)}
+                        className={`px-3 py-1 rounded-full text-sm border transition-all ${
+                          pantryMode === option.value
+                            ? 'bg-green-600 text-white border-green-600'
+                            : 'border-gray-300 text-gray-700 hover:border-green-600 hover:text-green-700'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
               </div>
             </div>
           </ElevatedCard>
@@ -747,7 +897,7 @@ export function MealPlanner() {
             <div className="p-6">
               <div className="text-center">
                 <GradientButton
-                  onClick={handleGenerateMealPlan}
+                  onClick={() => handleGenerateMealPlan()}
                   loading={loading}
                   size="lg"
                   icon={<Sparkles className="w-5 h-5" />}
@@ -757,7 +907,8 @@ export function MealPlanner() {
                     fruits.length === 0 &&
                     vegetables.length === 0 &&
                     grains.length === 0 &&
-                    !userPrompt.trim()
+                    !userPrompt.trim() &&
+                    !pantryMode
                   }
                 >
                   {loading
@@ -779,9 +930,13 @@ export function MealPlanner() {
           </ElevatedCard>
 
           {/* Results */}
+          <DietViolations violations={violations} />
+          <PantryUsage usage={pantryUsage} />
+
           <AnimatePresence>
-            {parsedCombinations.length > 0 && (
+            {combinations.length > 0 && (
               <motion.div
+                key="combinations"
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
                 exit={{ opacity: 0, y: -20 }}
@@ -793,6 +948,19 @@ export function MealPlanner() {
                     Your AI-Generated Combinations
                   </h2>
                   <div className="flex gap-2">
+                    {generationId && (
+                      <Link
+                        href={`/shopping-list?generationId=${generationId}`}
+                      >
+                        <AnimatedButton
+                          variant="outline"
+                          size="sm"
+                          icon={<ShoppingCart className="w-4 h-4" />}
+                        >
+                          Shopping List
+                        </AnimatedButton>
+                      </Link>
+                    )}
                     <AnimatedButton
                       variant="outline"
                       size="sm"
@@ -810,7 +978,29 @@ export function MealPlanner() {
                   </div>
                 </div>
 
-                <CombinationDisplay combinations={parsedCombinations} />
+                {coverage && <NutrientCoverage coverage={coverage} />}
+
+                <CombinationDisplay
+                  combinations={combinations}
+                  onRegenerate={() => handleGenerateMealPlan(true)}
+                  onRegenerateCombinations={handleRegenerateCombinations}
+                />
+              </motion.div>
+            )}
+
+            {mealPlan && (
+              <motion.div
+                key="meal-plan"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+              >
+                <MealPlanDisplay
+                  mealPlan={mealPlan}
+                  generationId={generationId}
+                  onRegenerate={() => handleGenerateMealPlan(true)}
+                  onRegenerateMeal={handleRegenerateMeal}
+                />
               </motion.div>
             )}
           </AnimatePresence>
@@ -8,12 +8,28 @@ import { AnimatedButton } from '@/components/ui/animated-button';
 import { useAuth } from '@/contexts/AuthContext';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { TourTrigger } from '@/components/GuidedTour';
-import { Home, Calendar, Bookmark, LogOut, User } from 'lucide-react';
+import {
+  Home,
+  Calendar,
+  Bookmark,
+  History,
+  NotebookPen,
+  Refrigerator,
+  SlidersHorizontal,
+  Target,
+  LogOut,
+  User,
+} from 'lucide-react';
 
 const navigation = [
   { name: 'Home', href: '/', icon: Home },
   { name: 'Planner', href: '/planner', icon: Calendar },
   { name: 'Saved Meals', href: '/saved', icon: Bookmark },
+  { name: 'History', href: '/history', icon: History },
+  { name: 'Diary', href: '/diary', icon: NotebookPen },
+  { name: 'Pantry', href: '/pantry', icon: Refrigerator },
+  { name: 'Goals', href: '/goals', icon: Target },
+  { name: 'Preferences', href: '/preferences', icon: SlidersHorizontal },
 ];
 
 export function Navigation() {
@@ -0,0 +1,108 @@
+'use client';
+
+import React from 'react';
+import { CheckCircle, AlertCircle, Activity, HelpCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import {
+  COVERAGE_THRESHOLD,
+  DailyValueCoverage,
+  REFERENCE_INTAKES,
+} from '@/lib/nutrition';
+
+interface NutrientCoverageProps {
+  coverage: DailyValueCoverage;
+  title?: string;
+}
+
+export function NutrientCoverage({
+  coverage,
+  title = 'Weekly Nutrient Coverage',
+}: NutrientCoverageProps) {
+  const { percentDailyValue, covered, missed, unknown = [], score } = coverage;
+
+  return (
+    <Card className="border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2 text-lg">
+          <span className="flex items-center gap-2">
+            <Activity className="w-5 h-5 text-purple-500 dark:text-purple-400" />
+            {title}
+          </span>
+          <span className="text-sm font-medium text-muted-foreground">
+            Score {score}/100
+          </span>
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          Average day across the plan. A nutrient counts as covered at{' '}
+          {COVERAGE_THRESHOLD}% of its daily value or more.
+          {unknown.length > 0 &&
+            ' Nutrients the foods have no data for are left out of the score.'}
+        </p>
+      </CardHeader>
+      <CardContent className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <h4 className="flex items-center gap-2 text-sm font-medium text-green-700 dark:text-green-300">
+            <CheckCircle className="w-4 h-4" />
+            Covered ({covered.length})
+          </h4>
+          <ul className="space-y-1">
+            {covered.map(key => (
+              <li key={key} className="text-sm">
+                <div className="flex justify-between">
+                  <span>{REFERENCE_INTAKES[key].label}</span>
+                  <span className="text-muted-foreground">
+                    {percentDailyValue[key]}% DV
+                  </span>
+                </div>
+                <div className="h-1.5 rounded-full bg-muted">
+                  <div
+                    className="h-1.5 rounded-full bg-green-500"
+                    style={{
+                      width: `${Math.min(percentDailyValue[key] ?? 0, 100)}%`,
+                    }}
+                  />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="flex items-center gap-2 text-sm font-medium text-amber-700 dark:text-amber-300">
+            <AlertCircle className="w-4 h-4" />
+            Missed ({missed.length})
+          </h4>
+          <div className="flex flex-wrap gap-1">
+            {missed.map(key => (
+              <span
+                key={key}
+                className="text-xs px-2 py-1 rounded-full bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300"
+              >
+                {REFERENCE_INTAKES[key].label} {percentDailyValue[key]}%
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {unknown.length > 0 && (
+          <div className="space-y-2 md:col-span-2">
+            <h4 className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+              <HelpCircle className="w-4 h-4" />
+              No data ({unknown.length})
+            </h4>
+            <div className="flex flex-wrap gap-1">
+              {unknown.map(key => (
+                <span
+                  key={key}
+                  className="text-xs px-2 py-1 rounded-full bg-muted text-muted-foreground"
+                >
+                  {REFERENCE_INTAKES[key].label}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
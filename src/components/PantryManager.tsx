@@ -0,0 +1,276 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Loader2, Plus, Refrigerator, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { foodGroupsApi } from '@/lib/api/services/foodGroups';
+import { pantryApi, PantryItemUpdates } from '@/lib/api/services/pantry';
+import type { FoodGroup, PantryItem } from '@/lib/database';
+import { daysUntilExpiry } from '@/lib/pantry';
+
+function describeExpiry(expiresOn?: string): {
+  label: string;
+  className: string;
+} {
+  if (!expiresOn) return { label: '', className: '' };
+
+  const days = daysUntilExpiry(expiresOn);
+  if (days < 0) {
+    return {
+      label: 'Expired',
+      className: 'text-red-600 dark:text-red-400',
+    };
+  }
+  if (days <= 3) {
+    return {
+      label: days === 0 ? 'Expires today' : `Expires in ${days}d`,
+      className: 'text-amber-600 dark:text-amber-400',
+    };
+  }
+  return {
+    label: `Expires in ${days}d`,
+    className: 'text-muted-foreground',
+  };
+}
+
+export function PantryManager() {
+  const { user } = useAuth();
+  const [items, setItems] = useState<PantryItem[]>([]);
+  const [foods, setFoods] = useState<FoodGroup[]>([]);
+  const [name, setName] = useState('');
+  const [foodId, setFoodId] = useState<string | null>(null);
+  const [quantity, setQuantity] = useState('');
+  const [expiresOn, setExpiresOn] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadItems = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    const response = await pantryApi.getAll(user.uid);
+    if (response.success && response.data) {
+      setItems(response.data);
+      setError('');
+    } else {
+      setError(response.error || 'Failed to load pantry');
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  useEffect(() => {
+    foodGroupsApi.getAll().then(response => {
+      if (response.success && response.data) setFoods(response.data);
+    });
+  }, []);
+
+  const handleAdd = async () => {
+    if (!user || !name.trim()) return;
+
+    setSaving(true);
+    const response = await pantryApi.add(user.uid, {
+      name: name.trim(),
+      foodGroupId: foodId ?? undefined,
+      quantity,
+      expiresOn: expiresOn || undefined,
+    });
+    setSaving(false);
+
+    if (!response.success) {
+      setError(response.error || 'Failed to add pantry item');
+      return;
+    }
+
+    setName('');
+    setFoodId(null);
+    setQuantity('');
+    setExpiresOn('');
+    await loadItems();
+  };
+
+  const handleUpdate = async (id: string, updates: PantryItemUpdates) => {
+    if (!user) return;
+
+    const response = await pantryApi.update(id, user.uid, updates);
+    if (!response.success) {
+      setError(response.error || 'Failed to update pantry item');
+    }
+    await loadItems();
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!user) return;
+    await pantryApi.delete(id, user.uid);
+    await loadItems();
+  };
+
+  if (!user) return null;
+
+  const matches =
+    name.trim() && !foodId
+      ? foods
+          .filter(food =>
+            food.name.toLowerCase().includes(name.trim().toLowerCase())
+          )
+          .slice(0, 6)
+      : [];
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <Card className="border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Plus className="w-5 h-5 text-blue-500" />
+            Add to Pantry
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <Label htmlFor="pantry-name" className="mb-2 block">
+              Item
+            </Label>
+            <Input
+              id="pantry-name"
+              value={name}
+              onChange={e => {
+                setFoodId(null);
+                setName(e.target.value);
+              }}
+              placeholder="e.g., Spinach"
+            />
+            {matches.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-2">
+                {matches.map(food => (
+                  <Button
+                    key={food.id}
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      setFoodId(food.id);
+                      setName(food.name);
+                    }}
+                  >
+                    {food.name}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <Label htmlFor="pantry-quantity" className="mb-2 block">
+                Quantity
+              </Label>
+              <Input
+                id="pantry-quantity"
+                value={quantity}
+                onChange={e => setQuantity(e.target.value)}
+                placeholder="e.g., 500g, 2 bunches"
+              />
+            </div>
+            <div>
+              <Label htmlFor="pantry-expires" className="mb-2 block">
+                Expires on
+              </Label>
+              <Input
+                id="pantry-expires"
+                type="date"
+                value={expiresOn}
+                onChange={e => setExpiresOn(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <Button onClick={handleAdd} disabled={!name.trim() || saving}>
+            {saving ? (
+              <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+            ) : (
+              <Plus className="w-4 h-4 mr-1" />
+            )}
+            Add
+          </Button>
+
+          {error && (
+            <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Refrigerator className="w-5 h-5 text-green-600" />
+            In Stock ({items.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {loading && items.length === 0 ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : items.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Your pantry is empty.
+            </p>
+          ) : (
+            items.map(item => {
+              const expiry = describeExpiry(item.expiresOn);
+              return (
+                <div
+                  key={item.id}
+                  className="flex flex-wrap items-center gap-2 rounded-lg border border-border p-2 text-sm"
+                >
+                  <span className="flex-1 min-w-[8rem]">
+                    {item.name}
+                    {expiry.label && (
+                      <span className={`block text-xs ${expiry.className}`}>
+                        {expiry.label}
+                      </span>
+                    )}
+                  </span>
+                  <Input
+                    aria-label={`${item.name} quantity`}
+                    className="w-28"
+                    defaultValue={item.quantity}
+                    onBlur={e =>
+                      e.target.value !== item.quantity &&
+                      handleUpdate(item.id, { quantity: e.target.value })
+                    }
+                  />
+                  <Input
+                    aria-label={`${item.name} expiry date`}
+                    type="date"
+                    className="w-40"
+                    value={item.expiresOn ?? ''}
+                    onChange={e =>
+                      handleUpdate(item.id, {
+                        expiresOn: e.target.value || null,
+                      })
+                    }
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleDelete(item.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { Refrigerator } from 'lucide-react';
+import type { PantryUsage as PantryUsageData } from '@/lib/pantry';
+
+interface PantryUsageProps {
+  usage: PantryUsageData[];
+}
+
+/**
+ * Lists the pantry items each generated combination or meal uses
+ */
+export function PantryUsage({ usage }: PantryUsageProps) {
+  if (usage.length === 0) return null;
+
+  return (
+    <div className="p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg text-sm text-green-800 dark:text-green-200">
+      <p className="flex items-center justify-between gap-2 font-medium mb-2">
+        <span className="flex items-center gap-2">
+          <Refrigerator className="w-4 h-4" />
+          From your pantry
+        </span>
+        <Link href="/pantry" className="text-xs underline">
+          Manage pantry
+        </Link>
+      </p>
+      <ul className="space-y-1">
+        {usage.map(({ slot, items }) => (
+          <li key={slot}>
+            <span className="font-medium">{slot}:</span>{' '}
+            {items.length > 0 ? (
+              items.join(', ')
+            ) : (
+              <span className="text-green-700/80 dark:text-green-300/80">
+                nothing from the pantry
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,304 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  AlertCircle,
+  CheckCircle,
+  Loader2,
+  Save,
+  SlidersHorizontal,
+} from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useDatabase } from '@/hooks/useDatabase';
+import {
+  DietaryRestrictionSchema,
+  UserPreferencesSchema,
+} from '@/lib/validation/schemas';
+import { z } from 'zod';
+
+type PreferencesForm = z.infer<typeof UserPreferencesSchema>;
+type ListField = 'allergies' | 'healthGoals' | 'preferredCuisines';
+
+const DEFAULT_PREFERENCES: PreferencesForm = {
+  dietaryRestrictions: [],
+  allergies: [],
+  healthGoals: [],
+  preferredCuisines: [],
+  cookingSkill: 'intermediate',
+  mealPrepTime: 'moderate',
+  servingSize: 'medium',
+  spiceTolerance: 'medium',
+};
+
+const CHOICES = {
+  cookingSkill: {
+    label: 'Cooking skill',
+    options: UserPreferencesSchema.shape.cookingSkill.options,
+  },
+  mealPrepTime: {
+    label: 'Prep time',
+    options: UserPreferencesSchema.shape.mealPrepTime.options,
+  },
+  servingSize: {
+    label: 'Serving size',
+    options: UserPreferencesSchema.shape.servingSize.options,
+  },
+  spiceTolerance: {
+    label: 'Spice tolerance',
+    options: UserPreferencesSchema.shape.spiceTolerance.options,
+  },
+} as const;
+
+const LIST_FIELDS: Record<ListField, { label: string; placeholder: string }> = {
+  allergies: { label: 'Allergies', placeholder: 'e.g., peanuts, shellfish' },
+  healthGoals: {
+    label: 'Health goals',
+    placeholder: 'e.g., more fiber, heart health',
+  },
+  preferredCuisines: {
+    label: 'Preferred cuisines',
+    placeholder: 'e.g., Mediterranean, Japanese',
+  },
+};
+
+const capitalize = (value: string) =>
+  value.charAt(0).toUpperCase() + value.slice(1);
+
+const splitList = (value: string) =>
+  value
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+
+// Keep only the stored fields that are still valid, falling back to defaults
+function toForm(
+  stored: Partial<Record<keyof PreferencesForm, unknown>> | null
+): PreferencesForm {
+  const form = { ...DEFAULT_PREFERENCES };
+  if (!stored) return form;
+
+  for (const key of Object.keys(form) as Array<keyof PreferencesForm>) {
+    const field = UserPreferencesSchema.shape[key].safeParse(stored[key]);
+    if (field.success) Object.assign(form, { [key]: field.data });
+  }
+  return form;
+}
+
+export function PreferencesEditor() {
+  const { user } = useAuth();
+  const { getUserPreferences, saveUserPreferences, loading } = useDatabase();
+  const [form, setForm] = useState<PreferencesForm>(DEFAULT_PREFERENCES);
+  // Free-text lists are edited as comma-separated strings
+  const [lists, setLists] = useState<Record<ListField, string>>({
+    allergies: '',
+    healthGoals: '',
+    preferredCuisines: '',
+  });
+  const [errors, setErrors] = useState<string[]>([]);
+  const [status, setStatus] = useState<'saved' | 'error' | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    getUserPreferences(user.uid)
+      .then(stored => {
+        const loaded = toForm(stored);
+        setForm(loaded);
+        setLists({
+          allergies: loaded.allergies.join(', '),
+          healthGoals: loaded.healthGoals.join(', '),
+          preferredCuisines: loaded.preferredCuisines.join(', '),
+        });
+      })
+      .catch(() => setStatus('error'));
+  }, [user, getUserPreferences]);
+
+  const toggleRestriction = (
+    restriction: PreferencesForm['dietaryRestrictions'][number]
+  ) => {
+    setForm(prev => ({
+      ...prev,
+      dietaryRestrictions: prev.dietaryRestrictions.includes(restriction)
+        ? prev.dietaryRestrictions.filter(item => item !== restriction)
+        : [...prev.dietaryRestrictions, restriction],
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    const result = UserPreferencesSchema.safeParse({
+      ...form,
+      allergies: splitList(lists.allergies),
+      healthGoals: splitList(lists.healthGoals),
+      preferredCuisines: splitList(lists.preferredCuisines),
+    });
+    if (!result.success) {
+      setErrors(
+        result.error.issues.map(
+          issue => `${issue.path.join('.') || 'preferences'}: ${issue.message}`
+        )
+      );
+      return;
+    }
+
+    setErrors([]);
+    try {
+      await saveUserPreferences(user.uid, result.data);
+      setForm(result.data);
+      setStatus('saved');
+    } catch {
+      setStatus('error');
+    }
+    setTimeout(() => setStatus(null), 3000);
+  };
+
+  if (!user) {
+    return (
+      <div className="text-center py-8">
+        <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-6 max-w-2xl mx-auto">
+          <h3 className="text-lg font-medium text-blue-800 dark:text-blue-200 mb-2">
+            Sign In Required
+          </h3>
+          <p className="text-blue-700 dark:text-blue-300">
+            Please sign in to edit your preferences.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <div>
+        <h2 className="text-2xl font-bold text-foreground flex items-center gap-2">
+          <SlidersHorizontal className="w-6 h-6" />
+          Preferences
+        </h2>
+        <p className="text-muted-foreground">
+          Applied automatically every time you generate a plan. Restrictions and
+          allergies are always enforced.
+        </p>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-300 text-sm">
+          <p className="flex items-center gap-2 font-medium">
+            <AlertCircle className="w-4 h-4" />
+            Please fix the following:
+          </p>
+          <ul className="list-disc pl-6 mt-1">
+            {errors.map(error => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <Card className="border-border">
+        <CardHeader>
+          <CardTitle className="text-lg">Diet</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <Label className="text-sm font-medium text-foreground mb-2 block">
+              Dietary Restrictions
+            </Label>
+            <div className="flex flex-wrap gap-2">
+              {DietaryRestrictionSchema.options.map(restriction => (
+                <button
+                  key={restriction}
+                  type="button"
+                  onClick={() => toggleRestriction(restriction)}
+                  className={`px-3 py-1 rounded-full text-sm border transition-all ${
+                    form.dietaryRestrictions.includes(restriction)
+                      ? 'bg-blue-500 text-white border-blue-500'
+                      : 'border-gray-300 text-gray-700 hover:border-blue-500 hover:text-blue-600'
+                  }`}
+                >
+                  {restriction}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {(Object.keys(LIST_FIELDS) as ListField[]).map(field => (
+            <div key={field}>
+              <Label
+                htmlFor={field}
+                className="text-sm font-medium text-foreground mb-2 block"
+              >
+                {LIST_FIELDS[field].label}
+              </Label>
+              <Input
+                id={field}
+                value={lists[field]}
+                onChange={e =>
+                  setLists(prev => ({ ...prev, [field]: e.target.value }))
+                }
+                placeholder={LIST_FIELDS[field].placeholder}
+              />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card className="border-border">
+        <CardHeader>
+          <CardTitle className="text-lg">Cooking</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {(Object.keys(CHOICES) as Array<keyof typeof CHOICES>).map(field => (
+            <div key={field}>
+              <Label className="text-sm font-medium text-foreground mb-2 block">
+                {CHOICES[field].label}
+              </Label>
+              <div className="flex gap-2">
+                {CHOICES[field].options.map(option => (
+                  <Button
+                    key={option}
+                    type="button"
+                    size="sm"
+                    variant={form[field] === option ? 'default' : 'outline'}
+                    onClick={() =>
+                      setForm(prev => ({ ...prev, [field]: option }))
+                    }
+                  >
+                    {capitalize(option)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center gap-3">
+        <Button onClick={handleSave} disabled={loading}>
+          {loading ? (
+            <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+          ) : (
+            <Save className="w-4 h-4 mr-1" />
+          )}
+          Save Preferences
+        </Button>
+        {status === 'saved' && (
+          <span className="flex items-center gap-1 text-sm text-green-700 dark:text-green-300">
+            <CheckCircle className="w-4 h-4" />
+            Saved
+          </span>
+        )}
+        {status === 'error' && (
+          <span className="flex items-center gap-1 text-sm text-red-700 dark:text-red-300">
+            <AlertCircle className="w-4 h-4" />
+            Could not reach your preferences
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import {
@@ -11,10 +12,15 @@ import {
   Calendar,
   Loader2,
   AlertCircle,
+  CheckCircle,
+  NotebookPen,
+  ShoppingCart,
 } from 'lucide-react';
 import { useDatabase } from '@/hooks/useDatabase';
 import { useAuth } from '@/contexts/AuthContext';
-import { SavedCombination } from '@/lib/database';
+import type { FlaggedCombination } from '@/lib/combinations';
+import { foodLogApi } from '@/lib/api/services/foodLog';
+import { currentMealSlot, toDiaryDate } from '@/lib/foodLog';
 
 export function SavedCombinations() {
   const { user } = useAuth();
@@ -26,9 +32,13 @@ export function SavedCombinations() {
     error,
     clearError,
   } = useDatabase();
-  const [combinations, setCombinations] = useState<SavedCombination[]>([]);
+  const [combinations, setCombinations] = useState<FlaggedCombination[]>([]);
   const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [loggingId, setLoggingId] = useState<string | null>(null);
+  const [loggedId, setLoggedId] = useState<string | null>(null);
+  // Combinations picked for a shopping list
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
 
   const loadCombinations = useCallback(async () => {
     try {
@@ -54,6 +64,7 @@ export function SavedCombinations() {
     try {
       await deleteCombination(id);
       setCombinations(prev => prev.filter(c => c.id !== id));
+      setSelectedIds(prev => prev.filter(item => item !== id));
     } catch (err) {
       console.error('Failed to delete combination:', err);
     } finally {
@@ -61,6 +72,30 @@ export function SavedCombinations() {
     }
   };
 
+  // One serving, today, in the slot matching the time of day
+  const handleLog = async (id: string) => {
+    setLoggingId(id);
+    const response = await foodLogApi.log(user!.uid, {
+      date: toDiaryDate(),
+      mealSlot: currentMealSlot(),
+      combinationId: id,
+      quantity: '1',
+    });
+    setLoggingId(null);
+
+    if (response.success) {
+      setLoggedId(id);
+      setTimeout(() => setLoggedId(null), 3000);
+    } else {
+      console.error('Failed to log combination:', response.error);
+    }
+  };
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds(prev =>
+      prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]
+    );
+
   const handleToggleFavorite = async (id: string, currentStatus: boolean) => {
     try {
       await toggleFavorite(id, !currentStatus);
@@ -122,6 +157,16 @@ export function SavedCombinations() {
         </div>
 
         <div className="flex gap-2" data-tour="filter-buttons">
+          {selectedIds.length > 0 && (
+            <Link
+              href={`/shopping-list?combinationIds=${selectedIds.join(',')}`}
+            >
+              <Button size="sm">
+                <ShoppingCart className="w-4 h-4 mr-2" />
+                Shopping list ({selectedIds.length})
+              </Button>
+            </Link>
+          )}
           <Button
             variant={showFavoritesOnly ? 'outline' : 'default'}
             onClick={() => setShowFavoritesOnly(false)}
@@ -196,6 +241,13 @@ export function SavedCombinations() {
                     {combination.name}
                   </CardTitle>
                   <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(combination.id)}
+                      onChange={() => toggleSelected(combination.id)}
+                      title="Add to shopping list"
+                      aria-label={`Add ${combination.name} to shopping list`}
+                    />
                     <button
                       onClick={() =>
                         handleToggleFavorite(
@@ -224,6 +276,17 @@ export function SavedCombinations() {
               </CardHeader>
 
               <CardContent className="p-6 space-y-4">
+                {/* Deactivated foods */}
+                {combination.inactiveIngredients.length > 0 && (
+                  <div className="flex items-start gap-2 p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg text-sm text-amber-800 dark:text-amber-200">
+                    <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                    <p>
+                      No longer in the food catalog:{' '}
+                      {combination.inactiveIngredients.join(', ')}
+                    </p>
+                  </div>
+                )}
+
                 {/* Ingredients */}
                 <div className="space-y-3">
                   <h4 className="font-medium text-foreground text-sm">
@@ -304,6 +367,22 @@ export function SavedCombinations() {
 
                 {/* Actions */}
                 <div className="flex gap-2 pt-2" data-tour="edit-delete">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex-1"
+                    onClick={() => handleLog(combination.id)}
+                    disabled={loggingId === combination.id}
+                  >
+                    {loggingId === combination.id ? (
+                      <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                    ) : loggedId === combination.id ? (
+                      <CheckCircle className="w-3 h-3 mr-1" />
+                    ) : (
+                      <NotebookPen className="w-3 h-3 mr-1" />
+                    )}
+                    {loggedId === combination.id ? 'Logged' : 'Log'}
+                  </Button>
                   <Button
                     variant="outline"
                     size="sm"
@@ -0,0 +1,201 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import {
+  AlertCircle,
+  Download,
+  Loader2,
+  Printer,
+  ShoppingCart,
+} from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { shoppingListApi } from '@/lib/api/services/shoppingList';
+import {
+  sectionTitle,
+  ShoppingItem,
+  ShoppingList as ShoppingListData,
+  ShoppingListSource,
+} from '@/lib/shoppingList';
+
+interface ShoppingListProps {
+  source: ShoppingListSource;
+}
+
+const describeAmount = (item: ShoppingItem) =>
+  [...item.quantities, ...item.notes].join(' + ');
+
+export function ShoppingList({ source }: ShoppingListProps) {
+  const { user } = useAuth();
+  const [list, setList] = useState<ShoppingListData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadList = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    const response = await shoppingListApi.get(user.uid, source);
+    if (response.success && response.data) {
+      setList(response.data);
+      setError('');
+    } else {
+      setError(response.error || 'Failed to build shopping list');
+    }
+    setLoading(false);
+  }, [user, source]);
+
+  useEffect(() => {
+    loadList();
+  }, [loadList]);
+
+  const toggleItem = async (key: string) => {
+    if (!user || !list) return;
+
+    const sections = list.sections.map(section => ({
+      ...section,
+      items: section.items.map(item =>
+        item.key === key ? { ...item, checked: !item.checked } : item
+      ),
+    }));
+    const checked = sections.flatMap(section =>
+      section.items.filter(item => item.checked).map(item => item.key)
+    );
+    setList({ ...list, sections, checkedCount: checked.length });
+
+    const response = await shoppingListApi.saveChecked(
+      user.uid,
+      list.key,
+      checked
+    );
+    if (!response.success) {
+      setError(response.error || 'Failed to save shopping list');
+    }
+  };
+
+  // Save the text or CSV file, or open the HTML one for printing
+  const exportList = async (format: 'text' | 'csv' | 'html') => {
+    if (!user) return;
+
+    // Opened while handling the click, which popup blockers allow
+    const printWindow = format === 'html' ? window.open('', '_blank') : null;
+    try {
+      const file = await shoppingListApi.exportFile(user.uid, source, format);
+      const url = URL.createObjectURL(file);
+      if (printWindow) {
+        printWindow.location.href = url;
+      } else {
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `shopping-list.${format === 'text' ? 'txt' : format}`;
+        link.click();
+      }
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (err) {
+      printWindow?.close();
+      setError(
+        err instanceof Error ? err.message : 'Failed to export shopping list'
+      );
+    }
+  };
+
+  if (!user) return null;
+
+  if (loading && !list) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <Card className="border-border">
+      <CardHeader>
+        <CardTitle className="flex flex-wrap items-center justify-between gap-2 text-lg">
+          <span className="flex items-center gap-2">
+            <ShoppingCart className="w-5 h-5 text-green-600" />
+            {list?.title ?? 'Shopping List'}
+          </span>
+          <span className="flex gap-2">
+            {(['text', 'csv'] as const).map(format => (
+              <Button
+                key={format}
+                variant="outline"
+                size="sm"
+                onClick={() => exportList(format)}
+              >
+                <Download className="w-4 h-4 mr-1" />
+                {format === 'text' ? 'Text' : 'CSV'}
+              </Button>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => exportList('html')}
+            >
+              <Printer className="w-4 h-4 mr-1" />
+              Print
+            </Button>
+          </span>
+        </CardTitle>
+        {list && (
+          <p className="text-sm text-muted-foreground">
+            {list.checkedCount} of {list.itemCount} items checked off
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <p className="flex items-center gap-2 text-sm text-red-700 dark:text-red-300">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </p>
+        )}
+
+        {list?.itemCount === 0 && (
+          <p className="text-sm text-muted-foreground">
+            There are no ingredients to buy.
+          </p>
+        )}
+
+        {list?.sections.map(section => (
+          <div key={sectionTitle(section)} className="space-y-2">
+            <h4 className="text-sm font-semibold text-foreground border-b border-border pb-1">
+              {sectionTitle(section)}
+            </h4>
+            {section.items.map(item => (
+              <label
+                key={item.key}
+                className="flex items-start gap-2 text-sm cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={item.checked}
+                  onChange={() => toggleItem(item.key)}
+                />
+                <span
+                  className={
+                    item.checked
+                      ? 'line-through text-muted-foreground'
+                      : 'text-foreground'
+                  }
+                >
+                  {item.name}
+                  {describeAmount(item) && (
+                    <span className="text-muted-foreground">
+                      {' '}
+                      · {describeAmount(item)}
+                    </span>
+                  )}
+                </span>
+              </label>
+            ))}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
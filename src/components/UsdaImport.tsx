@@ -0,0 +1,183 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Database, Loader2, RefreshCw, Upload } from 'lucide-react';
+import { api } from '@/lib/api/client';
+import { ImportReport, ImportResult } from './ImportReport';
+
+interface FdcDataset {
+  name: string;
+  kind: 'json' | 'csv';
+  bytes: number;
+}
+
+const toMegabytes = (bytes: number) => Math.ceil(bytes / (1024 * 1024));
+
+/**
+ * Imports a FoodData Central download from the server's USDA directory, with
+ * the same preview-then-confirm flow as the file import
+ */
+export function UsdaImport() {
+  const [directory, setDirectory] = useState('');
+  const [maxBytes, setMaxBytes] = useState(Infinity);
+  const [datasets, setDatasets] = useState<FdcDataset[]>([]);
+  const [selected, setSelected] = useState('');
+  const [loadError, setLoadError] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+
+  const loadDatasets = async () => {
+    setLoadError('');
+    try {
+      const response = await fetch('/api/food-groups/import/usda', {
+        headers: await api.authHeaders(),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        setLoadError(result.error);
+        return;
+      }
+      const { directory, maxBytes, datasets } = result.data as {
+        directory: string;
+        maxBytes: number;
+        datasets: FdcDataset[];
+      };
+      const importable = datasets.filter(dataset => dataset.bytes <= maxBytes);
+      setDirectory(directory);
+      setMaxBytes(maxBytes);
+      setDatasets(datasets);
+      setSelected(current =>
+        importable.some(dataset => dataset.name === current)
+          ? current
+          : (importable[0]?.name ?? '')
+      );
+    } catch {
+      setLoadError('Failed to list USDA datasets: network error occurred');
+    }
+  };
+
+  useEffect(() => {
+    loadDatasets();
+  }, []);
+
+  // Like file uploads, imports run twice: a dry run, then the commit
+  const handleImport = async (dryRun: boolean) => {
+    if (!selected) return;
+
+    setIsImporting(true);
+    setImportResult(null);
+
+    try {
+      const response = await fetch('/api/food-groups/import/usda', {
+        method: 'POST',
+        headers: {
+          ...(await api.authHeaders()),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ dataset: selected, dryRun }),
+      });
+
+      const result = await response.json();
+      setImportResult({
+        success: result.success,
+        message: result.success
+          ? result.message
+          : [result.error, typeof result.details === 'string' && result.details]
+              .filter(Boolean)
+              .join(': '),
+        report: result.data,
+      });
+    } catch {
+      setImportResult({
+        success: false,
+        message: 'Import failed: network error occurred',
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Card className="mt-6 bg-white border-gray-200 shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Database className="w-5 h-5" />
+          Import from USDA FoodData Central
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-blue-800 space-y-1">
+          <p>
+            Download a Foundation Foods or SR Legacy dataset from
+            fdc.nal.usda.gov as JSON, or as CSV unpacked into a folder, and
+            place it in:
+          </p>
+          <p className="font-mono break-all">{directory || '…'}</p>
+          <p>
+            Foods are matched by FDC ID, so importing a newer release updates
+            the foods an earlier one created. Datasets over{' '}
+            {Number.isFinite(maxBytes) ? toMegabytes(maxBytes) : '…'} MB, such
+            as the full and Branded Foods downloads, are too large to import.
+          </p>
+        </div>
+
+        {loadError && <p className="text-sm text-red-700">{loadError}</p>}
+
+        <div className="flex items-center gap-2">
+          <select
+            value={selected}
+            onChange={e => {
+              setSelected(e.target.value);
+              setImportResult(null);
+            }}
+            disabled={datasets.length === 0 || isImporting}
+            className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm"
+          >
+            {datasets.length === 0 ? (
+              <option value="">No datasets found</option>
+            ) : (
+              datasets.map(dataset => (
+                <option
+                  key={dataset.name}
+                  value={dataset.name}
+                  disabled={dataset.bytes > maxBytes}
+                >
+                  {dataset.name} ({dataset.kind.toUpperCase()},{' '}
+                  {toMegabytes(dataset.bytes)} MB
+                  {dataset.bytes > maxBytes ? ', too large' : ''})
+                </option>
+              ))
+            )}
+          </select>
+          <Button onClick={loadDatasets} variant="outline" size="sm">
+            <RefreshCw className="w-4 h-4" />
+          </Button>
+          <Button
+            onClick={() => handleImport(true)}
+            disabled={!selected || isImporting}
+            className="flex items-center gap-2"
+          >
+            {isImporting ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Upload className="w-4 h-4" />
+            )}
+            {isImporting ? 'Checking...' : 'Preview Import'}
+          </Button>
+        </div>
+
+        {importResult && (
+          <ImportReport
+            result={importResult}
+            busy={isImporting}
+            onConfirm={() => handleImport(false)}
+            onReset={() => setImportResult(null)}
+            resetLabel="Done"
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
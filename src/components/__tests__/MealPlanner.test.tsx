@@ -29,7 +29,7 @@ describe('MealPlanner', () => {
     (global.fetch as jest.Mock).mockResolvedValue({
       ok: true,
       json: () =>
-        Promise.resolve({ success: true, mealPlan: 'Test meal plan' }),
+        Promise.resolve({ success: true, data: { combinations: [] } }),
     });
   });
 
@@ -198,7 +198,7 @@ describe('MealPlanner', () => {
         ok: true,
         json: async () => ({
           success: true,
-          mealPlan: 'Test meal plan response',
+          data: { combinations: [] },
         }),
       });
 
@@ -224,20 +224,20 @@ describe('MealPlanner', () => {
 
       // Check if API was called
       await waitFor(() => {
-        expect(global.fetch).toHaveBeenCalledWith('/api/meal-plan', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            fruits: ['Apple'],
-            vegetables: [],
-            grains: [],
-            userPrompt: undefined,
-            preferences: undefined,
-            dietaryRestrictions: undefined,
-          }),
-        });
+        expect(global.fetch).toHaveBeenCalledWith(
+          expect.stringMatching(/\/api\/meal-plan$/),
+          expect.objectContaining({
+            method: 'POST',
+            body: JSON.stringify({
+              fruits: ['Apple'],
+              vegetables: [],
+              grains: [],
+              userPrompt: undefined,
+              preferences: undefined,
+              dietaryRestrictions: undefined,
+            }),
+          })
+        );
       });
     });
 
@@ -397,7 +397,10 @@ describe('MealPlanner', () => {
               () =>
                 resolve({
                   ok: true,
-                  json: async () => ({ success: true, mealPlan: 'Test' }),
+                  json: async () => ({
+                    success: true,
+                    data: { combinations: [] },
+                  }),
                 }),
               100
             )
@@ -1,11 +1,12 @@
 import { useState, useCallback } from 'react';
-import {
+import { api, ApiResponse } from '@/lib/api/client';
+import type { FlaggedCombination } from '@/lib/combinations';
+import type {
   FoodGroup,
   UserPreferences,
   SavedCombination,
   NutritionGoal,
-  savedCombinationsOperations,
-  nutritionGoalsOperations,
+  NutritionGoalInput,
 } from '@/lib/database';
 
 export function useDatabase() {
@@ -55,13 +56,12 @@ export function useDatabase() {
       setError(null);
 
       try {
-        const response = await fetch('/api/food-groups', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(foodGroup),
-        });
-
-        const data = await response.json();
+        // Admins only; the route answers with the new food's `id` at the top
+        // level rather than under `data`
+        const data: ApiResponse & { id?: string } = await api.post(
+          '/api/food-groups',
+          foodGroup
+        );
 
         if (data.success) {
           return data.id;
@@ -86,11 +86,13 @@ export function useDatabase() {
     setError(null);
 
     try {
-      const response = await fetch(`/api/user/preferences?userId=${userId}`);
-      const data = await response.json();
+      // The client sends the user's ID token, which these routes require
+      const data = await api.get<UserPreferences | null>(
+        `/api/user/preferences?userId=${encodeURIComponent(userId)}`
+      );
 
       if (data.success) {
-        return data.data;
+        return data.data ?? null;
       } else {
         throw new Error(data.error || 'Failed to fetch user preferences');
       }
@@ -110,14 +112,11 @@ export function useDatabase() {
       setError(null);
 
       try {
-        const response = await fetch('/api/user/preferences', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ userId, ...preferences }),
+        const data = await api.post('/api/user/preferences', {
+          userId,
+          ...preferences,
         });
 
-        const data = await response.json();
-
         if (data.success) {
           return true;
         } else {
@@ -141,14 +140,11 @@ export function useDatabase() {
       setError(null);
 
       try {
-        const response = await fetch('/api/user/preferences', {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ userId, ...updates }),
+        const data = await api.put('/api/user/preferences', {
+          userId,
+          ...updates,
         });
 
-        const data = await response.json();
-
         if (data.success) {
           return true;
         } else {
@@ -175,16 +171,13 @@ export function useDatabase() {
       setError(null);
 
       try {
-        const response = await fetch('/api/combinations/save', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(combination),
-        });
-
-        const data = await response.json();
+        const data = await api.post<{ id: string }>(
+          '/api/combinations/save',
+          combination
+        );
 
         if (data.success) {
-          return data.id;
+          return data.data?.id;
         } else {
           throw new Error(data.error || 'Failed to save combination');
         }
@@ -206,13 +199,12 @@ export function useDatabase() {
       setError(null);
 
       try {
-        const response = await fetch(
-          `/api/combinations/user?userId=${userId}&favorites=${favoritesOnly}`
+        const data = await api.get<FlaggedCombination[]>(
+          `/api/combinations/user?userId=${encodeURIComponent(userId)}&favorites=${favoritesOnly}`
         );
-        const data = await response.json();
 
         if (data.success) {
-          return data.data;
+          return data.data ?? [];
         } else {
           throw new Error(data.error || 'Failed to fetch user combinations');
         }
@@ -233,9 +225,15 @@ export function useDatabase() {
     setError(null);
 
     try {
-      // This would need a separate API endpoint, but for now we'll use the database operations directly
-      await savedCombinationsOperations.delete(id);
-      return true;
+      const data = await api.delete(
+        `/api/combinations/${encodeURIComponent(id)}`
+      );
+
+      if (data.success) {
+        return true;
+      } else {
+        throw new Error(data.error || 'Failed to delete combination');
+      }
     } catch (err) {
       const errorMessage =
         err instanceof Error ? err.message : 'An error occurred';
@@ -252,9 +250,16 @@ export function useDatabase() {
       setError(null);
 
       try {
-        // This would need a separate API endpoint, but for now we'll use the database operations directly
-        await savedCombinationsOperations.toggleFavorite(id, isFavorite);
-        return true;
+        const data = await api.patch(
+          `/api/combinations/${encodeURIComponent(id)}`,
+          { isFavorite }
+        );
+
+        if (data.success) {
+          return true;
+        } else {
+          throw new Error(data.error || 'Failed to update favorite');
+        }
       } catch (err) {
         const errorMessage =
           err instanceof Error ? err.message : 'An error occurred';
@@ -269,14 +274,21 @@ export function useDatabase() {
 
   // Nutrition Goals
   const saveNutritionGoal = useCallback(
-    async (goal: Omit<NutritionGoal, 'id' | 'createdAt' | 'updatedAt'>) => {
+    async (userId: string, goal: NutritionGoalInput) => {
       setLoading(true);
       setError(null);
 
       try {
-        // This would need a separate API endpoint, but for now we'll use the database operations directly
-        const goalId = await nutritionGoalsOperations.upsert(goal);
-        return goalId;
+        const data = await api.post<{ id: string }>('/api/goals', {
+          userId,
+          goal,
+        });
+
+        if (data.success && data.data) {
+          return data.data.id;
+        } else {
+          throw new Error(data.error || 'Failed to save nutrition goal');
+        }
       } catch (err) {
         const errorMessage =
           err instanceof Error ? err.message : 'An error occurred';
@@ -289,22 +301,32 @@ export function useDatabase() {
     []
   );
 
-  const getUserNutritionGoals = useCallback(async (userId: string) => {
-    setLoading(true);
-    setError(null);
+  const getUserNutritionGoals = useCallback(
+    async (userId: string): Promise<NutritionGoal[]> => {
+      setLoading(true);
+      setError(null);
 
-    try {
-      const goals = await nutritionGoalsOperations.getByUserId(userId);
-      return goals;
-    } catch (err) {
-      const errorMessage =
-        err instanceof Error ? err.message : 'An error occurred';
-      setError(errorMessage);
-      throw err;
-    } finally {
-      setLoading(false);
-    }
-  }, []);
+      try {
+        const data = await api.get<NutritionGoal[]>(
+          `/api/goals?userId=${encodeURIComponent(userId)}`
+        );
+
+        if (data.success) {
+          return data.data ?? [];
+        } else {
+          throw new Error(data.error || 'Failed to fetch nutrition goals');
+        }
+      } catch (err) {
+        const errorMessage =
+          err instanceof Error ? err.message : 'An error occurred';
+        setError(errorMessage);
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    []
+  );
 
   // Clear error
   const clearError = useCallback(() => {
@@ -0,0 +1,11 @@
+// Runs once when the server starts, before any request is handled
+export async function register() {
+  // The local database lives in a file, which only the Node.js runtime can
+  // reach
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { installConfiguredBackend } = await import(
+      '@/lib/repositories/fileStore'
+    );
+    await installConfiguredBackend();
+  }
+}
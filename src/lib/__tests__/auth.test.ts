@@ -0,0 +1,152 @@
+import { createSign, generateKeyPairSync } from 'crypto';
+import {
+  AuthError,
+  createFirebaseTokenVerifier,
+  requireAdmin,
+  requireUser,
+  setTokenVerifier,
+} from '../auth';
+
+const PROJECT_ID = 'superhuman-test';
+const NOW = Date.parse('2026-03-01T12:00:00.000Z');
+const seconds = NOW / 1000;
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+});
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const signToken = (claims: object, kid = 'key-1') => {
+  const unsigned = `${encode({ alg: 'RS256', kid })}.${encode(claims)}`;
+  const signature = createSign('RSA-SHA256')
+    .update(unsigned)
+    .sign(privateKey, 'base64url');
+  return `${unsigned}.${signature}`;
+};
+
+const claims = {
+  aud: PROJECT_ID,
+  iss: `https://securetoken.google.com/${PROJECT_ID}`,
+  sub: 'user-1',
+  iat: seconds - 60,
+  exp: seconds + 3600,
+};
+
+const verify = createFirebaseTokenVerifier(
+  PROJECT_ID,
+  async () => ({ 'key-1': publicKey }),
+  () => NOW
+);
+
+const rejection = (promise: Promise<unknown>) =>
+  promise.then(
+    () => null,
+    error => ({ status: (error as AuthError).status, message: error.message })
+  );
+
+describe('createFirebaseTokenVerifier', () => {
+  it('returns the uid of a token signed for the project', async () => {
+    await expect(verify(signToken(claims))).resolves.toEqual({
+      uid: 'user-1',
+      admin: false,
+    });
+    await expect(
+      verify(signToken({ ...claims, admin: true }))
+    ).resolves.toEqual({ uid: 'user-1', admin: true });
+  });
+
+  it('rejects tokens that are tampered with, foreign or expired', async () => {
+    const [header, , signature] = signToken(claims).split('.');
+    const forged = `${header}.${encode({ ...claims, sub: 'user-2' })}.${signature}`;
+
+    expect(await rejection(verify(forged))).toEqual({
+      status: 401,
+      message: 'ID token signature is invalid',
+    });
+    expect(await rejection(verify(signToken(claims, 'key-2')))).toEqual({
+      status: 401,
+      message: 'ID token was signed with an unknown key',
+    });
+    expect(
+      await rejection(verify(signToken({ ...claims, aud: 'other-project' })))
+    ).toEqual({
+      status: 401,
+      message: 'ID token was issued for another project',
+    });
+    expect(
+      await rejection(verify(signToken({ ...claims, exp: seconds - 1 })))
+    ).toEqual({ status: 401, message: 'ID token has expired' });
+    expect(await rejection(verify('not-a-token'))).toEqual({
+      status: 401,
+      message: 'Malformed ID token',
+    });
+  });
+});
+
+const request = (authorization?: string) => ({
+  headers: new Headers(authorization ? { authorization } : {}),
+});
+
+beforeEach(() => {
+  // Stand-in for Firebase: the token is the uid, and `admin-` users hold the
+  // admin claim
+  setTokenVerifier(async token => {
+    if (!/^(user|admin)-/.test(token)) {
+      throw new AuthError(401, 'ID token signature is invalid');
+    }
+    return { uid: token, admin: token.startsWith('admin-') };
+  });
+});
+
+afterEach(() => setTokenVerifier(null));
+
+describe('requireUser', () => {
+  it('takes the user from the token and accepts their own userId', async () => {
+    await expect(requireUser(request('Bearer user-1'))).resolves.toBe('user-1');
+    await expect(requireUser(request('Bearer user-1'), 'user-1')).resolves.toBe(
+      'user-1'
+    );
+  });
+
+  it('rejects missing or invalid tokens and other users', async () => {
+    expect(await rejection(requireUser(request()))).toEqual({
+      status: 401,
+      message: 'Authentication required',
+    });
+    expect(await rejection(requireUser(request('Bearer forged')))).toEqual({
+      status: 401,
+      message: 'ID token signature is invalid',
+    });
+    expect(
+      await rejection(requireUser(request('Bearer user-1'), 'user-2'))
+    ).toEqual({
+      status: 403,
+      message: 'userId does not match the signed-in user',
+    });
+  });
+});
+
+describe('requireAdmin', () => {
+  const allowlist = async (uid: string) => uid === 'user-2';
+
+  it('admits the admin claim and the allowlist', async () => {
+    await expect(
+      requireAdmin(request('Bearer admin-1'), allowlist)
+    ).resolves.toBe('admin-1');
+    await expect(
+      requireAdmin(request('Bearer user-2'), allowlist)
+    ).resolves.toBe('user-2');
+  });
+
+  it('rejects other users with 403', async () => {
+    expect(
+      await rejection(requireAdmin(request('Bearer user-1'), allowlist))
+    ).toEqual({ status: 403, message: 'Admin access required' });
+    expect(await rejection(requireAdmin(request(), allowlist))).toEqual({
+      status: 401,
+      message: 'Authentication required',
+    });
+  });
+});
@@ -0,0 +1,255 @@
+import { food } from '@/__tests__/utils/foods';
+import { CombinationListSchema } from '@/lib/validation/schemas';
+import {
+  CatalogFood,
+  createRandom,
+  generateCombinations,
+  GeneratorError,
+  getSeason,
+  regenerateCombinations,
+} from '../combinationGenerator';
+import { fallbackFoodGroups } from '../fallbackData';
+
+// Enough variety that a full week never needs to repeat an ingredient
+const catalog: CatalogFood[] = [
+  ...Array.from({ length: 14 }, (_, i) =>
+    food(`Fruit ${i}`, 'fruits', { nutrients: [`fruit nutrient ${i}`] })
+  ),
+  ...Array.from({ length: 14 }, (_, i) =>
+    food(`Vegetable ${i}`, 'vegetables', { nutrients: [`veg nutrient ${i}`] })
+  ),
+  ...Array.from({ length: 7 }, (_, i) => food(`Grain ${i}`, 'grains')),
+];
+
+const allNames = (week: ReturnType<typeof generateCombinations>) =>
+  week
+    .flatMap(c => [...c.fruits, ...c.vegetables, ...c.grains])
+    .map(i => i.name);
+
+describe('generateCombinations', () => {
+  it('is reproducible for the same seed', () => {
+    const first = generateCombinations(fallbackFoodGroups, { seed: 7 });
+    const second = generateCombinations(fallbackFoodGroups, { seed: 7 });
+    const other = generateCombinations(catalog, { seed: 8 });
+
+    expect(first).toEqual(second);
+    expect(other).not.toEqual(generateCombinations(catalog, { seed: 9 }));
+  });
+
+  it('produces a schema-valid week', () => {
+    const week = generateCombinations(fallbackFoodGroups, { seed: 1 });
+
+    expect(week.map(c => c.day)).toEqual([
+      'Monday',
+      'Tuesday',
+      'Wednesday',
+      'Thursday',
+      'Friday',
+      'Saturday',
+      'Sunday',
+    ]);
+    expect(
+      CombinationListSchema.safeParse({ combinations: week }).success
+    ).toBe(true);
+  });
+
+  it('does not repeat ingredients when the catalog is large enough', () => {
+    const names = allNames(generateCombinations(catalog, { seed: 3 }));
+
+    expect(new Set(names).size).toBe(names.length);
+  });
+
+  it('prefers foods covering nutrients missing from the plate', () => {
+    const week = generateCombinations(
+      [
+        food('Plain Apple', 'fruits'),
+        food('Kiwi', 'fruits', { nutrients: ['vitamin C', 'vitamin K'] }),
+        food('Spinach', 'vegetables', { nutrients: ['iron'] }),
+        food('Oats', 'grains', { nutrients: ['fiber'] }),
+      ],
+      { seed: 5, days: 1 }
+    );
+
+    expect(week[0].fruits[0].name).toBe('Kiwi');
+  });
+
+  it('keeps to in-season produce when available', () => {
+    const names = allNames(
+      generateCombinations(
+        [
+          ...catalog,
+          food('Winter Squash', 'vegetables', { seasonality: 'winter' }),
+          food('Summer Peach', 'fruits', { seasonality: 'summer' }),
+        ],
+        { seed: 11, season: 'winter' }
+      )
+    );
+
+    expect(names).not.toContain('Summer Peach');
+  });
+
+  it('applies dietary restrictions', () => {
+    const week = generateCombinations(
+      [
+        ...catalog.filter(f => f.category !== 'grains'),
+        food('Whole Wheat Bread', 'grains'),
+        food('Quinoa', 'grains'),
+      ],
+      { seed: 2, dietaryRestrictions: ['Gluten-Free'] }
+    );
+
+    expect(allNames(week)).not.toContain('Whole Wheat Bread');
+  });
+
+  it('steers picks toward the goal', () => {
+    const grains = [
+      food('White Rice', 'grains', {
+        caloriesPer100g: 130,
+        proteinPer100g: 2.7,
+        carbsPer100g: 28,
+        fiberPer100g: 0.4,
+      }),
+      food('Oats', 'grains', {
+        caloriesPer100g: 389,
+        proteinPer100g: 17,
+        carbsPer100g: 66,
+        fiberPer100g: 10.6,
+      }),
+    ];
+    const foods = [...catalog.filter(f => f.category !== 'grains'), ...grains];
+    const goal = { targetNutrients: [], targetFiber: 40, targetProtein: 120 };
+
+    const week = generateCombinations(foods, { seed: 4, days: 1, goal });
+
+    expect(week[0].grains[0].name).toBe('Oats');
+    expect(
+      generateCombinations(catalog, {
+        seed: 4,
+        goal: { targetNutrients: ['veg nutrient 13'] },
+      })[0].vegetables[0].name
+    ).toBe('Vegetable 13');
+  });
+
+  it('fails when restrictions leave a category empty', () => {
+    expect(() =>
+      generateCombinations(
+        [
+          ...catalog.filter(f => f.category !== 'grains'),
+          food('Barley', 'grains'),
+        ],
+        { seed: 2, dietaryRestrictions: ['Paleo'] }
+      )
+    ).toThrow(GeneratorError);
+  });
+
+  describe('with a pantry', () => {
+    const named = [
+      food('Apple', 'fruits', { nutrients: ['fiber'] }),
+      food('Kiwi', 'fruits', { nutrients: ['vitamin C', 'vitamin K'] }),
+      food('Pear', 'fruits'),
+      food('Spinach', 'vegetables', { nutrients: ['iron', 'folate'] }),
+      food('Kale', 'vegetables', { nutrients: ['vitamin K'] }),
+      food('Carrot', 'vegetables', { seasonality: 'summer' }),
+      food('Oats', 'grains', { nutrients: ['fiber'] }),
+      food('Quinoa', 'grains', { nutrients: ['protein', 'magnesium'] }),
+    ];
+
+    it('cooks only from the pantry', () => {
+      const week = generateCombinations(named, {
+        seed: 3,
+        season: 'winter',
+        pantry: {
+          mode: 'only',
+          items: [{ name: 'pear' }, { name: 'carrots' }, { name: 'Oats' }],
+        },
+      });
+
+      // Carrot is out of season, but already at hand
+      expect(new Set(allNames(week))).toEqual(
+        new Set(['Pear', 'Carrot', 'Oats'])
+      );
+      expect(() =>
+        generateCombinations(named, {
+          seed: 3,
+          pantry: { mode: 'only', items: [{ name: 'Pear' }] },
+        })
+      ).toThrow(GeneratorError);
+    });
+
+    it('uses the soonest-expiring pantry items first', () => {
+      const [day] = generateCombinations(named, {
+        seed: 3,
+        days: 1,
+        pantry: {
+          mode: 'expiring-first',
+          items: [
+            { name: 'Pear', daysLeft: 0 },
+            { name: 'Kale', daysLeft: 1 },
+          ],
+        },
+      });
+
+      expect(day.fruits[0].name).toBe('Pear');
+      expect(day.vegetables[0].name).toBe('Kale');
+    });
+  });
+});
+
+describe('regenerateCombinations', () => {
+  const week = generateCombinations(catalog, { seed: 3, days: 3 });
+
+  it('keeps locked ingredients and avoids everything else in the plan', () => {
+    const [monday] = week;
+    const locked = monday.fruits[0];
+
+    const [regenerated, ...rest] = regenerateCombinations(
+      catalog,
+      {
+        current: week,
+        targets: [{ day: 'Monday' }],
+        locks: [{ day: 'Monday', category: 'fruits', name: locked.name }],
+      },
+      { seed: 4 }
+    );
+
+    expect(rest).toHaveLength(0);
+    expect(regenerated.day).toBe('Monday');
+    expect(regenerated.fruits[0]).toEqual(locked);
+
+    const fresh = allNames([regenerated]).filter(name => name !== locked.name);
+    const existing = allNames(week);
+    expect(fresh.some(name => existing.includes(name))).toBe(false);
+  });
+
+  it('only replaces the targeted categories', () => {
+    const tuesday = week[1];
+
+    const [regenerated] = regenerateCombinations(
+      catalog,
+      {
+        current: week,
+        targets: [{ day: 'Tuesday', categories: ['grains'] }],
+        locks: [],
+      },
+      { seed: 5 }
+    );
+
+    expect(regenerated.fruits).toEqual(tuesday.fruits);
+    expect(regenerated.vegetables).toEqual(tuesday.vegetables);
+    expect(regenerated.grains).not.toEqual(tuesday.grains);
+  });
+});
+
+describe('helpers', () => {
+  it('derives the season from the month', () => {
+    expect(getSeason(new Date(2024, 0, 15))).toBe('winter');
+    expect(getSeason(new Date(2024, 6, 15))).toBe('summer');
+  });
+
+  it('creates a deterministic random sequence', () => {
+    const a = createRandom(99);
+    const b = createRandom(99);
+
+    expect([a(), a(), a()]).toEqual([b(), b(), b()]);
+  });
+});
@@ -0,0 +1,171 @@
+import { Timestamp } from 'firebase/firestore';
+import { food } from '@/__tests__/utils/foods';
+import {
+  applyRegeneration,
+  Combination,
+  formatIngredients,
+  inactiveIngredients,
+  parseCombinationsResponse,
+} from '../combinations';
+import type { SavedCombination } from '../database';
+
+const validCombination = {
+  day: 'Monday',
+  name: 'Grapefruit Glow Bowl',
+  fruits: [{ name: 'Grapefruit', quantity: '1 medium' }],
+  vegetables: [{ name: 'Spinach', quantity: '2 cups' }],
+  grains: [{ name: 'Quinoa', quantity: '1/2 cup' }],
+  benefits: 'Grapefruit and whole grain fiber support steady energy',
+  preparation: 'Cook quinoa, toss with spinach, top with grapefruit',
+};
+
+describe('parseCombinationsResponse', () => {
+  it('parses a valid JSON payload', () => {
+    const result = parseCombinationsResponse(
+      JSON.stringify({ combinations: [validCombination] })
+    );
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.combinations).toHaveLength(1);
+      // Benefits mentioning fruits or grains stay in the benefits field
+      expect(result.combinations[0].benefits).toContain('Grapefruit');
+      expect(result.combinations[0].fruits[0].name).toBe('Grapefruit');
+    }
+  });
+
+  it('accepts a bare array and markdown code fences', () => {
+    const text = '```json\n' + JSON.stringify([validCombination]) + '\n```';
+
+    const result = parseCombinationsResponse(text);
+
+    expect(result.success).toBe(true);
+  });
+
+  it('extracts JSON surrounded by commentary', () => {
+    const text = `Here is your plan: ${JSON.stringify({
+      combinations: [validCombination],
+    })} Enjoy!`;
+
+    expect(parseCombinationsResponse(text).success).toBe(true);
+  });
+
+  it('rejects text that is not JSON', () => {
+    const result = parseCombinationsResponse('COMBINATION 1 (Monday):');
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toMatch(/not valid JSON/);
+    }
+  });
+
+  it('reports schema violations with their path', () => {
+    const result = parseCombinationsResponse(
+      JSON.stringify({
+        combinations: [{ ...validCombination, grains: [] }],
+      })
+    );
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toContain('combinations.0.grains');
+    }
+  });
+
+  it('enforces the expected number of combinations', () => {
+    const result = parseCombinationsResponse(
+      JSON.stringify({ combinations: [validCombination] }),
+      7
+    );
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBe('Expected 7 combinations but received 1');
+    }
+  });
+});
+
+describe('formatIngredients', () => {
+  it('joins quantities and names', () => {
+    expect(
+      formatIngredients([
+        { name: 'strawberries', quantity: '1 cup' },
+        { name: 'orange', quantity: '1 medium' },
+      ])
+    ).toBe('1 cup strawberries, 1 medium orange');
+  });
+});
+
+describe('applyRegeneration', () => {
+  const monday = validCombination as Combination;
+  const tuesday: Combination = { ...monday, day: 'Tuesday' };
+  const regeneration = {
+    current: [monday, tuesday],
+    targets: [{ day: 'Monday' as const }],
+    locks: [
+      { day: 'Monday' as const, category: 'grains' as const, name: 'Quinoa' },
+    ],
+  };
+
+  it('merges regenerated days and enforces locks', () => {
+    const replacement: Combination = {
+      ...monday,
+      name: 'Kiwi Kale Medley',
+      fruits: [{ name: 'Kiwi', quantity: '2 medium' }],
+      vegetables: [{ name: 'Kale', quantity: '1 cup' }],
+      grains: [{ name: 'Oats', quantity: '1/2 cup' }],
+    };
+
+    const merged = applyRegeneration(regeneration, [replacement]);
+
+    expect(merged?.[0].name).toBe('Kiwi Kale Medley');
+    expect(merged?.[0].fruits).toEqual(replacement.fruits);
+    expect(merged?.[0].grains).toEqual(monday.grains);
+    expect(merged?.[1]).toBe(tuesday);
+  });
+
+  it('rejects results that skip a targeted day', () => {
+    expect(applyRegeneration(regeneration, [tuesday])).toBeNull();
+  });
+});
+
+describe('inactiveIngredients', () => {
+  const catalog = [
+    food('Spinach', 'vegetables'),
+    food('Kale', 'vegetables', { isActive: false }),
+    food('Quinoa', 'grains'),
+    food('Walnuts', 'nuts', { isActive: false }),
+  ];
+
+  const saved: SavedCombination = {
+    id: 'saved-1',
+    userId: 'user-1',
+    name: 'Green Bowl',
+    fruits: [],
+    vegetables: ['2 cups spinach', '1 cup kale'],
+    grains: ['1/2 cup quinoa'],
+    nuts: ['30g walnuts'],
+    benefits: [],
+    preparation: '',
+    tags: [],
+    isFavorite: false,
+    createdAt: Timestamp.fromDate(new Date('2026-01-01T00:00:00.000Z')),
+    updatedAt: Timestamp.fromDate(new Date('2026-01-01T00:00:00.000Z')),
+  };
+
+  it('flags ingredients whose catalog food is deactivated', () => {
+    expect(inactiveIngredients(saved, catalog)).toEqual([
+      '1 cup kale',
+      '30g walnuts',
+    ]);
+  });
+
+  it('flags nothing when every food is active or unknown', () => {
+    expect(
+      inactiveIngredients(
+        { ...saved, vegetables: ['2 cups spinach', '1 dragon fruit'] },
+        catalog.filter(({ isActive }) => isActive)
+      )
+    ).toEqual([]);
+  });
+});
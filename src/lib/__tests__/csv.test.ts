@@ -0,0 +1,80 @@
+import { formatCsv, parseCsv } from '../csv';
+
+describe('parseCsv', () => {
+  it('keeps commas, doubled quotes and line breaks inside quoted fields', () => {
+    const { records, errors } = parseCsv(
+      'name,description\r\nApple,"Sweet, crisp ""eating"" apple"\r\nPear,"Soft\r\nand juicy"\r\nPlum,Tart\r\n'
+    );
+
+    expect(errors).toEqual([]);
+    expect(records).toEqual([
+      { line: 1, values: ['name', 'description'] },
+      { line: 2, values: ['Apple', 'Sweet, crisp "eating" apple'] },
+      { line: 3, values: ['Pear', 'Soft\r\nand juicy'] },
+      { line: 5, values: ['Plum', 'Tart'] },
+    ]);
+  });
+
+  it('drops a byte order mark and skips blank lines', () => {
+    const { records } = parseCsv('﻿name,category\n\nKale,vegetables\n\n');
+
+    expect(records).toEqual([
+      { line: 1, values: ['name', 'category'] },
+      { line: 3, values: ['Kale', 'vegetables'] },
+    ]);
+  });
+
+  it('keeps empty fields, including quoted ones', () => {
+    const { records } = parseCsv('a,,""\n');
+
+    expect(records).toEqual([{ line: 1, values: ['a', '', ''] }]);
+  });
+
+  it('reports stray and unterminated quotes with their line and column', () => {
+    const { records, errors } = parseCsv(
+      'name,note\nOat,5" long\nRye,"closed"extra\nBarley,"never closed\n'
+    );
+
+    expect(errors).toEqual([
+      {
+        line: 2,
+        column: 2,
+        message: 'Unexpected quote; quotes inside a field must be doubled',
+      },
+      {
+        line: 3,
+        column: 2,
+        message: 'Unexpected text after a closing quote',
+      },
+      { line: 4, column: 2, message: 'Unterminated quoted field' },
+    ]);
+    expect(records[1].values).toEqual(['Oat', '5" long']);
+    expect(records[2].values).toEqual(['Rye', 'closedextra']);
+  });
+
+  it('supports other delimiters', () => {
+    const { records } = parseCsv('name\tcategory\nRice\tgrains', '\t');
+
+    expect(records[1].values).toEqual(['Rice', 'grains']);
+  });
+});
+
+describe('formatCsv', () => {
+  it('quotes only fields that need it and parses back unchanged', () => {
+    const rows = [
+      ['name', 'note'],
+      ['Apple', 'Sweet, "crisp"'],
+      ['Pear', 'Soft\nand juicy'],
+    ];
+    const text = formatCsv(rows);
+
+    expect(text).toBe(
+      'name,note\r\nApple,"Sweet, ""crisp"""\r\nPear,"Soft\nand juicy"\r\n'
+    );
+    expect(parseCsv(text).records.map(record => record.values)).toEqual(rows);
+  });
+
+  it('quotes fields containing the delimiter', () => {
+    expect(formatCsv([['a\tb', 'c,d']], '\t')).toBe('"a\tb"\tc,d\r\n');
+  });
+});
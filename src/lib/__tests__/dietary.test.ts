@@ -0,0 +1,168 @@
+import { food } from '@/__tests__/utils/foods';
+import type { Combination } from '../combinations';
+import type { CatalogFood } from '../combinationGenerator';
+import {
+  enforceCombinationDiet,
+  enforceMealDiet,
+  findViolatedRules,
+  getDietAttributes,
+} from '../dietary';
+
+const catalog: CatalogFood[] = [
+  food('Apple', 'fruits'),
+  food('Kiwi', 'fruits'),
+  food('Spinach', 'vegetables'),
+  food('Barley', 'grains'),
+  food('Quinoa', 'grains', { subcategory: 'pseudocereal' }),
+  food('Brown Rice', 'grains'),
+  food('Almonds', 'nuts', { subcategory: 'tree nuts' }),
+  food('Salmon', 'proteins', { subcategory: 'fish' }),
+  food('Eggs', 'proteins', { subcategory: 'poultry' }),
+  food('Tofu', 'proteins', { subcategory: 'plant proteins' }),
+  food('Greek Yogurt', 'dairy'),
+];
+
+const week: Combination[] = [
+  {
+    day: 'Monday',
+    name: 'Barley Apple Bowl',
+    fruits: [{ name: 'Apple', quantity: '1 medium' }],
+    vegetables: [{ name: 'Spinach', quantity: '2 cups' }],
+    grains: [{ name: 'Barley', quantity: '1/2 cup' }],
+    benefits: 'Fiber for steady energy',
+    preparation: 'Cook the barley, then toss with spinach and apple',
+  },
+];
+
+describe('getDietAttributes', () => {
+  it('infers attributes for untagged foods', () => {
+    expect(getDietAttributes(catalog[3])).toEqual({
+      allergens: ['gluten'],
+      containsGluten: true,
+      animalDerived: undefined,
+    });
+    expect(getDietAttributes(catalog[7]).allergens).toEqual(['fish']);
+    expect(getDietAttributes(catalog[8]).animalDerived).toBe('eggs');
+    expect(getDietAttributes(catalog[9]).allergens).toEqual(['soy']);
+  });
+
+  it('trusts tagged foods', () => {
+    const oats = food('Oats', 'grains', {
+      allergens: ['gluten'],
+      animalDerived: undefined,
+    });
+
+    expect(getDietAttributes(oats).containsGluten).toBe(true);
+  });
+});
+
+describe('findViolatedRules', () => {
+  it('labels broken restrictions and allergies', () => {
+    expect(
+      findViolatedRules(catalog[10], {
+        dietaryRestrictions: ['Vegan', 'Gluten-Free'],
+        allergies: ['Lactose'],
+      })
+    ).toEqual(['Vegan', 'allergy: Lactose']);
+    expect(findViolatedRules(catalog[6], { allergies: ['tree nuts'] })).toEqual(
+      ['allergy: tree nuts']
+    );
+    expect(
+      findViolatedRules(catalog[9], { dietaryRestrictions: ['Vegan'] })
+    ).toEqual([]);
+  });
+
+  it('treats unknown allergies as ingredient names', () => {
+    expect(findViolatedRules(catalog[1], { allergies: ['kiwis'] })).toEqual([
+      'allergy: kiwis',
+    ]);
+  });
+});
+
+describe('enforceCombinationDiet', () => {
+  it('replaces violating ingredients and reports them', () => {
+    const result = enforceCombinationDiet(week, catalog, {
+      dietaryRestrictions: ['Gluten-Free'],
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.items[0].grains).toEqual([
+      { name: 'Brown Rice', quantity: '1/2 cup' },
+    ]);
+    expect(result.items[0].name).toBe('Brown Rice Apple Bowl');
+    expect(result.violations).toEqual([
+      {
+        slot: 'Monday',
+        ingredient: 'Barley',
+        rules: ['Gluten-Free'],
+        action: 'replaced',
+        replacement: 'Brown Rice',
+      },
+    ]);
+  });
+
+  it('rejects without changing anything in reject mode', () => {
+    const result = enforceCombinationDiet(
+      week,
+      catalog,
+      { allergies: ['apple'] },
+      'reject'
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.items).toEqual(week);
+    expect(result.violations[0].action).toBe('rejected');
+  });
+
+  it('is invalid when a category cannot be repaired', () => {
+    const result = enforceCombinationDiet(
+      week,
+      catalog.filter(f => f.category !== 'fruits' || f.name === 'Apple'),
+      { allergies: ['apple'] }
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.violations[0].action).toBe('removed');
+  });
+});
+
+describe('enforceMealDiet', () => {
+  it('drops ingredients without a replacement', () => {
+    const result = enforceMealDiet(
+      [
+        {
+          day: 1,
+          type: 'dinner',
+          name: 'Salmon Rice Plate',
+          ingredients: [
+            {
+              name: 'Brown Rice',
+              amount: '1/2',
+              unit: 'cup',
+              category: 'grains',
+            },
+            { name: 'Salmon', amount: '100', unit: 'g', category: 'proteins' },
+          ],
+          instructions: ['Cook the salmon'],
+          preparationTime: '10 minutes',
+          cookingTime: '20 minutes',
+        },
+      ],
+      catalog.filter(f => f.name !== 'Tofu'),
+      { dietaryRestrictions: ['Vegan'] }
+    );
+
+    expect(result.valid).toBe(true);
+    expect(result.items[0].ingredients.map(i => i.name)).toEqual([
+      'Brown Rice',
+    ]);
+    expect(result.violations).toEqual([
+      {
+        slot: 'Day 1 dinner',
+        ingredient: 'Salmon',
+        rules: ['Vegan'],
+        action: 'removed',
+      },
+    ]);
+  });
+});
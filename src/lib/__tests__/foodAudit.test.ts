@@ -0,0 +1,110 @@
+import { Timestamp } from 'firebase/firestore';
+import type {
+  FoodGroup,
+  FoodGroupAuditEntry,
+  FoodGroupInput,
+} from '../database';
+import {
+  ANONYMOUS_ACTOR,
+  changedFields,
+  toAuditContext,
+  toFoodGroupHistory,
+  updatesTo,
+} from '../foodAudit';
+
+const created: FoodGroupInput = {
+  name: 'Kale',
+  category: 'vegetables',
+  nutrients: ['Vitamin K'],
+  benefits: ['Bone health'],
+  caloriesPer100g: 49,
+  micronutrients: { vitaminK: 390, vitaminC: 120 },
+  isActive: true,
+};
+
+const kale: FoodGroup = {
+  id: 'kale',
+  ...created,
+  createdAt: Timestamp.fromDate(new Date('2026-01-01T00:00:00.000Z')),
+  updatedAt: Timestamp.fromDate(new Date('2026-02-01T00:00:00.000Z')),
+};
+
+const entry = (
+  auditId: string,
+  action: FoodGroupAuditEntry['action'],
+  before: FoodGroupAuditEntry['before'],
+  after: FoodGroupAuditEntry['after'],
+  at: string
+): FoodGroupAuditEntry => ({
+  id: auditId,
+  foodGroupId: kale.id,
+  action,
+  actor: 'admin-1',
+  before,
+  after,
+  createdAt: at,
+});
+
+describe('toAuditContext', () => {
+  it('records the requesting user, or an anonymous actor', () => {
+    expect(toAuditContext({ userId: 'admin-1', reason: 'Typo' })).toEqual({
+      actor: 'admin-1',
+      reason: 'Typo',
+    });
+    expect(toAuditContext({})).toEqual({
+      actor: ANONYMOUS_ACTOR,
+      reason: undefined,
+    });
+  });
+});
+
+describe('changedFields', () => {
+  it('lists set, changed and removed fields but not IDs or timestamps', () => {
+    expect(changedFields(null, created)).toEqual(Object.keys(created));
+    expect(
+      changedFields(kale, {
+        ...created,
+        caloriesPer100g: undefined,
+        micronutrients: { vitaminC: 120, vitaminK: 390 },
+        seasonality: 'winter',
+      })
+    ).toEqual(['caloriesPer100g', 'seasonality']);
+  });
+});
+
+describe('toFoodGroupHistory', () => {
+  it('numbers versions from the oldest and lists what each changed', () => {
+    const renamed = { ...created, name: 'Curly kale' };
+    const history = toFoodGroupHistory([
+      entry('b', 'update', created, renamed, '2026-02-01T00:00:00.000Z'),
+      entry('a', 'create', null, created, '2026-01-01T00:00:00.000Z'),
+    ]);
+
+    expect(
+      history.map(({ id: auditId, version, fields }) => ({
+        auditId,
+        version,
+        fields,
+      }))
+    ).toEqual([
+      { auditId: 'b', version: 2, fields: ['name'] },
+      { auditId: 'a', version: 1, fields: Object.keys(created) },
+    ]);
+  });
+});
+
+describe('updatesTo', () => {
+  it('restores changed fields and removes ones the version lacked', () => {
+    const current = {
+      ...kale,
+      name: 'Curly kale',
+      seasonality: 'winter' as const,
+    };
+
+    expect(updatesTo(current, created)).toEqual({
+      name: 'Kale',
+      seasonality: undefined,
+    });
+    expect(updatesTo(kale, created)).toEqual({});
+  });
+});
@@ -0,0 +1,56 @@
+import { foodTemplate, serializeFoods } from '../foodExport';
+import { parseFoodFile } from '../foodImport';
+import { FoodFileFormatSchema } from '../validation/schemas';
+
+describe('serializeFoods', () => {
+  const foods = [
+    {
+      name: 'Apple, Gala',
+      category: 'fruits' as const,
+      nutrients: ['Vitamin C', 'Fiber'],
+      benefits: ['Heart health'],
+      caloriesPer100g: 52,
+      containsGluten: false,
+      isActive: true,
+    },
+    {
+      name: 'Kiwi',
+      category: 'fruits' as const,
+      nutrients: ['Vitamin C'],
+      benefits: ['Immune support'],
+      micronutrients: { vitaminC: 92.7, potassium: 312 },
+      portions: [{ description: '1 fruit', grams: 69 }],
+      isActive: true,
+    },
+  ];
+
+  it('writes lists with semicolons and micronutrients and portions as JSON', () => {
+    const [header, row, kiwi] = serializeFoods(foods, 'csv').split('\r\n');
+
+    expect(header.startsWith('name,category,subcategory,nutrients')).toBe(true);
+    expect(row).toBe(
+      '"Apple, Gala",fruits,,Vitamin C;Fiber,Heart health,,,52,,,,,,false,,true,,,'
+    );
+    expect(header.endsWith(',fdcId,micronutrients,portions')).toBe(true);
+    expect(
+      kiwi.endsWith(
+        ',true,,"{""vitaminC"":92.7,""potassium"":312}","[{""description"":""1 fruit"",""grams"":69}]"'
+      )
+    ).toBe(true);
+  });
+
+  it.each(FoodFileFormatSchema.options)(
+    'round-trips foods and templates through %s',
+    format => {
+      expect(
+        parseFoodFile(serializeFoods(foods, format), format).foods.map(
+          ({ food }) => food
+        )
+      ).toEqual(foods);
+
+      const template = parseFoodFile(foodTemplate(format), format);
+      expect(template.errors).toEqual([]);
+      expect(template.foods).toHaveLength(2);
+    }
+  );
+});
@@ -0,0 +1,334 @@
+import fs from 'fs';
+import path from 'path';
+import { Timestamp } from 'firebase/firestore';
+import type { FoodGroup } from '../database';
+import {
+  convertFoodValue,
+  describeImportError,
+  foodFileFormat,
+  parseFoodCsv,
+  parseFoodFile,
+  planFoodImport,
+} from '../foodImport';
+
+describe('convertFoodValue', () => {
+  it('splits lists on semicolons and lowercases allergens', () => {
+    expect(convertFoodValue('nutrients', 'Vitamin C; Potassium;')).toEqual({
+      value: ['Vitamin C', 'Potassium'],
+    });
+    expect(convertFoodValue('allergens', 'Tree Nuts|Soy')).toEqual({
+      value: ['tree nuts', 'soy'],
+    });
+  });
+
+  it('accepts units on numbers and season aliases', () => {
+    expect(convertFoodValue('caloriesPer100g', '52 kcal')).toEqual({
+      value: 52,
+    });
+    expect(convertFoodValue('fiberPer100g', '2.4g')).toEqual({ value: 2.4 });
+    expect(convertFoodValue('seasonality', 'Autumn')).toEqual({
+      value: 'fall',
+    });
+    expect(convertFoodValue('seasonality', 'Year Round')).toEqual({
+      value: 'year-round',
+    });
+  });
+
+  it('leaves empty cells unset and rejects values of the wrong kind', () => {
+    expect(convertFoodValue('glycemicIndex', '  ')).toEqual({});
+    expect(convertFoodValue('proteinPer100g', 'lots')).toEqual({
+      error: 'Expected a number, got "lots"',
+    });
+    expect(convertFoodValue('containsGluten', 'maybe')).toEqual({
+      error: 'Expected true or false, got "maybe"',
+    });
+  });
+});
+
+describe('parseFoodCsv', () => {
+  it('maps quoted rows into validated foods', () => {
+    const { foods, errors, ignoredHeaders } = parseFoodCsv(
+      'Name,Category,Description,Calories,Nutrients,Benefits,Season,Origin\n' +
+        'Apple,Fruits,"Sweet, crisp fruit",52,"Vitamin C;Fiber","Heart health;Digestion",autumn,Kent\n'
+    );
+
+    expect(errors).toEqual([]);
+    expect(ignoredHeaders).toEqual(['Origin']);
+    expect(foods).toEqual([
+      {
+        row: 2,
+        food: expect.objectContaining({
+          name: 'Apple',
+          category: 'fruits',
+          caloriesPer100g: 52,
+          nutrients: ['Vitamin C', 'Fiber'],
+          benefits: ['Heart health', 'Digestion'],
+          seasonality: 'fall',
+        }),
+        setsActive: false,
+      },
+    ]);
+  });
+
+  it('reports each bad cell by row and column and skips the row', () => {
+    const { foods, errors, rowCount } = parseFoodCsv(
+      'name,category,caloriesPer100g,nutrients,benefits\n' +
+        'Kale,vegetables,49,Vitamin K,Bone health\n' +
+        'Rock,minerals,0,Iron,Strength\n' +
+        'Fudge,sweets,lots,Sugar,Joy\n' +
+        'Pear,fruits,57,Fiber,Digestion,extra\n'
+    );
+
+    expect(rowCount).toBe(4);
+    expect(foods.map(({ food }) => food.name)).toEqual(['Kale']);
+    expect(errors.map(describeImportError)).toEqual([
+      expect.stringMatching(/^Row 3, category: /),
+      'Row 4, caloriesPer100g: Expected a number, got "lots"',
+      expect.stringMatching(/^Row 4, category: /),
+      'Row 5: Expected 5 columns, found 6',
+    ]);
+  });
+
+  it('reads micronutrients and portions from JSON cells', () => {
+    const { foods, errors } = parseFoodCsv(
+      'name,category,nutrients,benefits,micronutrients,portions\n' +
+        'Kiwi,fruits,Vitamin C,Immunity,"{""vitaminC"":92.7}",' +
+        '"[{""description"":""1 fruit"",""grams"":69}]"\n' +
+        'Fig,fruits,Fiber,Digestion,vitaminC=2,\n'
+    );
+
+    expect(foods).toEqual([
+      expect.objectContaining({
+        food: expect.objectContaining({
+          nutrients: ['Vitamin C'],
+          micronutrients: { vitaminC: 92.7 },
+          portions: [{ description: '1 fruit', grams: 69 }],
+        }),
+      }),
+    ]);
+    expect(errors.map(describeImportError)).toEqual([
+      'Row 3, micronutrients: Expected JSON, got "vitaminC=2"',
+    ]);
+  });
+
+  it('lists missing required headers', () => {
+    expect(parseFoodCsv('name,calories\nKale,49\n').missingHeaders).toEqual([
+      'category',
+    ]);
+  });
+
+  it('imports the bundled food database without errors', () => {
+    const csv = fs.readFileSync(
+      path.join(__dirname, '../../../expanded_foods_database.csv'),
+      'utf-8'
+    );
+    const { foods, errors, rowCount, ignoredHeaders } = parseFoodCsv(csv);
+
+    expect(errors).toEqual([]);
+    expect(ignoredHeaders).toEqual([]);
+    expect(foods).toHaveLength(rowCount);
+    expect(foods.find(({ food }) => food.name === 'Apple')?.food).toEqual(
+      expect.objectContaining({
+        category: 'fruits',
+        nutrients: expect.arrayContaining(['Vitamin C']),
+      })
+    );
+  });
+});
+
+describe('parseFoodFile', () => {
+  const kale = {
+    name: 'Kale',
+    category: 'vegetables',
+    nutrients: ['Vitamin K'],
+    benefits: ['Bone health'],
+  };
+
+  it('reads TSV with the same columns as CSV', () => {
+    const { foods, errors } = parseFoodFile(
+      'Name\tCategory\tNutrients\tBenefits\tCalories\n' +
+        'Kale\tvegetables\tVitamin K; Iron\tBone health\t49 kcal\n',
+      'tsv'
+    );
+
+    expect(errors).toEqual([]);
+    expect(foods[0].food).toEqual(
+      expect.objectContaining({
+        nutrients: ['Vitamin K', 'Iron'],
+        caloriesPer100g: 49,
+      })
+    );
+  });
+
+  it('reads a JSON array, numbering rows by item', () => {
+    const { foods, errors, rowCount, ignoredHeaders } = parseFoodFile(
+      JSON.stringify([
+        { ...kale, id: 'kale', Season: 'Autumn', origin: 'Kent' },
+        { ...kale, name: 'Chard', caloriesPer100g: 'lots' },
+        'Leek',
+      ]),
+      'json'
+    );
+
+    expect(rowCount).toBe(3);
+    expect(ignoredHeaders).toEqual(['origin']);
+    expect(foods).toEqual([
+      {
+        row: 1,
+        food: expect.objectContaining({ name: 'Kale', seasonality: 'fall' }),
+        setsActive: false,
+      },
+    ]);
+    expect(errors).toEqual([
+      {
+        row: 2,
+        column: 'caloriesPer100g',
+        message: 'Expected a number, got "lots"',
+      },
+      { row: 3, message: 'Expected an object' },
+    ]);
+  });
+
+  it('reads NDJSON, numbering rows by line', () => {
+    const { foods, errors, rowCount } = parseFoodFile(
+      `${JSON.stringify(kale)}\n\n{not json}\n${JSON.stringify({ ...kale, name: 'Chard' })}\n`,
+      'ndjson'
+    );
+
+    expect(rowCount).toBe(3);
+    expect(foods.map(({ row, food }) => [row, food.name])).toEqual([
+      [1, 'Kale'],
+      [4, 'Chard'],
+    ]);
+    expect(errors).toEqual([{ row: 3, message: 'Invalid JSON' }]);
+  });
+
+  it('reports JSON that is not an array of foods', () => {
+    expect(parseFoodFile('{"name": "Kale"}', 'json')).toEqual(
+      expect.objectContaining({
+        rowCount: 0,
+        missingHeaders: [],
+        errors: [{ row: 1, message: 'Expected an array of foods' }],
+      })
+    );
+  });
+
+  it('recognizes formats by file extension', () => {
+    expect(foodFileFormat('foods.CSV')).toBe('csv');
+    expect(foodFileFormat('foods.tab')).toBe('tsv');
+    expect(foodFileFormat('foods.jsonl')).toBe('ndjson');
+    expect(foodFileFormat('foods.xlsx')).toBeUndefined();
+  });
+});
+
+describe('planFoodImport', () => {
+  const stored = (
+    id: string,
+    name: string,
+    category: FoodGroup['category'],
+    caloriesPer100g: number
+  ): FoodGroup => ({
+    id,
+    name,
+    category,
+    nutrients: ['Fiber'],
+    benefits: ['Digestion'],
+    caloriesPer100g,
+    isActive: true,
+    createdAt: Timestamp.fromDate(new Date('2026-01-01T00:00:00.000Z')),
+    updatedAt: Timestamp.fromDate(new Date('2026-01-01T00:00:00.000Z')),
+  });
+
+  const catalog = [
+    stored('apple', 'Apple', 'fruits', 52),
+    stored('pear', 'Pear', 'fruits', 57),
+    stored('kale', 'Kale', 'vegetables', 49),
+  ];
+
+  const csv =
+    'name,category,caloriesPer100g,nutrients,benefits\n' +
+    'Apple ,fruits,52,Fiber,Digestion\n' +
+    'pear,fruits,60,Fiber,Digestion\n' +
+    'Leek,vegetables,31,Fiber,Digestion\n';
+
+  it('matches rows by name and category and updates only changed fields', () => {
+    const { changes, rejected, batch } = planFoodImport(
+      parseFoodCsv(csv),
+      catalog
+    );
+
+    expect(rejected).toEqual([]);
+    expect(changes).toEqual([
+      expect.objectContaining({ action: 'unchanged', row: 2, id: 'apple' }),
+      {
+        action: 'update',
+        row: 3,
+        id: 'pear',
+        name: 'pear',
+        category: 'fruits',
+        fields: ['name', 'caloriesPer100g'],
+      },
+      { action: 'create', row: 4, name: 'Leek', category: 'vegetables' },
+    ]);
+    expect(batch.update).toEqual([
+      { id: 'pear', updates: { name: 'pear', caloriesPer100g: 60 } },
+    ]);
+    expect(batch.create.map(food => food.name)).toEqual(['Leek']);
+    expect(batch.deactivate).toEqual([]);
+  });
+
+  it('leaves deactivated foods alone unless the file sets isActive', () => {
+    const deactivated = catalog.map(food => ({ ...food, isActive: false }));
+
+    expect(planFoodImport(parseFoodCsv(csv), deactivated).batch.update).toEqual(
+      [{ id: 'pear', updates: { name: 'pear', caloriesPer100g: 60 } }]
+    );
+    expect(
+      planFoodImport(
+        parseFoodCsv(
+          'name,category,nutrients,benefits,isActive\n' +
+            'Apple,fruits,Fiber,Digestion,true\n'
+        ),
+        deactivated
+      ).batch.update
+    ).toEqual([{ id: 'apple', updates: { isActive: true } }]);
+  });
+
+  it('deactivates missing foods only on request and with no rejected rows', () => {
+    expect(planFoodImport(parseFoodCsv(csv), catalog, true).batch).toEqual(
+      expect.objectContaining({ deactivate: ['kale'] })
+    );
+
+    const withDuplicate = planFoodImport(
+      parseFoodCsv(csv + 'Leek,vegetables,30,Fiber,Digestion\n'),
+      catalog,
+      true
+    );
+    expect(withDuplicate.rejected).toEqual([
+      { row: 5, column: 'name', message: 'Duplicate of row 4' },
+    ]);
+    expect(withDuplicate.batch.deactivate).toEqual([]);
+  });
+
+  it('plans no writes once its changes are in the catalog', () => {
+    const { batch } = planFoodImport(parseFoodCsv(csv), catalog, true);
+    const committed = [
+      ...catalog.map(food => ({
+        ...food,
+        ...batch.update.find(({ id }) => id === food.id)?.updates,
+        isActive: !batch.deactivate.includes(food.id),
+      })),
+      ...batch.create.map((food, index) => ({
+        ...catalog[0],
+        ...food,
+        id: `new-${index}`,
+      })),
+    ];
+
+    expect(planFoodImport(parseFoodCsv(csv), committed, true).batch).toEqual({
+      create: [],
+      update: [],
+      deactivate: [],
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { Timestamp } from 'firebase/firestore';
+import type { CatalogFood } from '../combinationGenerator';
+import type { FoodLogEntry, SavedCombination } from '../database';
+import {
+  addDays,
+  calculateEntryNutrition,
+  parseServings,
+  summarizeDiary,
+} from '../foodLog';
+import { eatenEntries } from '../goals';
+
+const oats: CatalogFood = {
+  id: 'oats',
+  name: 'Oats',
+  category: 'grains',
+  nutrients: ['fiber'],
+  benefits: [],
+  caloriesPer100g: 380,
+  proteinPer100g: 13,
+  carbsPer100g: 68,
+  fatPer100g: 7,
+  fiberPer100g: 10,
+  isActive: true,
+};
+
+const bowl: SavedCombination = {
+  id: 'combo-1',
+  userId: 'user-1',
+  name: 'Breakfast bowl',
+  fruits: [],
+  vegetables: [],
+  grains: ['50g oats'],
+  benefits: [],
+  preparation: '',
+  tags: [],
+  isFavorite: false,
+  createdAt: Timestamp.fromDate(new Date('2026-01-01T00:00:00.000Z')),
+  updatedAt: Timestamp.fromDate(new Date('2026-01-01T00:00:00.000Z')),
+  nutritionFacts: { calories: 400, protein: 20, carbs: 50, fat: 10, fiber: 8 },
+};
+
+const entry = (overrides: Partial<FoodLogEntry>): FoodLogEntry => ({
+  id: 'entry-1',
+  userId: 'user-1',
+  date: '2026-03-02',
+  mealSlot: 'breakfast',
+  foodGroupId: 'oats',
+  name: 'Oats',
+  quantity: '50g',
+  createdAt: '2026-03-02T08:00:00.000Z',
+  ...overrides,
+});
+
+describe('calculateEntryNutrition', () => {
+  it('scales catalog foods by their per-100g values', () => {
+    expect(
+      calculateEntryNutrition(
+        { foodGroupId: 'oats', quantity: '50g' },
+        [oats],
+        []
+      )
+    ).toEqual({ calories: 190, protein: 6.5, carbs: 34, fat: 3.5, fiber: 5 });
+  });
+
+  it('multiplies saved combinations by the number of servings', () => {
+    expect(
+      calculateEntryNutrition(
+        { combinationId: 'combo-1', quantity: '1/2' },
+        [oats],
+        [bowl]
+      )
+    ).toEqual({ calories: 200, protein: 10, carbs: 25, fat: 5, fiber: 4 });
+    expect(parseServings('2 servings')).toBe(2);
+    expect(parseServings('1 cup')).toBeNull();
+  });
+
+  it('returns null for foods that are gone', () => {
+    expect(
+      calculateEntryNutrition(
+        { foodGroupId: 'gone', quantity: '50g' },
+        [oats],
+        []
+      )
+    ).toBeNull();
+  });
+});
+
+describe('summarizeDiary', () => {
+  it('groups entries by day with slot totals and unmeasured names', () => {
+    const days = summarizeDiary(
+      [
+        entry({ id: 'a', date: '2026-03-03' }),
+        entry({
+          id: 'b',
+          combinationId: 'combo-1',
+          foodGroupId: undefined,
+          name: 'Breakfast bowl',
+          quantity: '1',
+          mealSlot: 'lunch',
+        }),
+        entry({ id: 'c', quantity: 'to taste', mealSlot: 'snack' }),
+        entry({ id: 'd' }),
+      ],
+      [oats],
+      [bowl]
+    );
+
+    expect(days.map(day => day.date)).toEqual(['2026-03-02', '2026-03-03']);
+    expect(days[1].totals.calories).toBe(190);
+    expect(days[0].totals.calories).toBe(590);
+    expect(days[0].slots).toEqual({
+      lunch: { calories: 400, protein: 20, carbs: 50, fat: 10, fiber: 8 },
+      breakfast: { calories: 190, protein: 6.5, carbs: 34, fat: 3.5, fiber: 5 },
+    });
+    expect(days[0].unmeasured).toEqual(['Oats']);
+  });
+
+  it('feeds measured entries into goal progress on their own day', () => {
+    const days = summarizeDiary(
+      [entry({}), entry({ id: 'b', foodGroupId: 'gone' })],
+      [oats],
+      []
+    );
+
+    expect(eatenEntries(days)).toEqual([
+      {
+        date: '2026-03-02T12:00:00.000Z',
+        source: 'eaten',
+        totals: { calories: 190, protein: 6.5, carbs: 34, fat: 3.5, fiber: 5 },
+      },
+    ]);
+  });
+});
+
+describe('addDays', () => {
+  it('crosses month and year boundaries', () => {
+    expect(addDays('2026-02-28', 1)).toBe('2026-03-01');
+    expect(addDays('2026-01-01', -1)).toBe('2025-12-31');
+  });
+});
@@ -0,0 +1,217 @@
+import { storedFood } from '@/__tests__/utils/foods';
+import {
+  decodeFoodCursor,
+  encodeFoodCursor,
+  foodGroupQueryKey,
+  readFoodGroupQuery,
+  runFoodGroupQuery,
+} from '../foodQuery';
+import { FoodGroupQuerySchema } from '../validation/schemas';
+
+const foods = [
+  storedFood('Apple', 'fruits', {
+    subcategory: 'pome',
+    seasonality: 'fall',
+    nutrients: ['Fiber', 'Vitamin C'],
+    glycemicIndex: 36,
+    proteinPer100g: 0.3,
+  }),
+  storedFood('Banana', 'fruits', {
+    subcategory: 'tropical',
+    seasonality: 'year-round',
+    nutrients: ['Potassium'],
+    glycemicIndex: 51,
+    proteinPer100g: 1.1,
+  }),
+  storedFood('Lentils', 'proteins', {
+    seasonality: 'year-round',
+    nutrients: ['Fiber', 'Iron', 'Protein'],
+    glycemicIndex: 32,
+    proteinPer100g: 9,
+  }),
+  storedFood('Almonds', 'nuts', {
+    nutrients: ['Vitamin E', 'Fiber', 'Protein'],
+    glycemicIndex: 0,
+    proteinPer100g: 21,
+  }),
+  storedFood('Tofu', 'proteins', {
+    nutrients: ['Protein', 'Iron'],
+    proteinPer100g: 8,
+  }),
+  storedFood('Quinoa', 'grains', {
+    nutrients: ['Protein', 'Fiber'],
+    proteinPer100g: 4.4,
+    isActive: false,
+  }),
+];
+
+const parse = (url: string) =>
+  FoodGroupQuerySchema.safeParse(readFoodGroupQuery(new URLSearchParams(url)));
+
+const run = (url: string) => {
+  const parsed = parse(url);
+  if (!parsed.success) throw new Error(parsed.error.message);
+  return runFoodGroupQuery(foods, parsed.data);
+};
+
+const names = (url: string) => run(url).items.map(result => result.name);
+
+describe('readFoodGroupQuery', () => {
+  it('reads lists, ranges and paging from the URL', () => {
+    expect(
+      parse(
+        'category=fruits,nuts&category=proteins&nutrient=Iron&proteinPer100g>=10&glycemicIndex=20..55&fatPer100g<=5&page=2&limit=5'
+      ).data
+    ).toEqual({
+      categories: ['fruits', 'nuts', 'proteins'],
+      nutrients: ['Iron'],
+      ranges: {
+        proteinPer100g: { min: 10 },
+        glycemicIndex: { min: 20, max: 55 },
+        fatPer100g: { max: 5 },
+      },
+      page: 2,
+      limit: 5,
+    });
+  });
+
+  it('rejects malformed ranges, unknown values and foreign cursors', () => {
+    expect(parse('proteinPer100g>10').success).toBe(false);
+    expect(parse('proteinPer100g>=ten').success).toBe(false);
+    expect(parse('proteinPer100g=30..10').success).toBe(false);
+    expect(parse('category=candy').success).toBe(false);
+    expect(parse('sortBy=price').success).toBe(false);
+    expect(parse('limit=500').success).toBe(false);
+    expect(parse('cursor=abc').success).toBe(false);
+    expect(parse(`cursor=${encodeFoodCursor(40)}`).success).toBe(true);
+  });
+});
+
+describe('food cursors', () => {
+  it('round-trip an offset', () => {
+    expect(decodeFoodCursor(encodeFoodCursor(120))).toBe(120);
+    expect(decodeFoodCursor('not a cursor')).toBeNull();
+  });
+});
+
+describe('runFoodGroupQuery', () => {
+  it('matches any listed category and every listed nutrient', () => {
+    expect(names('category=fruits,nuts')).toEqual([
+      'Almonds',
+      'Apple',
+      'Banana',
+    ]);
+    expect(names('nutrient=fiber,protein')).toEqual(['Almonds', 'Lentils']);
+    expect(names('seasonality=year-round&subcategory=Tropical')).toEqual([
+      'Banana',
+    ]);
+  });
+
+  it('keeps foods within every range, leaving out those without a value', () => {
+    expect(names('proteinPer100g>=8')).toEqual(['Almonds', 'Lentils', 'Tofu']);
+    expect(names('proteinPer100g>=8&glycemicIndex<=40')).toEqual([
+      'Almonds',
+      'Lentils',
+    ]);
+  });
+
+  it('leaves out deactivated foods unless asked for', () => {
+    expect(names('category=grains')).toEqual([]);
+    expect(names('category=grains&includeInactive=true')).toEqual(['Quinoa']);
+  });
+
+  it('sorts foods without the sorted value last', () => {
+    expect(names('sortBy=glycemicIndex&sortOrder=desc')).toEqual([
+      'Banana',
+      'Apple',
+      'Lentils',
+      'Almonds',
+      'Tofu',
+    ]);
+    expect(names('sortBy=protein')).toEqual([
+      'Apple',
+      'Banana',
+      'Tofu',
+      'Lentils',
+      'Almonds',
+    ]);
+  });
+
+  it('pages by number, offset or cursor', () => {
+    const first = run('limit=2');
+    expect(first.items.map(result => result.name)).toEqual([
+      'Almonds',
+      'Apple',
+    ]);
+    expect(first).toMatchObject({ total: 5, offset: 0, limit: 2 });
+
+    expect(names(`limit=2&cursor=${first.nextCursor}`)).toEqual([
+      'Banana',
+      'Lentils',
+    ]);
+    expect(names('limit=2&page=2')).toEqual(['Banana', 'Lentils']);
+    expect(run('limit=2&offset=4')).toMatchObject({
+      total: 5,
+      nextCursor: null,
+    });
+    expect(run('')).toMatchObject({ limit: null, nextCursor: null });
+  });
+
+  it('never treats an undecodable cursor as the first page', () => {
+    expect(parse('limit=2&cursor=abc')).toMatchObject({
+      success: false,
+      error: { issues: [expect.objectContaining({ path: ['cursor'] })] },
+    });
+    expect(() => runFoodGroupQuery(foods, { limit: 2, cursor: 'abc' })).toThrow(
+      'Invalid food cursor'
+    );
+  });
+
+  it('counts each facet without its own filter', () => {
+    const { facets, total } = run('category=proteins&proteinPer100g>=5');
+    expect(total).toBe(2);
+    expect(facets.categories).toEqual([
+      { value: 'proteins', count: 2 },
+      { value: 'nuts', count: 1 },
+    ]);
+    expect(facets.nutrients).toEqual([
+      { value: 'Iron', count: 2 },
+      { value: 'Protein', count: 2 },
+      { value: 'Fiber', count: 1 },
+    ]);
+    expect(facets.ranges).toEqual({
+      glycemicIndex: { min: 32, max: 32 },
+      proteinPer100g: { min: 8, max: 9 },
+    });
+  });
+});
+
+describe('foodGroupQueryKey', () => {
+  const key = foodGroupQueryKey;
+
+  it('is the same for queries asking for the same page', () => {
+    expect(
+      key({ categories: ['nuts', 'fruits'], nutrients: ['Iron'], page: 2 })
+    ).toBe(
+      key({
+        categories: ['fruits', 'nuts', 'fruits'],
+        nutrients: ['iron'],
+        limit: 20,
+        cursor: encodeFoodCursor(20),
+      })
+    );
+    expect(key({ search: '  Green   Apple ' })).toBe(
+      key({ search: 'green apple', sortBy: 'relevance', sortOrder: 'desc' })
+    );
+  });
+
+  it('differs when the results would', () => {
+    expect(key({ ranges: { proteinPer100g: { min: 10 } } })).not.toBe(
+      key({ ranges: { proteinPer100g: { max: 10 } } })
+    );
+    expect(key({ sortBy: 'name' })).not.toBe(
+      key({ sortBy: 'name', sortOrder: 'desc' })
+    );
+    expect(key({ page: 1 })).not.toBe(key({}));
+  });
+});
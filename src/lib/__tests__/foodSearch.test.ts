@@ -0,0 +1,128 @@
+import { storedFood } from '@/__tests__/utils/foods';
+import {
+  buildFoodSearchIndex,
+  createCatalogSearch,
+  editDistance,
+  searchFoodIndex,
+  tokenize,
+} from '../foodSearch';
+
+const food = (
+  name: string,
+  nutrients: string[],
+  benefits: string[],
+  isActive = true
+) => storedFood(name, 'vegetables', { nutrients, benefits, isActive });
+
+const foods = [
+  food('Eggplant', ['Fiber', 'Manganese'], ['Heart health']),
+  food('Strawberry', ['Vitamin C', 'Manganese'], ['Immune support']),
+  food('Broccoli', ['Vitamin C', 'Vitamin K'], ['Bone health']),
+  food('Iron Bark', ['Zinc'], ['Energy']),
+  food('Spinach', ['Iron', 'Folate'], ['Iron absorption', 'Bone health']),
+  food('Frisée', ['Vitamin A'], ['Digestive health']),
+  food('Lentils', ['Protein', 'Iron'], ['Energy'], false),
+];
+
+const index = buildFoodSearchIndex(foods);
+const names = (query: string, includeInactive = false) =>
+  searchFoodIndex(index, query, { includeInactive }).map(result => result.name);
+
+describe('tokenize', () => {
+  it('splits words, ignoring case and accents', () => {
+    expect(tokenize('Frisée, Vitamin-C')).toEqual([
+      { term: 'frisee', start: 0, end: 6 },
+      { term: 'vitamin', start: 8, end: 15 },
+      { term: 'c', start: 16, end: 17 },
+    ]);
+  });
+});
+
+describe('editDistance', () => {
+  it('counts edits up to the limit', () => {
+    expect(editDistance('brocoli', 'broccoli', 2)).toBe(1);
+    expect(editDistance('spinach', 'spinach', 1)).toBe(0);
+    expect(editDistance('kale', 'spinach', 2)).toBe(Infinity);
+  });
+});
+
+describe('searchFoodIndex', () => {
+  it('ranks a match in the name above nutrients above benefits', () => {
+    expect(names('iron')).toEqual(['Iron Bark', 'Spinach']);
+    const [bark, spinach] = searchFoodIndex(index, 'iron');
+    expect(bark.relevance).toBe(3);
+    expect(spinach.relevance).toBe(2);
+  });
+
+  it('matches prefixes, typos and synonyms', () => {
+    expect(names('straw')).toEqual(['Strawberry']);
+    expect(names('brocoli')).toEqual(['Broccoli']);
+    expect(names('aubergine')).toEqual(['Eggplant']);
+    expect(names('frisee')).toEqual(['Frisée']);
+    expect(names('fibre')).toEqual(['Eggplant']);
+  });
+
+  it('requires every word and ranks exact matches first', () => {
+    expect(names('vitamin c')).toEqual(['Broccoli', 'Strawberry']);
+    expect(names('bone vitamin')).toEqual(['Broccoli']);
+    expect(names('kale')).toEqual([]);
+    expect(names('  ')).toEqual([]);
+  });
+
+  it('leaves out deactivated foods unless asked for', () => {
+    expect(names('lentils')).toEqual([]);
+    expect(names('lentils', true)).toEqual(['Lentils']);
+  });
+
+  it('highlights what matched in each field', () => {
+    const [spinach] = searchFoodIndex(index, 'spin iron');
+    expect(spinach.highlights).toEqual([
+      { field: 'name', value: 'Spinach', ranges: [[0, 7]] },
+      { field: 'nutrients', value: 'Iron', ranges: [[0, 4]] },
+      { field: 'benefits', value: 'Iron absorption', ranges: [[0, 4]] },
+    ]);
+  });
+});
+
+describe('createCatalogSearch', () => {
+  it('loads the catalog again only after a change or once stale', async () => {
+    let catalog = foods.slice(0, 2);
+    let time = 0;
+    const load = jest.fn(async () => catalog);
+    const search = createCatalogSearch(load, 1000, () => time);
+    const found = async (query: string) =>
+      (await search.search(query)).map(result => result.name);
+
+    expect(await found('straw')).toEqual(['Strawberry']);
+    expect(await found('egg')).toEqual(['Eggplant']);
+    expect(load).toHaveBeenCalledTimes(1);
+
+    catalog = foods;
+    expect(await found('spinach')).toEqual([]);
+    search.invalidate();
+    expect(await found('spinach')).toEqual(['Spinach']);
+    expect(load).toHaveBeenCalledTimes(2);
+
+    time = 1000;
+    await found('spinach');
+    expect(load).toHaveBeenCalledTimes(3);
+  });
+
+  it('answers a repeated query from the cache until the next rebuild', async () => {
+    const search = createCatalogSearch(async () => foods);
+    const first = await search.query({ search: 'vitamin', limit: 1 });
+    expect(first.items.map(result => result.name)).toEqual(['Broccoli']);
+    expect(first.total).toBe(3);
+
+    expect(
+      await search.query({
+        search: ' Vitamin ',
+        limit: 1,
+        page: 1,
+        sortOrder: 'desc',
+      })
+    ).toBe(first);
+    search.invalidate();
+    expect(await search.query({ search: 'vitamin', limit: 1 })).not.toBe(first);
+  });
+});
@@ -0,0 +1,92 @@
+import { generateCombinations } from '../combinationGenerator';
+import { fallbackFoodGroups } from '../fallbackData';
+import {
+  diffGenerations,
+  GenerationRecord,
+  getLineage,
+  parseProviderName,
+} from '../generationHistory';
+
+function record(
+  id: string,
+  overrides: Partial<GenerationRecord> = {}
+): GenerationRecord {
+  return {
+    id,
+    userId: 'user-1',
+    request: { fruits: ['Apple'], vegetables: [], grains: [] },
+    provider: 'rule-based',
+    seed: 1,
+    combinations: generateCombinations(fallbackFoodGroups, {
+      seed: overrides.seed ?? 1,
+      days: 2,
+    }),
+    createdAt: `2024-01-0${id.length}T00:00:00.000Z`,
+    ...overrides,
+  };
+}
+
+describe('parseProviderName', () => {
+  it('splits the model from the provider', () => {
+    expect(parseProviderName('gemini:gemini-1.5-pro-latest')).toEqual({
+      provider: 'gemini',
+      model: 'gemini-1.5-pro-latest',
+    });
+    expect(parseProviderName('rule-based')).toEqual({
+      provider: 'rule-based',
+    });
+  });
+});
+
+describe('getLineage', () => {
+  it('follows parent links and stops at missing or repeated entries', () => {
+    const root = record('a');
+    const child = record('aa', { parentId: 'a' });
+    const grandchild = record('aaa', { parentId: 'aa' });
+    const orphan = record('b', { parentId: 'deleted' });
+
+    expect(
+      getLineage(grandchild, [root, child, grandchild]).map(r => r.id)
+    ).toEqual(['aaa', 'aa', 'a']);
+    expect(getLineage(orphan, [orphan]).map(r => r.id)).toEqual(['b']);
+    expect(
+      getLineage(record('c', { parentId: 'c' }), []).map(r => r.id)
+    ).toEqual(['c']);
+  });
+});
+
+describe('diffGenerations', () => {
+  it('reports changed inputs and ingredients per day', () => {
+    const before = record('a');
+    const after = record('aa', {
+      parentId: 'a',
+      seed: 99,
+      provider: 'gemini:gemini-1.5-flash-latest',
+      request: {
+        fruits: ['Apple', 'Banana'],
+        vegetables: [],
+        grains: [],
+        dietaryRestrictions: ['Vegan'],
+      },
+    });
+
+    const diff = diffGenerations(before, after);
+
+    expect(diff.inputs).toEqual([
+      { field: 'fruits', before: 'Apple', after: 'Apple, Banana' },
+      { field: 'dietaryRestrictions', before: '', after: 'Vegan' },
+    ]);
+    expect(diff.providerChanged).toBe(true);
+    expect(
+      diff.slots.every(slot => ['Monday', 'Tuesday'].includes(slot.slot))
+    ).toBe(true);
+  });
+
+  it('finds nothing between identical generations', () => {
+    expect(diffGenerations(record('a'), record('aa'))).toEqual({
+      inputs: [],
+      slots: [],
+      providerChanged: false,
+    });
+  });
+});
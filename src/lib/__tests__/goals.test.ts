@@ -0,0 +1,100 @@
+import type { NutritionGoal } from '../database';
+import {
+  dailyTargets,
+  describeGoal,
+  GoalEntry,
+  macroFit,
+  percentOfTarget,
+  summarizeGoalProgress,
+} from '../goals';
+
+const goal: NutritionGoal = {
+  id: 'goal-1',
+  userId: 'user-1',
+  name: 'High fiber',
+  description: '',
+  targetNutrients: ['iron'],
+  targetCalories: 2000,
+  targetProtein: 100,
+  targetFiber: 40,
+  isActive: true,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+const totals = (calories: number, protein = 0, fiber = 0) => ({
+  calories,
+  protein,
+  carbs: 0,
+  fat: 0,
+  fiber,
+});
+
+describe('dailyTargets', () => {
+  it('only includes the targets the goal sets', () => {
+    expect(dailyTargets(goal)).toEqual({
+      calories: 2000,
+      protein: 100,
+      fiber: 40,
+    });
+    expect(percentOfTarget(50, 40)).toBe(125);
+    expect(percentOfTarget(50, undefined)).toBeNull();
+  });
+});
+
+describe('macroFit', () => {
+  it('scores matching proportions highest', () => {
+    // 20% of calories from protein and 20g fiber per 1000 kcal, like the goal
+    expect(macroFit(totals(500, 25, 10), goal)).toBe(1);
+    expect(macroFit(totals(500, 0, 0), goal)).toBeLessThan(0.5);
+  });
+
+  it('returns null without macro targets', () => {
+    expect(macroFit(totals(500), { targetNutrients: ['iron'] })).toBeNull();
+  });
+});
+
+describe('describeGoal', () => {
+  it('lists targets and nutrients for the prompt', () => {
+    expect(describeGoal(goal)).toContain('2000 kcal, 100g protein, 40g fiber');
+    expect(describeGoal(goal)).toContain('Prioritize foods rich in: iron.');
+    expect(describeGoal(undefined)).toBe('');
+  });
+});
+
+describe('summarizeGoalProgress', () => {
+  // A Wednesday
+  const today = new Date('2026-03-11T15:00:00Z');
+  const entries: GoalEntry[] = [
+    { date: '2026-03-11T08:00:00Z', source: 'eaten', totals: totals(600, 30) },
+    { date: '2026-03-11T12:00:00Z', source: 'eaten', totals: totals(400, 20) },
+    { date: '2026-03-10T12:00:00Z', source: 'saved', totals: totals(300, 9) },
+    { date: '2026-03-02T12:00:00Z', source: 'eaten', totals: totals(700) },
+  ];
+
+  it('averages each day', () => {
+    const progress = summarizeGoalProgress(goal, entries, 'day', 2, today);
+
+    expect(progress.periods.map(p => p.start)).toEqual([
+      '2026-03-10',
+      '2026-03-11',
+    ]);
+    expect(progress.periods[1].eaten.calories).toBe(1000);
+    expect(progress.periods[1].entries).toEqual({ eaten: 2, saved: 0 });
+    expect(progress.periods[0].saved.protein).toBe(9);
+  });
+
+  it('averages weeks over the days elapsed so far', () => {
+    const progress = summarizeGoalProgress(goal, entries, 'week', 2, today);
+
+    expect(progress.periods.map(p => p.start)).toEqual([
+      '2026-03-02',
+      '2026-03-09',
+    ]);
+    expect(progress.periods[0]).toMatchObject({ days: 7 });
+    expect(progress.periods[0].eaten.calories).toBe(100);
+    // Monday to Wednesday
+    expect(progress.periods[1].days).toBe(3);
+    expect(progress.periods[1].eaten.calories).toBe(333.3);
+  });
+});
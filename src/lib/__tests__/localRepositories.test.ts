@@ -0,0 +1,473 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Timestamp } from 'firebase/firestore';
+import {
+  adminOperations,
+  foodGroupAuditOperations,
+  foodGroupOperations,
+  foodLogOperations,
+  generationHistoryOperations,
+  getDatabaseBackend,
+  mealPlanOperations,
+  nutritionGoalsOperations,
+  pantryOperations,
+  savedCombinationsOperations,
+  setRepositories,
+  shoppingListOperations,
+  SYSTEM_ACTOR,
+  userPreferencesOperations,
+} from '../database';
+import { importFoods, parseFoodCsv } from '../foodImport';
+import {
+  createFileStore,
+  installLocalDatabase,
+} from '../repositories/fileStore';
+import {
+  createLocalRepositories,
+  createMemoryStore,
+  emptyLocalDatabase,
+  LocalDatabaseStore,
+} from '../repositories/local';
+
+const CSV = [
+  'name,category,nutrients,benefits,caloriesPer100g',
+  'Spinach,vegetables,Iron;Vitamin K,Bone health,23',
+  'Apple,fruits,Vitamin C;Fiber,Heart health,52',
+  'Banana,fruits,Potassium,Energy,89',
+].join('\n');
+
+const admin = { actor: 'admin-1', reason: 'Testing' };
+
+// Every write happens a second after the last, and IDs count up
+const install = (store: LocalDatabaseStore = createMemoryStore()) => {
+  let clock = Date.parse('2026-03-01T12:00:00.000Z');
+  let ids = 0;
+  setRepositories(
+    createLocalRepositories(store, {
+      now: () => new Date((clock += 1000)),
+      newId: () => `id-${++ids}`,
+    })
+  );
+};
+
+const seed = () => importFoods(parseFoodCsv(CSV), { actor: SYSTEM_ACTOR });
+
+const idOf = async (name: string) =>
+  (await foodGroupOperations.getAll({ includeInactive: true })).find(
+    food => food.name === name
+  )!.id;
+
+afterEach(() => setRepositories(null));
+
+describe('database backend', () => {
+  it('forwards the operations to the installed repositories', async () => {
+    expect(getDatabaseBackend()).toBe('firestore');
+    install();
+    expect(getDatabaseBackend()).toBe('local');
+    await seed();
+
+    expect((await foodGroupOperations.getAll()).map(food => food.name)).toEqual(
+      ['Spinach', 'Apple', 'Banana']
+    );
+
+    setRepositories(null);
+    expect(getDatabaseBackend()).toBe('firestore');
+  });
+});
+
+describe('local food groups', () => {
+  beforeEach(async () => {
+    install();
+    await seed();
+  });
+
+  it('queries the catalog like Firestore does', async () => {
+    const apple = await foodGroupOperations.getById(await idOf('Apple'));
+    expect(apple).toMatchObject({ name: 'Apple', caloriesPer100g: 52 });
+    expect(apple?.createdAt).toBeInstanceOf(Timestamp);
+
+    expect(
+      (await foodGroupOperations.getByCategory('fruits')).map(food => food.name)
+    ).toEqual(['Apple', 'Banana']);
+    expect(
+      (await foodGroupOperations.search('vitamin')).map(food => food.name)
+    ).toEqual(['Apple', 'Spinach']);
+    expect(await foodGroupOperations.getById('missing')).toBeNull();
+  });
+
+  it('searches foods written since the last search', async () => {
+    expect(await foodGroupOperations.search('kale')).toEqual([]);
+    await foodGroupOperations.create(
+      {
+        name: 'Kale',
+        category: 'vegetables',
+        nutrients: ['Vitamin K'],
+        benefits: [],
+        isActive: true,
+      },
+      admin
+    );
+
+    const [kale] = await foodGroupOperations.search('kale');
+    expect(kale).toMatchObject({ name: 'Kale', relevance: 3 });
+  });
+
+  it('records every change in the food history', async () => {
+    const id = await idOf('Apple');
+    await foodGroupOperations.update(id, { caloriesPer100g: 50 }, admin);
+    await foodGroupOperations.delete(id, admin);
+
+    expect((await foodGroupOperations.getAll()).map(food => food.name)).toEqual(
+      ['Spinach', 'Banana']
+    );
+
+    await foodGroupOperations.restore(id, admin);
+    const history = await foodGroupAuditOperations.getByFoodGroupId(id);
+    expect(history.map(entry => [entry.action, entry.actor])).toEqual([
+      ['restore', 'admin-1'],
+      ['delete', 'admin-1'],
+      ['update', 'admin-1'],
+      ['import', SYSTEM_ACTOR],
+    ]);
+    expect(history[2]).toMatchObject({
+      reason: 'Testing',
+      before: { caloriesPer100g: 52 },
+      after: { caloriesPer100g: 50 },
+    });
+    expect(await foodGroupAuditOperations.getById(history[0].id)).toEqual(
+      history[0]
+    );
+  });
+
+  it('removes fields updated to undefined', async () => {
+    const id = await idOf('Banana');
+    await foodGroupOperations.update(id, { caloriesPer100g: undefined }, admin);
+
+    const banana = await foodGroupOperations.getById(id);
+    expect(banana).not.toHaveProperty('caloriesPer100g');
+  });
+
+  it('applies no part of a batch with an unknown food', async () => {
+    await expect(
+      foodGroupOperations.commitBatch(
+        {
+          create: [
+            {
+              name: 'Kale',
+              category: 'vegetables',
+              nutrients: [],
+              benefits: [],
+              isActive: true,
+            },
+          ],
+          update: [],
+          deactivate: ['missing'],
+        },
+        admin
+      )
+    ).rejects.toThrow('Food group not found: missing');
+
+    expect(await foodGroupOperations.getAll()).toHaveLength(3);
+  });
+});
+
+describe('local user data', () => {
+  beforeEach(() => install());
+
+  it('merges preferences and rejects updates for unknown users', async () => {
+    await userPreferencesOperations.upsert('user-1', {
+      allergies: ['peanuts'],
+    });
+    await userPreferencesOperations.upsert('user-1', {
+      cookingSkill: 'advanced',
+    });
+    await userPreferencesOperations.update('user-1', { allergies: [] });
+
+    expect(await userPreferencesOperations.get('user-1')).toMatchObject({
+      userId: 'user-1',
+      allergies: [],
+      cookingSkill: 'advanced',
+    });
+    expect(await userPreferencesOperations.get('user-2')).toBeNull();
+    await expect(
+      userPreferencesOperations.update('user-2', { allergies: [] })
+    ).rejects.toThrow('User preferences not found: user-2');
+  });
+
+  it('keeps saved combinations per user', async () => {
+    const combination = {
+      userId: 'user-1',
+      name: 'Green bowl',
+      fruits: [],
+      vegetables: ['Spinach'],
+      grains: [],
+      benefits: [],
+      preparation: '',
+      tags: [],
+      isFavorite: false,
+    };
+    const id = await savedCombinationsOperations.save(combination);
+    await savedCombinationsOperations.save({
+      ...combination,
+      userId: 'user-2',
+    });
+
+    expect(await savedCombinationsOperations.getFavorites('user-1')).toEqual(
+      []
+    );
+    await savedCombinationsOperations.toggleFavorite(id, true);
+    expect(
+      (await savedCombinationsOperations.getFavorites('user-1')).map(
+        saved => saved.id
+      )
+    ).toEqual([id]);
+
+    await savedCombinationsOperations.delete(id);
+    expect(await savedCombinationsOperations.getByUserId('user-1')).toEqual([]);
+    expect(
+      await savedCombinationsOperations.getByUserId('user-2')
+    ).toHaveLength(1);
+  });
+
+  it('keeps one active nutrition goal per user', async () => {
+    const goal = {
+      name: 'Protein',
+      description: '',
+      targetNutrients: ['protein'],
+      targetProtein: 120,
+      isActive: true,
+    };
+    const first = await nutritionGoalsOperations.create('user-1', goal);
+    const second = await nutritionGoalsOperations.create('user-1', {
+      ...goal,
+      isActive: false,
+    });
+    const other = await nutritionGoalsOperations.create('user-2', goal);
+
+    await nutritionGoalsOperations.activate('user-1', second);
+
+    expect(
+      (await nutritionGoalsOperations.getByUserId('user-1')).map(saved => [
+        saved.id,
+        saved.isActive,
+      ])
+    ).toEqual([
+      [second, true],
+      [first, false],
+    ]);
+    expect((await nutritionGoalsOperations.getActive('user-2'))?.id).toBe(
+      other
+    );
+
+    await nutritionGoalsOperations.update(second, { targetProtein: undefined });
+    expect(await nutritionGoalsOperations.getById(second)).not.toHaveProperty(
+      'targetProtein'
+    );
+  });
+});
+
+describe('local diary, pantry and plans', () => {
+  beforeEach(() => install());
+
+  it('filters the diary by day and keeps it in order', async () => {
+    const entry = {
+      userId: 'user-1',
+      mealSlot: 'lunch' as const,
+      name: 'Apple',
+      foodGroupId: 'apple',
+      quantity: '150g',
+    };
+    const late = await foodLogOperations.create({
+      ...entry,
+      date: '2026-03-02',
+    });
+    const early = await foodLogOperations.create({
+      ...entry,
+      date: '2026-03-01',
+      combinationId: undefined,
+    });
+    await foodLogOperations.create({
+      ...entry,
+      userId: 'user-2',
+      date: '2026-03-01',
+    });
+
+    expect(
+      (await foodLogOperations.getByUserId('user-1')).map(saved => saved.id)
+    ).toEqual([early, late]);
+    expect(await foodLogOperations.getByUserId('user-1', '2026-03-02')).toEqual(
+      [expect.objectContaining({ id: late, quantity: '150g' })]
+    );
+
+    await foodLogOperations.update(late, { quantity: '200g' });
+    expect(await foodLogOperations.getById(late)).toMatchObject({
+      quantity: '200g',
+    });
+    await foodLogOperations.delete(late);
+    expect(await foodLogOperations.getById(late)).toBeNull();
+  });
+
+  it('sorts the pantry by expiry and removes cleared fields', async () => {
+    const milk = await pantryOperations.create('user-1', {
+      name: 'Milk',
+      quantity: '1l',
+      expiresOn: '2026-03-05',
+    });
+    const rice = await pantryOperations.create('user-1', {
+      name: 'Rice',
+      quantity: '1kg',
+    });
+    const eggs = await pantryOperations.create('user-1', {
+      name: 'Eggs',
+      quantity: '6',
+      expiresOn: '2026-03-03',
+    });
+
+    expect(
+      (await pantryOperations.getByUserId('user-1')).map(item => item.id)
+    ).toEqual([eggs, milk, rice]);
+
+    await pantryOperations.update(milk, { expiresOn: undefined });
+    expect(await pantryOperations.getById(milk)).not.toHaveProperty(
+      'expiresOn'
+    );
+    await expect(
+      pantryOperations.update('missing', { quantity: '2' })
+    ).rejects.toThrow('Pantry item not found: missing');
+  });
+
+  it('keeps meal plans, generations and checked items per user', async () => {
+    const plan = {
+      title: 'Week',
+      description: '',
+      days: 1,
+      mealSlots: [],
+      meals: [],
+      nutritionSummary: {
+        totalCalories: 0,
+        totalProtein: 0,
+        totalCarbohydrates: 0,
+        totalFat: 0,
+        totalFiber: 0,
+        dailyValues: { protein: 0, carbohydrates: 0, fat: 0, fiber: 0 },
+      },
+      preparationTime: '',
+      difficulty: 'easy' as const,
+      servings: 1,
+    };
+    const first = await mealPlanOperations.save('user-1', plan);
+    const second = await mealPlanOperations.save('user-1', plan);
+    await mealPlanOperations.update(first, { title: 'Renamed' });
+
+    expect(
+      (await mealPlanOperations.getByUserId('user-1')).map(saved => [
+        saved.id,
+        saved.title,
+      ])
+    ).toEqual([
+      [second, 'Week'],
+      [first, 'Renamed'],
+    ]);
+    expect(await mealPlanOperations.getByUserId('user-2')).toEqual([]);
+
+    const generation = await generationHistoryOperations.save({
+      userId: 'user-1',
+      request: { fruits: ['Apple'], vegetables: [], grains: [] },
+      provider: 'local',
+      seed: undefined,
+    });
+    expect(await generationHistoryOperations.getByUserId('user-1')).toEqual([
+      expect.objectContaining({ id: generation, provider: 'local' }),
+    ]);
+    expect(
+      await generationHistoryOperations.getById(generation)
+    ).not.toHaveProperty('seed');
+
+    await shoppingListOperations.setChecked('user-1', 'plan:a', ['apple']);
+    expect(await shoppingListOperations.getChecked('user-1', 'plan:a')).toEqual(
+      ['apple']
+    );
+    expect(await shoppingListOperations.getChecked('user-2', 'plan:a')).toEqual(
+      []
+    );
+  });
+});
+
+describe('local admins', () => {
+  it('allows the uids on the allowlist and logs their actions', async () => {
+    const store = createMemoryStore({
+      ...emptyLocalDatabase(),
+      admins: { 'admin-1': {} },
+    });
+    install(store);
+
+    expect(await adminOperations.isAdmin('admin-1')).toBe(true);
+    expect(await adminOperations.isAdmin('user-1')).toBe(false);
+
+    await adminOperations.logAction({
+      action: 'import',
+      resource: 'foodGroups',
+      actor: 'admin-1',
+    });
+    expect(Object.values((await store.load())!.adminActions)).toEqual([
+      {
+        action: 'import',
+        resource: 'foodGroups',
+        actor: 'admin-1',
+        createdAt: expect.any(String),
+      },
+    ]);
+  });
+});
+
+describe('local persistence', () => {
+  it('loads what an earlier run saved', async () => {
+    const store = createMemoryStore();
+    install(store);
+    await seed();
+    await userPreferencesOperations.upsert('user-1', { allergies: ['soy'] });
+
+    install(store);
+    expect(await foodGroupOperations.getAll()).toHaveLength(3);
+    expect(await userPreferencesOperations.get('user-1')).toMatchObject({
+      allergies: ['soy'],
+    });
+  });
+
+  it('seeds a new database file from the CSV once', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'local-db-'));
+    const filePath = path.join(directory, 'database.json');
+    const csvPath = path.join(directory, 'foods.csv');
+    fs.writeFileSync(csvPath, CSV);
+
+    try {
+      await installLocalDatabase(filePath, csvPath);
+      const history = await foodGroupAuditOperations.getByFoodGroupId(
+        await idOf('Apple')
+      );
+      expect(history).toEqual([
+        expect.objectContaining({
+          action: 'import',
+          actor: SYSTEM_ACTOR,
+          reason: 'Seeded from foods.csv',
+        }),
+      ]);
+
+      // The catalog is not seeded again once it has foods
+      fs.writeFileSync(csvPath, `${CSV}\nKale,vegetables,Iron,Bone health,49`);
+      await installLocalDatabase(filePath, csvPath);
+      expect(await foodGroupOperations.getAll()).toHaveLength(3);
+
+      expect(await createFileStore(filePath).load()).toMatchObject({
+        foodGroups: expect.any(Object),
+        foodGroupAudit: expect.any(Object),
+      });
+      expect(
+        await createFileStore(path.join(directory, 'missing.json')).load()
+      ).toBeNull();
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
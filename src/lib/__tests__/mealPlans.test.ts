@@ -0,0 +1,232 @@
+import {
+  GeneratedMealListSchema,
+  MealPlanRegenerationRequestSchema,
+} from '@/lib/validation/schemas';
+import {
+  CatalogFood,
+  generateMeals,
+  regenerateMeals,
+} from '../combinationGenerator';
+import { fallbackFoodGroups } from '../fallbackData';
+import {
+  applyMealRegeneration,
+  buildMealPlan,
+  MealPlanOptions,
+  MealRegeneration,
+  parseMealsResponse,
+} from '../mealPlans';
+
+const options: MealPlanOptions = {
+  days: 3,
+  mealSlots: ['breakfast', 'lunch', 'dinner', 'snack'],
+};
+
+const proteins: CatalogFood[] = [
+  {
+    id: 'chicken',
+    name: 'Chicken Breast',
+    category: 'proteins',
+    subcategory: 'poultry',
+    nutrients: ['Protein'],
+    benefits: ['Muscle building'],
+    isActive: true,
+  },
+  {
+    id: 'lentils',
+    name: 'Lentils',
+    category: 'proteins',
+    subcategory: 'legumes',
+    nutrients: ['Protein', 'Folate'],
+    benefits: ['Heart health'],
+    isActive: true,
+  },
+];
+
+describe('generateMeals', () => {
+  it('fills every day and slot deterministically', () => {
+    const first = generateMeals(fallbackFoodGroups, { ...options, seed: 7 });
+    const second = generateMeals(fallbackFoodGroups, { ...options, seed: 7 });
+
+    expect(first).toEqual(second);
+    expect(first).toHaveLength(12);
+    expect(GeneratedMealListSchema.safeParse({ meals: first }).success).toBe(
+      true
+    );
+    expect(
+      parseMealsResponse(JSON.stringify({ meals: first }), options).success
+    ).toBe(true);
+  });
+
+  it('substitutes a vegetable in snacks when there are no nuts', () => {
+    const meals = generateMeals(fallbackFoodGroups, {
+      days: 1,
+      mealSlots: ['snack'],
+      seed: 1,
+    });
+
+    expect(meals[0].ingredients.map(i => i.category)).toEqual([
+      'fruits',
+      'vegetables',
+    ]);
+  });
+
+  it('keeps animal proteins out of vegetarian plans', () => {
+    const meals = generateMeals([...fallbackFoodGroups, ...proteins], {
+      days: 2,
+      mealSlots: ['dinner'],
+      seed: 3,
+      dietaryRestrictions: ['Vegetarian'],
+    });
+    const names = meals.flatMap(meal => meal.ingredients.map(i => i.name));
+
+    expect(names).toContain('Lentils');
+    expect(names).not.toContain('Chicken Breast');
+  });
+});
+
+describe('parseMealsResponse', () => {
+  it('reports missing day and slot combinations', () => {
+    const meals = generateMeals(fallbackFoodGroups, { ...options, seed: 7 });
+    const result = parseMealsResponse(
+      JSON.stringify({ meals: meals.filter(meal => meal.day !== 2) }),
+      options
+    );
+
+    expect(result).toEqual({
+      success: false,
+      error: expect.stringContaining('day 2 breakfast'),
+    });
+  });
+});
+
+describe('meal regeneration', () => {
+  const current = generateMeals(fallbackFoodGroups, { ...options, seed: 7 });
+  const regeneration: MealRegeneration = {
+    current,
+    targets: [
+      { day: 2, type: 'dinner' },
+      { day: 3, type: 'breakfast' },
+    ],
+  };
+  const ingredientNames = (meal: (typeof current)[number]) =>
+    meal.ingredients.map(ingredient => ingredient.name);
+
+  it('replaces only the targeted meals with different ingredients', () => {
+    const fresh = regenerateMeals(fallbackFoodGroups, regeneration, {
+      ...options,
+      seed: 8,
+    });
+
+    expect(fresh.map(meal => `${meal.day}:${meal.type}`)).toEqual([
+      '2:dinner',
+      '3:breakfast',
+    ]);
+    fresh.forEach(meal => {
+      const replaced = current.find(
+        entry => entry.day === meal.day && entry.type === meal.type
+      );
+      expect(ingredientNames(meal)).not.toEqual(
+        replaced && ingredientNames(replaced)
+      );
+    });
+  });
+
+  it('merges new meals into the current plan', () => {
+    const fresh = regenerateMeals(fallbackFoodGroups, regeneration, {
+      ...options,
+      seed: 8,
+    });
+    const merged = applyMealRegeneration(regeneration, fresh);
+
+    expect(merged).toHaveLength(current.length);
+    expect(merged?.[0]).toBe(current[0]);
+    expect(merged?.find(m => m.day === 2 && m.type === 'dinner')).toEqual(
+      fresh[0]
+    );
+    expect(applyMealRegeneration(regeneration, fresh.slice(1))).toBeNull();
+  });
+
+  it('expects only the targeted meals from a model', () => {
+    const fresh = regenerateMeals(fallbackFoodGroups, regeneration, {
+      ...options,
+      seed: 8,
+    });
+
+    expect(
+      parseMealsResponse(
+        JSON.stringify({ meals: fresh }),
+        options,
+        regeneration.targets
+      ).success
+    ).toBe(true);
+    expect(
+      parseMealsResponse(
+        JSON.stringify({ meals: fresh.slice(1) }),
+        options,
+        regeneration.targets
+      )
+    ).toEqual({ success: false, error: 'Missing meals: day 2 dinner' });
+  });
+
+  it('validates plan-mode regeneration requests', () => {
+    const request = {
+      fruits: [],
+      vegetables: [],
+      grains: [],
+      plan: options,
+      regenerateMeals: regeneration,
+    };
+
+    expect(MealPlanRegenerationRequestSchema.safeParse(request).success).toBe(
+      true
+    );
+    // A meal plan cannot be regenerated as combinations, or the other way
+    expect(
+      MealPlanRegenerationRequestSchema.safeParse({
+        ...request,
+        plan: undefined,
+      }).success
+    ).toBe(false);
+    expect(
+      MealPlanRegenerationRequestSchema.safeParse({
+        ...request,
+        plan: { days: 1, mealSlots: ['dinner'] },
+      }).success
+    ).toBe(false);
+    expect(
+      MealPlanRegenerationRequestSchema.safeParse({
+        ...request,
+        regenerateMeals: {
+          current,
+          targets: [{ day: 4, type: 'dinner' }],
+        },
+      }).success
+    ).toBe(false);
+  });
+});
+
+describe('buildMealPlan', () => {
+  it('computes per-meal nutrition and an average-day summary', () => {
+    const meals = generateMeals(fallbackFoodGroups, { ...options, seed: 7 });
+    const plan = buildMealPlan(meals, options, fallbackFoodGroups, {
+      provider: 'rule-based',
+      seed: 7,
+    });
+
+    expect(plan.meals.every(meal => meal.nutritionFacts.calories > 0)).toBe(
+      true
+    );
+    const totalCalories = plan.meals.reduce(
+      (sum, meal) => sum + meal.nutritionFacts.calories,
+      0
+    );
+    expect(plan.nutritionSummary.totalCalories).toBe(Math.round(totalCalories));
+    expect(plan.nutritionSummary.dailyValues.micronutrients).toBeDefined();
+    expect(plan).toMatchObject({
+      id: '',
+      days: 3,
+      provider: 'rule-based',
+      seed: 7,
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { food } from '@/__tests__/utils/foods';
+import type { PantryItem } from '../database';
+import {
+  combinationPantryUsage,
+  describePantry,
+  offPantryIngredients,
+  PantryStock,
+  toPantryStock,
+} from '../pantry';
+import { PantryItemUpdateSchema } from '../validation/schemas';
+
+const foods = [
+  food('Spinach', 'vegetables'),
+  food('Blueberries', 'fruits'),
+  food('Brown Rice', 'grains', { id: 'brown-rice' }),
+];
+
+const item = (name: string, expiresOn?: string): PantryItem => ({
+  id: name,
+  userId: 'user-1',
+  name,
+  quantity: '',
+  expiresOn,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+});
+
+const stock: PantryStock = {
+  mode: 'only',
+  items: [{ name: 'Spinach', daysLeft: 1 }, { name: 'Blueberries' }],
+};
+
+describe('toPantryStock', () => {
+  it('drops expired items and orders the rest by expiry', () => {
+    const result = toPantryStock(
+      [
+        item('Oats'),
+        item('Milk', '2026-03-09'),
+        item('Spinach', '2026-03-12'),
+        item('Kiwi', '2026-03-10'),
+      ],
+      'expiring-first',
+      new Date(2026, 2, 10, 18)
+    );
+
+    expect(result).toEqual({
+      mode: 'expiring-first',
+      items: [
+        { name: 'Kiwi', daysLeft: 0 },
+        { name: 'Spinach', daysLeft: 2 },
+        { name: 'Oats', daysLeft: undefined },
+      ],
+    });
+  });
+
+  it('describes the pantry for the prompt', () => {
+    expect(describePantry(stock)).toContain(
+      'Use ONLY these ingredients and no others: Spinach (expires in 1 day), Blueberries.'
+    );
+    expect(describePantry({ ...stock, mode: 'expiring-first' })).toContain(
+      'Use them first'
+    );
+    expect(describePantry()).toBe('');
+  });
+});
+
+describe('offPantryIngredients', () => {
+  it('allows pantry foods under other names and kitchen staples', () => {
+    expect(
+      offPantryIngredients(
+        [
+          { name: 'baby spinach' },
+          { name: 'blueberry' },
+          { name: 'Olive oil' },
+          { name: 'Fresh basil', category: 'herbs' },
+          { name: 'Brown rice' },
+          { name: 'Tofu', category: 'proteins' },
+        ],
+        stock,
+        foods
+      )
+    ).toEqual(['Brown rice', 'Tofu']);
+  });
+});
+
+describe('combinationPantryUsage', () => {
+  it('reports the pantry items each day uses', () => {
+    const usage = combinationPantryUsage(
+      [
+        {
+          day: 'Monday',
+          name: 'Green Bowl',
+          fruits: [{ name: 'Blueberries', quantity: '1 cup' }],
+          vegetables: [
+            { name: 'Baby spinach', quantity: '2 cups' },
+            { name: 'Spinach', quantity: '1 cup' },
+          ],
+          grains: [{ name: 'Brown Rice', quantity: '1/2 cup' }],
+          benefits: '',
+          preparation: '',
+        },
+        {
+          day: 'Tuesday',
+          name: 'Rice Plate',
+          fruits: [],
+          vegetables: [],
+          grains: [{ name: 'Brown Rice', quantity: '1/2 cup' }],
+          benefits: '',
+          preparation: '',
+        },
+      ],
+      stock,
+      foods
+    );
+
+    expect(usage).toEqual([
+      { slot: 'Monday', items: ['Blueberries', 'Spinach'] },
+      { slot: 'Tuesday', items: [] },
+    ]);
+  });
+});
+
+describe('PantryItemUpdateSchema', () => {
+  it('clears only the optional fields', () => {
+    expect(
+      PantryItemUpdateSchema.parse({ expiresOn: null, foodGroupId: null })
+    ).toEqual({ expiresOn: null, foodGroupId: null });
+    expect(PantryItemUpdateSchema.safeParse({ name: null }).success).toBe(
+      false
+    );
+    expect(PantryItemUpdateSchema.safeParse({ quantity: null }).success).toBe(
+      false
+    );
+  });
+
+  it('rejects fields a user may not change', () => {
+    expect(PantryItemUpdateSchema.safeParse({ userId: null }).success).toBe(
+      false
+    );
+    expect(
+      PantryItemUpdateSchema.safeParse({ createdAt: '2026-01-01' }).success
+    ).toBe(false);
+  });
+});
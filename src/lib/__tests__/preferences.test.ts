@@ -0,0 +1,135 @@
+import type { Combination } from '../combinations';
+import type { GeneratedMeal } from '../mealPlans';
+import {
+  applyProfileToCombinations,
+  applyProfileToMeals,
+  describeProfile,
+  mergePreferences,
+  scaleQuantity,
+} from '../preferences';
+
+const week: Combination[] = [
+  {
+    day: 'Monday',
+    name: 'Barley Apple Bowl',
+    fruits: [
+      { name: 'Apple', quantity: '1 medium' },
+      { name: 'Kiwi', quantity: '1/2 cup' },
+    ],
+    vegetables: [{ name: 'Spinach', quantity: '2 cups' }],
+    grains: [{ name: 'Barley', quantity: '80g' }],
+    benefits: 'Fiber for steady energy',
+    preparation: 'Cook the barley, then toss with spinach and fruit',
+  },
+];
+
+const meal: GeneratedMeal = {
+  day: 1,
+  type: 'dinner',
+  name: 'Rice Plate',
+  ingredients: [
+    { name: 'Brown Rice', amount: '1/2', unit: 'cup', category: 'grains' },
+    { name: 'Tofu', amount: '100', unit: 'g', category: 'proteins' },
+    { name: 'Spinach', amount: '1', unit: 'cup', category: 'vegetables' },
+  ],
+  instructions: [
+    'Cook the rice.',
+    'Sear the tofu.',
+    'Wilt the spinach.',
+    'Season to taste.',
+    'Plate everything.',
+  ],
+  preparationTime: '10 minutes',
+  cookingTime: '20 minutes',
+};
+
+describe('mergePreferences', () => {
+  it('lets the request profile win and unions restrictions', () => {
+    const merged = mergePreferences(
+      {
+        fruits: [],
+        vegetables: [],
+        grains: [],
+        dietaryRestrictions: ['Vegan'],
+        profile: { servingSize: 'small' },
+      },
+      {
+        dietaryRestrictions: ['vegan', 'Gluten-Free', 'Unknown'],
+        allergies: ['peanuts'],
+        servingSize: 'large',
+        cookingSkill: 'beginner',
+      }
+    );
+
+    expect(merged.dietaryRestrictions).toEqual(['Vegan', 'Gluten-Free']);
+    expect(merged.allergies).toEqual(['peanuts']);
+    expect(merged.profile).toEqual({
+      servingSize: 'small',
+      cookingSkill: 'beginner',
+    });
+  });
+
+  it('ignores invalid stored fields', () => {
+    const merged = mergePreferences(
+      { fruits: [], vegetables: [], grains: [] },
+      { mealPrepTime: 'forever' as 'quick', spiceTolerance: 'hot' }
+    );
+
+    expect(merged.profile).toEqual({ spiceTolerance: 'hot' });
+  });
+});
+
+describe('scaleQuantity', () => {
+  it('scales fractions, mixed numbers and metric amounts', () => {
+    expect(scaleQuantity('1/2 cup', 1.5)).toBe('3/4 cup');
+    expect(scaleQuantity('1 1/2 cups', 1.5)).toBe('2 1/4 cups');
+    expect(scaleQuantity('80g', 0.75)).toBe('60g');
+    expect(scaleQuantity('a handful', 1.5)).toBe('a handful');
+  });
+});
+
+describe('applyProfileToCombinations', () => {
+  it('keeps one item per category for quick plans and scales quantities', () => {
+    const [combination] = applyProfileToCombinations(week, {
+      mealPrepTime: 'quick',
+      servingSize: 'large',
+    });
+
+    expect(combination.fruits).toEqual([
+      { name: 'Apple', quantity: '1 1/2 medium' },
+    ]);
+    expect(combination.grains).toEqual([{ name: 'Barley', quantity: '120g' }]);
+  });
+
+  it('leaves the week unchanged without a profile', () => {
+    expect(applyProfileToCombinations(week)).toEqual(week);
+  });
+});
+
+describe('applyProfileToMeals', () => {
+  it('caps steps by folding the rest into the last one', () => {
+    const [limited] = applyProfileToMeals([meal], { mealPrepTime: 'quick' });
+
+    expect(limited.instructions).toEqual([
+      'Cook the rice.',
+      'Sear the tofu.',
+      'Wilt the spinach.',
+      'Season to taste, then plate everything.',
+    ]);
+  });
+
+  it('scales ingredient amounts', () => {
+    const [scaled] = applyProfileToMeals([meal], { servingSize: 'small' });
+
+    expect(scaled.ingredients.map(i => i.amount)).toEqual(['1/2', '75', '3/4']);
+  });
+});
+
+describe('describeProfile', () => {
+  it('describes only the fields that are set', () => {
+    expect(describeProfile({})).toBe('');
+    expect(describeProfile({ spiceTolerance: 'mild' })).toBe(
+      '\n\nCooking profile:\n- Keep seasoning mild and avoid hot chilies.'
+    );
+  });
+});
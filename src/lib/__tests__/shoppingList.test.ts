@@ -0,0 +1,154 @@
+import { food } from '@/__tests__/utils/foods';
+import type { Meal } from '../mealPlans';
+import {
+  buildShoppingList,
+  combinationIngredients,
+  exportShoppingList,
+  planIngredients,
+  shoppingListKeys,
+} from '../shoppingList';
+
+const foods = [
+  food('Spinach', 'vegetables', { subcategory: 'leafy greens' }),
+  food('Blueberries', 'fruits', { subcategory: 'berries' }),
+  food('Quinoa', 'grains'),
+];
+
+const meal = (ingredients: Meal['ingredients']) => ({ ingredients }) as Meal;
+
+const list = (
+  ingredients: ReturnType<typeof planIngredients>,
+  checked?: string[]
+) =>
+  buildShoppingList(ingredients, foods, {
+    key: 'plan:1',
+    title: 'Plan',
+    checked,
+  });
+
+describe('buildShoppingList', () => {
+  it('merges the same food across days and sums compatible units', () => {
+    const result = list(
+      planIngredients({
+        meals: [
+          meal([
+            {
+              name: 'baby spinach',
+              amount: '100',
+              unit: 'g',
+              category: 'vegetables',
+            },
+            {
+              name: 'Blueberries',
+              amount: '1',
+              unit: 'cup',
+              category: 'fruits',
+            },
+          ]),
+          meal([
+            {
+              name: 'Spinach',
+              amount: '0.5',
+              unit: 'kg',
+              category: 'vegetables',
+            },
+            {
+              name: 'blueberries',
+              amount: '4',
+              unit: 'tbsp',
+              category: 'fruits',
+            },
+            {
+              name: 'spinach',
+              amount: '2',
+              unit: 'handfuls',
+              category: 'vegetables',
+            },
+          ]),
+        ],
+      })
+    );
+
+    expect(result.itemCount).toBe(2);
+    const [fruits, vegetables] = result.sections;
+    expect(fruits.items[0]).toMatchObject({
+      name: 'Blueberries',
+      quantities: ['1.25 cups'],
+      occurrences: 2,
+    });
+    // Grams and handfuls do not add up, so both are listed
+    expect(vegetables.items[0].quantities).toEqual(['600 g', '2 handfuls']);
+  });
+
+  it('groups by category and subcategory, keeping unknown foods', () => {
+    const result = list(
+      combinationIngredients([
+        {
+          fruits: [{ name: 'Blueberries', quantity: '1 cup' }],
+          vegetables: [{ name: 'Spinach', quantity: 'to taste' }],
+          grains: [{ name: 'Teff', quantity: '2 oz' }],
+        },
+      ])
+    );
+
+    expect(
+      result.sections.map(section => [section.category, section.subcategory])
+    ).toEqual([
+      ['fruits', 'berries'],
+      ['vegetables', 'leafy greens'],
+      ['grains', undefined],
+    ]);
+    expect(result.sections[1].items[0].notes).toEqual(['to taste']);
+    expect(result.sections[2].items[0]).toMatchObject({
+      key: 'name:teff',
+      quantities: ['2 oz'],
+    });
+  });
+
+  it('marks checked items and keeps combination keys order-independent', () => {
+    const result = list(
+      [{ name: 'Quinoa', quantity: '1 cup' }],
+      ['food:quinoa']
+    );
+
+    expect(result.checkedCount).toBe(1);
+    expect(result.sections[0].items[0].checked).toBe(true);
+    expect(shoppingListKeys.combinations(['b', 'a'])).toBe(
+      shoppingListKeys.combinations(['a', 'b'])
+    );
+  });
+});
+
+describe('exportShoppingList', () => {
+  const result = list(
+    [
+      { name: 'Spinach', quantity: '200g' },
+      { name: 'Rice, "red"', quantity: '1 cup' },
+    ],
+    ['food:spinach']
+  );
+
+  it('writes a checklist as text', () => {
+    const text = exportShoppingList(result, 'text');
+    expect(text).toContain('VEGETABLES · LEAFY GREENS');
+    expect(text).toContain('[x] Spinach — 200 g');
+  });
+
+  it('quotes CSV fields that need it', () => {
+    const csv = exportShoppingList(result, 'csv');
+    expect(csv.split('\r\n')[0]).toBe(
+      'Category,Subcategory,Item,Quantity,Notes,Checked'
+    );
+    expect(csv).toContain('vegetables,leafy greens,Spinach,200 g,,yes');
+    expect(csv).toContain('other,,"Rice, ""red""",1 cup,,no');
+  });
+
+  it('escapes names in printable HTML', () => {
+    const html = exportShoppingList(
+      list([{ name: '<b>Kelp</b>', quantity: '1' }]),
+      'html'
+    );
+    expect(html).toContain('&lt;b&gt;Kelp&lt;/b&gt;');
+    expect(html).not.toContain('<b>Kelp');
+  });
+});
@@ -0,0 +1,220 @@
+import { Timestamp } from 'firebase/firestore';
+import type { FoodGroup } from '../database';
+import { planFoodImport } from '../foodImport';
+import {
+  fdcCategory,
+  FdcFood,
+  mapFdcFoods,
+  parseFdcCsv,
+  parseFdcJson,
+  toCatalogFood,
+} from '../usdaImport';
+
+const kiwiJson = JSON.stringify({
+  SRLegacyFoods: [
+    {
+      fdcId: 168153,
+      description: 'Kiwifruit, green, raw',
+      foodCategory: { description: 'Fruits and Fruit Juices' },
+      foodNutrients: [
+        { nutrient: { id: 1008, name: 'Energy' }, amount: 61 },
+        { nutrient: { id: 1003, name: 'Protein' }, amount: 1.14 },
+        { nutrient: { id: 1162, name: 'Vitamin C' }, amount: 92.7 },
+        { nutrient: { id: 1079, name: 'Fiber' }, amount: 3 },
+        { nutrient: { id: 1092, name: 'Potassium' }, amount: 312 },
+        { nutrient: { id: 1093, name: 'Sodium' } },
+      ],
+      foodPortions: [
+        {
+          amount: 1,
+          modifier: 'fruit (2" dia)',
+          measureUnit: { name: 'undetermined' },
+          gramWeight: 69,
+        },
+        { amount: 1, modifier: 'cup, sliced', gramWeight: 180 },
+        { amount: 1, modifier: 'broken', gramWeight: 0 },
+      ],
+    },
+    { fdcId: 0, description: 'No ID' },
+  ],
+});
+
+describe('parseFdcJson', () => {
+  it('reads nutrients by ID and portions with gram weights', () => {
+    const [kiwi, ...rest] = parseFdcJson(kiwiJson);
+
+    expect(rest).toEqual([]);
+    expect(kiwi).toMatchObject({
+      row: 1,
+      fdcId: 168153,
+      description: 'Kiwifruit, green, raw',
+      category: 'Fruits and Fruit Juices',
+      portions: [
+        { description: '1 fruit (2" dia)', grams: 69 },
+        { description: '1 cup, sliced', grams: 180 },
+      ],
+    });
+    expect(kiwi.nutrients.get(1162)).toBe(92.7);
+    expect(kiwi.nutrients.has(1093)).toBe(false);
+  });
+
+  it('rejects files without a list of foods', () => {
+    expect(() => parseFdcJson('{"version": 1}')).toThrow('No foods found');
+  });
+});
+
+describe('parseFdcCsv', () => {
+  it('joins the download files on fdc_id', () => {
+    const [carrot] = parseFdcCsv({
+      food:
+        'fdc_id,data_type,description,food_category_id\n' +
+        '170393,sr_legacy_food,"Carrots, raw",11\n',
+      foodNutrient:
+        'id,fdc_id,nutrient_id,amount\n' +
+        '1,170393,1106,835\n' +
+        '2,170393,1008,41\n' +
+        '3,999999,1008,10\n',
+      foodCategory:
+        'id,code,description\n11,1100,Vegetables and Vegetable Products\n',
+      foodPortion:
+        'id,fdc_id,seq_num,amount,measure_unit_id,portion_description,modifier,gram_weight\n' +
+        '2,170393,2,1,1000,,chopped,128\n' +
+        '1,170393,1,1,9999,,"medium",61\n',
+      measureUnit: 'id,name\n1000,cup\n9999,undetermined\n',
+    });
+
+    expect(carrot).toMatchObject({
+      row: 2,
+      fdcId: 170393,
+      description: 'Carrots, raw',
+      category: 'Vegetables and Vegetable Products',
+      portions: [
+        { description: '1 medium', grams: 61 },
+        { description: '1 cup chopped', grams: 128 },
+      ],
+    });
+    expect(Array.from(carrot.nutrients)).toEqual([
+      [1106, 835],
+      [1008, 41],
+    ]);
+  });
+});
+
+describe('fdcCategory', () => {
+  it('maps FDC categories and skips those the catalog does not carry', () => {
+    expect(fdcCategory('Legumes and Legume Products', 'Lentils')).toBe(
+      'proteins'
+    );
+    expect(fdcCategory('Spices and Herbs', 'Spices, basil, dried')).toBe(
+      'herbs'
+    );
+    expect(fdcCategory('Spices and Herbs', 'Spices, cumin seed')).toBe(
+      'spices'
+    );
+    expect(fdcCategory('Dairy and Egg Products', 'Egg, whole, raw')).toBe(
+      'proteins'
+    );
+    expect(fdcCategory('Baked Products', 'Bagels, plain')).toBeUndefined();
+    expect(fdcCategory(undefined, 'Water')).toBeUndefined();
+  });
+});
+
+describe('toCatalogFood', () => {
+  it('lists high-source nutrients with their benefits and keeps provenance', () => {
+    const [kiwi] = parseFdcJson(kiwiJson);
+
+    expect(toCatalogFood(kiwi, 'fruits')).toMatchObject({
+      name: 'Kiwifruit, green, raw',
+      category: 'fruits',
+      subcategory: 'Fruits and Fruit Juices',
+      nutrients: ['Vitamin C'],
+      benefits: ['Immune support'],
+      caloriesPer100g: 61,
+      proteinPer100g: 1.14,
+      fiberPer100g: 3,
+      micronutrients: { vitaminC: 92.7, potassium: 312 },
+      fdcId: 168153,
+    });
+  });
+
+  it('lists the best nutrient of a food that is a high source of none', () => {
+    const food: FdcFood = {
+      row: 1,
+      fdcId: 1,
+      description: 'Cucumber',
+      nutrients: new Map([
+        [1092, 147],
+        [1079, 0.5],
+      ]),
+      portions: [],
+    };
+
+    expect(toCatalogFood(food, 'vegetables')).toMatchObject({
+      nutrients: ['Potassium'],
+      benefits: ['Heart health'],
+    });
+  });
+});
+
+describe('mapFdcFoods', () => {
+  it('validates mapped foods and counts skipped categories', () => {
+    const foods: FdcFood[] = [
+      ...parseFdcJson(kiwiJson),
+      {
+        row: 2,
+        fdcId: 2,
+        description: 'Bagels, plain',
+        category: 'Baked Products',
+        nutrients: new Map([[1008, 250]]),
+        portions: [],
+      },
+      {
+        row: 3,
+        fdcId: 3,
+        description: 'Peaches, raw',
+        category: 'Fruits and Fruit Juices',
+        nutrients: new Map(),
+        portions: [],
+      },
+    ];
+
+    const result = mapFdcFoods(foods);
+
+    expect(result.skipped).toBe(1);
+    expect(result.rowCount).toBe(3);
+    expect(result.foods.map(({ food }) => food.name)).toEqual([
+      'Kiwifruit, green, raw',
+    ]);
+    expect(result.errors).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ row: 3, column: 'nutrients' }),
+      ])
+    );
+  });
+
+  it('updates foods a previous release created, matched by FDC ID', () => {
+    const existing: FoodGroup = {
+      id: 'kiwi',
+      name: 'Kiwi',
+      category: 'fruits',
+      nutrients: ['Vitamin C'],
+      benefits: ['Immune support'],
+      fdcId: 168153,
+      isActive: true,
+      createdAt: Timestamp.fromDate(new Date('2026-01-01T00:00:00.000Z')),
+      updatedAt: Timestamp.fromDate(new Date('2026-01-01T00:00:00.000Z')),
+    };
+
+    const { changes } = planFoodImport(mapFdcFoods(parseFdcJson(kiwiJson)), [
+      existing,
+    ]);
+
+    expect(changes).toEqual([
+      expect.objectContaining({
+        action: 'update',
+        id: 'kiwi',
+        fields: expect.arrayContaining(['name', 'micronutrients', 'portions']),
+      }),
+    ]);
+  });
+});
@@ -1,12 +1,62 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { AI_CONSTANTS } from './constants';
 import { foodGroupOperations } from './database';
-
-// Initialize Google Generative AI with proper environment variable access
-// Make sure to use NEXT_PUBLIC_ prefix for client-side environment variables
-const apiKey =
-  process.env.NEXT_PUBLIC_AI_API_KEY || process.env.AI_API_KEY || '';
-const genAI = new GoogleGenerativeAI(apiKey);
+import { fallbackFoodGroups } from './fallbackData';
+import {
+  applyRegeneration,
+  Combination,
+  CombinationIngredient,
+  CombinationWithNutrition,
+  formatIngredients,
+  isRegenerated,
+  keptIngredients,
+  PLATE_CATEGORIES,
+  Regeneration,
+  WEEKDAYS,
+} from './combinations';
+import {
+  CatalogFood,
+  generateCombinations,
+  generateMeals,
+  getSeason,
+  randomSeed,
+  regenerateCombinations,
+  regenerateMeals,
+  Season,
+} from './combinationGenerator';
+import {
+  DietViolation,
+  enforceCombinationDiet,
+  enforceMealDiet,
+} from './dietary';
+import { describeGoal, GoalTargets } from './goals';
+import {
+  applyMealRegeneration,
+  buildMealPlan,
+  GeneratedMeal,
+  MealPlan,
+  MealPlanOptions,
+  MealRegeneration,
+} from './mealPlans';
+import {
+  combinationPantryUsage,
+  describePantry,
+  mealPantryUsage,
+  offPantryIngredients,
+  PantryMode,
+  PantryStock,
+  PantryUsage,
+} from './pantry';
+import {
+  applyProfileToCombinations,
+  applyProfileToMeals,
+  CookingProfile,
+  describeProfile,
+} from './preferences';
+import {
+  calculateCombinationNutrition,
+  calculateWeeklyCoverage,
+  DailyValueCoverage,
+} from './nutrition';
+import { createProviders } from './providers';
 
 export interface MealPlanRequest {
   fruits: string[];
@@ -15,29 +65,333 @@ export interface MealPlanRequest {
   userPrompt?: string;
   preferences?: string;
   dietaryRestrictions?: string[];
+  allergies?: string[];
+  dietaryEnforcement?: 'repair' | 'reject';
+  profile?: CookingProfile; // stored preferences merged with any overrides
+  optimizeForGoal?: boolean;
+  goal?: GoalTargets; // the active goal, resolved by the route
+  pantryMode?: PantryMode;
+  pantry?: PantryStock; // the user's pantry, resolved by the route
+  seed?: number;
+  plan?: MealPlanOptions; // generate a multi-day plan instead of combinations
+  regenerate?: Regeneration; // replace only part of an existing week
+  regenerateMeals?: MealRegeneration; // replace single meals of a plan
 }
 
 export interface MealPlanResponse {
   success: boolean;
-  mealPlan?: string;
+  combinations?: CombinationWithNutrition[];
+  mealPlan?: MealPlan; // set instead of combinations when a plan was requested
+  provider?: string; // name of the provider that produced the plan
+  seed?: number; // pass back to reproduce a rule-based plan
+  coverage?: DailyValueCoverage; // average-day %DV across the whole week
+  violations?: DietViolation[]; // restriction and allergy breaches found
+  pantryUsage?: PantryUsage[]; // pantry items each combination or meal uses
   error?: string;
 }
 
+function withNutrition(
+  combinations: Combination[],
+  foods: CatalogFood[]
+): CombinationWithNutrition[] {
+  return combinations.map(combination => ({
+    ...combination,
+    nutrition: calculateCombinationNutrition(combination, foods),
+  }));
+}
+
+function weeklyCoverage(
+  combinations: CombinationWithNutrition[]
+): DailyValueCoverage {
+  return calculateWeeklyCoverage(
+    combinations.flatMap(combination =>
+      combination.nutrition ? [combination.nutrition] : []
+    )
+  );
+}
+
+/**
+ * The ingredients a provider chose, leaving out whatever a regeneration keeps
+ * from the current week
+ */
+function chosenIngredients(
+  combinations: Combination[],
+  regenerate?: Regeneration
+): CombinationIngredient[] {
+  return combinations.flatMap(combination => {
+    const current = regenerate?.current.find(
+      entry => entry.day === combination.day
+    );
+    return PLATE_CATEGORIES.flatMap(category => {
+      if (!regenerate || !current) return combination[category];
+
+      const kept = keptIngredients(regenerate, current, category);
+      return combination[category].filter(
+        ingredient => !kept.some(k => k.name === ingredient.name)
+      );
+    });
+  });
+}
+
+function mealPlanInstructions(
+  plan: MealPlanOptions,
+  regeneration?: MealRegeneration
+): string {
+  const slots = plan.mealSlots.join(', ');
+  const count = regeneration
+    ? regeneration.targets.length
+    : plan.days * plan.mealSlots.length;
+  const scope = regeneration
+    ? 'one for each meal listed under REGENERATION, with the same "day" and "type"'
+    : `one ${slots} for each of ${plan.days} day(s), numbered 1 to ${plan.days}`;
+  const coverage = regeneration
+    ? 'Return only the meals listed under REGENERATION'
+    : `Every day from 1 to ${plan.days} needs exactly one meal for every type listed`;
+
+  return `
+      IMPORTANT: You must generate exactly ${count} meals: ${scope}.
+
+      FORMAT: Each meal lists its ingredients with an amount, a unit and a food category, plus short step-by-step instructions.
+
+      IMPORTANT: Use the actual ingredients from the database that were listed above. Don't make up ingredients that weren't provided.
+
+      REQUIRED OUTPUT FORMAT:
+      Respond with JSON only - no markdown fences, no commentary - matching exactly this shape:
+      {
+        "meals": [
+          {
+            "day": 1,
+            "type": "${plan.mealSlots[0]}",
+            "name": "appealing meal name",
+            "ingredients": [
+              { "name": "Quinoa", "amount": "1/2", "unit": "cup", "category": "grains" }
+            ],
+            "instructions": ["Cook the quinoa", "Top with spinach"],
+            "preparationTime": "10 minutes",
+            "cookingTime": "15 minutes"
+          }
+        ]
+      }
+
+      CRITICAL RULES:
+      - "type" must be one of: ${slots}
+      - ${coverage}
+      - Every ingredient needs a numeric "amount" and a "unit" such as "cup", "g", "tbsp" or "medium"
+      - Use between 1 and 12 ingredients and between 1 and 12 instructions per meal
+      - Vary ingredients across the plan and tailor meals to the user's nutrition goal`;
+}
+
+function regenerationInstructions(regeneration: Regeneration): string {
+  const current = regeneration.current
+    .map(
+      combination =>
+        `      ${combination.day}: ${PLATE_CATEGORIES.map(
+          category => `${category}: ${formatIngredients(combination[category])}`
+        ).join('; ')}`
+    )
+    .join('\n');
+
+  const targets = regeneration.targets
+    .map(target => {
+      const combination = regeneration.current.find(
+        entry => entry.day === target.day
+      );
+      if (!combination) return '';
+
+      const replaced = PLATE_CATEGORIES.filter(category =>
+        isRegenerated(regeneration, target.day, category)
+      );
+      const kept = PLATE_CATEGORIES.flatMap(category =>
+        keptIngredients(regeneration, combination, category)
+      );
+      return `      - ${target.day}: choose new ${replaced.join(', ')}${
+        kept.length ? `; keep exactly ${formatIngredients(kept)}` : ''
+      }`;
+    })
+    .join('\n');
+
+  const avoid = Array.from(
+    new Set(
+      regeneration.current.flatMap(combination =>
+        PLATE_CATEGORIES.flatMap(category =>
+          combination[category].map(ingredient => ingredient.name)
+        )
+      )
+    )
+  );
+
+  return `
+
+      REGENERATION: The user already has this plan and wants to replace part of it:
+${current}
+
+      Only return combinations for these days, keeping the listed ingredients unchanged:
+${targets}
+
+      Do not repeat any ingredient already in the plan unless it is listed as kept: ${avoid.join(', ')}`;
+}
+
+function mealRegenerationInstructions(regeneration: MealRegeneration): string {
+  const describe = (meal: GeneratedMeal) =>
+    `day ${meal.day} ${meal.type}: ${meal.name} (${meal.ingredients
+      .map(ingredient => ingredient.name)
+      .join(', ')})`;
+  const current = regeneration.current
+    .map(meal => `      ${describe(meal)}`)
+    .join('\n');
+  const targets = regeneration.targets
+    .map(target => `      - day ${target.day} ${target.type}`)
+    .join('\n');
+
+  return `
+
+      REGENERATION: The user already has this plan and wants to replace some of its meals:
+${current}
+
+      Only return new meals for these slots, each different from the meal it replaces:
+${targets}
+
+      Avoid repeating ingredients the rest of the plan already uses where possible.`;
+}
+
+/**
+ * Generate a multi-day plan through the provider chain, falling back to the
+ * rule-based generator on the same catalog the providers saw
+ */
+async function generatePlannedMeals(
+  request: MealPlanRequest,
+  plan: MealPlanOptions,
+  context: {
+    prompt: string;
+    foodGroups: CatalogFood[];
+    seed: number;
+    season: Season;
+  }
+): Promise<MealPlanResponse> {
+  const { foodGroups, seed, season } = context;
+  const regeneration = request.regenerateMeals;
+  const violations: DietViolation[] = [];
+
+  for (const provider of createProviders()) {
+    try {
+      const generated = await provider.generateMeals({
+        ...context,
+        request,
+        plan,
+      });
+      const checked = enforceMealDiet(
+        generated,
+        foodGroups,
+        request,
+        request.dietaryEnforcement
+      );
+      violations.push(...checked.violations);
+      if (!checked.valid) {
+        throw new Error('Plan breaks the dietary restrictions or allergies');
+      }
+
+      const { pantry } = request;
+      if (pantry?.mode === 'only') {
+        const offPantry = offPantryIngredients(
+          checked.items.flatMap(meal => meal.ingredients),
+          pantry,
+          foodGroups
+        );
+        if (offPantry.length) {
+          throw new Error(
+            `Plan uses ingredients outside the pantry: ${offPantry.join(', ')}`
+          );
+        }
+      }
+
+      // Scale before merging so kept meals are not scaled twice
+      const fresh = applyProfileToMeals(checked.items, request.profile);
+      const meals = regeneration
+        ? applyMealRegeneration(regeneration, fresh)
+        : fresh;
+      if (!meals) {
+        throw new Error('Response did not cover every regenerated meal');
+      }
+
+      return {
+        success: true,
+        mealPlan: buildMealPlan(meals, plan, foodGroups, {
+          provider: provider.name,
+          seed,
+        }),
+        provider: provider.name,
+        seed,
+        violations,
+        pantryUsage: pantry && mealPantryUsage(meals, pantry, foodGroups),
+      };
+    } catch (error) {
+      console.warn(
+        `Meal plan provider ${provider.name} failed:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  console.log('Using fallback meal generation');
+
+  const fallbackOptions = {
+    ...plan,
+    seed,
+    season,
+    dietaryRestrictions: request.dietaryRestrictions,
+    allergies: request.allergies,
+    cookingSkill: request.profile?.cookingSkill,
+    mealPrepTime: request.profile?.mealPrepTime,
+    goal: request.goal,
+    pantry: request.pantry,
+  };
+  const fresh = applyProfileToMeals(
+    regeneration
+      ? regenerateMeals(foodGroups, regeneration, fallbackOptions)
+      : generateMeals(foodGroups, fallbackOptions),
+    request.profile
+  );
+  const meals = regeneration
+    ? (applyMealRegeneration(regeneration, fresh) ?? regeneration.current)
+    : fresh;
+
+  return {
+    success: true,
+    mealPlan: buildMealPlan(meals, plan, foodGroups, {
+      provider: 'fallback',
+      seed,
+    }),
+    provider: 'fallback',
+    seed,
+    violations,
+    pantryUsage:
+      request.pantry && mealPantryUsage(meals, request.pantry, foodGroups),
+  };
+}
+
 export async function generateMealPlan(
   request: MealPlanRequest
 ): Promise<MealPlanResponse> {
   try {
-    // Check if we have an AI API key for advanced generation
-    const hasAIKey = !!apiKey;
-
-    if (!hasAIKey) {
-      console.log('No AI API key configured, using fallback meal generation');
+    if (request.pantry?.mode === 'only' && request.pantry.items.length === 0) {
+      return {
+        success: false,
+        error: 'Add items to your pantry before cooking only from it',
+      };
     }
 
-    // Get food suggestions directly from database to enhance AI creativity
+    const seed = request.seed ?? randomSeed();
+    const season = getSeason();
+
+    // Get food suggestions directly from database to enhance AI creativity.
+    // The bundled catalog keeps the local provider usable without Firestore.
+    let allFoodGroups: CatalogFood[] = fallbackFoodGroups;
     let foodSuggestions = '';
     try {
-      const allFoodGroups = await foodGroupOperations.getAll();
+      const databaseFoodGroups = await foodGroupOperations.getAll();
+      if (databaseFoodGroups.length > 0) {
+        allFoodGroups = databaseFoodGroups;
+      }
 
       // Categorize foods
       const fruits = allFoodGroups
@@ -87,8 +441,6 @@ Use this diversity to create unique, surprising combinations that showcase the f
       );
     }
 
-    // We'll try multiple models with timeouts instead of pre-testing
-
     // Build a comprehensive prompt based on user input
     // Add randomization to make each meal plan unique
     const randomElements = [
@@ -105,7 +457,8 @@ Use this diversity to create unique, surprising combinations that showcase the f
     const randomElement =
       randomElements[Math.floor(Math.random() * randomElements.length)];
 
-    let prompt = `Create a detailed, healthy meal plan for one week ${randomElement}`;
+    const span = request.plan ? `${request.plan.days} day(s)` : 'one week';
+    let prompt = `Create a detailed, healthy meal plan for ${span} ${randomElement}. It is currently ${season}, so favor produce that is in season.`;
 
     // Add food ingredients if provided
     if (
@@ -142,41 +495,62 @@ Use this diversity to create unique, surprising combinations that showcase the f
       prompt += `\n\nDietary restrictions: ${request.dietaryRestrictions.join(', ')}`;
     }
 
+    if (request.allergies?.length) {
+      prompt += `\n\nAllergies (never include these or foods containing them): ${request.allergies.join(', ')}`;
+    }
+
+    prompt += describeProfile(request.profile);
+    prompt += describeGoal(request.goal);
+    prompt += describePantry(request.pantry);
+
+    if (request.plan) {
+      return await generatePlannedMeals(request, request.plan, {
+        prompt:
+          prompt +
+          mealPlanInstructions(request.plan, request.regenerateMeals) +
+          (request.regenerateMeals
+            ? mealRegenerationInstructions(request.regenerateMeals)
+            : ''),
+        foodGroups: allFoodGroups,
+        seed,
+        season,
+      });
+    }
+
     // Complete the prompt with specific requirements
+    const { regenerate } = request;
+    const days = regenerate?.targets.map(target => target.day) ?? WEEKDAYS;
     prompt += `
-      IMPORTANT: You must generate exactly 7 individual fruit-vegetable-grain combinations, one for each day of the week.
+      IMPORTANT: You must generate exactly ${days.length} individual fruit-vegetable-grain combinations, one for each of these days (${days.join(', ')}).
 
-      FORMAT: Each combination must include 1-2 fruits + 1-2 vegetables + 1 grain.
+      FORMAT: Each combination must include 1-2 fruits + 1-2 vegetables + exactly 1 grain, each with a quantity.
 
       INGREDIENT SELECTION: You have access to a comprehensive database of over 1000 diverse foods. The specific available ingredients have been provided above.
       
       IMPORTANT: Use the actual ingredients from the database that were listed above. Don't make up ingredients that weren't provided.
       Create unique, surprising combinations that showcase the full diversity of available ingredients.
 
-      REQUIRED OUTPUT STRUCTURE (exactly like this):
-      COMBINATION 1 (Monday):
-      Name: [creative, catchy health-focused name that sounds appealing and memorable]
-      Fruits: [specific fruits with quantities]
-      Vegetables: [specific vegetables with quantities]
-      Grain: [specific grain with quantity]
-      Benefits: [brief nutrient synergy explanation]
-      Preparation: [simple prep method]
-
-      COMBINATION 2 (Tuesday):
-      Name: [creative, catchy health-focused name that sounds appealing and memorable]
-      Fruits: [specific fruits with quantities]
-      Vegetables: [specific vegetables with quantities]
-      Grain: [specific grain with quantity]
-      Benefits: [brief nutrient synergy explanation]
-      Preparation: [simple prep method]
-
-      [Continue for COMBINATION 3 (Wednesday) through COMBINATION 7 (Sunday)]
+      REQUIRED OUTPUT FORMAT:
+      Respond with JSON only - no markdown fences, no commentary - matching exactly this shape:
+      {
+        "combinations": [
+          {
+            "day": "Monday",
+            "name": "creative, catchy health-focused name",
+            "fruits": [{ "name": "Strawberries", "quantity": "1 cup" }],
+            "vegetables": [{ "name": "Spinach", "quantity": "2 cups" }],
+            "grains": [{ "name": "Quinoa", "quantity": "1/2 cup" }],
+            "benefits": "brief nutrient synergy explanation",
+            "preparation": "simple prep method"
+          }
+        ]
+      }
 
       CRITICAL RULES:
-      - Generate exactly 7 individual combinations
-      - Use "COMBINATION X (Day):" format for each one
+      - Generate exactly ${days.length} combinations, one per day, using the full day name in "day"
+      - "fruits" and "vegetables" must each contain 1 or 2 items; "grains" must contain exactly 1 item
+      - Every ingredient needs a non-empty "quantity" such as "1 cup", "1 medium" or "80g"
       - Do NOT create a weekly meal plan
-      - Do NOT use "Day 1, Day 2" format
       - Focus only on fruits, vegetables, and grains
       - Make each combination unique and surprising
       - Use diverse ingredients from the comprehensive database
@@ -187,125 +561,120 @@ Use this diversity to create unique, surprising combinations that showcase the f
       - Create catchy, memorable names that make nutrition fun and appealing
       - Use creative naming like "Power Pack", "Energy Boost", "Immunity Shield", "Brain Fuel", etc.`;
 
-    // Only try AI generation if we have an API key
-    if (hasAIKey) {
-      // Try multiple models with shorter timeouts for faster generation
-      const models = [
-        {
-          name: 'gemini-1.5-flash-latest',
-          timeout: AI_CONSTANTS.TIMEOUTS.FLASH_MODEL,
-        },
-        {
-          name: 'gemini-1.5-pro-latest',
-          timeout: AI_CONSTANTS.TIMEOUTS.PRO_MODEL,
-        },
-      ];
-
-      for (const modelConfig of models) {
-        try {
-          const currentModel = genAI.getGenerativeModel({
-            model: modelConfig.name,
-          });
-
-          const timeoutPromise = new Promise<never>((_, reject) => {
-            setTimeout(
-              () =>
-                reject(
-                  new Error(`AI generation timeout for ${modelConfig.name}`)
-                ),
-              modelConfig.timeout
+    if (regenerate) {
+      prompt += regenerationInstructions(regenerate);
+    }
+
+    // Try each configured provider in order until one returns a valid plan
+    const context = {
+      request,
+      prompt,
+      foodGroups: allFoodGroups,
+      expectedCount: days.length,
+      seed,
+      season,
+    };
+
+    const violations: DietViolation[] = [];
+    for (const provider of createProviders()) {
+      try {
+        // Scale before merging so kept ingredients are not scaled twice
+        const generated = applyProfileToCombinations(
+          await provider.generate(context),
+          request.profile
+        );
+        // Locks are enforced here rather than trusted to the provider
+        const combinations = regenerate
+          ? applyRegeneration(regenerate, generated)
+          : generated;
+        if (!combinations) {
+          throw new Error('Response did not cover every regenerated day');
+        }
+
+        // Restrictions and allergies are only prompt text to a model, so
+        // check every ingredient before accepting the plan
+        const checked = enforceCombinationDiet(
+          combinations,
+          allFoodGroups,
+          request,
+          request.dietaryEnforcement
+        );
+        violations.push(...checked.violations);
+        if (!checked.valid) {
+          throw new Error('Plan breaks the dietary restrictions or allergies');
+        }
+
+        // Checked after repairs, which may swap in foods from the catalog
+        const { pantry } = request;
+        if (pantry?.mode === 'only') {
+          const offPantry = offPantryIngredients(
+            chosenIngredients(checked.items, regenerate),
+            pantry,
+            allFoodGroups
+          );
+          if (offPantry.length) {
+            throw new Error(
+              `Plan uses ingredients outside the pantry: ${offPantry.join(', ')}`
             );
-          });
-
-          const generationPromise = currentModel.generateContent(prompt);
-
-          const result = await Promise.race([
-            generationPromise,
-            timeoutPromise,
-          ]);
-          const response = await result.response;
-          const text = response.text();
-
-          return {
-            success: true,
-            mealPlan: text,
-          };
-        } catch (error) {
-          // Check if it's a model not found error
-          if (
-            error instanceof Error &&
-            error.message.includes('404 Not Found')
-          ) {
-            continue; // Try next model silently
           }
-          continue; // Try next model
         }
+
+        const scored = withNutrition(checked.items, allFoodGroups);
+        return {
+          success: true,
+          combinations: scored,
+          provider: provider.name,
+          seed,
+          coverage: weeklyCoverage(scored),
+          violations,
+          pantryUsage:
+            pantry && combinationPantryUsage(scored, pantry, allFoodGroups),
+        };
+      } catch (error) {
+        console.warn(
+          `Meal plan provider ${provider.name} failed:`,
+          error instanceof Error ? error.message : error
+        );
       }
     }
 
-    // If no AI API key or all models fail, generate a simple fallback response
+    // If every provider fails, generate from the loaded catalog (the bundled
+    // one only when the database could not be read)
     console.log('Using fallback meal generation');
 
-    // Create a simple fallback response with basic combinations
-    const fallbackResponse = `COMBINATION 1 (Monday):
-Name: "Iron-Rich Power Bowl"
-Fruits: 1 cup strawberries, 1 medium orange
-Vegetables: 2 cups spinach, 1 cup broccoli
-Grain: 1/2 cup quinoa
-Benefits: Rich in iron, vitamin C, and fiber for energy and immunity
-Preparation: Steam quinoa, sauté vegetables, add fresh fruits
-
-COMBINATION 2 (Tuesday):
-Name: "Potassium Boost Medley"
-Fruits: 1 medium banana, 1 cup blueberries
-Vegetables: 1 cup sweet potato, 1 cup kale
-Grain: 1/2 cup brown rice
-Benefits: High in potassium, antioxidants, and complex carbs for sustained energy
-Preparation: Cook rice, roast sweet potato, steam kale, add fresh fruits
-
-COMBINATION 3 (Wednesday):
-Name: "Vitamin C Immunity Shield"
-Fruits: 1 cup pineapple, 1 medium kiwi
-Vegetables: 1 cup bell peppers, 1 cup Brussels sprouts
-Grain: 1/2 cup farro
-Benefits: Packed with vitamin C, fiber, and immune-boosting nutrients
-Preparation: Cook farro, roast vegetables, add fresh fruits
-
-COMBINATION 4 (Thursday):
-Name: "Fiber-Rich Energy Explosion"
-Fruits: 1 cup raspberries, 1 medium apple
-Vegetables: 1 cup carrots, 1 cup cauliflower
-Grain: 1/2 cup barley
-Benefits: High fiber content for digestive health and sustained energy
-Preparation: Cook barley, steam vegetables, add fresh fruits
-
-COMBINATION 5 (Friday):
-Name: "Antioxidant Power Pack"
-Fruits: 1 cup blackberries, 1 medium pomegranate
-Vegetables: 1 cup beets, 1 cup arugula
-Grain: 1/2 cup wild rice
-Benefits: Rich in antioxidants, nitrates, and anti-inflammatory compounds
-Preparation: Cook wild rice, roast beets, add fresh arugula and fruits
-
-COMBINATION 6 (Saturday):
-Name: "Calcium-Rich Bone Builder"
-Fruits: 1 cup figs, 1 medium pear
-Vegetables: 1 cup collard greens, 1 cup bok choy
-Grain: 1/2 cup amaranth
-Benefits: High in calcium, vitamin K, and minerals for bone health
-Preparation: Cook amaranth, steam greens, add fresh fruits
-
-COMBINATION 7 (Sunday):
-Name: "Omega-3 Brain Fuel"
-Fruits: 1 cup avocado, 1 medium grapefruit
-Vegetables: 1 cup Brussels sprouts, 1 cup asparagus
-Grain: 1/2 cup teff
-Benefits: Rich in healthy fats, B vitamins, and minerals for brain function
-Preparation: Cook teff, roast vegetables, add fresh avocado and grapefruit`;
+    const fallbackOptions = {
+      seed,
+      season,
+      dietaryRestrictions: request.dietaryRestrictions,
+      allergies: request.allergies,
+      cookingSkill: request.profile?.cookingSkill,
+      mealPrepTime: request.profile?.mealPrepTime,
+      goal: request.goal,
+      pantry: request.pantry,
+    };
+    const fallbackWeek = applyProfileToCombinations(
+      regenerate
+        ? regenerateCombinations(allFoodGroups, regenerate, fallbackOptions)
+        : generateCombinations(allFoodGroups, fallbackOptions),
+      request.profile
+    );
+    const fallback = withNutrition(
+      regenerate
+        ? (applyRegeneration(regenerate, fallbackWeek) ?? regenerate.current)
+        : fallbackWeek,
+      allFoodGroups
+    );
 
     return {
       success: true,
-      mealPlan: fallbackResponse,
+      combinations: fallback,
+      provider: 'fallback',
+      seed,
+      coverage: weeklyCoverage(fallback),
+      violations,
+      pantryUsage:
+        request.pantry &&
+        combinationPantryUsage(fallback, request.pantry, allFoodGroups),
     };
   } catch (error) {
     console.error('AI API error:', error);
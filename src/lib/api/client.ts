@@ -1,3 +1,5 @@
+import { auth } from '@/lib/firebase';
+
 // API response types
 export interface ApiResponse<T = unknown> {
   success: boolean;
@@ -18,6 +20,9 @@ export interface RequestOptions {
   retryDelay?: number;
 }
 
+// Supplies the ID token for a request, or null when nobody is signed in
+export type AuthTokenProvider = () => Promise<string | null>;
+
 // API client configuration
 interface ApiClientConfig {
   baseUrl: string;
@@ -38,12 +43,20 @@ const defaultConfig: ApiClientConfig = {
   },
 };
 
+/**
+ * The signed-in user's Firebase ID token, which the SDK refreshes before it
+ * expires
+ */
+const currentUserToken: AuthTokenProvider = async () =>
+  auth?.currentUser ? auth.currentUser.getIdToken() : null;
+
 /**
  * Centralized API client with error handling and retry logic
  */
 export class ApiClient {
   private config: ApiClientConfig;
   private authToken: string | null = null;
+  private authTokenProvider: AuthTokenProvider = currentUserToken;
 
   constructor(config: Partial<ApiClientConfig> = {}) {
     this.config = { ...defaultConfig, ...config };
@@ -61,6 +74,24 @@ export class ApiClient {
     }
   }
 
+  /**
+   * Set how the ID token sent with each request is obtained; a token set with
+   * setAuthToken takes precedence
+   */
+  setAuthTokenProvider(provider: AuthTokenProvider): void {
+    this.authTokenProvider = provider;
+  }
+
+  /**
+   * The Authorization header for the current token, for requests the client
+   * can't send itself, such as file uploads
+   */
+  async authHeaders(): Promise<Record<string, string>> {
+    const token =
+      this.authToken ?? (await this.authTokenProvider().catch(() => null));
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+
   /**
    * Make HTTP request with retry logic
    */
@@ -80,9 +111,10 @@ export class ApiClient {
     const url = `${this.config.baseUrl}${endpoint}`;
     const requestHeaders = { ...this.config.headers, ...headers };
 
-    // Add auth token if available
-    if (this.authToken && !requestHeaders.Authorization) {
-      requestHeaders.Authorization = `Bearer ${this.authToken}`;
+    // Add auth token if available; user-scoped and admin routes reject
+    // requests without one
+    if (!requestHeaders.Authorization) {
+      Object.assign(requestHeaders, await this.authHeaders());
     }
 
     let lastError: Error | null = null;
@@ -104,10 +136,17 @@ export class ApiClient {
         // Handle HTTP errors
         if (!response.ok) {
           const errorData = await this.parseErrorResponse(response);
-          throw new Error(
+          const error = new Error(
             errorData.message ||
               `HTTP ${response.status}: ${response.statusText}`
           );
+          // Client errors, e.g. a missing or rejected ID token, won't
+          // succeed on retry
+          if (response.status < 500) {
+            lastError = error;
+            break;
+          }
+          throw error;
         }
 
         // Parse successful response
@@ -256,4 +295,9 @@ export const api = {
   ) => apiClient.patch<T>(endpoint, data, options),
 
   setAuthToken: (token: string | null) => apiClient.setAuthToken(token),
+
+  setAuthTokenProvider: (provider: AuthTokenProvider) =>
+    apiClient.setAuthTokenProvider(provider),
+
+  authHeaders: () => apiClient.authHeaders(),
 };
@@ -1,13 +1,45 @@
 import { api, ApiResponse } from '../client';
-import { FoodGroup } from '@/lib/database';
+import { FoodGroup, FoodGroupQueryOptions } from '@/lib/database';
+import type { FoodGroupVersion } from '@/lib/foodAudit';
+import type { FoodImportOptions, FoodImportReport } from '@/lib/foodImport';
+import type {
+  FoodGroupPage,
+  FoodRangeField,
+  FoodSort,
+  QueriedFood,
+} from '@/lib/foodQuery';
+import type { RankedFood } from '@/lib/foodSearch';
 import { FoodGroupSchema } from '@/lib/validation/schemas';
 import { sanitizeObject } from '@/lib/validation/sanitization';
 
+// Catalog query options for getFiltered, see FoodGroupQuerySchema. Lists
+// under category, subcategory and seasonality match any of their values;
+// nutrients and benefits must all be present.
+export interface FoodGroupFilterOptions {
+  category?: string | string[];
+  subcategory?: string | string[];
+  seasonality?: string | string[];
+  nutrients?: string[];
+  benefits?: string[];
+  ranges?: Partial<Record<FoodRangeField, { min?: number; max?: number }>>;
+  search?: string;
+  sortBy?: FoodSort;
+  sortOrder?: 'asc' | 'desc';
+  limit?: number;
+  offset?: number;
+  page?: number;
+  cursor?: string; // nextCursor of the previous page
+}
+
+// A page of foods, with the totals and facets the catalog routes add
+export type FoodGroupPageResponse = ApiResponse<QueriedFood[]> &
+  Partial<Omit<FoodGroupPage, 'items'>>;
+
 // Food group service interface
 export interface FoodGroupService {
-  getAll(): Promise<ApiResponse<FoodGroup[]>>;
+  getAll(options?: FoodGroupQueryOptions): Promise<ApiResponse<FoodGroup[]>>;
   getByCategory(category: string): Promise<ApiResponse<FoodGroup[]>>;
-  search(query: string): Promise<ApiResponse<FoodGroup[]>>;
+  search(query: string): Promise<ApiResponse<RankedFood[]>>;
   getById(id: string): Promise<ApiResponse<FoodGroup>>;
   create(
     foodGroup: Omit<FoodGroup, 'id' | 'createdAt' | 'updatedAt'>
@@ -17,9 +49,20 @@ export interface FoodGroupService {
     updates: Partial<FoodGroup>
   ): Promise<ApiResponse<{ success: boolean }>>;
   delete(id: string): Promise<ApiResponse<{ success: boolean }>>;
+  restore(
+    id: string,
+    reason?: string
+  ): Promise<ApiResponse<{ success: boolean }>>;
   importFromCSV(
-    csvData: string
-  ): Promise<ApiResponse<{ imported: number; errors: string[] }>>;
+    csvData: string,
+    options?: FoodImportOptions
+  ): Promise<ApiResponse<FoodImportReport>>;
+  getHistory(id: string): Promise<ApiResponse<FoodGroupVersion[]>>;
+  revert(
+    id: string,
+    auditId: string,
+    reason?: string
+  ): Promise<ApiResponse<{ fields: string[] }>>;
 }
 
 // Food group service implementation
@@ -27,11 +70,18 @@ export class FoodGroupServiceImpl implements FoodGroupService {
   private baseEndpoint = '/api/food-groups';
 
   /**
-   * Get all food groups
+   * Get all active food groups, or with `includeInactive` deactivated ones
+   * too
    */
-  async getAll(): Promise<ApiResponse<FoodGroup[]>> {
+  async getAll({
+    includeInactive = false,
+  }: FoodGroupQueryOptions = {}): Promise<ApiResponse<FoodGroup[]>> {
     try {
-      const response = await api.get<FoodGroup[]>(this.baseEndpoint);
+      const response = await api.get<FoodGroup[]>(
+        includeInactive
+          ? `${this.baseEndpoint}?includeInactive=true`
+          : this.baseEndpoint
+      );
       return response;
     } catch (error) {
       return {
@@ -61,11 +111,12 @@ export class FoodGroupServiceImpl implements FoodGroupService {
   }
 
   /**
-   * Search food groups by query
+   * Search food groups by query, best match first with the matched text in
+   * `highlights`
    */
-  async search(query: string): Promise<ApiResponse<FoodGroup[]>> {
+  async search(query: string): Promise<ApiResponse<RankedFood[]>> {
     try {
-      const response = await api.get<FoodGroup[]>(
+      const response = await api.get<RankedFood[]>(
         `${this.baseEndpoint}?search=${encodeURIComponent(query)}`
       );
       return response;
@@ -182,15 +233,39 @@ export class FoodGroupServiceImpl implements FoodGroupService {
   }
 
   /**
-   * Import food groups from CSV
+   * Restore a deleted food group
+   */
+  async restore(
+    id: string,
+    reason?: string
+  ): Promise<ApiResponse<{ success: boolean }>> {
+    try {
+      const response = await api.post<{ success: boolean }>(
+        `${this.baseEndpoint}/${id}/restore`,
+        { reason }
+      );
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to restore food group with ID: ${id}`,
+        details: error,
+      };
+    }
+  }
+
+  /**
+   * Import food groups from CSV, or with `dryRun` preview what importing
+   * would change
    */
   async importFromCSV(
-    csvData: string
-  ): Promise<ApiResponse<{ imported: number; errors: string[] }>> {
+    csvData: string,
+    options?: FoodImportOptions
+  ): Promise<ApiResponse<FoodImportReport>> {
     try {
-      const response = await api.post<{ imported: number; errors: string[] }>(
+      const response = await api.post<FoodImportReport>(
         `${this.baseEndpoint}/import`,
-        { csvData }
+        { csvData, ...options }
       );
       return response;
     } catch (error) {
@@ -203,34 +278,82 @@ export class FoodGroupServiceImpl implements FoodGroupService {
   }
 
   /**
-   * Get filtered and sorted food groups
+   * Get a food group's versions, newest first
+   */
+  async getHistory(id: string): Promise<ApiResponse<FoodGroupVersion[]>> {
+    try {
+      const response = await api.get<FoodGroupVersion[]>(
+        `${this.baseEndpoint}/${id}/history`
+      );
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch history of food group with ID: ${id}`,
+        details: error,
+      };
+    }
+  }
+
+  /**
+   * Restore a food group to the version an entry of its history recorded
+   */
+  async revert(
+    id: string,
+    auditId: string,
+    reason?: string
+  ): Promise<ApiResponse<{ fields: string[] }>> {
+    try {
+      const response = await api.post<{ fields: string[] }>(
+        `${this.baseEndpoint}/${id}/revert`,
+        { auditId, reason }
+      );
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to revert food group with ID: ${id}`,
+        details: error,
+      };
+    }
+  }
+
+  /**
+   * Get filtered, sorted and paged food groups, with facet counts
    */
   async getFiltered(
-    options: {
-      category?: string;
-      search?: string;
-      sortBy?: 'name' | 'category' | 'calories';
-      sortOrder?: 'asc' | 'desc';
-      limit?: number;
-      offset?: number;
-    } = {}
-  ): Promise<ApiResponse<FoodGroup[]>> {
+    options: FoodGroupFilterOptions = {}
+  ): Promise<FoodGroupPageResponse> {
     try {
       const params = new URLSearchParams();
+      const appendList = (name: string, values?: string | string[]) => {
+        const list = typeof values === 'string' ? [values] : (values ?? []);
+        if (list.length > 0) params.append(name, list.join(','));
+      };
 
-      if (options.category) params.append('category', options.category);
+      appendList('category', options.category);
       if (options.search) params.append('search', options.search);
       if (options.sortBy) params.append('sortBy', options.sortBy);
       if (options.sortOrder) params.append('sortOrder', options.sortOrder);
       if (options.limit) params.append('limit', options.limit.toString());
       if (options.offset) params.append('offset', options.offset.toString());
+      if (options.page) params.append('page', options.page.toString());
+      if (options.cursor) params.append('cursor', options.cursor);
+      appendList('subcategory', options.subcategory);
+      appendList('seasonality', options.seasonality);
+      appendList('nutrient', options.nutrients);
+      appendList('benefit', options.benefits);
+      for (const [field, range] of Object.entries(options.ranges ?? {})) {
+        if (range?.min === undefined && range?.max === undefined) continue;
+        params.append(field, `${range.min ?? ''}..${range.max ?? ''}`);
+      }
 
       const queryString = params.toString();
       const endpoint = queryString
         ? `${this.baseEndpoint}?${queryString}`
         : this.baseEndpoint;
 
-      const response = await api.get<FoodGroup[]>(endpoint);
+      const response = await api.get<QueriedFood[]>(endpoint);
       return response;
     } catch (error) {
       return {
@@ -247,7 +370,7 @@ export const foodGroupService = new FoodGroupServiceImpl();
 
 // Export convenience functions
 export const foodGroupsApi = {
-  getAll: () => foodGroupService.getAll(),
+  getAll: (options?: FoodGroupQueryOptions) => foodGroupService.getAll(options),
   getByCategory: (category: string) => foodGroupService.getByCategory(category),
   search: (query: string) => foodGroupService.search(query),
   getById: (id: string) => foodGroupService.getById(id),
@@ -256,7 +379,13 @@ export const foodGroupsApi = {
   update: (id: string, updates: Partial<FoodGroup>) =>
     foodGroupService.update(id, updates),
   delete: (id: string) => foodGroupService.delete(id),
-  importFromCSV: (csvData: string) => foodGroupService.importFromCSV(csvData),
+  restore: (id: string, reason?: string) =>
+    foodGroupService.restore(id, reason),
+  importFromCSV: (csvData: string, options?: FoodImportOptions) =>
+    foodGroupService.importFromCSV(csvData, options),
+  getHistory: (id: string) => foodGroupService.getHistory(id),
+  revert: (id: string, auditId: string, reason?: string) =>
+    foodGroupService.revert(id, auditId, reason),
   getFiltered: (options?: Parameters<typeof foodGroupService.getFiltered>[0]) =>
     foodGroupService.getFiltered(options),
 };
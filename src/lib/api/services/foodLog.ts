@@ -0,0 +1,151 @@
+import { api, ApiResponse } from '../client';
+import type { FoodLogEntry } from '@/lib/database';
+import type { DiaryDay } from '@/lib/foodLog';
+import {
+  FoodLogEntrySchema,
+  ValidatedFoodLogEntry,
+} from '@/lib/validation/schemas';
+
+export type FoodLogEntryUpdates = Partial<
+  Pick<FoodLogEntry, 'date' | 'mealSlot' | 'quantity'>
+>;
+
+// Food log service interface
+export interface FoodLogService {
+  getDiary(
+    userId: string,
+    from: string,
+    to?: string
+  ): Promise<ApiResponse<DiaryDay[]>>;
+  logEntry(
+    userId: string,
+    entry: ValidatedFoodLogEntry
+  ): Promise<ApiResponse<{ id: string }>>;
+  updateEntry(
+    id: string,
+    userId: string,
+    updates: FoodLogEntryUpdates
+  ): Promise<ApiResponse<{ success: boolean }>>;
+  deleteEntry(
+    id: string,
+    userId: string
+  ): Promise<ApiResponse<{ success: boolean }>>;
+}
+
+// Food log service implementation
+export class FoodLogServiceImpl implements FoodLogService {
+  private baseEndpoint = '/api/food-log';
+
+  /**
+   * Get the diary days between two YYYY-MM-DD dates, inclusive
+   */
+  async getDiary(
+    userId: string,
+    from: string,
+    to: string = from
+  ): Promise<ApiResponse<DiaryDay[]>> {
+    try {
+      const params = new URLSearchParams({ userId, from, to });
+      const response = await api.get<DiaryDay[]>(
+        `${this.baseEndpoint}?${params}`
+      );
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to fetch food diary',
+        details: error,
+      };
+    }
+  }
+
+  /**
+   * Log a food or a saved combination
+   */
+  async logEntry(
+    userId: string,
+    entry: ValidatedFoodLogEntry
+  ): Promise<ApiResponse<{ id: string }>> {
+    try {
+      const validationResult = FoodLogEntrySchema.safeParse(entry);
+      if (!validationResult.success) {
+        return {
+          success: false,
+          error: 'Invalid food log entry',
+          details: validationResult.error.issues,
+        };
+      }
+
+      const response = await api.post<{ id: string }>(this.baseEndpoint, {
+        userId,
+        entry: validationResult.data,
+      });
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to log food',
+        details: error,
+      };
+    }
+  }
+
+  /**
+   * Change an entry's day, meal slot or quantity
+   */
+  async updateEntry(
+    id: string,
+    userId: string,
+    updates: FoodLogEntryUpdates
+  ): Promise<ApiResponse<{ success: boolean }>> {
+    try {
+      const response = await api.put<{ success: boolean }>(
+        `${this.baseEndpoint}/${id}`,
+        { userId, updates }
+      );
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update food log entry with ID: ${id}`,
+        details: error,
+      };
+    }
+  }
+
+  /**
+   * Delete an entry
+   */
+  async deleteEntry(
+    id: string,
+    userId: string
+  ): Promise<ApiResponse<{ success: boolean }>> {
+    try {
+      const response = await api.delete<{ success: boolean }>(
+        `${this.baseEndpoint}/${id}?userId=${encodeURIComponent(userId)}`
+      );
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to delete food log entry with ID: ${id}`,
+        details: error,
+      };
+    }
+  }
+}
+
+// Create and export service instance
+export const foodLogService = new FoodLogServiceImpl();
+
+// Export convenience functions
+export const foodLogApi = {
+  getDiary: (userId: string, from: string, to?: string) =>
+    foodLogService.getDiary(userId, from, to),
+  log: (userId: string, entry: ValidatedFoodLogEntry) =>
+    foodLogService.logEntry(userId, entry),
+  update: (id: string, userId: string, updates: FoodLogEntryUpdates) =>
+    foodLogService.updateEntry(id, userId, updates),
+  delete: (id: string, userId: string) =>
+    foodLogService.deleteEntry(id, userId),
+};
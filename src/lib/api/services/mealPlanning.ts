@@ -1,6 +1,14 @@
 import { api, ApiResponse } from '../client';
 import { MealPlanRequestSchema } from '@/lib/validation/schemas';
 import { sanitizeObject } from '@/lib/validation/sanitization';
+import {
+  MealPlan,
+  MealPlanOptions,
+  NutritionSummary,
+  summarizeMealPlanNutrition,
+} from '@/lib/mealPlans';
+import type { GenerationRecord } from '@/lib/generationHistory';
+import type { PantryMode } from '@/lib/pantry';
 
 // Meal plan request interface
 export interface MealPlanRequest {
@@ -10,87 +18,55 @@ export interface MealPlanRequest {
   userPrompt?: string;
   preferences?: string;
   dietaryRestrictions?: string[];
+  allergies?: string[];
+  dietaryEnforcement?: 'repair' | 'reject';
+  optimizeForGoal?: boolean; // steer picks toward the user's active goal
+  pantryMode?: PantryMode; // cook from the user's pantry; needs userId
+  seed?: number;
+  plan?: MealPlanOptions;
+  userId?: string; // records the run in the user's history
+  parentId?: string; // generation this request regenerates
 }
 
-// Meal plan response interface
-export interface MealPlan {
-  id: string;
-  title: string;
-  description: string;
-  meals: Meal[];
-  nutritionSummary: NutritionSummary;
-  preparationTime: string;
-  difficulty: 'easy' | 'medium' | 'hard';
-  servings: number;
-  createdAt: string;
-  updatedAt: string;
-}
-
-// Meal interface
-export interface Meal {
-  name: string;
-  type: 'breakfast' | 'lunch' | 'dinner' | 'snack';
-  ingredients: Ingredient[];
-  instructions: string[];
-  nutritionFacts: NutritionFacts;
-  preparationTime: string;
-  cookingTime: string;
-}
-
-// Ingredient interface
-export interface Ingredient {
-  name: string;
-  amount: string;
-  unit: string;
-  category: string;
-  notes?: string;
-}
-
-// Nutrition facts interface
-export interface NutritionFacts {
-  calories: number;
-  protein: number;
-  carbohydrates: number;
-  fat: number;
-  fiber: number;
-  sugar: number;
-  sodium: number;
-}
-
-// Nutrition summary interface
-export interface NutritionSummary {
-  totalCalories: number;
-  totalProtein: number;
-  totalCarbohydrates: number;
-  totalFat: number;
-  totalFiber: number;
-  dailyValues: {
-    protein: number; // percentage of daily value
-    carbohydrates: number;
-    fat: number;
-    fiber: number;
-  };
-}
+// Meal plan domain types are shared with the API routes
+export type {
+  Ingredient,
+  Meal,
+  MealPlan,
+  MealType,
+  NutritionFacts,
+  NutritionSummary,
+} from '@/lib/mealPlans';
 
 // Meal planning service interface
 export interface MealPlanningService {
   generateMealPlan(request: MealPlanRequest): Promise<ApiResponse<MealPlan>>;
-  saveMealPlan(mealPlan: MealPlan): Promise<ApiResponse<{ id: string }>>;
-  getSavedMealPlans(): Promise<ApiResponse<MealPlan[]>>;
-  getMealPlanById(id: string): Promise<ApiResponse<MealPlan>>;
+  saveMealPlan(
+    userId: string,
+    mealPlan: MealPlan
+  ): Promise<ApiResponse<{ id: string }>>;
+  getSavedMealPlans(userId: string): Promise<ApiResponse<MealPlan[]>>;
+  getMealPlanById(id: string, userId: string): Promise<ApiResponse<MealPlan>>;
   updateMealPlan(
     id: string,
+    userId: string,
     updates: Partial<MealPlan>
   ): Promise<ApiResponse<{ success: boolean }>>;
-  deleteMealPlan(id: string): Promise<ApiResponse<{ success: boolean }>>;
-  getMealPlanHistory(): Promise<
-    ApiResponse<{ date: string; mealPlan: MealPlan }[]>
-  >;
+  deleteMealPlan(
+    id: string,
+    userId: string
+  ): Promise<ApiResponse<{ success: boolean }>>;
+  getMealPlanHistory(userId: string): Promise<ApiResponse<GenerationRecord[]>>;
+  getGeneration(
+    id: string,
+    userId: string
+  ): Promise<ApiResponse<GenerationRecord>>;
 }
 
 // Meal planning service implementation
 export class MealPlanningServiceImpl implements MealPlanningService {
   private baseEndpoint = '/api/meal-plan';
+  private plansEndpoint = '/api/meal-plans';
 
   /**
    * Generate meal plan using AI
@@ -129,15 +105,15 @@ export class MealPlanningServiceImpl implements MealPlanningService {
   /**
    * Save meal plan to user's collection
    */
-  async saveMealPlan(mealPlan: MealPlan): Promise<ApiResponse<{ id: string }>> {
+  async saveMealPlan(
+    userId: string,
+    mealPlan: MealPlan
+  ): Promise<ApiResponse<{ id: string }>> {
     try {
-      const response = await api.post<{ id: string }>(
-        '/api/combinations/save',
-        {
-          type: 'mealPlan',
-          data: mealPlan,
-        }
-      );
+      const response = await api.post<{ id: string }>(this.plansEndpoint, {
+        userId,
+        mealPlan,
+      });
       return response;
     } catch (error) {
       return {
@@ -151,10 +127,10 @@ export class MealPlanningServiceImpl implements MealPlanningService {
   /**
    * Get user's saved meal plans
    */
-  async getSavedMealPlans(): Promise<ApiResponse<MealPlan[]>> {
+  async getSavedMealPlans(userId: string): Promise<ApiResponse<MealPlan[]>> {
     try {
       const response = await api.get<MealPlan[]>(
-        '/api/combinations/user?type=mealPlan'
+        `${this.plansEndpoint}?userId=${encodeURIComponent(userId)}`
       );
       return response;
     } catch (error) {
@@ -169,9 +145,14 @@ export class MealPlanningServiceImpl implements MealPlanningService {
   /**
    * Get meal plan by ID
    */
-  async getMealPlanById(id: string): Promise<ApiResponse<MealPlan>> {
+  async getMealPlanById(
+    id: string,
+    userId: string
+  ): Promise<ApiResponse<MealPlan>> {
     try {
-      const response = await api.get<MealPlan>(`/api/combinations/user/${id}`);
+      const response = await api.get<MealPlan>(
+        `${this.plansEndpoint}/${id}?userId=${encodeURIComponent(userId)}`
+      );
       return response;
     } catch (error) {
       return {
@@ -187,12 +168,13 @@ export class MealPlanningServiceImpl implements MealPlanningService {
    */
   async updateMealPlan(
     id: string,
+    userId: string,
     updates: Partial<MealPlan>
   ): Promise<ApiResponse<{ success: boolean }>> {
     try {
       const response = await api.put<{ success: boolean }>(
-        `/api/combinations/user/${id}`,
-        updates
+        `${this.plansEndpoint}/${id}`,
+        { userId, updates }
       );
       return response;
     } catch (error) {
@@ -207,10 +189,13 @@ export class MealPlanningServiceImpl implements MealPlanningService {
   /**
    * Delete meal plan
    */
-  async deleteMealPlan(id: string): Promise<ApiResponse<{ success: boolean }>> {
+  async deleteMealPlan(
+    id: string,
+    userId: string
+  ): Promise<ApiResponse<{ success: boolean }>> {
     try {
       const response = await api.delete<{ success: boolean }>(
-        `/api/combinations/user/${id}`
+        `${this.plansEndpoint}/${id}?userId=${encodeURIComponent(userId)}`
       );
       return response;
     } catch (error) {
@@ -223,14 +208,14 @@ export class MealPlanningServiceImpl implements MealPlanningService {
   }
 
   /**
-   * Get meal plan history
+   * Get every generated plan, newest first
    */
-  async getMealPlanHistory(): Promise<
-    ApiResponse<{ date: string; mealPlan: MealPlan }[]>
-  > {
+  async getMealPlanHistory(
+    userId: string
+  ): Promise<ApiResponse<GenerationRecord[]>> {
     try {
-      const response = await api.get<{ date: string; mealPlan: MealPlan }[]>(
-        '/api/combinations/user?type=mealPlan&history=true'
+      const response = await api.get<GenerationRecord[]>(
+        `${this.baseEndpoint}/history?userId=${encodeURIComponent(userId)}`
       );
       return response;
     } catch (error) {
@@ -242,6 +227,27 @@ export class MealPlanningServiceImpl implements MealPlanningService {
     }
   }
 
+  /**
+   * Get a single generation, e.g. to restore it into the planner
+   */
+  async getGeneration(
+    id: string,
+    userId: string
+  ): Promise<ApiResponse<GenerationRecord>> {
+    try {
+      const response = await api.get<GenerationRecord>(
+        `${this.baseEndpoint}/history/${id}?userId=${encodeURIComponent(userId)}`
+      );
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch generation with ID: ${id}`,
+        details: error,
+      };
+    }
+  }
+
   /**
    * Generate meal plan with custom preferences
    */
@@ -299,40 +305,7 @@ export class MealPlanningServiceImpl implements MealPlanningService {
    * Calculate nutrition totals for a meal plan
    */
   calculateNutritionTotals(mealPlan: MealPlan): NutritionSummary {
-    const totals = mealPlan.meals.reduce(
-      (acc, meal) => {
-        acc.calories += meal.nutritionFacts.calories;
-        acc.protein += meal.nutritionFacts.protein;
-        acc.carbohydrates += meal.nutritionFacts.carbohydrates;
-        acc.fat += meal.nutritionFacts.fat;
-        acc.fiber += meal.nutritionFacts.fiber;
-        return acc;
-      },
-      {
-        calories: 0,
-        protein: 0,
-        carbohydrates: 0,
-        fat: 0,
-        fiber: 0,
-      }
-    );
-
-    // Calculate daily value percentages (based on 2000 calorie diet)
-    const dailyValues = {
-      protein: Math.round((totals.protein / 50) * 100), // 50g daily value
-      carbohydrates: Math.round((totals.carbohydrates / 275) * 100), // 275g daily value
-      fat: Math.round((totals.fat / 55) * 100), // 55g daily value
-      fiber: Math.round((totals.fiber / 28) * 100), // 28g daily value
-    };
-
-    return {
-      totalCalories: totals.calories,
-      totalProtein: totals.protein,
-      totalCarbohydrates: totals.carbohydrates,
-      totalFat: totals.fat,
-      totalFiber: totals.fiber,
-      dailyValues,
-    };
+    return summarizeMealPlanNutrition(mealPlan.meals, mealPlan.days);
   }
 }
 
@@ -343,13 +316,19 @@ export const mealPlanningService = new MealPlanningServiceImpl();
 export const mealPlanningApi = {
   generate: (request: MealPlanRequest) =>
     mealPlanningService.generateMealPlan(request),
-  save: (mealPlan: MealPlan) => mealPlanningService.saveMealPlan(mealPlan),
-  getSaved: () => mealPlanningService.getSavedMealPlans(),
-  getById: (id: string) => mealPlanningService.getMealPlanById(id),
-  update: (id: string, updates: Partial<MealPlan>) =>
-    mealPlanningService.updateMealPlan(id, updates),
-  delete: (id: string) => mealPlanningService.deleteMealPlan(id),
-  getHistory: () => mealPlanningService.getMealPlanHistory(),
+  save: (userId: string, mealPlan: MealPlan) =>
+    mealPlanningService.saveMealPlan(userId, mealPlan),
+  getSaved: (userId: string) => mealPlanningService.getSavedMealPlans(userId),
+  getById: (id: string, userId: string) =>
+    mealPlanningService.getMealPlanById(id, userId),
+  update: (id: string, userId: string, updates: Partial<MealPlan>) =>
+    mealPlanningService.updateMealPlan(id, userId, updates),
+  delete: (id: string, userId: string) =>
+    mealPlanningService.deleteMealPlan(id, userId),
+  getHistory: (userId: string) =>
+    mealPlanningService.getMealPlanHistory(userId),
+  getGeneration: (id: string, userId: string) =>
+    mealPlanningService.getGeneration(id, userId),
   generateCustom: (
     options: Parameters<typeof mealPlanningService.generateCustomMealPlan>[0]
   ) => mealPlanningService.generateCustomMealPlan(options),
@@ -0,0 +1,169 @@
+import { api, ApiResponse } from '../client';
+import type { NutritionGoal, NutritionGoalInput } from '@/lib/database';
+import type { GoalPeriod, GoalProgress } from '@/lib/goals';
+import { NutritionGoalSchema } from '@/lib/validation/schemas';
+
+// Nutrition goal service interface
+export interface NutritionGoalService {
+  getGoals(userId: string): Promise<ApiResponse<NutritionGoal[]>>;
+  createGoal(
+    userId: string,
+    goal: NutritionGoalInput
+  ): Promise<ApiResponse<{ id: string }>>;
+  updateGoal(
+    id: string,
+    userId: string,
+    updates: Partial<Record<keyof NutritionGoalInput, unknown>>
+  ): Promise<ApiResponse<{ success: boolean }>>;
+  deleteGoal(
+    id: string,
+    userId: string
+  ): Promise<ApiResponse<{ success: boolean }>>;
+  getProgress(
+    userId: string,
+    period: GoalPeriod,
+    count?: number
+  ): Promise<ApiResponse<GoalProgress>>;
+}
+
+// Nutrition goal service implementation
+export class NutritionGoalServiceImpl implements NutritionGoalService {
+  private baseEndpoint = '/api/goals';
+
+  /**
+   * Get all of a user's goals, newest first
+   */
+  async getGoals(userId: string): Promise<ApiResponse<NutritionGoal[]>> {
+    try {
+      const response = await api.get<NutritionGoal[]>(
+        `${this.baseEndpoint}?userId=${encodeURIComponent(userId)}`
+      );
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to fetch nutrition goals',
+        details: error,
+      };
+    }
+  }
+
+  /**
+   * Create a goal; an active one replaces the user's current active goal
+   */
+  async createGoal(
+    userId: string,
+    goal: NutritionGoalInput
+  ): Promise<ApiResponse<{ id: string }>> {
+    try {
+      const validationResult = NutritionGoalSchema.safeParse(goal);
+      if (!validationResult.success) {
+        return {
+          success: false,
+          error: 'Invalid nutrition goal',
+          details: validationResult.error.issues,
+        };
+      }
+
+      const response = await api.post<{ id: string }>(this.baseEndpoint, {
+        userId,
+        goal: validationResult.data,
+      });
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to save nutrition goal',
+        details: error,
+      };
+    }
+  }
+
+  /**
+   * Update a goal. Targets set to null are cleared.
+   */
+  async updateGoal(
+    id: string,
+    userId: string,
+    updates: Partial<Record<keyof NutritionGoalInput, unknown>>
+  ): Promise<ApiResponse<{ success: boolean }>> {
+    try {
+      const response = await api.put<{ success: boolean }>(
+        `${this.baseEndpoint}/${id}`,
+        { userId, updates }
+      );
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update nutrition goal with ID: ${id}`,
+        details: error,
+      };
+    }
+  }
+
+  /**
+   * Delete a goal
+   */
+  async deleteGoal(
+    id: string,
+    userId: string
+  ): Promise<ApiResponse<{ success: boolean }>> {
+    try {
+      const response = await api.delete<{ success: boolean }>(
+        `${this.baseEndpoint}/${id}?userId=${encodeURIComponent(userId)}`
+      );
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to delete nutrition goal with ID: ${id}`,
+        details: error,
+      };
+    }
+  }
+
+  /**
+   * Get progress against the active goal per day or per week
+   */
+  async getProgress(
+    userId: string,
+    period: GoalPeriod,
+    count?: number
+  ): Promise<ApiResponse<GoalProgress>> {
+    try {
+      const params = new URLSearchParams({ userId, period });
+      if (count) params.set('count', String(count));
+
+      const response = await api.get<GoalProgress>(
+        `${this.baseEndpoint}/progress?${params}`
+      );
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to fetch goal progress',
+        details: error,
+      };
+    }
+  }
+}
+
+// Create and export service instance
+export const nutritionGoalService = new NutritionGoalServiceImpl();
+
+// Export convenience functions
+export const nutritionGoalsApi = {
+  getAll: (userId: string) => nutritionGoalService.getGoals(userId),
+  create: (userId: string, goal: NutritionGoalInput) =>
+    nutritionGoalService.createGoal(userId, goal),
+  update: (
+    id: string,
+    userId: string,
+    updates: Partial<Record<keyof NutritionGoalInput, unknown>>
+  ) => nutritionGoalService.updateGoal(id, userId, updates),
+  delete: (id: string, userId: string) =>
+    nutritionGoalService.deleteGoal(id, userId),
+  getProgress: (userId: string, period: GoalPeriod, count?: number) =>
+    nutritionGoalService.getProgress(userId, period, count),
+};
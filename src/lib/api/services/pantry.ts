@@ -0,0 +1,138 @@
+import { api, ApiResponse } from '../client';
+import type { PantryItem, PantryItemInput } from '@/lib/database';
+import {
+  PantryItemSchema,
+  ValidatedPantryItem,
+} from '@/lib/validation/schemas';
+
+// Updates may set an optional field to null to clear it
+export type PantryItemUpdates = Partial<Record<keyof PantryItemInput, unknown>>;
+
+// Pantry service interface
+export interface PantryService {
+  getItems(userId: string): Promise<ApiResponse<PantryItem[]>>;
+  addItem(
+    userId: string,
+    item: ValidatedPantryItem
+  ): Promise<ApiResponse<{ id: string }>>;
+  updateItem(
+    id: string,
+    userId: string,
+    updates: PantryItemUpdates
+  ): Promise<ApiResponse<{ success: boolean }>>;
+  deleteItem(
+    id: string,
+    userId: string
+  ): Promise<ApiResponse<{ success: boolean }>>;
+}
+
+// Pantry service implementation
+export class PantryServiceImpl implements PantryService {
+  private baseEndpoint = '/api/pantry';
+
+  /**
+   * Get a user's pantry, soonest to expire first
+   */
+  async getItems(userId: string): Promise<ApiResponse<PantryItem[]>> {
+    try {
+      const response = await api.get<PantryItem[]>(
+        `${this.baseEndpoint}?userId=${encodeURIComponent(userId)}`
+      );
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to fetch pantry',
+        details: error,
+      };
+    }
+  }
+
+  /**
+   * Add something the user has at home
+   */
+  async addItem(
+    userId: string,
+    item: ValidatedPantryItem
+  ): Promise<ApiResponse<{ id: string }>> {
+    try {
+      const validationResult = PantryItemSchema.safeParse(item);
+      if (!validationResult.success) {
+        return {
+          success: false,
+          error: 'Invalid pantry item',
+          details: validationResult.error.issues,
+        };
+      }
+
+      const response = await api.post<{ id: string }>(this.baseEndpoint, {
+        userId,
+        item: validationResult.data,
+      });
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to save pantry item',
+        details: error,
+      };
+    }
+  }
+
+  /**
+   * Update a pantry item. An expiry date set to null is cleared.
+   */
+  async updateItem(
+    id: string,
+    userId: string,
+    updates: PantryItemUpdates
+  ): Promise<ApiResponse<{ success: boolean }>> {
+    try {
+      const response = await api.put<{ success: boolean }>(
+        `${this.baseEndpoint}/${id}`,
+        { userId, updates }
+      );
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update pantry item with ID: ${id}`,
+        details: error,
+      };
+    }
+  }
+
+  /**
+   * Remove a pantry item
+   */
+  async deleteItem(
+    id: string,
+    userId: string
+  ): Promise<ApiResponse<{ success: boolean }>> {
+    try {
+      const response = await api.delete<{ success: boolean }>(
+        `${this.baseEndpoint}/${id}?userId=${encodeURIComponent(userId)}`
+      );
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to delete pantry item with ID: ${id}`,
+        details: error,
+      };
+    }
+  }
+}
+
+// Create and export service instance
+export const pantryService = new PantryServiceImpl();
+
+// Export convenience functions
+export const pantryApi = {
+  getAll: (userId: string) => pantryService.getItems(userId),
+  add: (userId: string, item: ValidatedPantryItem) =>
+    pantryService.addItem(userId, item),
+  update: (id: string, userId: string, updates: PantryItemUpdates) =>
+    pantryService.updateItem(id, userId, updates),
+  delete: (id: string, userId: string) => pantryService.deleteItem(id, userId),
+};
@@ -0,0 +1,121 @@
+import { api, ApiResponse } from '../client';
+import type {
+  ShoppingList,
+  ShoppingListFormat,
+  ShoppingListSource,
+} from '@/lib/shoppingList';
+
+// Shopping list service interface
+export interface ShoppingListService {
+  getList(
+    userId: string,
+    source: ShoppingListSource
+  ): Promise<ApiResponse<ShoppingList>>;
+  saveChecked(
+    userId: string,
+    listKey: string,
+    checked: string[]
+  ): Promise<ApiResponse<{ success: boolean }>>;
+  exportFile(
+    userId: string,
+    source: ShoppingListSource,
+    format: Exclude<ShoppingListFormat, 'json'>
+  ): Promise<Blob>;
+}
+
+// Shopping list service implementation
+export class ShoppingListServiceImpl implements ShoppingListService {
+  private baseEndpoint = '/api/shopping-list';
+
+  private toParams(userId: string, source: ShoppingListSource) {
+    const params = new URLSearchParams({ userId });
+    if (source.planId) params.set('planId', source.planId);
+    if (source.generationId) params.set('generationId', source.generationId);
+    if (source.combinationIds) {
+      params.set('combinationIds', source.combinationIds.join(','));
+    }
+    return params;
+  }
+
+  /**
+   * Build the consolidated list for a plan, generation or combinations
+   */
+  async getList(
+    userId: string,
+    source: ShoppingListSource
+  ): Promise<ApiResponse<ShoppingList>> {
+    try {
+      const response = await api.get<ShoppingList>(
+        `${this.baseEndpoint}?${this.toParams(userId, source)}`
+      );
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to build shopping list',
+        details: error,
+      };
+    }
+  }
+
+  /**
+   * Save which items of a list are checked off
+   */
+  async saveChecked(
+    userId: string,
+    listKey: string,
+    checked: string[]
+  ): Promise<ApiResponse<{ success: boolean }>> {
+    try {
+      const response = await api.put<{ success: boolean }>(this.baseEndpoint, {
+        userId,
+        listKey,
+        checked,
+      });
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        error: 'Failed to save shopping list',
+        details: error,
+      };
+    }
+  }
+
+  /**
+   * The list as a text, CSV or printable HTML file. Fetched rather than
+   * linked to, since a link can't carry the ID token the route requires.
+   */
+  async exportFile(
+    userId: string,
+    source: ShoppingListSource,
+    format: Exclude<ShoppingListFormat, 'json'>
+  ): Promise<Blob> {
+    const params = this.toParams(userId, source);
+    params.set('format', format);
+    const response = await fetch(`${this.baseEndpoint}?${params}`, {
+      headers: await api.authHeaders(),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to export shopping list');
+    }
+    return response.blob();
+  }
+}
+
+// Create and export service instance
+export const shoppingListService = new ShoppingListServiceImpl();
+
+// Export convenience functions
+export const shoppingListApi = {
+  get: (userId: string, source: ShoppingListSource) =>
+    shoppingListService.getList(userId, source),
+  saveChecked: (userId: string, listKey: string, checked: string[]) =>
+    shoppingListService.saveChecked(userId, listKey, checked),
+  exportFile: (
+    userId: string,
+    source: ShoppingListSource,
+    format: Exclude<ShoppingListFormat, 'json'>
+  ) => shoppingListService.exportFile(userId, source, format),
+};
@@ -0,0 +1,186 @@
+import { createVerify, KeyObject, X509Certificate } from 'crypto';
+
+/** The signed-in user an ID token was issued to */
+export interface AuthenticatedUser {
+  uid: string;
+  admin: boolean; // the `admin` custom claim
+}
+
+/** Resolves the user an ID token belongs to, rejecting invalid tokens */
+export type TokenVerifier = (idToken: string) => Promise<AuthenticatedUser>;
+
+/** Public keys that sign ID tokens, by key ID */
+export type SigningKeys = Record<string, KeyObject>;
+
+export class AuthError extends Error {
+  constructor(
+    public readonly status: 401 | 403,
+    message: string
+  ) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+const GOOGLE_CERTS_URL =
+  'https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com';
+
+let cachedKeys: { keys: SigningKeys; expiresAt: number } | null = null;
+
+/**
+ * Google's current token signing keys, cached for as long as the response's
+ * Cache-Control allows since they rotate only every few hours
+ */
+async function fetchGoogleSigningKeys(): Promise<SigningKeys> {
+  if (cachedKeys && cachedKeys.expiresAt > Date.now()) return cachedKeys.keys;
+
+  const response = await fetch(GOOGLE_CERTS_URL);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch token signing keys: ${response.status}`);
+  }
+
+  const certificates: Record<string, string> = await response.json();
+  const keys = Object.fromEntries(
+    Object.entries(certificates).map(([kid, pem]) => [
+      kid,
+      new X509Certificate(pem).publicKey,
+    ])
+  );
+  const maxAge = /max-age=(\d+)/.exec(
+    response.headers.get('cache-control') ?? ''
+  );
+  cachedKeys = {
+    keys,
+    expiresAt: Date.now() + Number(maxAge?.[1] ?? 0) * 1000,
+  };
+  return keys;
+}
+
+const decodeSegment = (segment: string) =>
+  JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+/**
+ * Verify Firebase ID tokens the way the Admin SDK does: an RS256 signature by
+ * one of Google's keys, issued for this project, unexpired, with the uid as
+ * its subject. Custom claims ride along in the token.
+ */
+export function createFirebaseTokenVerifier(
+  projectId: string,
+  getKeys: () => Promise<SigningKeys> = fetchGoogleSigningKeys,
+  now: () => number = Date.now
+): TokenVerifier {
+  return async idToken => {
+    const [header, payload, signature, ...rest] = idToken.split('.');
+    if (!signature || rest.length > 0) {
+      throw new AuthError(401, 'Malformed ID token');
+    }
+
+    let decoded: { alg?: string; kid?: string };
+    let claims: Record<string, unknown>;
+    try {
+      decoded = decodeSegment(header);
+      claims = decodeSegment(payload);
+    } catch {
+      throw new AuthError(401, 'Malformed ID token');
+    }
+
+    if (decoded.alg !== 'RS256') {
+      throw new AuthError(401, 'ID token has an unexpected algorithm');
+    }
+    const key = decoded.kid ? (await getKeys())[decoded.kid] : undefined;
+    if (!key) {
+      throw new AuthError(401, 'ID token was signed with an unknown key');
+    }
+    const signed = createVerify('RSA-SHA256')
+      .update(`${header}.${payload}`)
+      .verify(key, Buffer.from(signature, 'base64url'));
+    if (!signed) {
+      throw new AuthError(401, 'ID token signature is invalid');
+    }
+
+    const seconds = Math.floor(now() / 1000);
+    if (
+      claims.aud !== projectId ||
+      claims.iss !== `https://securetoken.google.com/${projectId}`
+    ) {
+      throw new AuthError(401, 'ID token was issued for another project');
+    }
+    if (typeof claims.exp !== 'number' || claims.exp <= seconds) {
+      throw new AuthError(401, 'ID token has expired');
+    }
+    if (typeof claims.iat !== 'number' || claims.iat > seconds) {
+      throw new AuthError(401, 'ID token was issued in the future');
+    }
+    if (typeof claims.sub !== 'string' || claims.sub.length === 0) {
+      throw new AuthError(401, 'ID token has no subject');
+    }
+
+    return { uid: claims.sub, admin: claims.admin === true };
+  };
+}
+
+let tokenVerifier: TokenVerifier | null = null;
+
+/**
+ * Replace the verifier requests are checked with, e.g. by a stand-in in
+ * tests; null restores the Firebase verifier
+ */
+export function setTokenVerifier(verifier: TokenVerifier | null): void {
+  tokenVerifier = verifier;
+}
+
+function getTokenVerifier(): TokenVerifier {
+  if (!tokenVerifier) {
+    const projectId = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+    if (!projectId) {
+      throw new Error(
+        'NEXT_PUBLIC_FIREBASE_PROJECT_ID is required to verify ID tokens'
+      );
+    }
+    tokenVerifier = createFirebaseTokenVerifier(projectId);
+  }
+  return tokenVerifier;
+}
+
+/** The user whose ID token the request carries as `Authorization: Bearer` */
+export async function authenticate(request: {
+  headers: Headers;
+}): Promise<AuthenticatedUser> {
+  const token = /^Bearer\s+(\S+)$/i.exec(
+    request.headers.get('authorization') ?? ''
+  );
+  if (!token) {
+    throw new AuthError(401, 'Authentication required');
+  }
+  return getTokenVerifier()(token[1]);
+}
+
+/**
+ * The signed-in user's ID. A `userId` the request names is only accepted if
+ * it is the same user, so nobody can read or write another user's data.
+ */
+export async function requireUser(
+  request: { headers: Headers },
+  userId?: string | null
+): Promise<string> {
+  const { uid } = await authenticate(request);
+  if (userId && userId !== uid) {
+    throw new AuthError(403, 'userId does not match the signed-in user');
+  }
+  return uid;
+}
+
+/**
+ * The signed-in user's ID if they are an admin, either through the `admin`
+ * custom claim or by being on the allowlist `isAllowlisted` checks
+ */
+export async function requireAdmin(
+  request: { headers: Headers },
+  isAllowlisted: (uid: string) => Promise<boolean>
+): Promise<string> {
+  const { uid, admin } = await authenticate(request);
+  if (!admin && !(await isAllowlisted(uid))) {
+    throw new AuthError(403, 'Admin access required');
+  }
+  return uid;
+}
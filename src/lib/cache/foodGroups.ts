@@ -0,0 +1,12 @@
+import { cache } from './index';
+
+// Pages of food groups served by /api/food-groups/optimized, keyed by
+// foodGroupQueryKey
+export const FOOD_GROUPS_CACHE_PREFIX = 'food-groups';
+
+/**
+ * Drop every cached food group page. Each route that writes to the catalog
+ * calls this once its writes are done, so no page outlives the foods on it.
+ */
+export const clearFoodGroupCache = () =>
+  cache.clearPrefix(FOOD_GROUPS_CACHE_PREFIX);
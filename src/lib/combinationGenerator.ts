@@ -0,0 +1,929 @@
+import type { FoodGroup, UserPreferences } from './database';
+import { CARB_SENSITIVE, isAllowed } from './dietary';
+import {
+  Combination,
+  CombinationIngredient,
+  isRegenerated,
+  keptIngredients,
+  PLATE_CATEGORIES,
+  PlateCategory,
+  Regeneration,
+  WEEKDAYS,
+  Weekday,
+} from './combinations';
+import { GoalTargets, macroFit } from './goals';
+import {
+  GeneratedMeal,
+  isRegeneratedMeal,
+  MealPlanOptions,
+  MealRegeneration,
+  MealType,
+} from './mealPlans';
+import {
+  PantryStock,
+  PantryStockItem,
+  pantryScore,
+  stockedFoods,
+} from './pantry';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// Catalog entries without Firestore timestamps, so the bundled fallback
+// catalog can be used interchangeably with database records
+export type CatalogFood = Omit<FoodGroup, 'createdAt' | 'updatedAt'>;
+
+export type Season = 'spring' | 'summer' | 'fall' | 'winter';
+
+type FoodCategory = CatalogFood['category'];
+
+export interface GeneratorOptions {
+  seed: number;
+  days?: number;
+  season?: Season;
+  dietaryRestrictions?: string[];
+  allergies?: string[];
+  requested?: Partial<Record<FoodCategory, string[]>>;
+  cookingSkill?: UserPreferences['cookingSkill'];
+  mealPrepTime?: UserPreferences['mealPrepTime'];
+  goal?: GoalTargets;
+  pantry?: PantryStock;
+}
+
+export type MealGeneratorOptions = Omit<GeneratorOptions, 'days'> &
+  MealPlanOptions;
+
+export class GeneratorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeneratorError';
+  }
+}
+
+// ============================================================================
+// SEEDED RANDOMNESS
+// ============================================================================
+
+/**
+ * Mulberry32 PRNG: small, fast and good enough for shuffling a catalog.
+ * The same seed always yields the same sequence.
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+export function getSeason(date: Date = new Date()): Season {
+  const month = date.getMonth();
+  if (month >= 2 && month <= 4) return 'spring';
+  if (month >= 5 && month <= 7) return 'summer';
+  if (month >= 8 && month <= 10) return 'fall';
+  return 'winter';
+}
+
+// ============================================================================
+// GENERATION
+// ============================================================================
+
+const DEFAULT_QUANTITIES: Record<PlateCategory, string> = {
+  fruits: '1 cup',
+  vegetables: '1 cup',
+  grains: '1/2 cup',
+};
+
+const NAME_PREFIXES = [
+  'Power',
+  'Vitality',
+  'Glow',
+  'Energy',
+  'Immunity',
+  'Harvest',
+  'Sunrise',
+  'Balance',
+];
+const NAME_SUFFIXES = ['Bowl', 'Plate', 'Medley', 'Salad'];
+
+interface CategoryPool {
+  category: FoodCategory;
+  foods: CatalogFood[];
+  requested: Set<string>;
+  stocked: Map<string, PantryStockItem>; // by food ID
+}
+
+function normalizeNutrient(nutrient: string): string {
+  return nutrient.trim().toLowerCase();
+}
+
+/**
+ * Collect the candidates for one category. Required categories throw when
+ * nothing is left; optional ones return an empty pool so the slot is skipped.
+ */
+function buildPool(
+  foods: CatalogFood[],
+  category: FoodCategory,
+  options: Omit<GeneratorOptions, 'days'>,
+  required = true
+): CategoryPool {
+  const pantryOnly = options.pantry?.mode === 'only';
+  const allowed = foods.filter(
+    food =>
+      food.category === category &&
+      food.isActive !== false &&
+      isAllowed(food, options)
+  );
+  const stocked = stockedFoods(foods, options.pantry);
+  const candidates = pantryOnly
+    ? allowed.filter(food => stocked.has(food.id))
+    : allowed;
+
+  // Honor seasonality when the catalog has enough in-season choices,
+  // otherwise widen to everything rather than fail. Stocked foods are
+  // already at hand, so they are always in season.
+  const inSeason = options.season
+    ? candidates.filter(
+        food =>
+          !food.seasonality ||
+          food.seasonality === 'year-round' ||
+          food.seasonality === options.season ||
+          stocked.has(food.id)
+      )
+    : candidates;
+
+  const pool = inSeason.length > 0 ? inSeason : candidates;
+  if (pool.length === 0 && required) {
+    throw new GeneratorError(
+      pantryOnly
+        ? `The pantry has no ${category} that satisfy the requested dietary restrictions and allergies`
+        : `No ${category} in the catalog satisfy the requested dietary restrictions and allergies`
+    );
+  }
+
+  return {
+    category,
+    // Stable order so the seed alone decides the outcome
+    foods: [...pool].sort((a, b) => a.name.localeCompare(b.name)),
+    requested: new Set(
+      (options.requested?.[category] ?? []).map(name =>
+        name.trim().toLowerCase()
+      )
+    ),
+    stocked,
+  };
+}
+
+/**
+ * Score a candidate for today's plate. Nutrients new to the plate count most,
+ * nutrients not yet covered this week add a bit more, pantry items and
+ * especially those about to expire are favored, and the random jitter keeps
+ * different seeds from converging on the same week.
+ */
+function scoreFood(
+  food: CatalogFood,
+  pool: CategoryPool,
+  plateNutrients: Set<string>,
+  weekNutrients: Set<string>,
+  options: Omit<GeneratorOptions, 'days'>,
+  random: () => number
+): number {
+  let score = 0;
+
+  for (const nutrient of food.nutrients.map(normalizeNutrient)) {
+    if (!plateNutrients.has(nutrient)) score += 1;
+    if (!weekNutrients.has(nutrient)) score += 0.5;
+  }
+
+  if (pool.requested.has(food.name.toLowerCase())) score += 3;
+  if (options.season && food.seasonality === options.season) score += 1;
+
+  if (
+    pool.category === 'grains' &&
+    options.dietaryRestrictions?.some(r => CARB_SENSITIVE.includes(r))
+  ) {
+    score -= (food.carbsPer100g ?? 0) / 20;
+  }
+
+  if (options.goal) score += scoreGoal(food, options.goal);
+
+  const stock = pool.stocked.get(food.id);
+  if (stock) score += pantryScore(stock);
+
+  return score + random() * 0.75;
+}
+
+/**
+ * Extra score toward a nutrition goal: target nutrients count like a
+ * requested food, and the macro balance per 100g adds up to 2 more
+ */
+function scoreGoal(food: CatalogFood, goal: GoalTargets): number {
+  const targets = new Set(goal.targetNutrients.map(normalizeNutrient));
+  const matches = food.nutrients.filter(nutrient =>
+    targets.has(normalizeNutrient(nutrient))
+  ).length;
+
+  const fit = macroFit(
+    {
+      calories: food.caloriesPer100g ?? 0,
+      protein: food.proteinPer100g ?? 0,
+      carbs: food.carbsPer100g ?? 0,
+      fat: food.fatPer100g ?? 0,
+      fiber: food.fiberPer100g ?? 0,
+    },
+    goal
+  );
+
+  return matches * 1.5 + (fit ?? 0) * 2;
+}
+
+/**
+ * Pick the best candidate, preferring foods that have been used the fewest
+ * times this week so ingredients only repeat once a category is exhausted
+ */
+function pickFood(
+  pool: CategoryPool,
+  usage: Map<string, number>,
+  exclude: Set<string>,
+  plateNutrients: Set<string>,
+  weekNutrients: Set<string>,
+  options: Omit<GeneratorOptions, 'days'>,
+  random: () => number
+): CatalogFood | undefined {
+  const available = pool.foods.filter(food => !exclude.has(food.name));
+  if (available.length === 0) return undefined;
+
+  const leastUsed = Math.min(
+    ...available.map(food => usage.get(food.name) ?? 0)
+  );
+
+  let best: CatalogFood | undefined;
+  let bestScore = -Infinity;
+  for (const food of available) {
+    if ((usage.get(food.name) ?? 0) !== leastUsed) continue;
+
+    const score = scoreFood(
+      food,
+      pool,
+      plateNutrients,
+      weekNutrients,
+      options,
+      random
+    );
+    if (score > bestScore) {
+      best = food;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+function toIngredient(
+  food: CatalogFood,
+  category: PlateCategory,
+  quantity = DEFAULT_QUANTITIES[category]
+): CombinationIngredient {
+  return { name: food.name, quantity };
+}
+
+function describePreparation(
+  method: 'Toast' | 'Cook',
+  grain: string,
+  produce: string,
+  skill?: GeneratorOptions['cookingSkill']
+): string {
+  if (skill === 'beginner') {
+    return method === 'Toast'
+      ? `Toast the ${grain} until golden, then top with ${produce}, washed and sliced`
+      : `Cook the ${grain} following the package directions and let it cool slightly, then toss with ${produce}, washed and chopped`;
+  }
+  if (skill === 'advanced') {
+    return `${method} the ${grain}, then toss with ${produce} and finish with a bright citrus vinaigrette`;
+  }
+  return `${method} the ${grain}, then toss with ${produce}`;
+}
+
+function describeBenefits(foods: CatalogFood[], nutrients: string[]): string {
+  const benefits = Array.from(
+    new Set(foods.flatMap(food => food.benefits.slice(0, 1)))
+  );
+
+  const coverage = nutrients.length
+    ? `Covers ${nutrients.slice(0, 5).join(', ')}`
+    : 'Balanced fruit, vegetable and grain plate';
+
+  return benefits.length
+    ? `${coverage} to support ${benefits.join(', ')}`
+    : coverage;
+}
+
+type PlatePools = Record<PlateCategory, CategoryPool>;
+
+interface WeekState {
+  usage: Map<string, number>;
+  weekNutrients: Set<string>;
+}
+
+// What a regenerated day starts from: the ingredients that stay, the
+// categories that get new picks and the names to avoid picking again
+interface PlateSeed {
+  kept: Record<PlateCategory, CombinationIngredient[]>;
+  fill: PlateCategory[];
+  avoid: Set<string>;
+}
+
+function buildPlatePools(
+  foods: CatalogFood[],
+  options: Omit<GeneratorOptions, 'days'>
+): PlatePools {
+  return {
+    fruits: buildPool(foods, 'fruits', options),
+    vegetables: buildPool(foods, 'vegetables', options),
+    grains: buildPool(foods, 'grains', options),
+  };
+}
+
+/**
+ * Look up a kept ingredient in the catalog. Ingredients that have since left
+ * the catalog still need a record for naming, so synthesize a bare one.
+ */
+function resolveFood(
+  foods: CatalogFood[],
+  ingredient: CombinationIngredient,
+  category: PlateCategory
+): CatalogFood {
+  const name = ingredient.name.trim().toLowerCase();
+  return (
+    foods.find(
+      food => food.category === category && food.name.toLowerCase() === name
+    ) ?? {
+      id: '',
+      name: ingredient.name,
+      category,
+      nutrients: [],
+      benefits: [],
+      isActive: true,
+    }
+  );
+}
+
+/**
+ * Fill one day's plate. Without a seed every category is picked fresh;
+ * with one, kept ingredients stay (with their quantities) and only the
+ * categories in `fill` get new picks.
+ */
+function fillPlate(
+  day: Weekday,
+  foods: CatalogFood[],
+  pools: PlatePools,
+  week: WeekState,
+  options: Omit<GeneratorOptions, 'days'>,
+  random: () => number,
+  seed?: PlateSeed
+): Combination {
+  const { usage, weekNutrients } = week;
+  const quantities = new Map<string, string>();
+  const plate: Record<PlateCategory, CatalogFood[]> = {
+    fruits: [],
+    vegetables: [],
+    grains: [],
+  };
+  const plateNutrients = new Set<string>();
+
+  const place = (category: PlateCategory, food: CatalogFood) => {
+    plate[category].push(food);
+    food.nutrients
+      .map(normalizeNutrient)
+      .forEach(nutrient => plateNutrients.add(nutrient));
+  };
+
+  PLATE_CATEGORIES.forEach(category =>
+    seed?.kept[category].forEach(ingredient => {
+      const food = resolveFood(foods, ingredient, category);
+      quantities.set(food.name, ingredient.quantity);
+      place(category, food);
+    })
+  );
+
+  const add = (category: PlateCategory): boolean => {
+    const pool = pools[category];
+    const onPlate = plate[category].map(item => item.name);
+    const pick = (exclude: string[]) =>
+      pickFood(
+        pool,
+        usage,
+        new Set(exclude),
+        plateNutrients,
+        weekNutrients,
+        options,
+        random
+      );
+    // Replaced ingredients only come back when nothing else is left
+    const food =
+      pick([...onPlate, ...(seed?.avoid ?? [])]) ??
+      (seed ? pick(onPlate) : undefined);
+    if (!food) return false;
+
+    place(category, food);
+    usage.set(food.name, (usage.get(food.name) ?? 0) + 1);
+    return true;
+  };
+
+  const fill = seed?.fill ?? PLATE_CATEGORIES;
+  (['grains', 'fruits', 'vegetables'] as const).forEach(category => {
+    if (plate[category].length === 0) add(category);
+  });
+
+  // A second fruit or vegetable on roughly half the days, but only while
+  // unused ones remain so extras never cause repeats later in the week
+  const hasUnused = (category: PlateCategory) =>
+    pools[category].foods.some(food => !usage.has(food.name));
+  const addExtra = (category: PlateCategory) => {
+    if (
+      fill.includes(category) &&
+      plate[category].length < 2 &&
+      options.mealPrepTime !== 'quick' &&
+      random() < 0.5 &&
+      hasUnused(category)
+    ) {
+      add(category);
+    }
+  };
+  addExtra('fruits');
+  addExtra('vegetables');
+
+  plateNutrients.forEach(nutrient => weekNutrients.add(nutrient));
+
+  const [fruit] = plate.fruits;
+  const [vegetable] = plate.vegetables;
+  const [grain] = plate.grains;
+  const prefix = NAME_PREFIXES[Math.floor(random() * NAME_PREFIXES.length)];
+  const suffix = NAME_SUFFIXES[Math.floor(random() * NAME_SUFFIXES.length)];
+  const method = /bread|toast/i.test(grain.name) ? 'Toast' : 'Cook';
+  const produce = [...plate.vegetables, ...plate.fruits]
+    .map(food => food.name.toLowerCase())
+    .join(', ');
+  const ingredients = (category: PlateCategory) =>
+    plate[category].map(food =>
+      toIngredient(food, category, quantities.get(food.name))
+    );
+
+  return {
+    day,
+    name: `${prefix} ${fruit.name} & ${vegetable.name} ${suffix}`,
+    fruits: ingredients('fruits'),
+    vegetables: ingredients('vegetables'),
+    grains: ingredients('grains').slice(0, 1),
+    benefits: describeBenefits(
+      [fruit, vegetable, grain],
+      Array.from(plateNutrients)
+    ),
+    preparation: describePreparation(
+      method,
+      grain.name.toLowerCase(),
+      produce,
+      options.cookingSkill
+    ),
+  };
+}
+
+/**
+ * Build a week of combinations from catalog data. Each day gets 1-2 fruits,
+ * 1-2 vegetables and one grain chosen for nutrient coverage, season and
+ * dietary restrictions. The same catalog, options and seed always produce
+ * the same week.
+ */
+export function generateCombinations(
+  foods: CatalogFood[],
+  options: GeneratorOptions
+): Combination[] {
+  const random = createRandom(options.seed);
+  const days = WEEKDAYS.slice(0, options.days ?? WEEKDAYS.length);
+  const pools = buildPlatePools(foods, options);
+  const week: WeekState = { usage: new Map(), weekNutrients: new Set() };
+
+  return days.map(day => fillPlate(day, foods, pools, week, options, random));
+}
+
+/**
+ * Regenerate the targeted days of an existing week. Everything that stays in
+ * the plan counts as already used, so new picks avoid repeating it, and the
+ * ingredients being replaced are only picked again as a last resort. Returns
+ * just the regenerated days; see `applyRegeneration` to merge them back.
+ */
+export function regenerateCombinations(
+  foods: CatalogFood[],
+  regeneration: Regeneration,
+  options: Omit<GeneratorOptions, 'days'>
+): Combination[] {
+  const random = createRandom(options.seed);
+  const pools = buildPlatePools(foods, options);
+  const week: WeekState = { usage: new Map(), weekNutrients: new Set() };
+
+  const seeds = new Map<Weekday, PlateSeed>();
+  for (const combination of regeneration.current) {
+    const target = regeneration.targets.find(t => t.day === combination.day);
+    const kept = {
+      fruits: keptIngredients(regeneration, combination, 'fruits'),
+      vegetables: keptIngredients(regeneration, combination, 'vegetables'),
+      grains: keptIngredients(regeneration, combination, 'grains'),
+    };
+
+    PLATE_CATEGORIES.forEach(category =>
+      kept[category].forEach(ingredient => {
+        const food = resolveFood(foods, ingredient, category);
+        week.usage.set(food.name, (week.usage.get(food.name) ?? 0) + 1);
+        food.nutrients
+          .map(normalizeNutrient)
+          .forEach(nutrient => week.weekNutrients.add(nutrient));
+      })
+    );
+
+    if (target) {
+      const fill = PLATE_CATEGORIES.filter(category =>
+        isRegenerated(regeneration, combination.day, category)
+      );
+      const avoid = new Set(
+        fill.flatMap(category =>
+          combination[category]
+            .filter(ingredient => !kept[category].includes(ingredient))
+            .map(ingredient => resolveFood(foods, ingredient, category).name)
+        )
+      );
+      seeds.set(combination.day, { kept, fill, avoid });
+    }
+  }
+
+  return regeneration.current
+    .filter(combination => seeds.has(combination.day))
+    .map(combination =>
+      fillPlate(
+        combination.day,
+        foods,
+        pools,
+        week,
+        options,
+        random,
+        seeds.get(combination.day)
+      )
+    );
+}
+
+// ============================================================================
+// MEAL PLANS
+// ============================================================================
+
+interface MealTemplate {
+  required: FoodCategory[];
+  optional: FoodCategory[];
+  // Used in place of the optional categories when none of them are available
+  substitutes: FoodCategory[];
+  suffixes: string[];
+}
+
+const MEAL_TEMPLATES: Record<MealType, MealTemplate> = {
+  breakfast: {
+    required: ['grains', 'fruits'],
+    optional: ['dairy', 'nuts'],
+    substitutes: [],
+    suffixes: ['Breakfast Bowl', 'Morning Bowl', 'Sunrise Bowl'],
+  },
+  lunch: {
+    required: ['grains', 'vegetables', 'vegetables'],
+    optional: ['proteins', 'herbs'],
+    substitutes: [],
+    suffixes: ['Bowl', 'Salad', 'Plate'],
+  },
+  dinner: {
+    required: ['grains', 'vegetables', 'vegetables'],
+    optional: ['proteins', 'spices'],
+    substitutes: [],
+    suffixes: ['Plate', 'Skillet', 'Supper'],
+  },
+  snack: {
+    required: ['fruits'],
+    optional: ['nuts'],
+    substitutes: ['vegetables'],
+    suffixes: ['Bites', 'Snack Plate', 'Mix'],
+  },
+};
+
+const MEAL_PORTIONS: Record<FoodCategory, { amount: string; unit: string }> = {
+  fruits: { amount: '1', unit: 'cup' },
+  vegetables: { amount: '1', unit: 'cup' },
+  grains: { amount: '1/2', unit: 'cup' },
+  proteins: { amount: '100', unit: 'g' },
+  dairy: { amount: '1', unit: 'cup' },
+  nuts: { amount: '1', unit: 'handful' },
+  herbs: { amount: '1', unit: 'tbsp' },
+  spices: { amount: '1', unit: 'tsp' },
+};
+
+const CHEESES = /cheese|mozzarella|parmesan|feta|brie|camembert/i;
+
+function toMealIngredient(food: CatalogFood): GeneratedMeal['ingredients'][0] {
+  // A cup of cheese is not a serving, so weigh it instead
+  const portion =
+    food.category === 'dairy' && CHEESES.test(food.name)
+      ? { amount: '30', unit: 'g' }
+      : MEAL_PORTIONS[food.category];
+
+  return { name: food.name, ...portion, category: food.category };
+}
+
+function describeFoods(foods: CatalogFood[]): string {
+  const names = foods.map(food => food.name.toLowerCase());
+  return names.length > 1
+    ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`
+    : names.join('');
+}
+
+/**
+ * Write the steps for a meal. Beginners get times and doneness cues,
+ * advanced cooks get the more demanding technique.
+ */
+function writeInstructions(
+  type: MealType,
+  meal: Record<FoodCategory, CatalogFood[]>,
+  skill?: GeneratorOptions['cookingSkill']
+): string[] {
+  const steps: string[] = [];
+  const [grain] = meal.grains;
+  const beginner = skill === 'beginner';
+  const advanced = skill === 'advanced';
+
+  if (grain) {
+    const name = grain.name.toLowerCase();
+    if (/bread|toast/i.test(grain.name)) {
+      steps.push(
+        beginner
+          ? `Toast the ${name} until golden, watching closely so it does not burn`
+          : `Toast the ${name}`
+      );
+    } else {
+      steps.push(
+        beginner
+          ? `Rinse the ${name}, simmer it in plenty of water for about 15 minutes until tender, then drain`
+          : `Cook the ${name} until tender, then drain`
+      );
+    }
+  }
+  if (meal.proteins.length > 0) {
+    const proteins = describeFoods(meal.proteins);
+    steps.push(
+      beginner
+        ? `Season the ${proteins} and cook over medium heat, turning once, until cooked through with no pink in the middle`
+        : advanced
+          ? `Season the ${proteins}, sear in a very hot pan until cooked through and rest for a few minutes`
+          : `Season and cook the ${proteins} until cooked through`
+    );
+  }
+  if (meal.vegetables.length > 0) {
+    const vegetables = describeFoods(meal.vegetables);
+    if (type === 'dinner') {
+      steps.push(
+        beginner
+          ? `Toss the ${vegetables} with a little oil and roast at 200°C (400°F) for 20-25 minutes until golden`
+          : advanced
+            ? `Roast the ${vegetables} at high heat until caramelized at the edges`
+            : `Roast the ${vegetables} until golden`
+      );
+    } else {
+      steps.push(`Wash and chop the ${vegetables}`);
+    }
+  }
+  if (meal.fruits.length > 0) {
+    steps.push(`Wash and slice the ${describeFoods(meal.fruits)}`);
+  }
+
+  const toppings = [...meal.dairy, ...meal.nuts, ...meal.herbs, ...meal.spices];
+  steps.push(
+    toppings.length > 0
+      ? `Combine everything and finish with ${describeFoods(toppings)}`
+      : 'Combine everything and serve'
+  );
+  if (beginner) steps.push('Taste and adjust the seasoning before serving');
+
+  return steps;
+}
+
+function estimateTimes(
+  meal: Record<FoodCategory, CatalogFood[]>,
+  ingredientCount: number
+): Pick<GeneratedMeal, 'preparationTime' | 'cookingTime'> {
+  const [grain] = meal.grains;
+  let cooking = 0;
+  if (grain) cooking += /bread|toast/i.test(grain.name) ? 5 : 15;
+  if (meal.proteins.length > 0) cooking += 10;
+
+  return {
+    preparationTime: `${5 + ingredientCount * 2} minutes`,
+    cookingTime: `${cooking} minutes`,
+  };
+}
+
+interface PlanState {
+  usage: Map<string, number>;
+  planNutrients: Set<string>;
+}
+
+function buildMealPools(
+  foods: CatalogFood[],
+  options: MealGeneratorOptions
+): Map<FoodCategory, CategoryPool> {
+  const templates = options.mealSlots.map(type => MEAL_TEMPLATES[type]);
+
+  const categories = new Set<FoodCategory>(
+    templates.flatMap(template => template.required)
+  );
+  const optionalCategories = new Set<FoodCategory>(
+    templates.flatMap(template => [
+      ...template.optional,
+      ...template.substitutes,
+    ])
+  );
+
+  const pools = new Map<FoodCategory, CategoryPool>();
+  categories.forEach(category =>
+    pools.set(category, buildPool(foods, category, options))
+  );
+  optionalCategories.forEach(category => {
+    if (!pools.has(category)) {
+      pools.set(category, buildPool(foods, category, options, false));
+    }
+  });
+  return pools;
+}
+
+/**
+ * Fill one meal slot from its template. Foods named in `avoid` (those of a
+ * meal being replaced) only come back when nothing else is left.
+ */
+function fillMeal(
+  day: number,
+  type: MealType,
+  pools: Map<FoodCategory, CategoryPool>,
+  plan: PlanState,
+  dayNutrients: Set<string>,
+  options: MealGeneratorOptions,
+  random: () => number,
+  avoid = new Set<string>()
+): GeneratedMeal {
+  const { usage, planNutrients } = plan;
+  const template = MEAL_TEMPLATES[type];
+  const meal: Record<FoodCategory, CatalogFood[]> = {
+    fruits: [],
+    vegetables: [],
+    grains: [],
+    proteins: [],
+    dairy: [],
+    nuts: [],
+    herbs: [],
+    spices: [],
+  };
+  const picked: CatalogFood[] = [];
+
+  const add = (category: FoodCategory): boolean => {
+    const pool = pools.get(category);
+    if (!pool) return false;
+
+    const inMeal = meal[category].map(item => item.name);
+    const pick = (exclude: string[]) =>
+      pickFood(
+        pool,
+        usage,
+        new Set(exclude),
+        dayNutrients,
+        planNutrients,
+        options,
+        random
+      );
+    const food =
+      pick([...inMeal, ...avoid]) ?? (avoid.size ? pick(inMeal) : undefined);
+    if (!food) return false;
+
+    meal[category].push(food);
+    picked.push(food);
+    usage.set(food.name, (usage.get(food.name) ?? 0) + 1);
+    food.nutrients
+      .map(normalizeNutrient)
+      .forEach(nutrient => dayNutrients.add(nutrient));
+    return true;
+  };
+
+  template.required.forEach(add);
+  // Quick meals stick to the required categories
+  if (options.mealPrepTime !== 'quick') {
+    const optionalAdded = template.optional.filter(add).length;
+    if (optionalAdded === 0) template.substitutes.forEach(add);
+  }
+
+  const [first, second] = picked;
+  const suffix =
+    template.suffixes[Math.floor(random() * template.suffixes.length)];
+  const ingredients = picked.map(toMealIngredient);
+
+  return {
+    day,
+    type,
+    name: second
+      ? `${first.name} & ${second.name} ${suffix}`
+      : `${first.name} ${suffix}`,
+    ingredients,
+    instructions: writeInstructions(type, meal, options.cookingSkill),
+    ...estimateTimes(meal, ingredients.length),
+  };
+}
+
+/**
+ * Build a multi-day meal plan from catalog data, filling every requested slot
+ * from a per-slot template. Foods rotate across the whole plan the same way
+ * combinations rotate across a week, and the same seed reproduces the plan.
+ */
+export function generateMeals(
+  foods: CatalogFood[],
+  options: MealGeneratorOptions
+): GeneratedMeal[] {
+  const random = createRandom(options.seed);
+  const pools = buildMealPools(foods, options);
+  const plan: PlanState = { usage: new Map(), planNutrients: new Set() };
+  const meals: GeneratedMeal[] = [];
+
+  for (let day = 1; day <= options.days; day++) {
+    const dayNutrients = new Set<string>();
+
+    for (const type of options.mealSlots) {
+      meals.push(
+        fillMeal(day, type, pools, plan, dayNutrients, options, random)
+      );
+    }
+
+    dayNutrients.forEach(nutrient => plan.planNutrients.add(nutrient));
+  }
+
+  return meals;
+}
+
+/**
+ * Replace the targeted meals of an existing plan. The kept meals count
+ * towards ingredient rotation and nutrient coverage, so replacements favour
+ * foods the rest of the plan lacks. Returns only the new meals.
+ */
+export function regenerateMeals(
+  foods: CatalogFood[],
+  regeneration: MealRegeneration,
+  options: MealGeneratorOptions
+): GeneratedMeal[] {
+  const random = createRandom(options.seed);
+  const pools = buildMealPools(foods, options);
+  const plan: PlanState = { usage: new Map(), planNutrients: new Set() };
+  const dayNutrients = new Map<number, Set<string>>();
+  const catalogFood = (name: string) =>
+    foods.find(food => food.name.toLowerCase() === name.trim().toLowerCase());
+
+  for (const meal of regeneration.current) {
+    if (isRegeneratedMeal(regeneration, meal)) continue;
+
+    const nutrients = dayNutrients.get(meal.day) ?? new Set<string>();
+    dayNutrients.set(meal.day, nutrients);
+    meal.ingredients.forEach(ingredient => {
+      const food = catalogFood(ingredient.name);
+      if (!food) return;
+
+      plan.usage.set(food.name, (plan.usage.get(food.name) ?? 0) + 1);
+      food.nutrients.map(normalizeNutrient).forEach(nutrient => {
+        nutrients.add(nutrient);
+        plan.planNutrients.add(nutrient);
+      });
+    });
+  }
+
+  return regeneration.current
+    .filter(meal => isRegeneratedMeal(regeneration, meal))
+    .map(meal =>
+      fillMeal(
+        meal.day,
+        meal.type,
+        pools,
+        plan,
+        new Set(dayNutrients.get(meal.day)),
+        options,
+        random,
+        new Set(
+          meal.ingredients.map(
+            ingredient => catalogFood(ingredient.name)?.name ?? ingredient.name
+          )
+        )
+      )
+    );
+}
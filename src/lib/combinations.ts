@@ -0,0 +1,262 @@
+import { z } from 'zod';
+import {
+  CombinationIngredientSchema,
+  CombinationListSchema,
+  CombinationSchema,
+  PlateCategorySchema,
+  RegenerationSchema,
+  WeekdaySchema,
+} from '@/lib/validation/schemas';
+import type { CatalogFood } from '@/lib/combinationGenerator';
+import type { SavedCombination } from '@/lib/database';
+import {
+  CombinationNutrition,
+  matchFoodGroup,
+  parseIngredientText,
+} from '@/lib/nutrition';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type Weekday = z.infer<typeof WeekdaySchema>;
+export type CombinationIngredient = z.infer<typeof CombinationIngredientSchema>;
+export type Combination = z.infer<typeof CombinationSchema>;
+export type PlateCategory = z.infer<typeof PlateCategorySchema>;
+export type Regeneration = z.infer<typeof RegenerationSchema>;
+export type RegenerationTarget = Regeneration['targets'][number];
+export type IngredientLock = Regeneration['locks'][number];
+
+// Combinations as returned by the API, with nutrition computed server-side
+export type CombinationWithNutrition = Combination & {
+  nutrition?: CombinationNutrition;
+};
+
+export const WEEKDAYS: readonly Weekday[] = WeekdaySchema.options;
+export const PLATE_CATEGORIES: readonly PlateCategory[] =
+  PlateCategorySchema.options;
+
+export type CombinationParseResult =
+  | { success: true; combinations: Combination[] }
+  | { success: false; error: string };
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Extract the JSON payload from a model response. Models occasionally wrap
+ * JSON in markdown fences or add a sentence before it, so we fall back to the
+ * outermost object/array in the text.
+ */
+export function extractJson(text: string): string {
+  const trimmed = text.trim();
+
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) {
+    return fenced[1].trim();
+  }
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    return trimmed;
+  }
+
+  const start = trimmed.search(/[[{]/);
+  const end = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'));
+  if (start !== -1 && end > start) {
+    return trimmed.slice(start, end + 1);
+  }
+
+  return trimmed;
+}
+
+/**
+ * Format Zod issues into a short message that can be fed back to the model
+ */
+export function formatSchemaIssues(issues: z.ZodError['issues']): string {
+  return issues
+    .slice(0, 10)
+    .map(issue => {
+      const path = issue.path.join('.');
+      return path ? `${path}: ${issue.message}` : issue.message;
+    })
+    .join('; ');
+}
+
+/**
+ * Parse and validate a model response against the combination schema.
+ * Accepts either `{ "combinations": [...] }` or a bare array.
+ */
+export function parseCombinationsResponse(
+  text: string,
+  expectedCount?: number
+): CombinationParseResult {
+  let payload: unknown;
+
+  try {
+    payload = JSON.parse(extractJson(text));
+  } catch (error) {
+    return {
+      success: false,
+      error: `Response is not valid JSON: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+    };
+  }
+
+  if (Array.isArray(payload)) {
+    payload = { combinations: payload };
+  }
+
+  const validation = CombinationListSchema.safeParse(payload);
+  if (!validation.success) {
+    return {
+      success: false,
+      error: formatSchemaIssues(validation.error.issues),
+    };
+  }
+
+  const { combinations } = validation.data;
+  if (expectedCount !== undefined && combinations.length !== expectedCount) {
+    return {
+      success: false,
+      error: `Expected ${expectedCount} combinations but received ${combinations.length}`,
+    };
+  }
+
+  return { success: true, combinations };
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+export function formatIngredient(ingredient: CombinationIngredient): string {
+  return `${ingredient.quantity} ${ingredient.name}`;
+}
+
+export function formatIngredients(
+  ingredients: CombinationIngredient[]
+): string {
+  return ingredients.map(formatIngredient).join(', ');
+}
+
+// ============================================================================
+// REGENERATION
+// ============================================================================
+
+const sameName = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Whether a category of a day is replaced by a regeneration. Days without a
+ * target, and categories a target does not list, are kept as they are.
+ */
+export function isRegenerated(
+  regeneration: Pick<Regeneration, 'targets'>,
+  day: Weekday,
+  category: PlateCategory
+): boolean {
+  const target = regeneration.targets.find(entry => entry.day === day);
+  return Boolean(
+    target && (!target.categories || target.categories.includes(category))
+  );
+}
+
+/**
+ * The ingredients of a category that survive a regeneration: everything when
+ * the category is not regenerated, otherwise only the locked ones
+ */
+export function keptIngredients(
+  regeneration: Pick<Regeneration, 'targets' | 'locks'>,
+  combination: Combination,
+  category: PlateCategory
+): CombinationIngredient[] {
+  const ingredients = combination[category];
+  if (!isRegenerated(regeneration, combination.day, category)) {
+    return ingredients;
+  }
+
+  return ingredients.filter(ingredient =>
+    regeneration.locks.some(
+      lock =>
+        lock.day === combination.day &&
+        lock.category === category &&
+        sameName(lock.name, ingredient.name)
+    )
+  );
+}
+
+/**
+ * Merge regenerated days into the current week. Kept and locked ingredients
+ * always win over what the provider returned, so locks hold even when a model
+ * ignores them. Returns null if a target day is missing from `regenerated`.
+ */
+export function applyRegeneration(
+  regeneration: Regeneration,
+  regenerated: Combination[]
+): Combination[] | null {
+  const byDay = new Map(regenerated.map(c => [c.day, c]));
+  if (!regeneration.targets.every(target => byDay.has(target.day))) {
+    return null;
+  }
+
+  return regeneration.current.map(combination => {
+    const replacement = byDay.get(combination.day);
+    if (
+      !replacement ||
+      !regeneration.targets.some(t => t.day === combination.day)
+    ) {
+      return combination;
+    }
+
+    const merged = { ...replacement, day: combination.day };
+    for (const category of PLATE_CATEGORIES) {
+      const kept = keptIngredients(regeneration, combination, category);
+      const limit = category === 'grains' ? 1 : 2;
+      const fresh = isRegenerated(regeneration, combination.day, category)
+        ? replacement[category].filter(
+            ingredient => !kept.some(k => sameName(k.name, ingredient.name))
+          )
+        : [];
+      merged[category] = [...kept, ...fresh].slice(0, limit);
+    }
+
+    return merged;
+  });
+}
+
+// ============================================================================
+// SAVED COMBINATIONS
+// ============================================================================
+
+// A saved combination with the ingredients that need attention
+export type FlaggedCombination = SavedCombination & {
+  inactiveIngredients: string[];
+};
+
+const SAVED_CATEGORIES = [
+  ...PLATE_CATEGORIES,
+  'proteins',
+  'dairy',
+  'nuts',
+  'herbs',
+  'spices',
+] as const;
+
+/**
+ * The ingredients of a saved combination whose catalog food has been
+ * deactivated. Ingredients are matched against the whole catalog, so one that
+ * matches an inactive food is flagged rather than matched to another food.
+ */
+export function inactiveIngredients(
+  combination: SavedCombination,
+  foods: CatalogFood[]
+): string[] {
+  return SAVED_CATEGORIES.flatMap(
+    category => combination[category] ?? []
+  ).filter(
+    text =>
+      matchFoodGroup(parseIngredientText(text).name, foods)?.isActive === false
+  );
+}
@@ -1,14 +1,11 @@
 // Application constants to reduce magic numbers and improve maintainability
 
 export const AI_CONSTANTS = {
-  TIMEOUTS: {
-    FLASH_MODEL: 10000, // 10 seconds
-    PRO_MODEL: 15000, // 15 seconds
-  },
   COMBINATIONS: {
     TARGET_COUNT: 10,
     MIN_TEXT_LENGTH: 10,
     MAX_DISPLAY_LENGTH: 500,
+    SCHEMA_RETRIES: 2, // extra attempts per model when JSON fails validation
   },
   DELAYS: {
     RECYCLE_ANIMATION: 500, // 500ms
@@ -0,0 +1,130 @@
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// One record, with the line it starts on (quoted fields may span lines)
+export interface CsvRecord {
+  line: number; // 1-based
+  values: string[];
+}
+
+export interface CsvError {
+  line: number; // 1-based, where the record starts
+  column: number; // 1-based field index
+  message: string;
+}
+
+export interface CsvParseResult {
+  records: CsvRecord[];
+  errors: CsvError[];
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Parse CSV text following RFC 4180: fields may be quoted, quotes inside a
+ * quoted field are doubled, and quoted fields may contain commas and line
+ * breaks. CRLF, LF and lone CR line endings are all accepted, a leading byte
+ * order mark is dropped and blank lines are skipped.
+ *
+ * Parsing is lenient so one bad record does not hide the rest: a stray quote
+ * in an unquoted field or text after a closing quote is reported and kept as
+ * written, and an unterminated quote swallows the rest of the file into
+ * its field. Errors point at the line where the affected record starts.
+ */
+export function parseCsv(text: string, delimiter = ','): CsvParseResult {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const records: CsvRecord[] = [];
+  const errors: CsvError[] = [];
+
+  let values: string[] = [];
+  let field = '';
+  let quoted = false; // inside a quoted field
+  let wasQuoted = false; // the current field started with a quote
+  let closed = false; // a quoted field just closed
+  let line = 1;
+  let recordLine = 1;
+
+  const report = (message: string) =>
+    errors.push({ line: recordLine, column: values.length + 1, message });
+
+  const endField = () => {
+    values.push(field);
+    field = '';
+    wasQuoted = false;
+    closed = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    // A line with nothing on it is not a record
+    if (values.length > 1 || values[0] !== '') {
+      records.push({ line: recordLine, values });
+    }
+    values = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+        closed = true;
+      } else {
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        field += char;
+      }
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else if (char === '"' && field === '' && !wasQuoted) {
+      quoted = true;
+      wasQuoted = true;
+    } else {
+      if (closed) {
+        report('Unexpected text after a closing quote');
+        closed = false;
+      } else if (char === '"') {
+        report('Unexpected quote; quotes inside a field must be doubled');
+      }
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    report('Unterminated quoted field');
+  }
+  if (field !== '' || values.length > 0 || wasQuoted) {
+    endRecord();
+  }
+
+  return { records, errors };
+}
+
+// ============================================================================
+// WRITING
+// ============================================================================
+
+/**
+ * Write rows as RFC 4180 CSV with CRLF line endings, quoting only the fields
+ * that need it
+ */
+export function formatCsv(rows: string[][], delimiter = ','): string {
+  const field = (value: string) =>
+    value.includes(delimiter) || /["\r\n]/.test(value)
+      ? `"${value.replace(/"/g, '""')}"`
+      : value;
+  return rows
+    .map(row => row.map(field).join(delimiter).concat('\r\n'))
+    .join('');
+}
@@ -7,14 +7,43 @@ import {
   addDoc,
   updateDoc,
   deleteDoc,
+  deleteField,
   query,
   where,
   orderBy,
   serverTimestamp,
   Timestamp,
+  writeBatch,
+  WriteBatch,
 } from 'firebase/firestore';
 import { db } from './firebase';
 import { performanceMonitor } from '@/lib/monitoring';
+import { createCatalogSearch, RankedFood } from '@/lib/foodSearch';
+import type { FoodGroupPage, FoodGroupQuery } from '@/lib/foodQuery';
+import type { Micronutrients } from '@/lib/nutrition/dailyValues';
+import type { Allergen, AnimalSource } from '@/lib/dietary';
+import type { MealPlan, MealPlanContent, MealType } from '@/lib/mealPlans';
+import type {
+  GenerationRecord,
+  GenerationRecordInput,
+} from '@/lib/generationHistory';
+import type { ValidatedAdminAction } from '@/lib/validation/schemas';
+import type {
+  AdminRepository,
+  DatabaseBackend,
+  FoodGroupAuditRepository,
+  FoodGroupRepository,
+  FoodLogRepository,
+  GenerationHistoryRepository,
+  MealPlanRepository,
+  NutritionGoalsRepository,
+  PantryRepository,
+  Repositories,
+  SavedCombinationInput,
+  SavedCombinationsRepository,
+  ShoppingListRepository,
+  UserPreferencesRepository,
+} from '@/lib/repositories/types';
 
 // ============================================================================
 // TYPES AND INTERFACES
@@ -42,11 +71,65 @@ export interface FoodGroup {
   carbsPer100g?: number;
   fatPer100g?: number;
   fiberPer100g?: number;
+  micronutrients?: Micronutrients; // mg/µg per 100g, see REFERENCE_INTAKES
+  // Diet attributes; when unset they are inferred, see getDietAttributes
+  allergens?: Allergen[];
+  containsGluten?: boolean;
+  animalDerived?: AnimalSource;
+  portions?: FoodPortion[]; // household measures, e.g. "1 cup, sliced"
+  fdcId?: number; // USDA FoodData Central source, for imported foods
   isActive: boolean;
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
 
+export interface FoodPortion {
+  description: string;
+  grams: number;
+}
+
+export type FoodGroupInput = Omit<FoodGroup, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface FoodGroupQueryOptions {
+  includeInactive?: boolean; // deactivated foods are for admins only
+}
+
+// Catalog writes committed together, see foodGroupOperations.commitBatch
+export interface FoodGroupBatch {
+  create: FoodGroupInput[];
+  update: { id: string; updates: Partial<FoodGroupInput> }[];
+  deactivate: string[]; // IDs
+}
+
+// Who changed the catalog and why, recorded with every catalog write
+export interface AuditContext {
+  actor: string; // user ID, or SYSTEM_ACTOR for seeding
+  reason?: string;
+}
+
+export type FoodGroupAuditAction =
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'restore'
+  | 'import'
+  | 'revert';
+
+// A food's fields at one point in its history
+export type FoodGroupSnapshot = FoodGroupInput;
+
+// One change to one food; `before` is null when it was created
+export interface FoodGroupAuditEntry {
+  id: string;
+  foodGroupId: string;
+  action: FoodGroupAuditAction;
+  actor: string;
+  reason?: string;
+  before: FoodGroupSnapshot | null;
+  after: FoodGroupSnapshot;
+  createdAt: string;
+}
+
 export interface UserPreferences {
   userId: string;
   dietaryRestrictions: string[];
@@ -101,27 +184,84 @@ export interface NutritionGoal {
   targetCarbs?: number;
   targetFat?: number;
   targetFiber?: number;
-  isActive: boolean;
-  createdAt: Timestamp;
-  updatedAt: Timestamp;
+  isActive: boolean; // at most one goal per user is active
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NutritionGoalInput = Omit<
+  NutritionGoal,
+  'id' | 'userId' | 'createdAt' | 'updatedAt'
+>;
+
+// A diary entry references either a catalog food or a saved combination
+export interface FoodLogEntry {
+  id: string;
+  userId: string;
+  date: string; // YYYY-MM-DD, the user's local day
+  mealSlot: MealType;
+  foodGroupId?: string;
+  combinationId?: string;
+  name: string; // kept so entries still read well if the source is deleted
+  quantity: string; // "150g" for foods, servings such as "1/2" for combinations
+  createdAt: string;
+}
+
+export type FoodLogEntryInput = Omit<FoodLogEntry, 'id' | 'createdAt'>;
+
+// Checked-off items of one shopping list, e.g. `plan:abc123`
+export interface ShoppingListState {
+  userId: string;
+  listKey: string;
+  checked: string[]; // item keys
+  updatedAt: string;
 }
 
+// Something the user has at home, for pantry-driven generation
+export interface PantryItem {
+  id: string;
+  userId: string;
+  name: string;
+  foodGroupId?: string; // set when picked from the catalog
+  quantity: string; // free text such as "500g" or "2 bunches"
+  expiresOn?: string; // YYYY-MM-DD
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PantryItemInput = Omit<
+  PantryItem,
+  'id' | 'userId' | 'createdAt' | 'updatedAt'
+>;
+
+// An admin request, logged once the caller was confirmed as an admin
+export interface AdminActionLogEntry extends ValidatedAdminAction {
+  id: string;
+  actor: string; // the admin's uid
+  createdAt: string;
+}
+
+export type AdminActionLogInput = Omit<AdminActionLogEntry, 'id' | 'createdAt'>;
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
 
+// Whether the environment names a Firebase project to connect to
+export const hasFirebaseConfig = () =>
+  Boolean(
+    process.env.NEXT_PUBLIC_FIREBASE_API_KEY ||
+      process.env.FIREBASE_API_KEY ||
+      process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN ||
+      process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID
+  );
+
 // Check if database is available
 const checkDb = () => {
   // Check if we're in a server environment and have the necessary Firebase config
   if (typeof window === 'undefined') {
     // Server-side: check for Firebase config
-    const hasFirebaseConfig =
-      process.env.NEXT_PUBLIC_FIREBASE_API_KEY ||
-      process.env.FIREBASE_API_KEY ||
-      process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN ||
-      process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
-
-    if (!hasFirebaseConfig) {
+    if (!hasFirebaseConfig()) {
       console.error('[database] Missing Firebase configuration on server');
       throw new Error(
         'Database not available on server without Firebase configuration'
@@ -140,26 +280,101 @@ const checkDb = () => {
 // FOOD GROUP OPERATIONS
 // ============================================================================
 
-export const foodGroupOperations = {
+// Firestore's limit on writes in one batch
+const MAX_BATCH_WRITES = 500;
+
+// The actor recorded for changes no user made, such as seeding the catalog
+export const SYSTEM_ACTOR = 'system';
+
+// A food's fields without its ID and timestamps. Unset fields are dropped
+// because Firestore rejects undefined values.
+export const toSnapshot = (food: Partial<FoodGroup>): FoodGroupSnapshot =>
+  JSON.parse(
+    JSON.stringify(
+      Object.fromEntries(
+        Object.entries(food).filter(
+          ([key]) => !['id', 'createdAt', 'updatedAt'].includes(key)
+        )
+      )
+    )
+  );
+
+// Every food write is paired with an audit entry in the same batch, so the
+// history never misses a change that was committed
+const writeAuditEntry = (
+  batch: WriteBatch,
+  foodGroupId: string,
+  action: FoodGroupAuditAction,
+  { actor, reason }: AuditContext,
+  before: FoodGroupSnapshot | null,
+  after: FoodGroupSnapshot
+) => {
+  batch.set(doc(collection(checkDb(), 'foodGroupAudit')), {
+    foodGroupId,
+    action,
+    actor,
+    ...(reason ? { reason } : {}),
+    before,
+    after,
+    createdAt: serverTimestamp(),
+  });
+};
+
+// Rebuilt after writes, so the catalog is only loaded again once it changed
+const firestoreCatalogSearch = createCatalogSearch(() =>
+  firestoreFoodGroups.getAll({ includeInactive: true })
+);
+
+// Fields set to undefined are removed
+const toFirestoreUpdates = (updates: Record<string, unknown>) =>
+  Object.fromEntries(
+    Object.entries(updates).map(([key, value]) => [
+      key,
+      value === undefined ? deleteField() : value,
+    ])
+  );
+
+const firestoreFoodGroups: FoodGroupRepository = {
   // Create a new food group
   async create(
-    foodGroup: Omit<FoodGroup, 'id' | 'createdAt' | 'updatedAt'>
+    foodGroup: FoodGroupInput,
+    audit: AuditContext
   ): Promise<string> {
     const database = checkDb();
-    const docRef = await addDoc(collection(database, 'foodGroups'), {
+    const docRef = doc(collection(database, 'foodGroups'));
+    const batch = writeBatch(database);
+    batch.set(docRef, {
       ...foodGroup,
       createdAt: serverTimestamp(),
       updatedAt: serverTimestamp(),
     });
+    writeAuditEntry(
+      batch,
+      docRef.id,
+      'create',
+      audit,
+      null,
+      toSnapshot(foodGroup)
+    );
+    await batch.commit();
+    firestoreCatalogSearch.invalidate();
     return docRef.id;
   },
 
-  // Get all food groups
-  async getAll(): Promise<FoodGroup[]> {
+  // Get all active food groups, or with `includeInactive` deactivated ones
+  // too
+  async getAll({
+    includeInactive = false,
+  }: FoodGroupQueryOptions = {}): Promise<FoodGroup[]> {
     const startTime = Date.now();
     try {
       const database = checkDb();
-      const querySnapshot = await getDocs(collection(database, 'foodGroups'));
+      const foodGroups = collection(database, 'foodGroups');
+      const querySnapshot = await getDocs(
+        includeInactive
+          ? foodGroups
+          : query(foodGroups, where('isActive', '==', true))
+      );
       const results = querySnapshot.docs.map(
         doc =>
           ({
@@ -238,35 +453,119 @@ export const foodGroupOperations = {
     return null;
   },
 
-  // Update food group
-  async update(id: string, updates: Partial<FoodGroup>): Promise<void> {
+  // Update food group. Fields set to undefined are removed.
+  async update(
+    id: string,
+    updates: Partial<FoodGroupInput>,
+    audit: AuditContext,
+    action: FoodGroupAuditAction = 'update'
+  ): Promise<void> {
     const database = checkDb();
-    const docRef = doc(database, 'foodGroups', id);
-    await updateDoc(docRef, {
-      ...updates,
+    const current = await this.getById(id);
+    if (!current) throw new Error(`Food group not found: ${id}`);
+
+    const batch = writeBatch(database);
+    batch.update(doc(database, 'foodGroups', id), {
+      ...toFirestoreUpdates(updates),
       updatedAt: serverTimestamp(),
     });
+    writeAuditEntry(
+      batch,
+      id,
+      action,
+      audit,
+      toSnapshot(current),
+      toSnapshot({ ...current, ...updates })
+    );
+    await batch.commit();
+    firestoreCatalogSearch.invalidate();
   },
 
   // Delete food group (soft delete)
-  async delete(id: string): Promise<void> {
-    await this.update(id, { isActive: false });
+  async delete(id: string, audit: AuditContext): Promise<void> {
+    await this.update(id, { isActive: false }, audit, 'delete');
+  },
+
+  // Restore a soft-deleted food group
+  async restore(id: string, audit: AuditContext): Promise<void> {
+    await this.update(id, { isActive: true }, audit, 'restore');
+  },
+
+  // Create, update and deactivate food groups in batched writes, recorded as
+  // one import. Each batch is atomic, but a large import spans several
+  // batches
+  async commitBatch(
+    { create, update, deactivate }: FoodGroupBatch,
+    audit: AuditContext
+  ): Promise<void> {
+    const database = checkDb();
+    const foodGroups = collection(database, 'foodGroups');
+    const current = new Map(
+      update.length > 0 || deactivate.length > 0
+        ? (await this.getAll({ includeInactive: true })).map(food => [
+            food.id,
+            food,
+          ])
+        : []
+    );
+    const changed = (id: string, updates: Partial<FoodGroupInput>) => {
+      const before = current.get(id);
+      if (!before) throw new Error(`Food group not found: ${id}`);
+      return (batch: WriteBatch) => {
+        batch.update(doc(foodGroups, id), {
+          ...toFirestoreUpdates(updates),
+          updatedAt: serverTimestamp(),
+        });
+        writeAuditEntry(
+          batch,
+          id,
+          'import',
+          audit,
+          toSnapshot(before),
+          toSnapshot({ ...before, ...updates })
+        );
+      };
+    };
+
+    const writes: ((batch: WriteBatch) => void)[] = [
+      ...create.map(foodGroup => (batch: WriteBatch) => {
+        const docRef = doc(foodGroups);
+        batch.set(docRef, {
+          ...foodGroup,
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        });
+        writeAuditEntry(
+          batch,
+          docRef.id,
+          'import',
+          audit,
+          null,
+          toSnapshot(foodGroup)
+        );
+      }),
+      ...update.map(({ id, updates }) => changed(id, updates)),
+      ...deactivate.map(id => changed(id, { isActive: false })),
+    ];
+
+    // Each write is a food and its audit entry
+    const perBatch = MAX_BATCH_WRITES / 2;
+    for (let start = 0; start < writes.length; start += perBatch) {
+      const batch = writeBatch(database);
+      writes.slice(start, start + perBatch).forEach(write => write(batch));
+      await batch.commit();
+      firestoreCatalogSearch.invalidate();
+    }
   },
 
-  // Search food groups by name or nutrients
-  async search(searchTerm: string): Promise<FoodGroup[]> {
+  // Search food names, nutrients and benefits, best match first
+  async search(
+    searchTerm: string,
+    options: FoodGroupQueryOptions = {}
+  ): Promise<RankedFood[]> {
     const startTime = Date.now();
     try {
-      const allGroups = await this.getAll();
-      const term = searchTerm.toLowerCase();
-      const results = allGroups.filter(
-        group =>
-          group.name.toLowerCase().includes(term) ||
-          group.nutrients.some(nutrient =>
-            nutrient.toLowerCase().includes(term)
-          ) ||
-          group.benefits.some(benefit => benefit.toLowerCase().includes(term))
-      );
+      const results = await firestoreCatalogSearch.search(searchTerm, options);
 
       performanceMonitor.recordMetric({
         name: 'database_search_results',
@@ -285,13 +584,64 @@ export const foodGroupOperations = {
       throw error;
     }
   },
+
+  // Filter, sort and page the catalog, with facet counts
+  async query(query: FoodGroupQuery): Promise<FoodGroupPage> {
+    const startTime = Date.now();
+    try {
+      const page = await firestoreCatalogSearch.query(query);
+      performanceMonitor.recordRequestTime(Date.now() - startTime);
+      return page;
+    } catch (error) {
+      performanceMonitor.recordError('database_query', error as Error);
+      throw error;
+    }
+  },
+};
+
+// ============================================================================
+// FOOD GROUP AUDIT OPERATIONS
+// ============================================================================
+
+const toAuditEntry = (
+  id: string,
+  data: Record<string, unknown>
+): FoodGroupAuditEntry =>
+  ({
+    ...data,
+    id,
+    createdAt: toIsoString(data.createdAt),
+  }) as FoodGroupAuditEntry;
+
+// Entries are written by foodGroupOperations, never on their own
+const firestoreFoodGroupAudit: FoodGroupAuditRepository = {
+  // Get a food's history, newest first
+  async getByFoodGroupId(foodGroupId: string): Promise<FoodGroupAuditEntry[]> {
+    const database = checkDb();
+    const q = query(
+      collection(database, 'foodGroupAudit'),
+      where('foodGroupId', '==', foodGroupId)
+      // Sorted in memory to avoid a composite index
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(doc => toAuditEntry(doc.id, doc.data()))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  },
+
+  // Get an audit entry by ID
+  async getById(id: string): Promise<FoodGroupAuditEntry | null> {
+    const database = checkDb();
+    const docSnap = await getDoc(doc(database, 'foodGroupAudit', id));
+    return docSnap.exists() ? toAuditEntry(docSnap.id, docSnap.data()) : null;
+  },
 };
 
 // ============================================================================
 // USER PREFERENCES OPERATIONS
 // ============================================================================
 
-export const userPreferencesOperations = {
+const firestoreUserPreferences: UserPreferencesRepository = {
   // Create or update user preferences
   async upsert(
     userId: string,
@@ -339,11 +689,9 @@ export const userPreferencesOperations = {
 // SAVED COMBINATIONS OPERATIONS
 // ============================================================================
 
-export const savedCombinationsOperations = {
+const firestoreSavedCombinations: SavedCombinationsRepository = {
   // Save a new combination
-  async save(
-    combination: Omit<SavedCombination, 'id' | 'createdAt' | 'updatedAt'>
-  ): Promise<string> {
+  async save(combination: SavedCombinationInput): Promise<string> {
     const database = checkDb();
     const docRef = await addDoc(collection(database, 'savedCombinations'), {
       ...combination,
@@ -396,6 +744,15 @@ export const savedCombinationsOperations = {
     }
   },
 
+  // Get a combination by ID
+  async getById(id: string): Promise<SavedCombination | null> {
+    const database = checkDb();
+    const docSnap = await getDoc(doc(database, 'savedCombinations', id));
+    return docSnap.exists()
+      ? ({ id: docSnap.id, ...docSnap.data() } as SavedCombination)
+      : null;
+  },
+
   // Update combination
   async update(id: string, updates: Partial<SavedCombination>): Promise<void> {
     const database = checkDb();
@@ -420,64 +777,520 @@ export const savedCombinationsOperations = {
 };
 
 // ============================================================================
-// NUTRITION GOALS OPERATIONS
+// MEAL PLAN OPERATIONS
 // ============================================================================
 
-export const nutritionGoalsOperations = {
-  // Create or update nutrition goal
-  async upsert(
-    goal: Omit<NutritionGoal, 'id' | 'createdAt' | 'updatedAt'>
-  ): Promise<string> {
+// Firestore timestamps are exposed as ISO strings to match the MealPlan type
+export const toIsoString = (value: unknown): string =>
+  value instanceof Timestamp
+    ? value.toDate().toISOString()
+    : typeof value === 'string'
+      ? value
+      : new Date().toISOString();
+
+const toMealPlan = (id: string, data: Record<string, unknown>): MealPlan =>
+  ({
+    ...data,
+    id,
+    createdAt: toIsoString(data.createdAt),
+    updatedAt: toIsoString(data.updatedAt),
+  }) as MealPlan;
+
+const firestoreMealPlans: MealPlanRepository = {
+  // Save a new meal plan for a user
+  async save(userId: string, mealPlan: MealPlanContent): Promise<string> {
     const database = checkDb();
-    const docRef = doc(database, 'nutritionGoals', goal.userId);
-    await setDoc(
-      docRef,
-      {
-        ...goal,
-        updatedAt: serverTimestamp(),
-      },
-      { merge: true }
+    const docRef = await addDoc(collection(database, 'mealPlans'), {
+      ...mealPlan,
+      userId,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+    return docRef.id;
+  },
+
+  // Get a user's meal plans, newest first
+  async getByUserId(userId: string): Promise<MealPlan[]> {
+    const database = checkDb();
+    const q = query(
+      collection(database, 'mealPlans'),
+      where('userId', '==', userId)
+      // Sorted in memory to avoid a composite index
     );
-    return goal.userId;
+
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(doc => toMealPlan(doc.id, doc.data()))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  },
+
+  // Get a meal plan by ID
+  async getById(id: string): Promise<MealPlan | null> {
+    const database = checkDb();
+    const docSnap = await getDoc(doc(database, 'mealPlans', id));
+    return docSnap.exists() ? toMealPlan(docSnap.id, docSnap.data()) : null;
+  },
+
+  // Update a meal plan
+  async update(id: string, updates: Partial<MealPlanContent>): Promise<void> {
+    const database = checkDb();
+    await updateDoc(doc(database, 'mealPlans', id), {
+      ...updates,
+      updatedAt: serverTimestamp(),
+    });
+  },
+
+  // Delete a meal plan
+  async delete(id: string): Promise<void> {
+    const database = checkDb();
+    await deleteDoc(doc(database, 'mealPlans', id));
+  },
+};
+
+// ============================================================================
+// GENERATION HISTORY OPERATIONS
+// ============================================================================
+
+const toGenerationRecord = (
+  id: string,
+  data: Record<string, unknown>
+): GenerationRecord =>
+  ({
+    ...data,
+    id,
+    createdAt: toIsoString(data.createdAt),
+  }) as GenerationRecord;
+
+const firestoreGenerationHistory: GenerationHistoryRepository = {
+  // Record a generated plan. Optional fields the generator left unset are
+  // dropped because Firestore rejects undefined values.
+  async save(record: GenerationRecordInput): Promise<string> {
+    const database = checkDb();
+    const docRef = await addDoc(collection(database, 'generations'), {
+      ...JSON.parse(JSON.stringify(record)),
+      createdAt: serverTimestamp(),
+    });
+    return docRef.id;
+  },
+
+  // Get a user's generations, newest first
+  async getByUserId(userId: string): Promise<GenerationRecord[]> {
+    const database = checkDb();
+    const q = query(
+      collection(database, 'generations'),
+      where('userId', '==', userId)
+      // Sorted in memory to avoid a composite index
+    );
+
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(doc => toGenerationRecord(doc.id, doc.data()))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
   },
 
-  // Get user's nutrition goals
+  // Get a generation by ID
+  async getById(id: string): Promise<GenerationRecord | null> {
+    const database = checkDb();
+    const docSnap = await getDoc(doc(database, 'generations', id));
+    return docSnap.exists()
+      ? toGenerationRecord(docSnap.id, docSnap.data())
+      : null;
+  },
+};
+
+// ============================================================================
+// NUTRITION GOALS OPERATIONS
+// ============================================================================
+
+const toNutritionGoal = (
+  id: string,
+  data: Record<string, unknown>
+): NutritionGoal =>
+  ({
+    ...data,
+    id,
+    createdAt: toIsoString(data.createdAt),
+    updatedAt: toIsoString(data.updatedAt),
+  }) as NutritionGoal;
+
+const firestoreNutritionGoals: NutritionGoalsRepository = {
+  // Create a nutrition goal. Unset targets are dropped because Firestore
+  // rejects undefined values.
+  async create(userId: string, goal: NutritionGoalInput): Promise<string> {
+    const database = checkDb();
+    const docRef = await addDoc(collection(database, 'nutritionGoals'), {
+      ...JSON.parse(JSON.stringify(goal)),
+      userId,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+    return docRef.id;
+  },
+
+  // Get a user's nutrition goals, newest first
   async getByUserId(userId: string): Promise<NutritionGoal[]> {
     const database = checkDb();
     const q = query(
       collection(database, 'nutritionGoals'),
-      where('userId', '==', userId),
-      where('isActive', '==', true),
-      orderBy('createdAt', 'desc')
+      where('userId', '==', userId)
+      // Sorted in memory to avoid a composite index
     );
     const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map(
-      doc =>
-        ({
-          id: doc.id,
-          ...doc.data(),
-        }) as NutritionGoal
+    return querySnapshot.docs
+      .map(doc => toNutritionGoal(doc.id, doc.data()))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  },
+
+  // Get the goal generation and the dashboard work towards
+  async getActive(userId: string): Promise<NutritionGoal | null> {
+    const goals = await this.getByUserId(userId);
+    return goals.find(goal => goal.isActive) ?? null;
+  },
+
+  // Get a nutrition goal by ID
+  async getById(id: string): Promise<NutritionGoal | null> {
+    const database = checkDb();
+    const docSnap = await getDoc(doc(database, 'nutritionGoals', id));
+    return docSnap.exists()
+      ? toNutritionGoal(docSnap.id, docSnap.data())
+      : null;
+  },
+
+  // Update a nutrition goal. Fields set to undefined are removed.
+  async update(
+    id: string,
+    updates: Partial<NutritionGoalInput>
+  ): Promise<void> {
+    const database = checkDb();
+    await updateDoc(doc(database, 'nutritionGoals', id), {
+      ...Object.fromEntries(
+        Object.entries(updates).map(([key, value]) => [
+          key,
+          value === undefined ? deleteField() : value,
+        ])
+      ),
+      updatedAt: serverTimestamp(),
+    });
+  },
+
+  // Make one goal the active one, deactivating the user's others
+  async activate(userId: string, id: string): Promise<void> {
+    const goals = await this.getByUserId(userId);
+    await Promise.all(
+      goals
+        .filter(goal => goal.isActive !== (goal.id === id))
+        .map(goal => this.update(goal.id, { isActive: goal.id === id }))
     );
   },
 
-  // Update nutrition goal
-  async update(userId: string, updates: Partial<NutritionGoal>): Promise<void> {
+  // Delete a nutrition goal
+  async delete(id: string): Promise<void> {
     const database = checkDb();
-    const docRef = doc(database, 'nutritionGoals', userId);
-    await updateDoc(docRef, {
-      ...updates,
+    await deleteDoc(doc(database, 'nutritionGoals', id));
+  },
+};
+
+// ============================================================================
+// FOOD LOG OPERATIONS
+// ============================================================================
+
+// Diary order: by day, then by when each entry was logged
+export const foodLogOrder = (a: FoodLogEntry, b: FoodLogEntry) =>
+  a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt);
+
+const toFoodLogEntry = (
+  id: string,
+  data: Record<string, unknown>
+): FoodLogEntry =>
+  ({
+    ...data,
+    id,
+    createdAt: toIsoString(data.createdAt),
+  }) as FoodLogEntry;
+
+const firestoreFoodLog: FoodLogRepository = {
+  // Log something eaten. Unset references are dropped because Firestore
+  // rejects undefined values.
+  async create(entry: FoodLogEntryInput): Promise<string> {
+    const database = checkDb();
+    const docRef = await addDoc(collection(database, 'foodLog'), {
+      ...JSON.parse(JSON.stringify(entry)),
+      createdAt: serverTimestamp(),
+    });
+    return docRef.id;
+  },
+
+  // Get a user's entries between two days (inclusive), oldest first
+  async getByUserId(
+    userId: string,
+    from?: string,
+    to?: string
+  ): Promise<FoodLogEntry[]> {
+    const database = checkDb();
+    const q = query(
+      collection(database, 'foodLog'),
+      where('userId', '==', userId)
+      // Filtered and sorted in memory to avoid a composite index
+    );
+
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(doc => toFoodLogEntry(doc.id, doc.data()))
+      .filter(
+        entry => (!from || entry.date >= from) && (!to || entry.date <= to)
+      )
+      .sort(foodLogOrder);
+  },
+
+  // Get an entry by ID
+  async getById(id: string): Promise<FoodLogEntry | null> {
+    const database = checkDb();
+    const docSnap = await getDoc(doc(database, 'foodLog', id));
+    return docSnap.exists() ? toFoodLogEntry(docSnap.id, docSnap.data()) : null;
+  },
+
+  // Update an entry's day, slot or quantity
+  async update(
+    id: string,
+    updates: Partial<Pick<FoodLogEntry, 'date' | 'mealSlot' | 'quantity'>>
+  ): Promise<void> {
+    const database = checkDb();
+    await updateDoc(doc(database, 'foodLog', id), updates);
+  },
+
+  // Delete an entry
+  async delete(id: string): Promise<void> {
+    const database = checkDb();
+    await deleteDoc(doc(database, 'foodLog', id));
+  },
+};
+
+// ============================================================================
+// SHOPPING LIST OPERATIONS
+// ============================================================================
+
+// One document per user and list, so checking items needs no query
+const shoppingListDoc = (userId: string, listKey: string) =>
+  doc(checkDb(), 'shoppingLists', `${userId}_${listKey}`);
+
+const firestoreShoppingLists: ShoppingListRepository = {
+  // Get the item keys a user has checked off on a list
+  async getChecked(userId: string, listKey: string): Promise<string[]> {
+    const docSnap = await getDoc(shoppingListDoc(userId, listKey));
+    return docSnap.exists()
+      ? ((docSnap.data() as ShoppingListState).checked ?? [])
+      : [];
+  },
+
+  // Replace the checked item keys of a list
+  async setChecked(
+    userId: string,
+    listKey: string,
+    checked: string[]
+  ): Promise<void> {
+    await setDoc(shoppingListDoc(userId, listKey), {
+      userId,
+      listKey,
+      checked,
       updatedAt: serverTimestamp(),
     });
   },
 };
 
+// ============================================================================
+// PANTRY OPERATIONS
+// ============================================================================
+
+const toPantryItem = (id: string, data: Record<string, unknown>): PantryItem =>
+  ({
+    ...data,
+    id,
+    createdAt: toIsoString(data.createdAt),
+    updatedAt: toIsoString(data.updatedAt),
+  }) as PantryItem;
+
+// Undated items sort after every expiry date
+const NO_EXPIRY = '9999-12-31';
+
+// Pantry order: soonest to expire first, then by name
+export const pantryOrder = (a: PantryItem, b: PantryItem) =>
+  (a.expiresOn ?? NO_EXPIRY).localeCompare(b.expiresOn ?? NO_EXPIRY) ||
+  a.name.localeCompare(b.name);
+
+const firestorePantry: PantryRepository = {
+  // Add a pantry item. Unset fields are dropped because Firestore rejects
+  // undefined values.
+  async create(userId: string, item: PantryItemInput): Promise<string> {
+    const database = checkDb();
+    const docRef = await addDoc(collection(database, 'pantry'), {
+      ...JSON.parse(JSON.stringify(item)),
+      userId,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+    return docRef.id;
+  },
+
+  // Get a user's pantry, soonest to expire first
+  async getByUserId(userId: string): Promise<PantryItem[]> {
+    const database = checkDb();
+    const q = query(
+      collection(database, 'pantry'),
+      where('userId', '==', userId)
+      // Sorted in memory to avoid a composite index
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(doc => toPantryItem(doc.id, doc.data()))
+      .sort(pantryOrder);
+  },
+
+  // Get a pantry item by ID
+  async getById(id: string): Promise<PantryItem | null> {
+    const database = checkDb();
+    const docSnap = await getDoc(doc(database, 'pantry', id));
+    return docSnap.exists() ? toPantryItem(docSnap.id, docSnap.data()) : null;
+  },
+
+  // Update a pantry item. Fields set to undefined are removed.
+  async update(id: string, updates: Partial<PantryItemInput>): Promise<void> {
+    const database = checkDb();
+    await updateDoc(doc(database, 'pantry', id), {
+      ...Object.fromEntries(
+        Object.entries(updates).map(([key, value]) => [
+          key,
+          value === undefined ? deleteField() : value,
+        ])
+      ),
+      updatedAt: serverTimestamp(),
+    });
+  },
+
+  // Delete a pantry item
+  async delete(id: string): Promise<void> {
+    const database = checkDb();
+    await deleteDoc(doc(database, 'pantry', id));
+  },
+};
+
+// ============================================================================
+// ADMIN OPERATIONS
+// ============================================================================
+
+const firestoreAdmin: AdminRepository = {
+  // Whether a user is on the admin allowlist, one document per uid. Admins
+  // can also be granted the `admin` custom claim instead.
+  async isAdmin(uid: string): Promise<boolean> {
+    const database = checkDb();
+    const docSnap = await getDoc(doc(database, 'admins', uid));
+    return docSnap.exists();
+  },
+
+  // Record an admin action. Optional fields left unset are dropped because
+  // Firestore rejects undefined values.
+  async logAction(entry: AdminActionLogInput): Promise<string> {
+    const database = checkDb();
+    const docRef = await addDoc(collection(database, 'adminActions'), {
+      ...JSON.parse(JSON.stringify(entry)),
+      createdAt: serverTimestamp(),
+    });
+    return docRef.id;
+  },
+};
+
+// ============================================================================
+// REPOSITORIES
+// ============================================================================
+
+const firestoreRepositories: Repositories = {
+  foodGroups: firestoreFoodGroups,
+  foodGroupAudit: firestoreFoodGroupAudit,
+  userPreferences: firestoreUserPreferences,
+  savedCombinations: firestoreSavedCombinations,
+  nutritionGoals: firestoreNutritionGoals,
+  mealPlans: firestoreMealPlans,
+  generationHistory: firestoreGenerationHistory,
+  foodLog: firestoreFoodLog,
+  shoppingLists: firestoreShoppingLists,
+  pantry: firestorePantry,
+  admin: firestoreAdmin,
+};
+
+// Kept on globalThis so instrumentation and route bundles, and modules
+// reloaded in development, all see the backend that was installed
+const ACTIVE_REPOSITORIES = Symbol.for('superhuman-nutrition.repositories');
+
+type RepositoryRegistry = typeof globalThis & {
+  [ACTIVE_REPOSITORIES]?: {
+    backend: DatabaseBackend;
+    repositories: Repositories;
+  };
+};
+
+const registry = globalThis as RepositoryRegistry;
+
+/**
+ * Replace the backend the operations below read and write, e.g. with the
+ * local one when there is no Firebase project; null restores Firestore
+ */
+export function setRepositories(
+  repositories: Repositories | null,
+  backend: DatabaseBackend = 'local'
+): void {
+  registry[ACTIVE_REPOSITORIES] = repositories
+    ? { backend, repositories }
+    : undefined;
+}
+
+// The backend the operations below currently use
+export function getDatabaseBackend(): DatabaseBackend {
+  return registry[ACTIVE_REPOSITORIES]?.backend ?? 'firestore';
+}
+
+// Each call is forwarded to the active backend when it is made, so a backend
+// installed after this module loaded is still picked up
+const forwardTo = <K extends keyof Repositories>(name: K): Repositories[K] =>
+  new Proxy({} as Repositories[K], {
+    get(_target, method) {
+      const repository =
+        registry[ACTIVE_REPOSITORIES]?.repositories[name] ??
+        firestoreRepositories[name];
+      const value = Reflect.get(repository, method);
+      return typeof value === 'function' ? value.bind(repository) : value;
+    },
+  });
+
+export const foodGroupOperations = forwardTo('foodGroups');
+
+export const foodGroupAuditOperations = forwardTo('foodGroupAudit');
+
+export const userPreferencesOperations = forwardTo('userPreferences');
+
+export const savedCombinationsOperations = forwardTo('savedCombinations');
+
+export const nutritionGoalsOperations = forwardTo('nutritionGoals');
+
+export const mealPlanOperations = forwardTo('mealPlans');
+
+export const generationHistoryOperations = forwardTo('generationHistory');
+
+export const foodLogOperations = forwardTo('foodLog');
+
+export const shoppingListOperations = forwardTo('shoppingLists');
+
+export const pantryOperations = forwardTo('pantry');
+
+export const adminOperations = forwardTo('admin');
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
 
 export const databaseUtils = {
   // Initialize default food groups (run once to populate database)
-  async initializeDefaultFoodGroups(): Promise<void> {
+  async initializeDefaultFoodGroups(
+    audit: AuditContext = { actor: SYSTEM_ACTOR }
+  ): Promise<void> {
     const defaultGroups: Omit<FoodGroup, 'id' | 'createdAt' | 'updatedAt'>[] = [
       // Fruits
       {
@@ -493,6 +1306,18 @@ export const databaseUtils = {
         carbsPer100g: 14,
         fatPer100g: 0.2,
         fiberPer100g: 2.4,
+        micronutrients: {
+          vitaminA: 3,
+          vitaminC: 4.6,
+          vitaminE: 0.18,
+          vitaminK: 2.2,
+          vitaminB6: 0.04,
+          folate: 3,
+          calcium: 6,
+          iron: 0.12,
+          magnesium: 5,
+          potassium: 107,
+        },
         isActive: true,
       },
       {
@@ -508,6 +1333,17 @@ export const databaseUtils = {
         carbsPer100g: 23,
         fatPer100g: 0.3,
         fiberPer100g: 2.6,
+        micronutrients: {
+          vitaminA: 3,
+          vitaminC: 8.7,
+          vitaminB6: 0.37,
+          folate: 20,
+          calcium: 5,
+          iron: 0.26,
+          magnesium: 27,
+          potassium: 358,
+          manganese: 0.27,
+        },
         isActive: true,
       },
       // Vegetables
@@ -523,6 +1359,21 @@ export const databaseUtils = {
         carbsPer100g: 3.6,
         fatPer100g: 0.4,
         fiberPer100g: 2.2,
+        micronutrients: {
+          vitaminA: 469,
+          vitaminC: 28.1,
+          vitaminE: 2.03,
+          vitaminK: 482.9,
+          riboflavin: 0.19,
+          vitaminB6: 0.2,
+          folate: 194,
+          calcium: 99,
+          iron: 2.71,
+          magnesium: 79,
+          potassium: 558,
+          zinc: 0.53,
+          manganese: 0.9,
+        },
         isActive: true,
       },
       // Grains
@@ -539,6 +1390,19 @@ export const databaseUtils = {
         carbsPer100g: 22,
         fatPer100g: 1.9,
         fiberPer100g: 2.8,
+        micronutrients: {
+          thiamin: 0.11,
+          vitaminB6: 0.12,
+          folate: 42,
+          iron: 1.49,
+          magnesium: 64,
+          phosphorus: 152,
+          potassium: 172,
+          zinc: 1.09,
+          selenium: 2.8,
+          copper: 0.19,
+          manganese: 0.63,
+        },
         isActive: true,
       },
       // Proteins
@@ -554,6 +1418,17 @@ export const databaseUtils = {
         carbsPer100g: 0,
         fatPer100g: 3.6,
         fiberPer100g: 0,
+        micronutrients: {
+          niacin: 13.7,
+          vitaminB6: 0.6,
+          vitaminB12: 0.34,
+          iron: 1.04,
+          magnesium: 29,
+          phosphorus: 228,
+          potassium: 256,
+          zinc: 1,
+          selenium: 27.6,
+        },
         isActive: true,
       },
       // Dairy
@@ -569,6 +1444,15 @@ export const databaseUtils = {
         carbsPer100g: 3.6,
         fatPer100g: 0.4,
         fiberPer100g: 0,
+        micronutrients: {
+          riboflavin: 0.28,
+          vitaminB12: 0.75,
+          calcium: 110,
+          phosphorus: 135,
+          potassium: 141,
+          zinc: 0.52,
+          selenium: 9.7,
+        },
         isActive: true,
       },
       // Nuts
@@ -584,6 +1468,19 @@ export const databaseUtils = {
         carbsPer100g: 22,
         fatPer100g: 50,
         fiberPer100g: 12.5,
+        micronutrients: {
+          vitaminE: 25.6,
+          riboflavin: 1.14,
+          niacin: 3.62,
+          calcium: 269,
+          iron: 3.71,
+          magnesium: 270,
+          phosphorus: 481,
+          potassium: 733,
+          zinc: 3.12,
+          copper: 1.03,
+          manganese: 2.18,
+        },
         isActive: true,
       },
       // Herbs
@@ -599,6 +1496,17 @@ export const databaseUtils = {
         carbsPer100g: 2.6,
         fatPer100g: 0.6,
         fiberPer100g: 1.6,
+        micronutrients: {
+          vitaminA: 264,
+          vitaminC: 18,
+          vitaminK: 414.8,
+          folate: 68,
+          calcium: 177,
+          iron: 3.17,
+          magnesium: 64,
+          potassium: 295,
+          manganese: 1.15,
+        },
         isActive: true,
       },
       // Spices
@@ -614,13 +1522,21 @@ export const databaseUtils = {
         carbsPer100g: 65,
         fatPer100g: 10,
         fiberPer100g: 21,
+        micronutrients: {
+          vitaminC: 0.7,
+          vitaminB6: 0.11,
+          iron: 55,
+          magnesium: 208,
+          potassium: 2080,
+          manganese: 19.8,
+        },
         isActive: true,
       },
     ];
 
     for (const group of defaultGroups) {
       try {
-        await foodGroupOperations.create(group);
+        await foodGroupOperations.create(group, audit);
         console.log(`Created food group: ${group.name}`);
       } catch (error) {
         console.error(`Failed to create food group ${group.name}:`, error);
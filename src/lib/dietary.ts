@@ -0,0 +1,474 @@
+import { z } from 'zod';
+import type { FoodGroup } from './database';
+import {
+  AllergenSchema,
+  AnimalSourceSchema,
+  DietaryRestrictionSchema,
+} from './validation/schemas';
+import {
+  Combination,
+  CombinationIngredient,
+  PLATE_CATEGORIES,
+  PlateCategory,
+} from './combinations';
+import type { GeneratedMeal } from './mealPlans';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type Allergen = z.infer<typeof AllergenSchema>;
+export type AnimalSource = z.infer<typeof AnimalSourceSchema>;
+export type DietaryRestriction = z.infer<typeof DietaryRestrictionSchema>;
+
+// The catalog fields the dietary rules look at. Generated meal ingredients
+// carry a free-form category, so it is widened to a string.
+export type DietFood = Pick<
+  FoodGroup,
+  | 'name'
+  | 'subcategory'
+  | 'carbsPer100g'
+  | 'allergens'
+  | 'containsGluten'
+  | 'animalDerived'
+> & { category: string };
+
+export interface DietAttributes {
+  allergens: Allergen[];
+  containsGluten: boolean;
+  animalDerived?: AnimalSource;
+}
+
+export interface DietaryConstraints {
+  dietaryRestrictions?: string[];
+  allergies?: string[];
+}
+
+export type DietaryEnforcement = 'repair' | 'reject';
+
+export interface DietViolation {
+  slot: string; // "Monday" or "Day 2 lunch"
+  ingredient: string;
+  rules: string[]; // e.g. ["Gluten-Free", "allergy: peanuts"]
+  action: 'replaced' | 'removed' | 'rejected';
+  replacement?: string;
+}
+
+export interface EnforcementResult<T> {
+  items: T[];
+  violations: DietViolation[];
+  // False when a violation could not be repaired, or in reject mode
+  valid: boolean;
+}
+
+// ============================================================================
+// ATTRIBUTES
+// ============================================================================
+
+const GLUTEN_GRAINS =
+  /wheat|barley|rye|spelt|farro|kamut|einkorn|freekeh|bulgur|couscous|semolina|triticale|bread|pasta/i;
+const GLUTEN_PROTEINS = /seitan|wheat/i;
+const PSEUDOCEREALS = /quinoa|buckwheat|amaranth/i;
+const MEATS = /poultry|meat|beef|pork|lamb/i;
+const SEAFOOD = /fish|seafood/i;
+const SHELLFISH =
+  /shrimp|prawn|crab|lobster|clam|mussel|oyster|scallop|squid|octopus/i;
+const EGGS = /\beggs?\b/i;
+const SOY = /\bsoy|tofu|tempeh|edamame|miso/i;
+
+/**
+ * Diet attributes of a catalog food. Tagged foods (those with an `allergens`
+ * list) are taken as-is; untagged ones are classified from their category,
+ * subcategory and name so older catalog entries are still covered.
+ */
+export function getDietAttributes(food: DietFood): DietAttributes {
+  if (food.allergens) {
+    return {
+      allergens: food.allergens,
+      containsGluten: food.containsGluten ?? food.allergens.includes('gluten'),
+      animalDerived: food.animalDerived,
+    };
+  }
+
+  const { name } = food;
+  const subcategory = food.subcategory ?? '';
+
+  const containsGluten =
+    food.containsGluten ??
+    ((food.category === 'grains' && GLUTEN_GRAINS.test(name)) ||
+      (food.category === 'proteins' &&
+        GLUTEN_PROTEINS.test(`${name} ${subcategory}`)));
+
+  let animalDerived = food.animalDerived;
+  if (!animalDerived && food.category === 'dairy') animalDerived = 'dairy';
+  if (!animalDerived && food.category === 'proteins') {
+    if (EGGS.test(name)) animalDerived = 'eggs';
+    else if (SEAFOOD.test(subcategory)) animalDerived = 'seafood';
+    else if (MEATS.test(subcategory)) animalDerived = 'meat';
+  }
+
+  const allergens = new Set<Allergen>();
+  if (containsGluten) allergens.add('gluten');
+  if (animalDerived === 'dairy') allergens.add('milk');
+  if (animalDerived === 'eggs') allergens.add('eggs');
+  if (animalDerived === 'seafood') {
+    allergens.add(SHELLFISH.test(name) ? 'shellfish' : 'fish');
+  }
+  if (food.category === 'nuts') {
+    if (/peanut/i.test(name)) allergens.add('peanuts');
+    else if (!/seed/i.test(`${name} ${subcategory}`))
+      allergens.add('tree-nuts');
+  }
+  if (/sesame|tahini/i.test(name)) allergens.add('sesame');
+  if (SOY.test(name)) allergens.add('soy');
+
+  return { allergens: Array.from(allergens), containsGluten, animalDerived };
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+// Low-carb diets still need a grain on the plate, so the generator prefers
+// the lightest one instead of excluding the category outright
+export const CARB_SENSITIVE: readonly string[] = ['Low-Carb', 'Keto'];
+
+const RESTRICTION_RULES: Partial<
+  Record<DietaryRestriction, (food: DietFood, diet: DietAttributes) => boolean>
+> = {
+  Vegetarian: (_, diet) =>
+    diet.animalDerived === 'meat' || diet.animalDerived === 'seafood',
+  Vegan: (_, diet) => diet.animalDerived !== undefined,
+  'Dairy-Free': (_, diet) =>
+    diet.animalDerived === 'dairy' || diet.allergens.includes('milk'),
+  'Gluten-Free': (_, diet) => diet.containsGluten,
+  Paleo: food =>
+    food.category === 'grains' &&
+    !PSEUDOCEREALS.test(food.name) &&
+    food.subcategory !== 'pseudocereal',
+  'Low-Carb': food =>
+    food.category !== 'grains' && (food.carbsPer100g ?? 0) > 20,
+  Keto: food => food.category !== 'grains' && (food.carbsPer100g ?? 0) > 10,
+};
+
+// Free-text allergies as users type them, mapped onto tagged allergens
+const ALLERGY_ALIASES: Record<string, Allergen[]> = {
+  gluten: ['gluten'],
+  wheat: ['gluten'],
+  celiac: ['gluten'],
+  coeliac: ['gluten'],
+  milk: ['milk'],
+  dairy: ['milk'],
+  lactose: ['milk'],
+  egg: ['eggs'],
+  fish: ['fish'],
+  shellfish: ['shellfish'],
+  crustacean: ['shellfish'],
+  nut: ['tree-nuts', 'peanuts'],
+  'tree nut': ['tree-nuts'],
+  'tree-nut': ['tree-nuts'],
+  peanut: ['peanuts'],
+  soy: ['soy'],
+  soya: ['soy'],
+  sesame: ['sesame'],
+  'sesame seed': ['sesame'],
+};
+
+const normalizeAllergy = (allergy: string) =>
+  allergy
+    .trim()
+    .toLowerCase()
+    .replace(/\s+allergy$/, '')
+    .replace(/([^s])s$/, '$1');
+
+function matchesAllergy(
+  food: DietFood,
+  diet: DietAttributes,
+  allergy: string
+): boolean {
+  const normalized = normalizeAllergy(allergy);
+  if (!normalized) return false;
+
+  const aliases = ALLERGY_ALIASES[normalized];
+  if (aliases) {
+    return aliases.some(allergen => diet.allergens.includes(allergen));
+  }
+
+  // Anything else is treated as an ingredient, e.g. "strawberries"
+  return food.name.toLowerCase().includes(normalized);
+}
+
+/**
+ * The restrictions and allergies a food breaks, as labels for reporting.
+ * An empty list means the food is allowed.
+ */
+export function findViolatedRules(
+  food: DietFood,
+  constraints: DietaryConstraints
+): string[] {
+  const diet = getDietAttributes(food);
+
+  const restrictions = (constraints.dietaryRestrictions ?? []).filter(
+    restriction =>
+      RESTRICTION_RULES[restriction as DietaryRestriction]?.(food, diet)
+  );
+  const allergies = (constraints.allergies ?? [])
+    .filter(allergy => matchesAllergy(food, diet, allergy))
+    .map(allergy => `allergy: ${allergy.trim()}`);
+
+  return [...restrictions, ...allergies];
+}
+
+export function isAllowed(
+  food: DietFood,
+  constraints: DietaryConstraints
+): boolean {
+  return findViolatedRules(food, constraints).length === 0;
+}
+
+export function hasConstraints(constraints: DietaryConstraints): boolean {
+  return Boolean(
+    constraints.dietaryRestrictions?.length || constraints.allergies?.length
+  );
+}
+
+// ============================================================================
+// ENFORCEMENT
+// ============================================================================
+
+type CatalogEntry = DietFood & { isActive?: boolean };
+
+const sameName = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Generated ingredients are matched to the catalog by name; unknown ones are
+// classified from the name and the slot they were generated for
+function lookupFood(
+  foods: CatalogEntry[],
+  name: string,
+  category: string
+): DietFood {
+  return (
+    foods.find(food => sameName(food.name, name)) ?? {
+      name,
+      category,
+    }
+  );
+}
+
+// Swap a replaced ingredient's name in free text such as the dish name
+function renameIn(text: string, from: string, to: string): string {
+  const escaped = from.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return text.replace(new RegExp(escaped, 'gi'), to);
+}
+
+/**
+ * Pick a replacement from the same category: allowed, not on this plate and,
+ * when possible, not used anywhere else in the plan
+ */
+function findReplacement(
+  foods: CatalogEntry[],
+  category: string,
+  constraints: DietaryConstraints,
+  onPlate: string[],
+  used: Set<string>
+): CatalogEntry | undefined {
+  const candidates = foods
+    .filter(
+      food =>
+        food.category === category &&
+        food.isActive !== false &&
+        !onPlate.some(name => sameName(name, food.name)) &&
+        isAllowed(food, constraints)
+    )
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    candidates.find(food => !used.has(food.name.toLowerCase())) ?? candidates[0]
+  );
+}
+
+const MINIMUM_PER_CATEGORY: Record<PlateCategory, number> = {
+  fruits: 1,
+  vegetables: 1,
+  grains: 1,
+};
+
+/**
+ * Check a week of combinations against the user's restrictions and
+ * allergies. In repair mode each violating ingredient is swapped for an
+ * allowed food from the same category (keeping its quantity), or dropped
+ * when the plate has another one; in reject mode violations are only
+ * reported. Every violation is listed either way.
+ */
+export function enforceCombinationDiet(
+  combinations: Combination[],
+  foods: CatalogEntry[],
+  constraints: DietaryConstraints,
+  mode: DietaryEnforcement = 'repair'
+): EnforcementResult<Combination> {
+  if (!hasConstraints(constraints)) {
+    return { items: combinations, violations: [], valid: true };
+  }
+
+  const violations: DietViolation[] = [];
+  const used = new Set(
+    combinations.flatMap(combination =>
+      PLATE_CATEGORIES.flatMap(category =>
+        combination[category].map(item => item.name.toLowerCase())
+      )
+    )
+  );
+  let valid = true;
+
+  const items = combinations.map(combination => {
+    const repaired: Combination = { ...combination };
+
+    for (const category of PLATE_CATEGORIES) {
+      const kept: CombinationIngredient[] = [];
+
+      for (const ingredient of combination[category]) {
+        const rules = findViolatedRules(
+          lookupFood(foods, ingredient.name, category),
+          constraints
+        );
+        if (rules.length === 0) {
+          kept.push(ingredient);
+          continue;
+        }
+
+        const report = {
+          slot: combination.day,
+          ingredient: ingredient.name,
+          rules,
+        };
+        if (mode === 'reject') {
+          violations.push({ ...report, action: 'rejected' });
+          valid = false;
+          kept.push(ingredient);
+          continue;
+        }
+
+        const replacement = findReplacement(
+          foods,
+          category,
+          constraints,
+          [...combination[category], ...kept].map(item => item.name),
+          used
+        );
+        if (replacement) {
+          used.add(replacement.name.toLowerCase());
+          kept.push({ ...ingredient, name: replacement.name });
+          repaired.name = renameIn(
+            repaired.name,
+            ingredient.name,
+            replacement.name
+          );
+          repaired.preparation = renameIn(
+            repaired.preparation,
+            ingredient.name,
+            replacement.name
+          );
+          violations.push({
+            ...report,
+            action: 'replaced',
+            replacement: replacement.name,
+          });
+        } else {
+          violations.push({ ...report, action: 'removed' });
+        }
+      }
+
+      if (kept.length < MINIMUM_PER_CATEGORY[category]) valid = false;
+      repaired[category] = kept;
+    }
+
+    return repaired;
+  });
+
+  return { items, violations, valid };
+}
+
+/**
+ * Meal plan counterpart of `enforceCombinationDiet`. Meals only need one
+ * ingredient left, so anything without a replacement is dropped.
+ */
+export function enforceMealDiet(
+  meals: GeneratedMeal[],
+  foods: CatalogEntry[],
+  constraints: DietaryConstraints,
+  mode: DietaryEnforcement = 'repair'
+): EnforcementResult<GeneratedMeal> {
+  if (!hasConstraints(constraints)) {
+    return { items: meals, violations: [], valid: true };
+  }
+
+  const violations: DietViolation[] = [];
+  const used = new Set(
+    meals.flatMap(meal =>
+      meal.ingredients.map(ingredient => ingredient.name.toLowerCase())
+    )
+  );
+  let valid = true;
+
+  const items = meals.map(meal => {
+    const repaired: GeneratedMeal = { ...meal };
+    const ingredients: GeneratedMeal['ingredients'] = [];
+
+    for (const ingredient of meal.ingredients) {
+      const rules = findViolatedRules(
+        lookupFood(foods, ingredient.name, ingredient.category),
+        constraints
+      );
+      if (rules.length === 0) {
+        ingredients.push(ingredient);
+        continue;
+      }
+
+      const report = {
+        slot: `Day ${meal.day} ${meal.type}`,
+        ingredient: ingredient.name,
+        rules,
+      };
+      if (mode === 'reject') {
+        violations.push({ ...report, action: 'rejected' });
+        valid = false;
+        ingredients.push(ingredient);
+        continue;
+      }
+
+      const replacement = findReplacement(
+        foods,
+        ingredient.category,
+        constraints,
+        [...meal.ingredients, ...ingredients].map(item => item.name),
+        used
+      );
+      if (replacement) {
+        used.add(replacement.name.toLowerCase());
+        ingredients.push({ ...ingredient, name: replacement.name });
+        repaired.name = renameIn(
+          repaired.name,
+          ingredient.name,
+          replacement.name
+        );
+        repaired.instructions = repaired.instructions.map(step =>
+          renameIn(step, ingredient.name, replacement.name)
+        );
+        violations.push({
+          ...report,
+          action: 'replaced',
+          replacement: replacement.name,
+        });
+      } else {
+        violations.push({ ...report, action: 'removed' });
+      }
+    }
+
+    if (ingredients.length === 0) valid = false;
+    repaired.ingredients = ingredients;
+    return repaired;
+  });
+
+  return { items, violations, valid };
+}
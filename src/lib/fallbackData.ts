@@ -1,4 +1,6 @@
 import { FoodGroup } from './database';
+import type { FoodGroupQuery } from './foodQuery';
+import { buildFoodSearchIndex, queryFoodIndex } from './foodSearch';
 
 // Create a fallback FoodGroup type without the complex timestamp types
 type FallbackFoodGroup = Omit<FoodGroup, 'createdAt' | 'updatedAt'> & {
@@ -23,6 +25,18 @@ export const fallbackFoodGroups: FallbackFoodGroup[] = [
     carbsPer100g: 14,
     fatPer100g: 0.2,
     fiberPer100g: 2.4,
+    micronutrients: {
+      vitaminA: 3,
+      vitaminC: 4.6,
+      vitaminE: 0.18,
+      vitaminK: 2.2,
+      vitaminB6: 0.04,
+      folate: 3,
+      calcium: 6,
+      iron: 0.12,
+      magnesium: 5,
+      potassium: 107,
+    },
     isActive: true,
     createdAt: new Date() as unknown,
     updatedAt: new Date() as unknown,
@@ -41,6 +55,17 @@ export const fallbackFoodGroups: FallbackFoodGroup[] = [
     carbsPer100g: 23,
     fatPer100g: 0.3,
     fiberPer100g: 2.6,
+    micronutrients: {
+      vitaminA: 3,
+      vitaminC: 8.7,
+      vitaminB6: 0.37,
+      folate: 20,
+      calcium: 5,
+      iron: 0.26,
+      magnesium: 27,
+      potassium: 358,
+      manganese: 0.27,
+    },
     isActive: true,
     createdAt: new Date() as unknown,
     updatedAt: new Date() as unknown,
@@ -59,6 +84,16 @@ export const fallbackFoodGroups: FallbackFoodGroup[] = [
     carbsPer100g: 12,
     fatPer100g: 0.1,
     fiberPer100g: 2.4,
+    micronutrients: {
+      vitaminA: 11,
+      vitaminC: 53.2,
+      thiamin: 0.09,
+      folate: 30,
+      calcium: 40,
+      iron: 0.1,
+      magnesium: 10,
+      potassium: 181,
+    },
     isActive: true,
     createdAt: new Date() as unknown,
     updatedAt: new Date() as unknown,
@@ -78,6 +113,21 @@ export const fallbackFoodGroups: FallbackFoodGroup[] = [
     carbsPer100g: 3.6,
     fatPer100g: 0.4,
     fiberPer100g: 2.2,
+    micronutrients: {
+      vitaminA: 469,
+      vitaminC: 28.1,
+      vitaminE: 2.03,
+      vitaminK: 482.9,
+      riboflavin: 0.19,
+      vitaminB6: 0.2,
+      folate: 194,
+      calcium: 99,
+      iron: 2.71,
+      magnesium: 79,
+      potassium: 558,
+      zinc: 0.53,
+      manganese: 0.9,
+    },
     isActive: true,
     createdAt: new Date() as unknown,
     updatedAt: new Date() as unknown,
@@ -95,6 +145,19 @@ export const fallbackFoodGroups: FallbackFoodGroup[] = [
     carbsPer100g: 7,
     fatPer100g: 0.4,
     fiberPer100g: 2.6,
+    micronutrients: {
+      vitaminA: 31,
+      vitaminC: 89.2,
+      vitaminK: 101.6,
+      vitaminB6: 0.18,
+      folate: 63,
+      calcium: 47,
+      iron: 0.73,
+      magnesium: 21,
+      phosphorus: 66,
+      potassium: 316,
+      manganese: 0.21,
+    },
     isActive: true,
     createdAt: new Date() as unknown,
     updatedAt: new Date() as unknown,
@@ -112,6 +175,17 @@ export const fallbackFoodGroups: FallbackFoodGroup[] = [
     carbsPer100g: 10,
     fatPer100g: 0.2,
     fiberPer100g: 2.8,
+    micronutrients: {
+      vitaminA: 835,
+      vitaminC: 5.9,
+      vitaminK: 13.2,
+      vitaminB6: 0.14,
+      folate: 19,
+      calcium: 33,
+      iron: 0.3,
+      magnesium: 12,
+      potassium: 320,
+    },
     isActive: true,
     createdAt: new Date() as unknown,
     updatedAt: new Date() as unknown,
@@ -132,6 +206,19 @@ export const fallbackFoodGroups: FallbackFoodGroup[] = [
     carbsPer100g: 22,
     fatPer100g: 1.9,
     fiberPer100g: 2.8,
+    micronutrients: {
+      thiamin: 0.11,
+      vitaminB6: 0.12,
+      folate: 42,
+      iron: 1.49,
+      magnesium: 64,
+      phosphorus: 152,
+      potassium: 172,
+      zinc: 1.09,
+      selenium: 2.8,
+      copper: 0.19,
+      manganese: 0.63,
+    },
     isActive: true,
     createdAt: new Date() as unknown,
     updatedAt: new Date() as unknown,
@@ -150,6 +237,18 @@ export const fallbackFoodGroups: FallbackFoodGroup[] = [
     carbsPer100g: 23,
     fatPer100g: 0.9,
     fiberPer100g: 1.8,
+    micronutrients: {
+      thiamin: 0.18,
+      niacin: 2.56,
+      vitaminB6: 0.12,
+      iron: 0.56,
+      magnesium: 39,
+      phosphorus: 103,
+      potassium: 86,
+      zinc: 0.71,
+      selenium: 5.8,
+      manganese: 0.97,
+    },
     isActive: true,
     createdAt: new Date() as unknown,
     updatedAt: new Date() as unknown,
@@ -168,35 +267,24 @@ export const fallbackFoodGroups: FallbackFoodGroup[] = [
     carbsPer100g: 66,
     fatPer100g: 7,
     fiberPer100g: 10.6,
+    micronutrients: {
+      thiamin: 0.46,
+      folate: 32,
+      iron: 4.25,
+      magnesium: 138,
+      phosphorus: 410,
+      potassium: 362,
+      zinc: 3.64,
+      selenium: 28.9,
+      copper: 0.39,
+      manganese: 3.63,
+    },
     isActive: true,
     createdAt: new Date() as unknown,
     updatedAt: new Date() as unknown,
   },
 ];
 
-export const getFallbackFoodGroups = (
-  category?: string,
-  search?: string
-): FallbackFoodGroup[] => {
-  let filtered = fallbackFoodGroups;
-
-  if (category) {
-    filtered = filtered.filter(food => food.category === category);
-  }
-
-  if (search) {
-    const searchTerm = search.toLowerCase();
-    filtered = filtered.filter(
-      food =>
-        food.name.toLowerCase().includes(searchTerm) ||
-        food.nutrients.some(nutrient =>
-          nutrient.toLowerCase().includes(searchTerm)
-        ) ||
-        food.benefits.some(benefit =>
-          benefit.toLowerCase().includes(searchTerm)
-        )
-    );
-  }
-
-  return filtered;
-};
+// A catalog query over the fallback data, answered like the database would
+export const queryFallbackFoodGroups = (query: FoodGroupQuery) =>
+  queryFoodIndex(buildFoodSearchIndex(fallbackFoodGroups), query);
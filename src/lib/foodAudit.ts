@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import type {
+  AuditContext,
+  FoodGroup,
+  FoodGroupAuditEntry,
+  FoodGroupInput,
+  FoodGroupSnapshot,
+} from './database';
+import { sameValue } from './foodImport';
+import { CatalogAuditSchema } from './validation/schemas';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// `userId` is the signed-in admin making the change
+export type CatalogAudit = z.infer<typeof CatalogAuditSchema> & {
+  userId?: string;
+};
+
+// An audit entry as the history API returns it
+export interface FoodGroupVersion extends FoodGroupAuditEntry {
+  version: number; // 1 for the food as created, counting up
+  fields: string[]; // what the change set or cleared
+}
+
+// ============================================================================
+// AUDIT CONTEXT
+// ============================================================================
+
+// The actor recorded when a request does not say who made it
+export const ANONYMOUS_ACTOR = 'anonymous';
+
+/**
+ * Who made a catalog change request and why
+ */
+export function toAuditContext({ userId, reason }: CatalogAudit): AuditContext {
+  return { actor: userId ?? ANONYMOUS_ACTOR, reason };
+}
+
+// ============================================================================
+// HISTORY
+// ============================================================================
+
+// Timestamps and IDs are not versioned
+const fieldsOf = (food: Partial<FoodGroup> | null) =>
+  Object.keys(food ?? {}).filter(
+    key => !['id', 'createdAt', 'updatedAt'].includes(key)
+  );
+
+/**
+ * The fields that differ between two versions of a food, in the order the
+ * later version lists them, then the ones it no longer has
+ */
+export function changedFields(
+  before: Partial<FoodGroup> | null,
+  after: Partial<FoodGroup>
+): string[] {
+  const fields = Array.from(new Set([...fieldsOf(after), ...fieldsOf(before)]));
+  return fields.filter(
+    field =>
+      !sameValue(
+        before?.[field as keyof FoodGroup],
+        after[field as keyof FoodGroup]
+      )
+  );
+}
+
+/**
+ * Number a food's history, newest first as stored, so that version 1 is the
+ * food as created
+ */
+export function toFoodGroupHistory(
+  entries: FoodGroupAuditEntry[]
+): FoodGroupVersion[] {
+  return entries.map((entry, index) => ({
+    ...entry,
+    version: entries.length - index,
+    fields: changedFields(entry.before, entry.after),
+  }));
+}
+
+/**
+ * The updates that turn a food into another version of it, such as an
+ * earlier one to revert to. Fields the version does not have are set to
+ * undefined, which removes them.
+ */
+export function updatesTo(
+  current: FoodGroup,
+  target: FoodGroupSnapshot
+): Partial<FoodGroupInput> {
+  return Object.fromEntries(
+    changedFields(current, target).map(field => [
+      field,
+      target[field as keyof FoodGroupSnapshot],
+    ])
+  );
+}
@@ -0,0 +1,100 @@
+import { formatCsv } from './csv';
+import type { FoodGroupInput } from './database';
+import { FOOD_COLUMNS, FoodFileFormat } from './foodImport';
+
+// ============================================================================
+// SERIALIZING
+// ============================================================================
+
+// Only the importable fields, so every export imports back unchanged
+function toExportRecord(
+  food: Partial<FoodGroupInput>
+): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+  for (const column of FOOD_COLUMNS) {
+    if (food[column] !== undefined) record[column] = food[column];
+  }
+  return record;
+}
+
+// Lists of text are joined with semicolons; micronutrients and portions are
+// written as JSON
+function toCell(value: unknown): string {
+  if (value === undefined) return '';
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+    return value.join(';');
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Write foods in an import format, with the same columns the import reads
+ */
+export function serializeFoods(
+  foods: Partial<FoodGroupInput>[],
+  format: FoodFileFormat
+): string {
+  const records = foods.map(toExportRecord);
+
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify(records, null, 2)}\n`;
+    case 'ndjson':
+      return records.map(record => `${JSON.stringify(record)}\n`).join('');
+    default:
+      return formatCsv(
+        [
+          [...FOOD_COLUMNS],
+          ...records.map(record =>
+            FOOD_COLUMNS.map(column => toCell(record[column]))
+          ),
+        ],
+        format === 'tsv' ? '\t' : ','
+      );
+  }
+}
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+const TEMPLATE_FOODS: Partial<FoodGroupInput>[] = [
+  {
+    name: 'Apple',
+    category: 'fruits',
+    subcategory: 'pome fruits',
+    nutrients: ['Vitamin C', 'Potassium', 'Fiber'],
+    benefits: ['Heart health', 'Digestive health', 'Immune support'],
+    seasonality: 'fall',
+    glycemicIndex: 36,
+    caloriesPer100g: 52,
+    proteinPer100g: 0.3,
+    carbsPer100g: 14,
+    fatPer100g: 0.2,
+    fiberPer100g: 2.4,
+    micronutrients: { vitaminC: 4.6, potassium: 107 },
+    portions: [{ description: '1 medium', grams: 182 }],
+  },
+  {
+    name: 'Almonds',
+    category: 'nuts',
+    subcategory: 'tree nuts',
+    nutrients: ['Vitamin E', 'Magnesium', 'Healthy fats'],
+    benefits: ['Heart health', 'Blood sugar control'],
+    seasonality: 'year-round',
+    caloriesPer100g: 579,
+    proteinPer100g: 21,
+    carbsPer100g: 22,
+    fatPer100g: 50,
+    fiberPer100g: 12.5,
+    allergens: ['tree-nuts'],
+    containsGluten: false,
+  },
+];
+
+/**
+ * An example import file in the given format
+ */
+export function foodTemplate(format: FoodFileFormat): string {
+  return serializeFoods(TEMPLATE_FOODS, format);
+}
@@ -0,0 +1,703 @@
+import { z } from 'zod';
+import { parseCsv } from './csv';
+import {
+  AuditContext,
+  FoodGroup,
+  FoodGroupBatch,
+  FoodGroupInput,
+  foodGroupOperations,
+} from './database';
+import { sanitizeObject } from './validation/sanitization';
+import {
+  FoodFileFormatSchema,
+  FoodGroupSchema,
+  ValidatedFoodGroup,
+} from './validation/schemas';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type FoodField = keyof ValidatedFoodGroup;
+
+export type FoodFileFormat = z.infer<typeof FoodFileFormatSchema>;
+
+// A problem with one row, or with one of its columns
+export interface FoodImportError {
+  row: number; // line in the file, header included; item number for JSON
+  column?: string; // header or property as written in the file
+  message: string;
+}
+
+export interface FoodImportRow {
+  row: number;
+  food: ValidatedFoodGroup;
+  setsActive: boolean; // false when `isActive` is only the schema default
+}
+
+export interface FoodImportResult {
+  foods: FoodImportRow[];
+  errors: FoodImportError[];
+  rowCount: number; // data rows in the file, valid or not
+  missingHeaders: string[]; // required columns the file lacks
+  ignoredHeaders: string[]; // columns that map to no field
+}
+
+export type FoodImportAction = 'create' | 'update' | 'unchanged' | 'deactivate';
+
+// What an import does, or would do, to one catalog food
+export interface FoodImportChange {
+  action: FoodImportAction;
+  row?: number; // unset for deactivations, which have no row
+  id?: string; // the existing food; unset for creations
+  name: string;
+  category: FoodGroup['category'];
+  fields?: FoodField[]; // what an update changes
+}
+
+export interface FoodImportOptions {
+  dryRun?: boolean; // plan only, write nothing
+  deactivateMissing?: boolean; // deactivate active foods the file lacks
+}
+
+export interface FoodImportPlan {
+  changes: FoodImportChange[];
+  rejected: FoodImportError[];
+  batch: FoodGroupBatch;
+}
+
+export interface FoodImportReport {
+  dryRun: boolean;
+  total: number; // data rows in the file
+  counts: Record<FoodImportAction | 'rejected', number>;
+  changes: FoodImportChange[];
+  errors: FoodImportError[];
+  ignoredHeaders: string[];
+  // Deactivation was asked for but skipped because rows were rejected
+  deactivationSkipped: boolean;
+}
+
+// ============================================================================
+// COLUMNS
+// ============================================================================
+
+export const REQUIRED_COLUMNS: readonly FoodField[] = ['name', 'category'];
+
+// Every field a file can set, in the order exports write them
+export const FOOD_COLUMNS: readonly FoodField[] = [
+  'name',
+  'category',
+  'subcategory',
+  'nutrients',
+  'benefits',
+  'seasonality',
+  'glycemicIndex',
+  'caloriesPer100g',
+  'proteinPer100g',
+  'carbsPer100g',
+  'fatPer100g',
+  'fiberPer100g',
+  'allergens',
+  'containsGluten',
+  'animalDerived',
+  'isActive',
+  'fdcId',
+  'micronutrients',
+  'portions',
+];
+
+// Headers are matched case-insensitively and without spaces or punctuation,
+// so "Calories per 100g" and "caloriesPer100g" are the same column
+const COLUMN_ALIASES: Record<string, FoodField> = {
+  name: 'name',
+  category: 'category',
+  subcategory: 'subcategory',
+  nutrients: 'nutrients',
+  benefits: 'benefits',
+  healthbenefits: 'benefits',
+  seasonality: 'seasonality',
+  season: 'seasonality',
+  glycemicindex: 'glycemicIndex',
+  caloriesper100g: 'caloriesPer100g',
+  calories: 'caloriesPer100g',
+  proteinper100g: 'proteinPer100g',
+  protein: 'proteinPer100g',
+  carbsper100g: 'carbsPer100g',
+  carbs: 'carbsPer100g',
+  fatper100g: 'fatPer100g',
+  fat: 'fatPer100g',
+  fiberper100g: 'fiberPer100g',
+  fiber: 'fiberPer100g',
+  allergens: 'allergens',
+  containsgluten: 'containsGluten',
+  animalderived: 'animalDerived',
+  isactive: 'isActive',
+  fdcid: 'fdcId',
+  micronutrients: 'micronutrients',
+  portions: 'portions',
+};
+
+// Columns with no importable field that our own files carry: descriptions
+// in the bundled CSV, and document metadata in JSON from the API
+const UNUSED_COLUMNS = new Set(['description', 'id', 'createdat', 'updatedat']);
+
+const LIST_FIELDS = new Set<FoodField>(['nutrients', 'benefits', 'allergens']);
+const NUMBER_FIELDS = new Set<FoodField>([
+  'glycemicIndex',
+  'caloriesPer100g',
+  'proteinPer100g',
+  'carbsPer100g',
+  'fatPer100g',
+  'fiberPer100g',
+  'fdcId',
+]);
+const BOOLEAN_FIELDS = new Set<FoodField>(['containsGluten', 'isActive']);
+// Written as JSON in CSV cells, e.g. {"vitaminC":4.6} or
+// [{"description":"1 medium","grams":182}]
+const JSON_FIELDS = new Set<FoodField>(['micronutrients', 'portions']);
+const LOWERCASE_FIELDS = new Set<FoodField>([
+  'category',
+  'seasonality',
+  'animalDerived',
+]);
+
+const SEASON_ALIASES: Record<string, string> = {
+  autumn: 'fall',
+  'year round': 'year-round',
+  yearround: 'year-round',
+  'all year': 'year-round',
+};
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * The catalog field a CSV header or JSON property fills, if any
+ */
+export function foodFieldForHeader(header: string): FoodField | undefined {
+  return COLUMN_ALIASES[normalizeHeader(header)];
+}
+
+// ============================================================================
+// FORMATS
+// ============================================================================
+
+export const FOOD_FILE_TYPES: Record<
+  FoodFileFormat,
+  { extensions: string[]; contentType: string }
+> = {
+  csv: { extensions: ['csv'], contentType: 'text/csv; charset=utf-8' },
+  tsv: {
+    extensions: ['tsv', 'tab'],
+    contentType: 'text/tab-separated-values; charset=utf-8',
+  },
+  json: {
+    extensions: ['json'],
+    contentType: 'application/json; charset=utf-8',
+  },
+  ndjson: {
+    extensions: ['ndjson', 'jsonl'],
+    contentType: 'application/x-ndjson; charset=utf-8',
+  },
+};
+
+/**
+ * The format of a food file, from its extension
+ */
+export function foodFileFormat(fileName: string): FoodFileFormat | undefined {
+  const extension = fileName.toLowerCase().split('.').pop() ?? '';
+  return FoodFileFormatSchema.options.find(format =>
+    FOOD_FILE_TYPES[format].extensions.includes(extension)
+  );
+}
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+type Converted = { value?: unknown; error?: string };
+
+// "52", "52 kcal" and "0.3g" are all numbers; units are assumed per 100g
+function toNumber(raw: string): Converted {
+  const match = raw.match(/^(-?\d+(?:\.\d+)?)\s*(k?cal|g|mg)?$/i);
+  return match
+    ? { value: parseFloat(match[1]) }
+    : { error: `Expected a number, got "${raw}"` };
+}
+
+function toBoolean(raw: string): Converted {
+  const value = raw.toLowerCase();
+  if (['true', 'yes', '1'].includes(value)) return { value: true };
+  if (['false', 'no', '0'].includes(value)) return { value: false };
+  return { error: `Expected true or false, got "${raw}"` };
+}
+
+function toJson(raw: string): Converted {
+  try {
+    return { value: JSON.parse(raw) };
+  } catch {
+    return { error: `Expected JSON, got "${raw}"` };
+  }
+}
+
+function toList(field: FoodField, items: string[]): Converted {
+  const list = items.map(item => item.trim()).filter(Boolean);
+  return {
+    value: field === 'allergens' ? list.map(item => item.toLowerCase()) : list,
+  };
+}
+
+/**
+ * Turn one cell into the value its field expects. Lists are separated by
+ * semicolons (or pipes), micronutrients and portions are JSON, and empty
+ * cells leave the field unset. JSON values
+ * that are not strings are kept as they are for the schema to check, apart
+ * from lists of strings, which are tidied like text lists.
+ */
+export function convertFoodValue(field: FoodField, raw: unknown): Converted {
+  if (typeof raw !== 'string') {
+    if (raw === null || raw === undefined) return {};
+    const isTextList =
+      Array.isArray(raw) && raw.every(item => typeof item === 'string');
+    return isTextList && LIST_FIELDS.has(field)
+      ? toList(field, raw)
+      : { value: raw };
+  }
+
+  const text = raw.trim();
+  if (!text) return {};
+
+  if (LIST_FIELDS.has(field)) return toList(field, text.split(/[;|]/));
+  if (JSON_FIELDS.has(field)) return toJson(text);
+  if (NUMBER_FIELDS.has(field)) return toNumber(text);
+  if (BOOLEAN_FIELDS.has(field)) return toBoolean(text);
+  if (LOWERCASE_FIELDS.has(field)) {
+    const value = text.toLowerCase();
+    return {
+      value: field === 'seasonality' ? (SEASON_ALIASES[value] ?? value) : value,
+    };
+  }
+  return { value: text };
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+// One row of a file, as header and value pairs
+interface FoodRecord {
+  row: number;
+  values: [header: string, value: unknown][];
+}
+
+/**
+ * Map records onto catalog fields and validate each against FoodGroupSchema.
+ * `errors` are problems already found in the file; rows they mention are
+ * left out of `foods` along with any row that fails here.
+ */
+function toFoodRows(
+  headers: string[],
+  records: FoodRecord[],
+  errors: FoodImportError[]
+): FoodImportResult {
+  const fields = headers.map(foodFieldForHeader);
+  const missingHeaders = REQUIRED_COLUMNS.filter(
+    field => !fields.includes(field)
+  );
+  const ignoredHeaders = headers.filter(
+    (name, index) =>
+      !fields[index] && name && !UNUSED_COLUMNS.has(normalizeHeader(name))
+  );
+
+  const invalidRows = new Set(errors.map(error => error.row));
+  const foods: FoodImportRow[] = [];
+
+  for (const { row, values } of records) {
+    const rowErrors: FoodImportError[] = [];
+    const food: Record<string, unknown> = {};
+    const columns = new Map<PropertyKey, string>();
+
+    for (const [header, raw] of values) {
+      const field = foodFieldForHeader(header);
+      // An alias never overwrites a value from an earlier column
+      if (!field || food[field] !== undefined) continue;
+
+      columns.set(field, header);
+      const { value, error } = convertFoodValue(field, raw);
+      if (error) {
+        rowErrors.push({ row, column: header, message: error });
+      } else if (value !== undefined) {
+        food[field] = value;
+      }
+    }
+
+    // The column a field was read from, or the field itself when the row
+    // has no column for it, for error reports
+    const columnOf = (field: PropertyKey | undefined) =>
+      field === undefined
+        ? undefined
+        : (columns.get(field) ??
+          (typeof field === 'string' ? field : undefined));
+
+    const validation = FoodGroupSchema.safeParse(food);
+    if (!validation.success) {
+      rowErrors.push(
+        ...validation.error.issues
+          // Conversion errors already explain why a field is missing
+          .filter(
+            issue =>
+              !rowErrors.some(
+                error =>
+                  error.column !== undefined &&
+                  error.column === columnOf(issue.path[0])
+              )
+          )
+          .map(issue => ({
+            row,
+            column: columnOf(issue.path[0]),
+            message: issue.message,
+          }))
+      );
+    }
+
+    errors.push(...rowErrors);
+    if (validation.success && rowErrors.length === 0 && !invalidRows.has(row)) {
+      foods.push({
+        row,
+        food: validation.data,
+        setsActive: food.isActive !== undefined,
+      });
+    }
+  }
+
+  return {
+    foods,
+    errors: errors.sort((a, b) => a.row - b.row),
+    rowCount: records.length,
+    missingHeaders,
+    ignoredHeaders,
+  };
+}
+
+/**
+ * Parse a food catalog CSV (or, with a tab delimiter, TSV) and validate
+ * every row against FoodGroupSchema. Rows with any error are left out of
+ * `foods`, and every problem is reported with its line and, where it
+ * belongs to one, its column.
+ */
+export function parseFoodCsv(text: string, delimiter = ','): FoodImportResult {
+  const { records, errors: csvErrors } = parseCsv(text, delimiter);
+  const [header, ...rows] = records;
+  if (!header) {
+    return {
+      foods: [],
+      errors: [{ row: 1, message: 'The file is empty' }],
+      rowCount: 0,
+      missingHeaders: [...REQUIRED_COLUMNS],
+      ignoredHeaders: [],
+    };
+  }
+
+  const headers = header.values.map(value => value.trim());
+  const errors: FoodImportError[] = csvErrors.map(error => ({
+    row: error.line,
+    column: headers[error.column - 1],
+    message: error.message,
+  }));
+  for (const { line, values } of rows) {
+    if (values.length > headers.length) {
+      errors.push({
+        row: line,
+        message: `Expected ${headers.length} columns, found ${values.length}`,
+      });
+    }
+  }
+
+  return toFoodRows(
+    headers,
+    rows.map(({ line, values }) => ({
+      row: line,
+      values: values
+        .slice(0, headers.length)
+        .map((value, index) => [headers[index], value]),
+    })),
+    errors
+  );
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parse foods from a JSON array of objects, or from NDJSON with one object
+ * per line, and validate them like CSV rows. Property names go through the
+ * same column mapping as CSV headers. Rows are numbered by item for JSON
+ * and by line for NDJSON.
+ */
+export function parseFoodJson(text: string, ndjson = false): FoodImportResult {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const errors: FoodImportError[] = [];
+  const items: { row: number; value: unknown }[] = [];
+  let rowCount = 0;
+
+  if (ndjson) {
+    input.split(/\r\n|\n|\r/).forEach((line, index) => {
+      if (!line.trim()) return;
+      rowCount++;
+      try {
+        items.push({ row: index + 1, value: JSON.parse(line) });
+      } catch {
+        errors.push({ row: index + 1, message: 'Invalid JSON' });
+      }
+    });
+  } else {
+    try {
+      const parsed: unknown = JSON.parse(input);
+      if (Array.isArray(parsed)) {
+        rowCount = parsed.length;
+        parsed.forEach((value, index) => items.push({ row: index + 1, value }));
+      } else {
+        errors.push({ row: 1, message: 'Expected an array of foods' });
+      }
+    } catch (error) {
+      errors.push({
+        row: 1,
+        message: `Invalid JSON: ${error instanceof Error ? error.message : 'could not parse'}`,
+      });
+    }
+  }
+
+  const records: FoodRecord[] = [];
+  for (const { row, value } of items) {
+    if (isObject(value)) {
+      records.push({ row, values: Object.entries(value) });
+    } else {
+      errors.push({ row, message: 'Expected an object' });
+    }
+  }
+
+  const headers = Array.from(
+    new Set(records.flatMap(({ values }) => values.map(([header]) => header)))
+  );
+  const result = toFoodRows(headers, records, errors);
+  return {
+    ...result,
+    rowCount,
+    // With no objects there are no properties to miss
+    missingHeaders: records.length > 0 ? result.missingHeaders : [],
+  };
+}
+
+/**
+ * Parse a food file in any supported format
+ */
+export function parseFoodFile(
+  text: string,
+  format: FoodFileFormat
+): FoodImportResult {
+  switch (format) {
+    case 'tsv':
+      return parseFoodCsv(text, '\t');
+    case 'json':
+      return parseFoodJson(text);
+    case 'ndjson':
+      return parseFoodJson(text, true);
+    default:
+      return parseFoodCsv(text);
+  }
+}
+
+/**
+ * One line describing an import problem, e.g. `Row 4, caloriesPer100g: ...`
+ */
+export function describeImportError(error: FoodImportError): string {
+  return `Row ${error.row}${error.column ? `, ${error.column}` : ''}: ${error.message}`;
+}
+
+// ============================================================================
+// PLANNING
+// ============================================================================
+
+/**
+ * The identity of a catalog food for imports: its name, ignoring case and
+ * spacing, within its category
+ */
+export function foodImportKey(name: string, category: string): string {
+  return `${category}:${name.trim().toLowerCase().replace(/\s+/g, ' ')}`;
+}
+
+// Firestore does not keep the key order of maps, so objects are compared
+// with their keys sorted
+const sortKeys = (_key: string, value: unknown) =>
+  isObject(value)
+    ? Object.fromEntries(
+        Object.entries(value).sort(([a], [b]) => a.localeCompare(b))
+      )
+    : value;
+
+export const sameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a, sortKeys) === JSON.stringify(b, sortKeys);
+
+/**
+ * Work out what importing validated rows into the catalog does. A row that
+ * matches an existing food, by USDA FoodData Central ID when both have one
+ * and otherwise by name and category, updates the fields the file sets,
+ * leaving fields it does not set alone. That includes `isActive`, so a file
+ * without the column never brings back a deactivated food. Other rows create
+ * foods, and a later row with the same name and category as an earlier one
+ * is rejected.
+ *
+ * Foods the file lacks are deactivated only on request, and not when any row
+ * was rejected, so a typo in a row never takes its food out of the catalog.
+ * Planning against the catalog a commit produced yields no writes, which is
+ * what makes re-running an import safe.
+ */
+export function planFoodImport(
+  { foods, errors }: Pick<FoodImportResult, 'foods' | 'errors'>,
+  existing: FoodGroup[],
+  deactivateMissing = false
+): FoodImportPlan {
+  const existingByKey = new Map<string, FoodGroup>();
+  const existingByFdcId = new Map<number, FoodGroup>();
+  for (const food of existing) {
+    const key = foodImportKey(food.name, food.category);
+    if (!existingByKey.has(key)) existingByKey.set(key, food);
+    if (food.fdcId && !existingByFdcId.has(food.fdcId)) {
+      existingByFdcId.set(food.fdcId, food);
+    }
+  }
+
+  const changes: FoodImportChange[] = [];
+  const rejected = [...errors];
+  const batch: FoodGroupBatch = { create: [], update: [], deactivate: [] };
+  const rowsByKey = new Map<string, number>();
+  const rowsByFdcId = new Map<number, number>();
+  const matched = new Set<string>();
+
+  for (const { row, food, setsActive } of foods) {
+    const key = foodImportKey(food.name, food.category);
+    const earlierRow =
+      rowsByKey.get(key) ?? (food.fdcId && rowsByFdcId.get(food.fdcId));
+    if (earlierRow) {
+      rejected.push({
+        row,
+        column: rowsByKey.has(key) ? 'name' : 'fdcId',
+        message: `Duplicate of row ${earlierRow}`,
+      });
+      continue;
+    }
+    rowsByKey.set(key, row);
+    if (food.fdcId) rowsByFdcId.set(food.fdcId, row);
+
+    const { name, category } = food;
+    const match =
+      (food.fdcId && existingByFdcId.get(food.fdcId)) || existingByKey.get(key);
+    if (match) matched.add(match.id);
+    if (!match) {
+      changes.push({ action: 'create', row, name, category });
+      batch.create.push(food);
+      continue;
+    }
+
+    const updates: Partial<FoodGroupInput> = {};
+    for (const [field, value] of Object.entries(food)) {
+      if (field === 'isActive' && !setsActive) continue;
+      if (!sameValue(match[field as FoodField], value)) {
+        Object.assign(updates, { [field]: value });
+      }
+    }
+    const fields = Object.keys(updates) as FoodField[];
+    if (fields.length > 0) {
+      changes.push({
+        action: 'update',
+        row,
+        id: match.id,
+        name,
+        category,
+        fields,
+      });
+      batch.update.push({ id: match.id, updates });
+    } else {
+      changes.push({ action: 'unchanged', row, id: match.id, name, category });
+    }
+  }
+
+  if (deactivateMissing && rejected.length === 0) {
+    for (const food of existing) {
+      if (food.isActive && !matched.has(food.id)) {
+        changes.push({
+          action: 'deactivate',
+          id: food.id,
+          name: food.name,
+          category: food.category,
+        });
+        batch.deactivate.push(food.id);
+      }
+    }
+  }
+
+  return {
+    changes,
+    rejected: rejected.sort((a, b) => a.row - b.row),
+    batch,
+  };
+}
+
+// ============================================================================
+// IMPORT PIPELINE
+// ============================================================================
+
+/**
+ * Diff parsed rows against the catalog and, unless this is a dry run, commit
+ * the creations, updates and deactivations in batched writes, recording
+ * each in the changed food's history. Rejected rows are reported and
+ * skipped; the rest still import.
+ */
+export async function importFoods(
+  parsed: FoodImportResult,
+  audit: AuditContext,
+  { dryRun = false, deactivateMissing = false }: FoodImportOptions = {}
+): Promise<FoodImportReport> {
+  const foods = parsed.foods.map(({ food, ...row }) => ({
+    ...row,
+    food: sanitizeObject(food),
+  }));
+  const { changes, rejected, batch } = planFoodImport(
+    { foods, errors: parsed.errors },
+    await foodGroupOperations.getAll({ includeInactive: true }),
+    deactivateMissing
+  );
+
+  if (!dryRun) {
+    await foodGroupOperations.commitBatch(batch, audit);
+  }
+
+  const counts = { create: 0, update: 0, unchanged: 0, deactivate: 0 };
+  for (const change of changes) counts[change.action]++;
+
+  return {
+    dryRun,
+    total: parsed.rowCount,
+    counts: {
+      ...counts,
+      rejected: new Set(rejected.map(error => error.row)).size,
+    },
+    changes,
+    errors: rejected,
+    ignoredHeaders: parsed.ignoredHeaders,
+    deactivationSkipped: deactivateMissing && rejected.length > 0,
+  };
+}
+
+/**
+ * One sentence summarizing an import, in the future tense for dry runs
+ */
+export function describeImportReport({
+  dryRun,
+  counts,
+}: FoodImportReport): string {
+  const { create, update, deactivate, rejected } = counts;
+  return dryRun
+    ? `Would create ${create}, update ${update} and deactivate ${deactivate} food groups; ${rejected} rows rejected`
+    : `Created ${create}, updated ${update} and deactivated ${deactivate} food groups; ${rejected} rows rejected`;
+}
@@ -0,0 +1,176 @@
+import type { CatalogFood } from './combinationGenerator';
+import type { FoodLogEntry, SavedCombination } from './database';
+import type { MealType } from './mealPlans';
+import {
+  addNutrition,
+  calculateIngredientNutrition,
+  calculateTextNutrition,
+  EMPTY_NUTRITION,
+  NutritionTotals,
+  parseQuantity,
+} from './nutrition';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface LoggedEntry extends FoodLogEntry {
+  // Null when the quantity cannot be measured or the food is gone
+  nutrition: NutritionTotals | null;
+}
+
+export interface DiaryDay {
+  date: string; // YYYY-MM-DD
+  entries: LoggedEntry[];
+  totals: NutritionTotals;
+  slots: Partial<Record<MealType, NutritionTotals>>;
+  unmeasured: string[]; // names of entries left out of the totals
+}
+
+// ============================================================================
+// DATES
+// ============================================================================
+
+/**
+ * The diary day for a moment in the user's own time zone
+ */
+export function toDiaryDate(date: Date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Shift a YYYY-MM-DD day by whole days
+ */
+export function addDays(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+/**
+ * Guess the meal slot from the time of day, for one-click logging
+ */
+export function currentMealSlot(date: Date = new Date()): MealType {
+  const hour = date.getHours();
+  if (hour < 10) return 'breakfast';
+  if (hour < 14) return 'lunch';
+  if (hour < 17) return 'snack';
+  if (hour < 22) return 'dinner';
+  return 'snack';
+}
+
+// ============================================================================
+// NUTRITION
+// ============================================================================
+
+function scaleNutrition(
+  totals: NutritionTotals,
+  factor: number
+): NutritionTotals {
+  const round = (value: number) => Math.round(value * factor * 10) / 10;
+  return {
+    calories: round(totals.calories),
+    protein: round(totals.protein),
+    carbs: round(totals.carbs),
+    fat: round(totals.fat),
+    fiber: round(totals.fiber),
+  };
+}
+
+/**
+ * Nutrition for one serving of a saved combination. Stored nutrition facts
+ * win; otherwise the ingredient strings are measured against the catalog.
+ */
+export function combinationNutrition(
+  combination: SavedCombination,
+  foods: CatalogFood[]
+): NutritionTotals {
+  return (
+    combination.nutritionFacts ??
+    calculateTextNutrition(
+      [
+        ...combination.fruits,
+        ...combination.vegetables,
+        ...combination.grains,
+        ...(combination.proteins ?? []),
+        ...(combination.dairy ?? []),
+        ...(combination.nuts ?? []),
+      ],
+      foods
+    ).totals
+  );
+}
+
+/**
+ * Read a serving count such as "1", "1/2" or "2 servings"
+ */
+export function parseServings(quantity: string): number | null {
+  const parsed = parseQuantity(quantity);
+  return parsed?.unit === 'piece' ? parsed.amount : null;
+}
+
+/**
+ * Nutrition of a diary entry from the catalog's per-100g values, or from the
+ * referenced saved combination times the number of servings
+ */
+export function calculateEntryNutrition(
+  entry: Pick<FoodLogEntry, 'foodGroupId' | 'combinationId' | 'quantity'>,
+  foods: CatalogFood[],
+  combinations: SavedCombination[]
+): NutritionTotals | null {
+  if (entry.foodGroupId) {
+    const food = foods.find(item => item.id === entry.foodGroupId);
+    if (!food) return null;
+
+    return calculateIngredientNutrition(
+      { name: food.name, quantity: entry.quantity },
+      [food]
+    ).nutrition;
+  }
+
+  const combination = combinations.find(
+    item => item.id === entry.combinationId
+  );
+  const servings = parseServings(entry.quantity);
+  if (!combination || servings === null) return null;
+
+  return scaleNutrition(combinationNutrition(combination, foods), servings);
+}
+
+/**
+ * Group entries into days with daily and per-slot totals, oldest day first
+ */
+export function summarizeDiary(
+  entries: FoodLogEntry[],
+  foods: CatalogFood[],
+  combinations: SavedCombination[]
+): DiaryDay[] {
+  const days = new Map<string, DiaryDay>();
+
+  for (const entry of entries) {
+    const day = days.get(entry.date) ?? {
+      date: entry.date,
+      entries: [],
+      totals: EMPTY_NUTRITION,
+      slots: {},
+      unmeasured: [],
+    };
+    days.set(entry.date, day);
+
+    const nutrition = calculateEntryNutrition(entry, foods, combinations);
+    day.entries.push({ ...entry, nutrition });
+
+    if (nutrition) {
+      day.totals = addNutrition(day.totals, nutrition);
+      day.slots[entry.mealSlot] = addNutrition(
+        day.slots[entry.mealSlot] ?? EMPTY_NUTRITION,
+        nutrition
+      );
+    } else {
+      day.unmeasured.push(entry.name);
+    }
+  }
+
+  return [...days.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
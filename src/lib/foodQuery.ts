@@ -0,0 +1,440 @@
+import type { FoodGroup } from './database';
+import type { SearchRanking } from './foodSearch';
+import type { ValidatedFoodGroupQuery } from './validation/schemas';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// The numeric food fields a query can bound, e.g. proteinPer100g>=10
+export const FOOD_RANGE_FIELDS = [
+  'glycemicIndex',
+  'caloriesPer100g',
+  'proteinPer100g',
+  'carbsPer100g',
+  'fatPer100g',
+  'fiberPer100g',
+] as const;
+
+export type FoodRangeField = (typeof FOOD_RANGE_FIELDS)[number];
+
+export type FoodGroupQuery = ValidatedFoodGroupQuery;
+
+export type FoodSort = NonNullable<FoodGroupQuery['sortBy']>;
+
+// Anything shaped like a catalog food can be queried, fallback data included
+export type QueryableFood = Omit<FoodGroup, 'createdAt' | 'updatedAt'> &
+  Partial<SearchRanking>;
+
+// A food as a query returns it; ranked when the query searched
+export type QueriedFood = FoodGroup & Partial<SearchRanking>;
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+/**
+ * How many foods each filter value would match, for building filter UIs.
+ * Each facet is counted with every other filter applied but not its own, so
+ * picking a second category shows how many foods it would add.
+ */
+export interface FoodGroupFacets {
+  categories: FacetCount[];
+  subcategories: FacetCount[];
+  seasonality: FacetCount[];
+  nutrients: FacetCount[]; // the most common MAX_TAG_FACETS
+  benefits: FacetCount[]; // the most common MAX_TAG_FACETS
+  ranges: Partial<Record<FoodRangeField, { min: number; max: number }>>;
+}
+
+export interface FoodGroupPage<T extends QueryableFood = QueriedFood> {
+  items: T[];
+  total: number; // matches on every page
+  offset: number;
+  limit: number | null; // null when the query asked for every match
+  nextCursor: string | null;
+  facets: FoodGroupFacets;
+}
+
+// Nutrients and benefits are free text, so only the common ones are listed
+export const MAX_TAG_FACETS = 25;
+
+const LIST_PARAMS = {
+  categories: ['category', 'categories'],
+  subcategories: ['subcategory', 'subcategories'],
+  seasonality: ['seasonality'],
+  nutrients: ['nutrient', 'nutrients'],
+  benefits: ['benefit', 'benefits'],
+} as const;
+
+type ListFilter = keyof typeof LIST_PARAMS;
+
+const SORT_FIELDS: Record<
+  Exclude<FoodSort, 'relevance'>,
+  keyof QueryableFood
+> = {
+  name: 'name',
+  category: 'category',
+  calories: 'caloriesPer100g',
+  protein: 'proteinPer100g',
+  carbs: 'carbsPer100g',
+  fat: 'fatPer100g',
+  fiber: 'fiberPer100g',
+  glycemicIndex: 'glycemicIndex',
+};
+
+// ============================================================================
+// READING QUERIES
+// ============================================================================
+
+const isRangeField = (field: string): field is FoodRangeField =>
+  (FOOD_RANGE_FIELDS as readonly string[]).includes(field);
+
+const toNumber = (text: string | null) =>
+  text === null || text.trim() === '' ? undefined : Number(text);
+
+/**
+ * The unvalidated query in a catalog URL, for FoodGroupQuerySchema. Lists may
+ * be comma separated or repeated (category=fruits&category=nuts). Ranges are
+ * written proteinPer100g>=10, proteinPer100g<=30 or proteinPer100g=10..30;
+ * a malformed range reads as NaN so validation rejects it.
+ */
+export function readFoodGroupQuery(
+  searchParams: URLSearchParams
+): Record<string, unknown> {
+  const list = (names: readonly string[]) => {
+    const values = names
+      .flatMap(name => searchParams.getAll(name))
+      .flatMap(value => value.split(','))
+      .map(value => value.trim())
+      .filter(Boolean);
+    return values.length > 0 ? values : undefined;
+  };
+
+  const ranges: Record<string, { min?: number; max?: number }> = {};
+  for (const [key, value] of searchParams) {
+    // "proteinPer100g>=10" arrives as the key "proteinPer100g>" and value "10"
+    const expression = value === '' ? key : `${key}=${value}`;
+    const [, field, rest] = /^(\w+)([\s\S]*)$/.exec(expression) ?? [];
+    if (!field || !isRangeField(field)) continue;
+
+    const range = (ranges[field] ??= {});
+    const [, operator, operand] = /^(>=|<=|=)([\s\S]*)$/.exec(rest) ?? [];
+    if (operator === '>=') range.min = toNumber(operand) ?? NaN;
+    else if (operator === '<=') range.max = toNumber(operand) ?? NaN;
+    else if (operator === '=' && operand.includes('..')) {
+      const [min, max] = operand.split('..');
+      range.min = toNumber(min);
+      range.max = toNumber(max);
+      if (range.min === undefined && range.max === undefined) range.min = NaN;
+    } else if (operator === '=') {
+      range.min = range.max = toNumber(operand) ?? NaN;
+    } else range.min = NaN;
+  }
+
+  const lists = Object.fromEntries(
+    Object.entries(LIST_PARAMS).map(([filter, names]) => [filter, list(names)])
+  );
+
+  return {
+    search: searchParams.get('search') || undefined,
+    ...lists,
+    ranges: Object.keys(ranges).length > 0 ? ranges : undefined,
+    includeInactive:
+      searchParams.get('includeInactive') === 'true' || undefined,
+    sortBy: searchParams.get('sortBy') || undefined,
+    sortOrder: searchParams.get('sortOrder') || undefined,
+    page: toNumber(searchParams.get('page')),
+    limit: toNumber(searchParams.get('limit')),
+    offset: toNumber(searchParams.get('offset')),
+    cursor: searchParams.get('cursor') || undefined,
+  };
+}
+
+// ============================================================================
+// CURSORS
+// ============================================================================
+
+const CURSOR_PREFIX = 'offset:';
+
+// An opaque, URL-safe token for the page after the one returned
+export function encodeFoodCursor(offset: number): string {
+  return btoa(`${CURSOR_PREFIX}${offset}`)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+// The offset a cursor points to, or null if it is not one of ours
+export function decodeFoodCursor(cursor: string): number | null {
+  try {
+    const decoded = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'));
+    const match = new RegExp(`^${CURSOR_PREFIX}(\\d{1,9})$`).exec(decoded);
+    return match ? Number(match[1]) : null;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// NORMALIZING
+// ============================================================================
+
+const DEFAULT_PAGE_SIZE = 20; // PaginationSchema's default limit
+
+// Which slice of the matches a query asks for; every match without paging
+function pageOf(query: FoodGroupQuery): {
+  offset: number;
+  limit: number | null;
+} {
+  const paged =
+    query.page !== undefined ||
+    query.limit !== undefined ||
+    query.offset !== undefined ||
+    query.cursor !== undefined;
+  if (!paged) return { offset: 0, limit: null };
+
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+  const offset =
+    query.cursor !== undefined
+      ? cursorOffset(query.cursor)
+      : (query.offset ?? ((query.page ?? 1) - 1) * limit);
+  return { offset, limit };
+}
+
+// FoodGroupQuerySchema already answers these with a 400; a query that skipped
+// it must not silently restart from the first page
+function cursorOffset(cursor: string): number {
+  const offset = decodeFoodCursor(cursor);
+  if (offset === null) throw new Error(`Invalid food cursor: ${cursor}`);
+  return offset;
+}
+
+function sortOf(query: FoodGroupQuery): {
+  sortBy: FoodSort;
+  sortOrder: 'asc' | 'desc';
+} {
+  const searching = Boolean(query.search?.trim());
+  const sortBy =
+    query.sortBy === 'relevance' && !searching
+      ? 'name'
+      : (query.sortBy ?? (searching ? 'relevance' : 'name'));
+  return {
+    sortBy,
+    sortOrder: query.sortOrder ?? (sortBy === 'relevance' ? 'desc' : 'asc'),
+  };
+}
+
+const normalizeTag = (tag: string) => tag.trim().toLowerCase();
+
+/**
+ * A cache key equal for queries that return the same page: tag order and
+ * case, spacing in the search, and page versus offset versus cursor do not
+ * matter, and defaults are spelled out.
+ */
+export function foodGroupQueryKey(query: FoodGroupQuery): string {
+  const list = (values?: string[]) =>
+    values?.length ? [...new Set(values.map(normalizeTag))].sort() : undefined;
+
+  return JSON.stringify({
+    search:
+      query.search?.trim().toLowerCase().replace(/\s+/g, ' ') || undefined,
+    ...Object.fromEntries(
+      (Object.keys(LIST_PARAMS) as ListFilter[]).map(filter => [
+        filter,
+        list(query[filter]),
+      ])
+    ),
+    ranges: FOOD_RANGE_FIELDS.filter(field => query.ranges?.[field]).map(
+      field => [field, query.ranges?.[field]?.min, query.ranges?.[field]?.max]
+    ),
+    includeInactive: query.includeInactive || undefined,
+    ...sortOf(query),
+    ...pageOf(query),
+  });
+}
+
+// ============================================================================
+// RUNNING QUERIES
+// ============================================================================
+
+type Dimension = ListFilter | FoodRangeField;
+
+interface Filter {
+  dimension: Dimension;
+  matches(food: QueryableFood): boolean;
+}
+
+function filtersOf(query: FoodGroupQuery): Filter[] {
+  const filters: Filter[] = [];
+  const anyOf = (
+    dimension: Dimension,
+    wanted: string[] | undefined,
+    valueOf: (food: QueryableFood) => string | undefined
+  ) => {
+    if (!wanted?.length) return;
+    const values = new Set(wanted.map(normalizeTag));
+    filters.push({
+      dimension,
+      matches: food => values.has(normalizeTag(valueOf(food) ?? '')),
+    });
+  };
+  const allOf = (dimension: 'nutrients' | 'benefits', wanted?: string[]) => {
+    if (!wanted?.length) return;
+    filters.push({
+      dimension,
+      matches: food => {
+        const tags = new Set((food[dimension] ?? []).map(normalizeTag));
+        return wanted.every(tag => tags.has(normalizeTag(tag)));
+      },
+    });
+  };
+
+  anyOf('categories', query.categories, food => food.category);
+  anyOf('subcategories', query.subcategories, food => food.subcategory);
+  anyOf('seasonality', query.seasonality, food => food.seasonality);
+  allOf('nutrients', query.nutrients);
+  allOf('benefits', query.benefits);
+
+  for (const field of FOOD_RANGE_FIELDS) {
+    const range = query.ranges?.[field];
+    if (!range) continue;
+    filters.push({
+      dimension: field,
+      matches: food => {
+        const value = food[field];
+        return (
+          value !== undefined &&
+          (range.min === undefined || value >= range.min) &&
+          (range.max === undefined || value <= range.max)
+        );
+      },
+    });
+  }
+  return filters;
+}
+
+// Occurrences of each value, most common first; values differing only in
+// case are counted together under the first spelling seen
+function countValues(values: (string | undefined)[]): FacetCount[] {
+  const counts = new Map<string, FacetCount>();
+  for (const value of values) {
+    if (!value) continue;
+    const key = normalizeTag(value);
+    const facet = counts.get(key) ?? { value, count: 0 };
+    facet.count++;
+    counts.set(key, facet);
+  }
+  return [...counts.values()].sort(
+    (a, b) => b.count - a.count || a.value.localeCompare(b.value)
+  );
+}
+
+function facetsOf(foods: QueryableFood[], filters: Filter[]): FoodGroupFacets {
+  // The foods matching every filter except those on one dimension
+  const matchingOthers = (dimension: Dimension) =>
+    foods.filter(food =>
+      filters.every(
+        filter => filter.dimension === dimension || filter.matches(food)
+      )
+    );
+
+  const ranges: FoodGroupFacets['ranges'] = {};
+  for (const field of FOOD_RANGE_FIELDS) {
+    const values = matchingOthers(field)
+      .map(food => food[field])
+      .filter((value): value is number => value !== undefined);
+    if (values.length > 0) {
+      ranges[field] = { min: Math.min(...values), max: Math.max(...values) };
+    }
+  }
+
+  return {
+    categories: countValues(
+      matchingOthers('categories').map(food => food.category)
+    ),
+    subcategories: countValues(
+      matchingOthers('subcategories').map(food => food.subcategory)
+    ),
+    seasonality: countValues(
+      matchingOthers('seasonality').map(food => food.seasonality)
+    ),
+    nutrients: countValues(
+      matchingOthers('nutrients').flatMap(food => food.nutrients ?? [])
+    ).slice(0, MAX_TAG_FACETS),
+    benefits: countValues(
+      matchingOthers('benefits').flatMap(food => food.benefits ?? [])
+    ).slice(0, MAX_TAG_FACETS),
+    ranges,
+  };
+}
+
+function compareBy(
+  sortBy: FoodSort,
+  sortOrder: 'asc' | 'desc'
+): (a: QueryableFood, b: QueryableFood) => number {
+  const direction = sortOrder === 'asc' ? 1 : -1;
+  return (a, b) => {
+    let order = 0;
+    if (sortBy === 'relevance') {
+      order = ((a.relevance ?? 0) - (b.relevance ?? 0)) * direction;
+    } else {
+      const field = SORT_FIELDS[sortBy];
+      const [x, y] = [a[field], b[field]];
+      // Foods without the value come last either way
+      if (x === undefined || y === undefined) {
+        order = x === y ? 0 : x === undefined ? 1 : -1;
+      } else if (typeof x === 'number' && typeof y === 'number') {
+        order = (x - y) * direction;
+      } else {
+        order = String(x).localeCompare(String(y)) * direction;
+      }
+    }
+    return order || a.name.localeCompare(b.name);
+  };
+}
+
+/**
+ * Filter, sort and page a catalog. `foods` are the candidates: the whole
+ * catalog, or the search results when the query searches (see
+ * CatalogSearch.query). Deactivated foods are left out unless the query
+ * includes them.
+ */
+export function runFoodGroupQuery<T extends QueryableFood>(
+  foods: T[],
+  query: FoodGroupQuery
+): FoodGroupPage<T> {
+  const candidates = query.includeInactive
+    ? foods
+    : foods.filter(food => food.isActive);
+  const filters = filtersOf(query);
+  const { sortBy, sortOrder } = sortOf(query);
+  const { offset, limit } = pageOf(query);
+
+  const matches = candidates
+    .filter(food => filters.every(filter => filter.matches(food)))
+    .sort(compareBy(sortBy, sortOrder));
+  const end = limit === null ? matches.length : offset + limit;
+
+  return {
+    items: matches.slice(offset, end),
+    total: matches.length,
+    offset,
+    limit,
+    nextCursor: end < matches.length ? encodeFoodCursor(end) : null,
+    facets: facetsOf(candidates, filters),
+  };
+}
+
+// The JSON body the catalog routes answer a query with; `data` holds the
+// page's foods, as it held the whole list before paging
+export const toFoodGroupPageResponse = <T extends QueryableFood>({
+  items,
+  ...page
+}: FoodGroupPage<T>) => ({
+  success: true,
+  data: items,
+  count: items.length,
+  ...page,
+});
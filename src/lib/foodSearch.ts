@@ -0,0 +1,400 @@
+import type { FoodGroup, FoodGroupQueryOptions } from './database';
+import { foodGroupQueryKey, runFoodGroupQuery } from './foodQuery';
+import type { FoodGroupPage, FoodGroupQuery, QueryableFood } from './foodQuery';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// The food fields a search looks at, see FIELD_WEIGHTS
+export type SearchField = 'name' | 'nutrients' | 'benefits';
+
+export type SearchableFood = Pick<
+  FoodGroup,
+  'name' | 'nutrients' | 'benefits' | 'isActive'
+>;
+
+// One word of a text, with where it is in the original
+export interface SearchToken {
+  term: string; // lower case, without accents
+  start: number;
+  end: number;
+}
+
+// A field value the query matched, e.g. the nutrient "Vitamin C", with the
+// [start, end) character ranges to highlight
+export interface SearchHighlight {
+  field: SearchField;
+  value: string;
+  ranges: [number, number][];
+}
+
+export interface SearchRanking {
+  relevance: number; // higher is better; only comparable within one search
+  highlights: SearchHighlight[];
+}
+
+export type RankedFood<T extends SearchableFood = FoodGroup> = T &
+  SearchRanking;
+
+// Where a term occurs: which food, field and value, and at which characters
+interface Posting {
+  food: number;
+  field: SearchField;
+  value: number; // index into the field's values; always 0 for name
+  start: number;
+  end: number;
+}
+
+export interface FoodSearchIndex<T extends SearchableFood = FoodGroup> {
+  foods: T[];
+  postings: Map<string, Posting[]>; // term → occurrences
+  terms: string[]; // every indexed term, for prefix and fuzzy matching
+}
+
+export interface FoodSearchOptions {
+  includeInactive?: boolean;
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+// A match in the name outranks one in the nutrients, which outranks one in
+// the benefits
+export const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  nutrients: 2,
+  benefits: 1,
+};
+
+// How much a match of each kind counts, before the field weight
+const EXACT = 1;
+const SYNONYM = 0.9;
+const PREFIX = 0.7; // "straw" → "strawberry"
+const FUZZY = [0, 0.5, 0.3]; // by edit distance: "brocoli" → "broccoli"
+
+// Prefixes shorter than this match too much to be useful
+const MIN_PREFIX_LENGTH = 2;
+
+// Typos tolerated in a query word, by its length; short words must be exact
+const maxEdits = (length: number) => (length < 4 ? 0 : length < 8 ? 1 : 2);
+
+/**
+ * Words that mean the same food or nutrient; a search for one also finds the
+ * others. Single words only, since matching is per word.
+ */
+export const SYNONYMS: readonly (readonly string[])[] = [
+  ['aubergine', 'eggplant', 'brinjal'],
+  ['courgette', 'zucchini'],
+  ['cilantro', 'coriander'],
+  ['arugula', 'rocket'],
+  ['capsicum', 'pepper'],
+  ['beetroot', 'beet'],
+  ['rutabaga', 'swede'],
+  ['chickpea', 'chickpeas', 'garbanzo'],
+  ['prawn', 'shrimp'],
+  ['maize', 'corn'],
+  ['yoghurt', 'yogurt'],
+  ['fibre', 'fiber'],
+  ['thiamin', 'thiamine', 'b1'],
+  ['riboflavin', 'b2'],
+  ['niacin', 'b3'],
+  ['folate', 'folic', 'b9'],
+  ['cobalamin', 'b12'],
+];
+
+const SYNONYMS_BY_TERM = new Map(
+  SYNONYMS.flatMap(group =>
+    group.map(term => [term, group.filter(other => other !== term)] as const)
+  )
+);
+
+// ============================================================================
+// INDEXING
+// ============================================================================
+
+/**
+ * Split text into words, ignoring case and accents ("Frisée" matches
+ * "frisee"). Offsets point into the original text for highlighting.
+ */
+export function tokenize(text: string): SearchToken[] {
+  return [...text.matchAll(/[\p{L}\p{N}]+/gu)].map(match => ({
+    term: match[0].normalize('NFD').replace(/\p{M}/gu, '').toLowerCase(),
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
+
+const fieldValues = (food: SearchableFood, field: SearchField): string[] =>
+  field === 'name' ? [food.name] : (food[field] ?? []);
+
+/**
+ * An inverted index of the foods' names, nutrients and benefits. Build it
+ * once per catalog version; searching it does not touch the foods again.
+ */
+export function buildFoodSearchIndex<T extends SearchableFood>(
+  foods: T[]
+): FoodSearchIndex<T> {
+  const postings = new Map<string, Posting[]>();
+  foods.forEach((food, foodIndex) => {
+    for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+      fieldValues(food, field).forEach((value, valueIndex) => {
+        for (const { term, start, end } of tokenize(value)) {
+          const occurrences = postings.get(term) ?? [];
+          occurrences.push({
+            food: foodIndex,
+            field,
+            value: valueIndex,
+            start,
+            end,
+          });
+          postings.set(term, occurrences);
+        }
+      });
+    }
+  });
+  return { foods, postings, terms: [...postings.keys()].sort() };
+}
+
+// ============================================================================
+// SEARCHING
+// ============================================================================
+
+/**
+ * Levenshtein distance between two words, or Infinity once it exceeds `max`
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return Infinity;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    if (Math.min(...current) > max) return Infinity;
+    previous = current;
+  }
+  return previous[b.length] <= max ? previous[b.length] : Infinity;
+}
+
+// Every indexed term a query word matches, with how well it matches
+function matchingTerms(
+  index: FoodSearchIndex<SearchableFood>,
+  word: string
+): Map<string, number> {
+  const matches = new Map<string, number>();
+  const add = (term: string, quality: number) => {
+    if (quality > (matches.get(term) ?? 0)) matches.set(term, quality);
+  };
+
+  const variants: [string, number][] = [
+    [word, EXACT],
+    ...(SYNONYMS_BY_TERM.get(word) ?? []).map(
+      synonym => [synonym, SYNONYM] as [string, number]
+    ),
+  ];
+  for (const [variant, quality] of variants) {
+    if (index.postings.has(variant)) add(variant, quality);
+    if (variant.length >= MIN_PREFIX_LENGTH) {
+      for (const term of index.terms) {
+        if (term !== variant && term.startsWith(variant)) {
+          add(term, quality * PREFIX);
+        }
+      }
+    }
+  }
+
+  const edits = maxEdits(word.length);
+  if (edits > 0) {
+    for (const term of index.terms) {
+      const distance = editDistance(word, term, edits);
+      if (distance > 0 && distance <= edits) add(term, FUZZY[distance]);
+    }
+  }
+  return matches;
+}
+
+/**
+ * Foods matching every word of the query, best first. Each word may match
+ * exactly, through a synonym, as the start of a longer word or with a typo;
+ * a food scores the best match of each word, weighted by FIELD_WEIGHTS.
+ * Equal scores are ordered by name.
+ */
+export function searchFoodIndex<T extends SearchableFood>(
+  index: FoodSearchIndex<T>,
+  query: string,
+  { includeInactive = false }: FoodSearchOptions = {}
+): RankedFood<T>[] {
+  const words = [...new Set(tokenize(query).map(token => token.term))];
+  if (words.length === 0) return [];
+
+  // Per food: the best score of each word, and every occurrence matched
+  const scores = new Map<number, number[]>();
+  const matched = new Map<number, Posting[]>();
+
+  words.forEach((word, wordIndex) => {
+    for (const [term, quality] of matchingTerms(index, word)) {
+      for (const posting of index.postings.get(term) ?? []) {
+        const score = quality * FIELD_WEIGHTS[posting.field];
+        const best = scores.get(posting.food) ?? words.map(() => 0);
+        best[wordIndex] = Math.max(best[wordIndex], score);
+        scores.set(posting.food, best);
+        const occurrences = matched.get(posting.food) ?? [];
+        occurrences.push(posting);
+        matched.set(posting.food, occurrences);
+      }
+    }
+  });
+
+  return [...scores.entries()]
+    .filter(
+      ([food, best]) =>
+        best.every(score => score > 0) &&
+        (includeInactive || index.foods[food].isActive)
+    )
+    .map(([food, best]) => ({
+      ...index.foods[food],
+      relevance:
+        Math.round(best.reduce((sum, score) => sum + score, 0) * 100) / 100,
+      highlights: toHighlights(index.foods[food], matched.get(food) ?? []),
+    }))
+    .sort((a, b) => b.relevance - a.relevance || a.name.localeCompare(b.name));
+}
+
+// The matched values of a food with their ranges, in field order
+function toHighlights(
+  food: SearchableFood,
+  postings: Posting[]
+): SearchHighlight[] {
+  const byValue = new Map<string, SearchHighlight>();
+  for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+    const values = fieldValues(food, field);
+    postings
+      .filter(posting => posting.field === field)
+      .sort((a, b) => a.value - b.value || a.start - b.start)
+      .forEach(({ value, start, end }) => {
+        const key = `${field}:${value}`;
+        const highlight = byValue.get(key) ?? {
+          field,
+          value: values[value],
+          ranges: [],
+        };
+        const last = highlight.ranges[highlight.ranges.length - 1];
+        if (!last || last[1] < start) highlight.ranges.push([start, end]);
+        else last[1] = Math.max(last[1], end);
+        byValue.set(key, highlight);
+      });
+  }
+  return [...byValue.values()];
+}
+
+/**
+ * Run a catalog query over an index's foods, narrowed to the search results
+ * when the query searches
+ */
+export function queryFoodIndex<T extends SearchableFood & QueryableFood>(
+  index: FoodSearchIndex<T>,
+  query: FoodGroupQuery
+): FoodGroupPage<T> {
+  const candidates: T[] = query.search?.trim()
+    ? searchFoodIndex(index, query.search, {
+        includeInactive: query.includeInactive,
+      })
+    : index.foods;
+  return runFoodGroupQuery(candidates, query);
+}
+
+// ============================================================================
+// CATALOG SEARCH
+// ============================================================================
+
+// How long an index is trusted without a write seen in this process; other
+// server instances may have changed the catalog meanwhile
+export const CATALOG_INDEX_MAX_AGE_MS = 5 * 60 * 1000;
+
+// Query results kept per index, the oldest dropped first
+const MAX_CACHED_QUERIES = 100;
+
+export interface CatalogSearch {
+  search(
+    query: string,
+    options?: FoodGroupQueryOptions
+  ): Promise<RankedFood<FoodGroup>[]>;
+  // Cached per normalized query until the index is rebuilt
+  query(query: FoodGroupQuery): Promise<FoodGroupPage>;
+  // Call after every catalog write; the next search rebuilds the index
+  invalidate(): void;
+}
+
+/**
+ * Search and query a catalog `loadCatalog` returns in full, deactivated
+ * foods included. The index is built on the first search and rebuilt on the
+ * first one after it is invalidated or older than `maxAgeMs`.
+ */
+export function createCatalogSearch(
+  loadCatalog: () => Promise<FoodGroup[]>,
+  maxAgeMs = CATALOG_INDEX_MAX_AGE_MS,
+  now: () => number = Date.now
+): CatalogSearch {
+  let cached: { index: FoodSearchIndex; builtAt: number } | null = null;
+  let building: Promise<FoodSearchIndex> | null = null;
+  let version = 0;
+  // Keyed by the index the results came from, so a rebuild drops them
+  const results = new WeakMap<FoodSearchIndex, Map<string, FoodGroupPage>>();
+
+  const currentIndex = () => {
+    if (cached && now() - cached.builtAt < maxAgeMs) {
+      return Promise.resolve(cached.index);
+    }
+    if (!building) {
+      const startedAt = version;
+      const build = loadCatalog()
+        .then(foods => {
+          const index = buildFoodSearchIndex(foods);
+          // A write during the build may be missing from it
+          if (startedAt === version) cached = { index, builtAt: now() };
+          return index;
+        })
+        .finally(() => {
+          if (building === build) building = null;
+        });
+      building = build;
+    }
+    return building;
+  };
+
+  return {
+    async search(query, options = {}) {
+      return searchFoodIndex(await currentIndex(), query, options);
+    },
+
+    async query(query) {
+      const index = await currentIndex();
+      const pages = results.get(index) ?? new Map<string, FoodGroupPage>();
+      results.set(index, pages);
+
+      const key = foodGroupQueryKey(query);
+      let page = pages.get(key);
+      if (!page) {
+        page = queryFoodIndex(index, query);
+        if (pages.size >= MAX_CACHED_QUERIES) {
+          pages.delete(pages.keys().next().value!);
+        }
+        pages.set(key, page);
+      }
+      return page;
+    },
+
+    invalidate() {
+      version++;
+      cached = null;
+      building = null;
+    },
+  };
+}
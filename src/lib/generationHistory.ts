@@ -0,0 +1,213 @@
+import type { MealPlanRequest, MealPlanResponse } from '@/lib/ai';
+import { CombinationWithNutrition, formatIngredient } from '@/lib/combinations';
+import type { MealPlan } from '@/lib/mealPlans';
+import { generationHistoryOperations } from '@/lib/database';
+import type { DailyValueCoverage } from '@/lib/nutrition';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// The inputs a plan was generated from, enough to rerun the request. Partial
+// regenerations are not stored: the parent record already holds that plan.
+export type GenerationInputs = Omit<MealPlanRequest, 'regenerate'>;
+
+/**
+ * One run of the meal plan generator. Regenerating a plan records a new entry
+ * whose `parentId` points at the plan it replaced, so a user's history forms
+ * a set of lineage chains.
+ */
+export interface GenerationRecord {
+  id: string;
+  userId: string;
+  parentId?: string;
+  request: GenerationInputs;
+  provider: string; // as reported to clients, e.g. `gemini:gemini-1.5-pro-latest`
+  model?: string; // model part of the provider name, when it has one
+  seed?: number;
+  combinations?: CombinationWithNutrition[];
+  coverage?: DailyValueCoverage;
+  mealPlan?: MealPlan;
+  createdAt: string;
+}
+
+export type GenerationRecordInput = Omit<GenerationRecord, 'id' | 'createdAt'>;
+
+export interface InputChange {
+  field: keyof GenerationInputs;
+  before: string;
+  after: string;
+}
+
+export interface SlotChange {
+  slot: string; // "Monday" or "Day 2 lunch"
+  added: string[];
+  removed: string[];
+}
+
+export interface GenerationDiff {
+  inputs: InputChange[];
+  slots: SlotChange[];
+  providerChanged: boolean;
+}
+
+// ============================================================================
+// RECORDS
+// ============================================================================
+
+/**
+ * Split a reported provider name into the provider and the model it used
+ */
+export function parseProviderName(name: string): {
+  provider: string;
+  model?: string;
+} {
+  const separator = name.indexOf(':');
+  return separator === -1
+    ? { provider: name }
+    : {
+        provider: name.slice(0, separator),
+        model: name.slice(separator + 1),
+      };
+}
+
+/**
+ * Store a successful run in the user's generation history. History is a
+ * convenience, so a failed write is logged rather than failing the request.
+ */
+export async function recordGeneration(
+  userId: string,
+  parentId: string | undefined,
+  request: GenerationInputs,
+  response: MealPlanResponse
+): Promise<string | undefined> {
+  if (!response.success || !response.provider) return undefined;
+
+  try {
+    return await generationHistoryOperations.save({
+      userId,
+      parentId,
+      request,
+      provider: response.provider,
+      model: parseProviderName(response.provider).model,
+      seed: response.seed,
+      combinations: response.combinations,
+      coverage: response.coverage,
+      mealPlan: response.mealPlan,
+    });
+  } catch (error) {
+    console.warn('Could not record meal plan generation:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Follow parent links from a record back to the first generation in its
+ * chain. Records missing from `records` end the chain.
+ */
+export function getLineage(
+  record: GenerationRecord,
+  records: GenerationRecord[]
+): GenerationRecord[] {
+  const byId = new Map(records.map(entry => [entry.id, entry]));
+  const lineage = [record];
+  const seen = new Set([record.id]);
+
+  let parent = record.parentId ? byId.get(record.parentId) : undefined;
+  while (parent && !seen.has(parent.id)) {
+    lineage.push(parent);
+    seen.add(parent.id);
+    parent = parent.parentId ? byId.get(parent.parentId) : undefined;
+  }
+
+  return lineage;
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+const DIFFED_INPUTS: (keyof GenerationInputs)[] = [
+  'fruits',
+  'vegetables',
+  'grains',
+  'userPrompt',
+  'preferences',
+  'dietaryRestrictions',
+  'plan',
+  'profile',
+  'pantryMode',
+];
+
+function describeInput(value: GenerationInputs[keyof GenerationInputs]) {
+  if (value === undefined) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object' && 'mealSlots' in value) {
+    return `${value.days} day(s): ${value.mealSlots.join(', ')}`;
+  }
+  if (typeof value === 'object') {
+    return Object.entries(value)
+      .map(([key, setting]) => `${key} ${setting}`)
+      .join(', ');
+  }
+  return String(value);
+}
+
+function ingredientsBySlot(record: GenerationRecord): Map<string, string[]> {
+  const slots = new Map<string, string[]>();
+
+  record.combinations?.forEach(combination =>
+    slots.set(
+      combination.day,
+      [
+        ...combination.fruits,
+        ...combination.vegetables,
+        ...combination.grains,
+      ].map(formatIngredient)
+    )
+  );
+  record.mealPlan?.meals.forEach(meal =>
+    slots.set(
+      `Day ${meal.day} ${meal.type}`,
+      meal.ingredients.map(ingredient => ingredient.name)
+    )
+  );
+
+  return slots;
+}
+
+/**
+ * Compare two generations: which inputs changed and which ingredients were
+ * added or removed in each day or meal slot
+ */
+export function diffGenerations(
+  before: GenerationRecord,
+  after: GenerationRecord
+): GenerationDiff {
+  const inputs = DIFFED_INPUTS.flatMap(field => {
+    const previous = describeInput(before.request[field]);
+    const next = describeInput(after.request[field]);
+    return previous === next ? [] : [{ field, before: previous, after: next }];
+  });
+
+  const beforeSlots = ingredientsBySlot(before);
+  const afterSlots = ingredientsBySlot(after);
+  const slotNames = [
+    ...afterSlots.keys(),
+    ...[...beforeSlots.keys()].filter(slot => !afterSlots.has(slot)),
+  ];
+
+  const slots = slotNames.flatMap(slot => {
+    const previous = beforeSlots.get(slot) ?? [];
+    const next = afterSlots.get(slot) ?? [];
+    const added = next.filter(item => !previous.includes(item));
+    const removed = previous.filter(item => !next.includes(item));
+    return added.length || removed.length ? [{ slot, added, removed }] : [];
+  });
+
+  return {
+    inputs,
+    slots,
+    providerChanged: before.provider !== after.provider,
+  };
+}
@@ -0,0 +1,303 @@
+import type { MealPlanRequest } from './ai';
+import type { CatalogFood } from './combinationGenerator';
+import {
+  NutritionGoal,
+  nutritionGoalsOperations,
+  SavedCombination,
+  toIsoString,
+} from './database';
+import { combinationNutrition, DiaryDay } from './foodLog';
+import { EMPTY_NUTRITION, NutritionTotals } from './nutrition';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// The parts of a goal that steer generation
+export type GoalTargets = Pick<
+  NutritionGoal,
+  | 'targetNutrients'
+  | 'targetCalories'
+  | 'targetProtein'
+  | 'targetCarbs'
+  | 'targetFat'
+  | 'targetFiber'
+>;
+
+export type GoalPeriod = 'day' | 'week';
+
+// One dated amount of food counted against a goal
+export interface GoalEntry {
+  date: string; // ISO timestamp
+  totals: NutritionTotals;
+  source: 'saved' | 'eaten';
+}
+
+export interface GoalPeriodProgress {
+  start: string; // YYYY-MM-DD; weeks start on Monday
+  days: number; // days of the period elapsed so far
+  saved: NutritionTotals; // average per day
+  eaten: NutritionTotals; // average per day
+  entries: { saved: number; eaten: number };
+}
+
+export interface GoalProgress {
+  goalId: string;
+  period: GoalPeriod;
+  targets: Partial<NutritionTotals>;
+  periods: GoalPeriodProgress[]; // oldest first
+}
+
+// ============================================================================
+// TARGETS
+// ============================================================================
+
+// FDA reference intake, used when a goal sets macros but no calories
+const REFERENCE_CALORIES = 2000;
+
+const CALORIES_PER_GRAM = { protein: 4, carbs: 4, fat: 9 } as const;
+
+export function toGoalTargets(goal: GoalTargets): GoalTargets {
+  return {
+    targetNutrients: goal.targetNutrients,
+    targetCalories: goal.targetCalories,
+    targetProtein: goal.targetProtein,
+    targetCarbs: goal.targetCarbs,
+    targetFat: goal.targetFat,
+    targetFiber: goal.targetFiber,
+  };
+}
+
+/**
+ * The goal's daily targets keyed like NutritionTotals, leaving out the ones
+ * it does not set
+ */
+export function dailyTargets(goal: GoalTargets): Partial<NutritionTotals> {
+  const targets: Partial<NutritionTotals> = {
+    calories: goal.targetCalories,
+    protein: goal.targetProtein,
+    carbs: goal.targetCarbs,
+    fat: goal.targetFat,
+    fiber: goal.targetFiber,
+  };
+  return Object.fromEntries(
+    Object.entries(targets).filter(([, value]) => value !== undefined)
+  );
+}
+
+export function percentOfTarget(value: number, target?: number): number | null {
+  return target ? Math.round((value / target) * 100) : null;
+}
+
+/**
+ * Load a user's active goal. Goals only steer a plan, so a failed read is
+ * logged and generation carries on without one.
+ */
+export async function loadActiveGoal(
+  userId: string
+): Promise<NutritionGoal | null> {
+  try {
+    return await nutritionGoalsOperations.getActive(userId);
+  } catch (error) {
+    console.warn('Could not load the active nutrition goal:', error);
+    return null;
+  }
+}
+
+/**
+ * Attach the user's active goal to a request that asks to optimize for it.
+ * Without an active goal the request is generated as usual.
+ */
+export async function withActiveGoal(
+  request: MealPlanRequest,
+  userId: string
+): Promise<MealPlanRequest> {
+  if (!request.optimizeForGoal) return request;
+
+  const goal = await loadActiveGoal(userId);
+  return goal ? { ...request, goal: toGoalTargets(goal) } : request;
+}
+
+/**
+ * Describe the goal for the model prompt
+ */
+export function describeGoal(goal?: GoalTargets): string {
+  if (!goal) return '';
+
+  const targets = Object.entries(dailyTargets(goal)).map(([key, value]) =>
+    key === 'calories' ? `${value} kcal` : `${value}g ${key}`
+  );
+  const lines = [
+    targets.length &&
+      `Daily targets: ${targets.join(', ')}. Favor foods whose macro balance moves the day toward them.`,
+    goal.targetNutrients.length &&
+      `Prioritize foods rich in: ${goal.targetNutrients.join(', ')}.`,
+  ].filter(Boolean);
+
+  return lines.length ? `\n\nNutrition goal:\n- ${lines.join('\n- ')}` : '';
+}
+
+// ============================================================================
+// FIT
+// ============================================================================
+
+/**
+ * How closely some food matches the goal's shape, from 0 to 1. Combinations
+ * only cover part of a day, so this compares proportions rather than amounts:
+ * each macro's share of calories against the goal's share, and fiber per
+ * calorie, where more than the goal asks for is never penalized. Returns
+ * null when the goal sets no macro targets.
+ */
+export function macroFit(
+  totals: NutritionTotals,
+  goal: GoalTargets
+): number | null {
+  const calories = goal.targetCalories ?? REFERENCE_CALORIES;
+  const targets = dailyTargets(goal);
+  const scores: number[] = [];
+
+  (['protein', 'carbs', 'fat'] as const).forEach(macro => {
+    const target = targets[macro];
+    if (target === undefined) return;
+
+    const goalShare = (target * CALORIES_PER_GRAM[macro]) / calories;
+    const share = totals.calories
+      ? (totals[macro] * CALORIES_PER_GRAM[macro]) / totals.calories
+      : 0;
+    scores.push(1 - Math.min(1, Math.abs(share - goalShare) * 2));
+  });
+
+  if (goal.targetFiber) {
+    const goalDensity = goal.targetFiber / calories;
+    const density = totals.calories ? totals.fiber / totals.calories : 0;
+    scores.push(Math.min(1, density / goalDensity));
+  }
+
+  return scores.length
+    ? scores.reduce((sum, score) => sum + score, 0) / scores.length
+    : null;
+}
+
+// ============================================================================
+// PROGRESS
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+// Monday of the date's week, in UTC like the rest of the day bucketing
+function startOfWeek(date: Date): Date {
+  const day = new Date(`${toDay(date)}T00:00:00Z`);
+  return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS);
+}
+
+function average(totals: NutritionTotals, days: number): NutritionTotals {
+  const round = (value: number) => Math.round((value / days) * 10) / 10;
+  return {
+    calories: round(totals.calories),
+    protein: round(totals.protein),
+    carbs: round(totals.carbs),
+    fat: round(totals.fat),
+    fiber: round(totals.fiber),
+  };
+}
+
+function sum(entries: GoalEntry[]): NutritionTotals {
+  return entries.reduce(
+    (total, entry) => ({
+      calories: total.calories + entry.totals.calories,
+      protein: total.protein + entry.totals.protein,
+      carbs: total.carbs + entry.totals.carbs,
+      fat: total.fat + entry.totals.fat,
+      fiber: total.fiber + entry.totals.fiber,
+    }),
+    EMPTY_NUTRITION
+  );
+}
+
+/**
+ * Turn saved combinations into goal entries dated by when they were saved
+ */
+export function savedCombinationEntries(
+  combinations: SavedCombination[],
+  foods: CatalogFood[]
+): GoalEntry[] {
+  return combinations.map(combination => ({
+    date: toIsoString(combination.createdAt),
+    source: 'saved',
+    totals: combinationNutrition(combination, foods),
+  }));
+}
+
+/**
+ * Turn measured diary entries into goal entries. Diary days are the user's
+ * local days, so each entry is placed at noon UTC to stay on its day.
+ */
+export function eatenEntries(days: DiaryDay[]): GoalEntry[] {
+  return days.flatMap(day =>
+    day.entries.flatMap(({ nutrition }) =>
+      nutrition
+        ? [
+            {
+              date: `${day.date}T12:00:00.000Z`,
+              source: 'eaten',
+              totals: nutrition,
+            },
+          ]
+        : []
+    )
+  );
+}
+
+/**
+ * Average saved and eaten nutrition per day over the last `count` days or
+ * weeks, ending with the one containing `today`
+ */
+export function summarizeGoalProgress(
+  goal: NutritionGoal,
+  entries: GoalEntry[],
+  period: GoalPeriod,
+  count: number,
+  today: Date = new Date()
+): GoalProgress {
+  const length = period === 'week' ? 7 : 1;
+  const current =
+    period === 'week'
+      ? startOfWeek(today)
+      : new Date(`${toDay(today)}T00:00:00Z`);
+  const elapsed =
+    Math.floor(
+      (new Date(`${toDay(today)}T00:00:00Z`).getTime() - current.getTime()) /
+        DAY_MS
+    ) + 1;
+
+  const periods = Array.from({ length: count }, (_, index) => {
+    const start = new Date(
+      current.getTime() - (count - 1 - index) * length * DAY_MS
+    );
+    const end = start.getTime() + length * DAY_MS;
+    const days = index === count - 1 ? elapsed : length;
+    const inPeriod = entries.filter(entry => {
+      const time = new Date(entry.date).getTime();
+      return time >= start.getTime() && time < end;
+    });
+    const saved = inPeriod.filter(entry => entry.source === 'saved');
+    const eaten = inPeriod.filter(entry => entry.source === 'eaten');
+
+    return {
+      start: toDay(start),
+      days,
+      saved: average(sum(saved), days),
+      eaten: average(sum(eaten), days),
+      entries: { saved: saved.length, eaten: eaten.length },
+    };
+  });
+
+  return {
+    goalId: goal.id,
+    period,
+    targets: dailyTargets(goal),
+    periods,
+  };
+}
@@ -0,0 +1,392 @@
+import { z } from 'zod';
+import {
+  GeneratedMealListSchema,
+  GeneratedMealSchema,
+  MealPlanOptionsSchema,
+  MealRegenerationSchema,
+  MealTypeSchema,
+} from '@/lib/validation/schemas';
+import type { CatalogFood } from '@/lib/combinationGenerator';
+import { extractJson, formatSchemaIssues } from '@/lib/combinations';
+import {
+  addMicronutrients,
+  calculateNutrition,
+  DailyValueCoverage,
+  MACRO_DAILY_VALUES,
+  Micronutrients,
+  scoreDailyValues,
+} from '@/lib/nutrition';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type MealType = z.infer<typeof MealTypeSchema>;
+export type MealPlanOptions = z.infer<typeof MealPlanOptionsSchema>;
+export type GeneratedMeal = z.infer<typeof GeneratedMealSchema>;
+export type MealRegeneration = z.infer<typeof MealRegenerationSchema>;
+export type MealSlot = Pick<GeneratedMeal, 'day' | 'type'>;
+
+export const MEAL_TYPES: readonly MealType[] = MealTypeSchema.options;
+
+// Ingredient interface
+export interface Ingredient {
+  name: string;
+  amount: string;
+  unit: string;
+  category: string;
+  notes?: string;
+}
+
+// Nutrition facts interface. Sugar and sodium are not tracked by the food
+// catalog, so computed plans leave them unset.
+export interface NutritionFacts {
+  calories: number;
+  protein: number;
+  carbohydrates: number;
+  fat: number;
+  fiber: number;
+  sugar?: number;
+  sodium?: number;
+}
+
+// Meal interface
+export interface Meal {
+  day: number; // 1-based day within the plan
+  name: string;
+  type: MealType;
+  ingredients: Ingredient[];
+  instructions: string[];
+  nutritionFacts: NutritionFacts;
+  micronutrients?: Micronutrients;
+  preparationTime: string;
+  cookingTime: string;
+}
+
+// Nutrition summary interface
+export interface NutritionSummary {
+  totalCalories: number;
+  totalProtein: number;
+  totalCarbohydrates: number;
+  totalFat: number;
+  totalFiber: number;
+  dailyValues: {
+    protein: number; // percentage of daily value, averaged per day
+    carbohydrates: number;
+    fat: number;
+    fiber: number;
+    micronutrients?: DailyValueCoverage['percentDailyValue'];
+  };
+}
+
+// Meal plan interface
+export interface MealPlan {
+  id: string; // empty until the plan is saved
+  userId?: string;
+  title: string;
+  description: string;
+  days: number;
+  mealSlots: MealType[];
+  meals: Meal[];
+  nutritionSummary: NutritionSummary;
+  preparationTime: string;
+  difficulty: 'easy' | 'medium' | 'hard';
+  servings: number;
+  provider?: string;
+  seed?: number;
+  generationId?: string; // history entry this plan was generated as
+  createdAt: string;
+  updatedAt: string;
+}
+
+// The stored part of a plan, without identity and timestamps
+export type MealPlanContent = Omit<
+  MealPlan,
+  'id' | 'userId' | 'createdAt' | 'updatedAt'
+>;
+
+export type MealParseResult =
+  | { success: true; meals: GeneratedMeal[] }
+  | { success: false; error: string };
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function slotOrder(meal: MealSlot): number {
+  return meal.day * MEAL_TYPES.length + MEAL_TYPES.indexOf(meal.type);
+}
+
+const sameSlot = (a: MealSlot, b: MealSlot) =>
+  a.day === b.day && a.type === b.type;
+
+/**
+ * Every day and slot of a plan, in plan order
+ */
+export function planSlots(options: MealPlanOptions): MealSlot[] {
+  return Array.from({ length: options.days }, (_, index) =>
+    options.mealSlots.map(type => ({ day: index + 1, type }))
+  ).flat();
+}
+
+/**
+ * Parse and validate a model response against the meal schema, checking that
+ * every expected slot (by default, every day and slot of the plan) appears
+ * exactly once
+ */
+export function parseMealsResponse(
+  text: string,
+  options: MealPlanOptions,
+  slots: MealSlot[] = planSlots(options)
+): MealParseResult {
+  let payload: unknown;
+
+  try {
+    payload = JSON.parse(extractJson(text));
+  } catch (error) {
+    return {
+      success: false,
+      error: `Response is not valid JSON: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+    };
+  }
+
+  if (Array.isArray(payload)) {
+    payload = { meals: payload };
+  }
+
+  const validation = GeneratedMealListSchema.safeParse(payload);
+  if (!validation.success) {
+    return {
+      success: false,
+      error: formatSchemaIssues(validation.error.issues),
+    };
+  }
+
+  const { meals } = validation.data;
+  const missing = slots
+    .filter(slot => !meals.some(meal => sameSlot(meal, slot)))
+    .map(slot => `day ${slot.day} ${slot.type}`);
+
+  if (missing.length > 0) {
+    return {
+      success: false,
+      error: `Missing meals: ${missing.slice(0, 10).join(', ')}`,
+    };
+  }
+
+  const expected = slots.length;
+  if (meals.length !== expected) {
+    return {
+      success: false,
+      error: `Expected ${expected} meals but received ${meals.length}`,
+    };
+  }
+
+  return {
+    success: true,
+    meals: [...meals].sort((a, b) => slotOrder(a) - slotOrder(b)),
+  };
+}
+
+// ============================================================================
+// REGENERATION
+// ============================================================================
+
+export function isRegeneratedMeal(
+  regeneration: Pick<MealRegeneration, 'targets'>,
+  meal: MealSlot
+): boolean {
+  return regeneration.targets.some(target => sameSlot(target, meal));
+}
+
+/**
+ * Merge regenerated meals into the current plan; every meal that is not a
+ * target stays as it is. Returns null if a target is missing from
+ * `regenerated`.
+ */
+export function applyMealRegeneration(
+  regeneration: MealRegeneration,
+  regenerated: GeneratedMeal[]
+): GeneratedMeal[] | null {
+  const replacement = (slot: MealSlot) =>
+    regenerated.find(meal => sameSlot(meal, slot));
+  if (!regeneration.targets.every(replacement)) {
+    return null;
+  }
+
+  return regeneration.current.map(meal =>
+    isRegeneratedMeal(regeneration, meal)
+      ? { ...(replacement(meal) ?? meal), day: meal.day, type: meal.type }
+      : meal
+  );
+}
+
+// ============================================================================
+// NUTRITION
+// ============================================================================
+
+export function formatMealIngredient(ingredient: Ingredient): string {
+  return [ingredient.amount, ingredient.unit, ingredient.name]
+    .filter(Boolean)
+    .join(' ');
+}
+
+export function calculateMealNutrition(
+  meal: Pick<GeneratedMeal, 'ingredients'>,
+  foods: CatalogFood[]
+): Pick<Meal, 'nutritionFacts' | 'micronutrients'> {
+  const { totals, micronutrients } = calculateNutrition(
+    meal.ingredients.map(ingredient => ({
+      name: ingredient.name,
+      quantity: `${ingredient.amount} ${ingredient.unit}`.trim(),
+    })),
+    foods
+  );
+
+  return {
+    nutritionFacts: {
+      calories: totals.calories,
+      protein: totals.protein,
+      carbohydrates: totals.carbs,
+      fat: totals.fat,
+      fiber: totals.fiber,
+    },
+    micronutrients,
+  };
+}
+
+/**
+ * Total a plan's meals and express them as daily values for an average day
+ */
+export function summarizeMealPlanNutrition(
+  meals: Pick<Meal, 'nutritionFacts' | 'micronutrients'>[],
+  days: number
+): NutritionSummary {
+  const totals = meals.reduce(
+    (acc, meal) => {
+      acc.calories += meal.nutritionFacts.calories;
+      acc.protein += meal.nutritionFacts.protein;
+      acc.carbohydrates += meal.nutritionFacts.carbohydrates;
+      acc.fat += meal.nutritionFacts.fat;
+      acc.fiber += meal.nutritionFacts.fiber;
+      return acc;
+    },
+    {
+      calories: 0,
+      protein: 0,
+      carbohydrates: 0,
+      fat: 0,
+      fiber: 0,
+    }
+  );
+
+  const perDay = Math.max(days, 1);
+  const percent = (value: number, dailyValue: number) =>
+    Math.round((value / perDay / dailyValue) * 100);
+  const micronutrients = meals.reduce<Micronutrients>(
+    (sum, meal) =>
+      meal.micronutrients ? addMicronutrients(sum, meal.micronutrients) : sum,
+    {}
+  );
+
+  return {
+    totalCalories: Math.round(totals.calories),
+    totalProtein: Math.round(totals.protein * 10) / 10,
+    totalCarbohydrates: Math.round(totals.carbohydrates * 10) / 10,
+    totalFat: Math.round(totals.fat * 10) / 10,
+    totalFiber: Math.round(totals.fiber * 10) / 10,
+    dailyValues: {
+      protein: percent(totals.protein, MACRO_DAILY_VALUES.protein),
+      carbohydrates: percent(
+        totals.carbohydrates,
+        MACRO_DAILY_VALUES.carbohydrates
+      ),
+      fat: percent(totals.fat, MACRO_DAILY_VALUES.fat),
+      fiber: percent(totals.fiber, MACRO_DAILY_VALUES.fiber),
+      micronutrients: scoreDailyValues(micronutrients, perDay)
+        .percentDailyValue,
+    },
+  };
+}
+
+// ============================================================================
+// ASSEMBLY
+// ============================================================================
+
+function parseMinutes(value: string): number {
+  const match = value.match(/(\d+)/);
+  return match ? Number(match[1]) : 0;
+}
+
+/**
+ * Compute nutrition for every meal and the plan summary from the food
+ * catalog. Used both for freshly generated plans and for plans sent back by
+ * clients, so stored nutrition never depends on client values.
+ */
+export function composeMealPlan(
+  generated: GeneratedMeal[],
+  options: MealPlanOptions,
+  foods: CatalogFood[],
+  meta: Partial<
+    Pick<MealPlan, 'title' | 'description' | 'servings' | 'provider' | 'seed'>
+  > = {}
+): MealPlanContent {
+  const meals: Meal[] = generated.map(meal => ({
+    ...meal,
+    ...calculateMealNutrition(meal, foods),
+  }));
+
+  const minutesPerDay =
+    meals.reduce(
+      (total, meal) =>
+        total +
+        parseMinutes(meal.preparationTime) +
+        parseMinutes(meal.cookingTime),
+      0
+    ) / options.days;
+  const averageSteps =
+    meals.reduce((total, meal) => total + meal.instructions.length, 0) /
+    Math.max(meals.length, 1);
+
+  return {
+    title:
+      meta.title ??
+      `${options.days}-Day Meal Plan (${options.mealSlots.join(', ')})`,
+    description:
+      meta.description ??
+      `${meals.length} meals across ${options.days} day${
+        options.days === 1 ? '' : 's'
+      }`,
+    days: options.days,
+    mealSlots: options.mealSlots,
+    meals,
+    nutritionSummary: summarizeMealPlanNutrition(meals, options.days),
+    preparationTime: `About ${Math.round(minutesPerDay)} minutes per day`,
+    difficulty:
+      averageSteps <= 3 ? 'easy' : averageSteps <= 5 ? 'medium' : 'hard',
+    servings: meta.servings ?? 1,
+    ...(meta.provider && { provider: meta.provider }),
+    ...(meta.seed !== undefined && { seed: meta.seed }),
+  };
+}
+
+/**
+ * Assemble an unsaved MealPlan from generated meals
+ */
+export function buildMealPlan(
+  generated: GeneratedMeal[],
+  options: MealPlanOptions,
+  foods: CatalogFood[],
+  meta: Parameters<typeof composeMealPlan>[3] = {}
+): MealPlan {
+  const now = new Date().toISOString();
+
+  return {
+    id: '',
+    ...composeMealPlan(generated, options, foods, meta),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,147 @@
+import { fallbackFoodGroups } from '../../fallbackData';
+import {
+  calculateCombinationNutrition,
+  calculateTextNutrition,
+  calculateWeeklyCoverage,
+  matchFoodGroup,
+  parseIngredientText,
+  parseQuantity,
+  scoreDailyValues,
+} from '..';
+
+describe('parseQuantity', () => {
+  it.each([
+    ['1 cup', { amount: 1, unit: 'cup' }],
+    ['80g', { amount: 80, unit: 'g' }],
+    ['1/2 cup', { amount: 0.5, unit: 'cup' }],
+    ['1 1/2 tbsp', { amount: 1.5, unit: 'tbsp' }],
+    ['½ cup', { amount: 0.5, unit: 'cup' }],
+    ['2 Tablespoons', { amount: 2, unit: 'tbsp' }],
+    ['1 medium', { amount: 1, unit: 'medium' }],
+    ['2-3 slices', { amount: 2.5, unit: 'slice' }],
+    ['a handful', { amount: 1, unit: 'handful' }],
+    ['1 and a half cups', { amount: 1.5, unit: 'cup' }],
+    ['one and a half cups', { amount: 1.5, unit: 'cup' }],
+    ['2 and half tbsp', { amount: 2.5, unit: 'tbsp' }],
+    ['a half cup', { amount: 0.5, unit: 'cup' }],
+    ['half a cup', { amount: 0.5, unit: 'cup' }],
+    ['2', { amount: 2, unit: 'piece' }],
+  ])('parses "%s"', (text, expected) => {
+    expect(parseQuantity(text)).toEqual(expected);
+  });
+
+  it('returns null without an amount', () => {
+    expect(parseQuantity('to taste')).toBeNull();
+  });
+});
+
+describe('parseIngredientText', () => {
+  it('splits quantity from name, keeping the original casing', () => {
+    expect(parseIngredientText('1 cup Brown Rice')).toEqual({
+      name: 'Brown Rice',
+      quantity: '1 cup',
+    });
+    expect(parseIngredientText('80g quinoa')).toEqual({
+      name: 'quinoa',
+      quantity: '80g',
+    });
+    expect(parseIngredientText('Spinach')).toEqual({
+      name: 'Spinach',
+      quantity: '',
+    });
+  });
+});
+
+describe('matchFoodGroup', () => {
+  it('matches plurals, descriptors and partial names', () => {
+    expect(matchFoodGroup('apples', fallbackFoodGroups)?.name).toBe('Apple');
+    expect(matchFoodGroup('baby spinach', fallbackFoodGroups)?.name).toBe(
+      'Spinach'
+    );
+    expect(matchFoodGroup('rice', fallbackFoodGroups)?.name).toBe('Brown Rice');
+    expect(matchFoodGroup('dragon fruit', fallbackFoodGroups)).toBeUndefined();
+  });
+});
+
+describe('calculateCombinationNutrition', () => {
+  it('totals nutrition using per-food portion weights', () => {
+    const result = calculateCombinationNutrition(
+      {
+        fruits: [{ name: 'Apple', quantity: '1 medium' }],
+        vegetables: [{ name: 'Spinach', quantity: '100g' }],
+        grains: [{ name: 'Quinoa', quantity: '1/2 cup' }],
+      },
+      fallbackFoodGroups
+    );
+
+    const apple = result.ingredients[0];
+    expect(apple.grams).toBe(182);
+    expect(apple.nutrition?.calories).toBeCloseTo(94.6, 1);
+    expect(result.unmatched).toEqual([]);
+    expect(result.totals.calories).toBeGreaterThan(apple.nutrition!.calories);
+  });
+
+  it('reports ingredients it cannot match', () => {
+    const result = calculateTextNutrition(
+      ['1 cup Dragon Fruit', '1 medium Banana'],
+      fallbackFoodGroups
+    );
+
+    expect(result.unmatched).toEqual(['Dragon Fruit']);
+    expect(result.totals.calories).toBeCloseTo(105, 0);
+  });
+});
+
+describe('daily value scoring', () => {
+  it('scores amounts against reference intakes', () => {
+    const coverage = scoreDailyValues({ vitaminC: 90, iron: 1.8 });
+
+    expect(coverage.percentDailyValue.vitaminC).toBe(100);
+    expect(coverage.percentDailyValue.iron).toBe(10);
+    expect(coverage.covered).toEqual(['vitaminC']);
+    expect(coverage.missed).toContain('iron');
+  });
+
+  it('treats nutrients without data as unknown rather than missed', () => {
+    const coverage = scoreDailyValues({ vitaminC: 90, iron: 0 });
+
+    expect(coverage.covered).toEqual(['vitaminC']);
+    expect(coverage.missed).toEqual(['iron']);
+    expect(coverage.unknown).toHaveLength(17);
+    expect(coverage.unknown).not.toContain('iron');
+    expect(coverage.percentDailyValue.zinc).toBeUndefined();
+    expect(coverage.score).toBe(50);
+
+    expect(scoreDailyValues({})).toMatchObject({ missed: [], score: 0 });
+  });
+
+  it('scales micronutrients with the portion', () => {
+    const { micronutrients, dailyValues } = calculateTextNutrition(
+      ['200g Orange'],
+      fallbackFoodGroups
+    );
+
+    expect(micronutrients.vitaminC).toBeCloseTo(106.4, 1);
+    expect(dailyValues.covered).toContain('vitaminC');
+  });
+
+  it('averages a week so one-off nutrients are diluted', () => {
+    const orangeDay = calculateTextNutrition(
+      ['1 medium Orange'],
+      fallbackFoodGroups
+    );
+    const plainDay = calculateTextNutrition(
+      ['1 cup Brown Rice'],
+      fallbackFoodGroups
+    );
+
+    const week = calculateWeeklyCoverage([
+      orangeDay,
+      ...Array(6).fill(plainDay),
+    ]);
+
+    expect(orangeDay.dailyValues.covered).toContain('vitaminC');
+    expect(week.covered).not.toContain('vitaminC');
+    expect(week.covered).toContain('manganese');
+  });
+});
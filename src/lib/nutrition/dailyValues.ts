@@ -0,0 +1,152 @@
+// ============================================================================
+// REFERENCE INTAKES
+// ============================================================================
+
+export const MICRONUTRIENT_KEYS = [
+  'vitaminA',
+  'vitaminC',
+  'vitaminE',
+  'vitaminK',
+  'thiamin',
+  'riboflavin',
+  'niacin',
+  'vitaminB6',
+  'folate',
+  'vitaminB12',
+  'calcium',
+  'iron',
+  'magnesium',
+  'phosphorus',
+  'potassium',
+  'zinc',
+  'selenium',
+  'copper',
+  'manganese',
+] as const;
+
+export type MicronutrientKey = (typeof MICRONUTRIENT_KEYS)[number];
+
+// Amounts per 100g, in the unit given by REFERENCE_INTAKES for each key
+export type Micronutrients = Partial<Record<MicronutrientKey, number>>;
+
+export interface ReferenceIntake {
+  label: string;
+  unit: 'mg' | 'µg';
+  dailyValue: number;
+}
+
+// FDA daily values for adults and children 4+ (21 CFR 101.9)
+export const REFERENCE_INTAKES: Record<MicronutrientKey, ReferenceIntake> = {
+  vitaminA: { label: 'Vitamin A', unit: 'µg', dailyValue: 900 },
+  vitaminC: { label: 'Vitamin C', unit: 'mg', dailyValue: 90 },
+  vitaminE: { label: 'Vitamin E', unit: 'mg', dailyValue: 15 },
+  vitaminK: { label: 'Vitamin K', unit: 'µg', dailyValue: 120 },
+  thiamin: { label: 'Thiamin', unit: 'mg', dailyValue: 1.2 },
+  riboflavin: { label: 'Riboflavin', unit: 'mg', dailyValue: 1.3 },
+  niacin: { label: 'Niacin', unit: 'mg', dailyValue: 16 },
+  vitaminB6: { label: 'Vitamin B6', unit: 'mg', dailyValue: 1.7 },
+  folate: { label: 'Folate', unit: 'µg', dailyValue: 400 },
+  vitaminB12: { label: 'Vitamin B12', unit: 'µg', dailyValue: 2.4 },
+  calcium: { label: 'Calcium', unit: 'mg', dailyValue: 1300 },
+  iron: { label: 'Iron', unit: 'mg', dailyValue: 18 },
+  magnesium: { label: 'Magnesium', unit: 'mg', dailyValue: 420 },
+  phosphorus: { label: 'Phosphorus', unit: 'mg', dailyValue: 1250 },
+  potassium: { label: 'Potassium', unit: 'mg', dailyValue: 4700 },
+  zinc: { label: 'Zinc', unit: 'mg', dailyValue: 11 },
+  selenium: { label: 'Selenium', unit: 'µg', dailyValue: 55 },
+  copper: { label: 'Copper', unit: 'mg', dailyValue: 0.9 },
+  manganese: { label: 'Manganese', unit: 'mg', dailyValue: 2.3 },
+};
+
+// Macronutrient daily values in grams (based on a 2000 calorie diet)
+export const MACRO_DAILY_VALUES = {
+  protein: 50,
+  carbohydrates: 275,
+  fat: 55,
+  fiber: 28,
+} as const;
+
+// A food providing 20% DV or more is a "high" source per FDA labeling rules
+export const COVERAGE_THRESHOLD = 20;
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+export interface DailyValueCoverage {
+  percentDailyValue: Partial<Record<MicronutrientKey, number>>;
+  covered: MicronutrientKey[];
+  missed: MicronutrientKey[];
+  unknown?: MicronutrientKey[]; // no food had data; absent on older records
+  score: number; // 0-100, mean %DV of known nutrients, each capped at 100
+}
+
+export function addMicronutrients(
+  a: Micronutrients,
+  b: Micronutrients
+): Micronutrients {
+  const sum: Micronutrients = { ...a };
+  for (const key of MICRONUTRIENT_KEYS) {
+    if (b[key] !== undefined) {
+      sum[key] = (sum[key] ?? 0) + (b[key] ?? 0);
+    }
+  }
+  return sum;
+}
+
+export function scaleMicronutrients(
+  amounts: Micronutrients,
+  factor: number
+): Micronutrients {
+  const scaled: Micronutrients = {};
+  for (const key of MICRONUTRIENT_KEYS) {
+    if (amounts[key] !== undefined) {
+      scaled[key] = (amounts[key] ?? 0) * factor;
+    }
+  }
+  return scaled;
+}
+
+/**
+ * Score total micronutrient amounts against reference intakes. `days` spreads
+ * the amounts over several days, so a week's totals are scored as an average
+ * day rather than seven days' worth of intake. A nutrient with no amount at
+ * all is unknown rather than missed, since the foods simply lack data for it,
+ * and it is left out of the score.
+ */
+export function scoreDailyValues(
+  amounts: Micronutrients,
+  days = 1
+): DailyValueCoverage {
+  const percentDailyValue: DailyValueCoverage['percentDailyValue'] = {};
+  const covered: MicronutrientKey[] = [];
+  const missed: MicronutrientKey[] = [];
+  const unknown: MicronutrientKey[] = [];
+  let cappedTotal = 0;
+
+  for (const key of MICRONUTRIENT_KEYS) {
+    const amount = amounts[key];
+    if (amount === undefined) {
+      unknown.push(key);
+      continue;
+    }
+
+    const perDay = amount / days;
+    const percent = Math.round(
+      (perDay / REFERENCE_INTAKES[key].dailyValue) * 100
+    );
+
+    percentDailyValue[key] = percent;
+    cappedTotal += Math.min(percent, 100);
+    (percent >= COVERAGE_THRESHOLD ? covered : missed).push(key);
+  }
+
+  const known = MICRONUTRIENT_KEYS.length - unknown.length;
+  return {
+    percentDailyValue,
+    covered,
+    missed,
+    unknown,
+    score: known ? Math.round(cappedTotal / known) : 0,
+  };
+}
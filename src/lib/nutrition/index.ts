@@ -0,0 +1,249 @@
+import type { CatalogFood } from '../combinationGenerator';
+import type { Combination, CombinationIngredient } from '../combinations';
+import {
+  addMicronutrients,
+  DailyValueCoverage,
+  Micronutrients,
+  scaleMicronutrients,
+  scoreDailyValues,
+} from './dailyValues';
+import { getPortionSizes, toGrams } from './portions';
+import { parseIngredientText, parseQuantity } from './quantity';
+
+export { parseIngredientText, parseQuantity } from './quantity';
+export type { ParsedQuantity, QuantityUnit } from './quantity';
+export { getPortionSizes, toGrams } from './portions';
+export * from './dailyValues';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// Same shape as SavedCombination.nutritionFacts
+export interface NutritionTotals {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+}
+
+export interface IngredientNutrition {
+  name: string;
+  quantity: string;
+  grams: number | null;
+  foodGroupId?: string;
+  matchedFood?: string;
+  nutrition: NutritionTotals | null;
+  micronutrients: Micronutrients | null;
+}
+
+export interface CombinationNutrition {
+  totals: NutritionTotals;
+  micronutrients: Micronutrients;
+  dailyValues: DailyValueCoverage;
+  ingredients: IngredientNutrition[];
+  unmatched: string[]; // ingredient names we could not match or measure
+}
+
+export const EMPTY_NUTRITION: NutritionTotals = {
+  calories: 0,
+  protein: 0,
+  carbs: 0,
+  fat: 0,
+  fiber: 0,
+};
+
+// ============================================================================
+// FOOD MATCHING
+// ============================================================================
+
+const DESCRIPTORS =
+  /\b(fresh|frozen|raw|cooked|chopped|sliced|diced|steamed|roasted|grilled|baby|ripe|organic|dried|shredded|cubed|mixed|whole grain|rolled)\b/g;
+
+function singularize(word: string): string {
+  if (word.endsWith('ies') && word.length > 4) return `${word.slice(0, -3)}y`;
+  if (/(oes|ches|shes|sses|xes)$/.test(word)) return word.slice(0, -2);
+  if (/[^su]s$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Normalize a food or ingredient name for matching: lowercase, drop
+ * preparation words and parentheticals, and singularize each word
+ */
+export function normalizeFoodName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\(.*?\)/g, ' ')
+    .replace(DESCRIPTORS, ' ')
+    .replace(/[^a-z\s-]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(singularize)
+    .join(' ');
+}
+
+/**
+ * Find the catalog food an ingredient refers to. Exact matches win; otherwise
+ * the longest catalog name contained in the ingredient ("baby spinach leaves"
+ * → Spinach), then an ingredient contained in a catalog name ("rice" → Brown
+ * Rice).
+ */
+export function matchFoodGroup<T extends CatalogFood>(
+  ingredientName: string,
+  foods: T[]
+): T | undefined {
+  const target = normalizeFoodName(ingredientName);
+  if (!target) return undefined;
+
+  const candidates = foods.map(food => ({
+    food,
+    normalized: normalizeFoodName(food.name),
+  }));
+
+  const exact = candidates.find(c => c.normalized === target);
+  if (exact) return exact.food;
+
+  const containsWord = (haystack: string, needle: string) =>
+    ` ${haystack} `.includes(` ${needle} `);
+
+  const contained = candidates
+    .filter(c => c.normalized && containsWord(target, c.normalized))
+    .sort((a, b) => b.normalized.length - a.normalized.length)[0];
+  if (contained) return contained.food;
+
+  return candidates.find(c => containsWord(c.normalized, target))?.food;
+}
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export function addNutrition(
+  a: NutritionTotals,
+  b: NutritionTotals
+): NutritionTotals {
+  return {
+    calories: round(a.calories + b.calories),
+    protein: round(a.protein + b.protein),
+    carbs: round(a.carbs + b.carbs),
+    fat: round(a.fat + b.fat),
+    fiber: round(a.fiber + b.fiber),
+  };
+}
+
+export function calculateIngredientNutrition(
+  ingredient: CombinationIngredient,
+  foods: CatalogFood[]
+): IngredientNutrition {
+  const result: IngredientNutrition = {
+    name: ingredient.name,
+    quantity: ingredient.quantity,
+    grams: null,
+    nutrition: null,
+    micronutrients: null,
+  };
+
+  const food = matchFoodGroup(ingredient.name, foods);
+  if (!food) return result;
+
+  result.foodGroupId = food.id;
+  result.matchedFood = food.name;
+
+  const parsed = parseQuantity(ingredient.quantity);
+  if (!parsed) return result;
+
+  const grams = toGrams(
+    parsed.amount,
+    parsed.unit,
+    getPortionSizes(normalizeFoodName(food.name), food.category)
+  );
+  if (grams === null) return result;
+
+  const factor = grams / 100;
+  result.grams = round(grams);
+  result.nutrition = {
+    calories: round((food.caloriesPer100g ?? 0) * factor),
+    protein: round((food.proteinPer100g ?? 0) * factor),
+    carbs: round((food.carbsPer100g ?? 0) * factor),
+    fat: round((food.fatPer100g ?? 0) * factor),
+    fiber: round((food.fiberPer100g ?? 0) * factor),
+  };
+  if (food.micronutrients) {
+    result.micronutrients = scaleMicronutrients(food.micronutrients, factor);
+  }
+
+  return result;
+}
+
+/**
+ * Total the nutrition of a list of ingredients against the catalog.
+ * Ingredients that cannot be matched or measured are reported in `unmatched`
+ * and contribute nothing to the totals.
+ */
+export function calculateNutrition(
+  ingredients: CombinationIngredient[],
+  foods: CatalogFood[]
+): CombinationNutrition {
+  const results = ingredients.map(ingredient =>
+    calculateIngredientNutrition(ingredient, foods)
+  );
+
+  const micronutrients = results.reduce<Micronutrients>(
+    (sum, item) =>
+      item.micronutrients ? addMicronutrients(sum, item.micronutrients) : sum,
+    {}
+  );
+
+  return {
+    totals: results.reduce(
+      (totals, item) =>
+        item.nutrition ? addNutrition(totals, item.nutrition) : totals,
+      EMPTY_NUTRITION
+    ),
+    micronutrients,
+    dailyValues: scoreDailyValues(micronutrients),
+    ingredients: results,
+    unmatched: results.filter(item => !item.nutrition).map(item => item.name),
+  };
+}
+
+export function calculateCombinationNutrition(
+  combination: Pick<Combination, 'fruits' | 'vegetables' | 'grains'>,
+  foods: CatalogFood[]
+): CombinationNutrition {
+  return calculateNutrition(
+    [...combination.fruits, ...combination.vegetables, ...combination.grains],
+    foods
+  );
+}
+
+/**
+ * Score a week (or any run of days) of combinations as an average day, so
+ * nutrients eaten on only one day count for a seventh of their amount
+ */
+export function calculateWeeklyCoverage(
+  nutrition: CombinationNutrition[]
+): DailyValueCoverage {
+  const total = nutrition.reduce<Micronutrients>(
+    (sum, day) => addMicronutrients(sum, day.micronutrients),
+    {}
+  );
+  return scoreDailyValues(total, Math.max(nutrition.length, 1));
+}
+
+/**
+ * Same as calculateNutrition for free-text ingredients such as the
+ * "1 cup strawberries" strings stored on saved combinations
+ */
+export function calculateTextNutrition(
+  ingredients: string[],
+  foods: CatalogFood[]
+): CombinationNutrition {
+  return calculateNutrition(ingredients.map(parseIngredientText), foods);
+}
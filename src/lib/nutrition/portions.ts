@@ -0,0 +1,135 @@
+import type { FoodGroup } from '../database';
+import { QuantityUnit } from './quantity';
+
+// ============================================================================
+// UNIT-TO-GRAM CONVERSION
+// ============================================================================
+
+export interface PortionSizes {
+  cup?: number;
+  medium?: number;
+  slice?: number;
+  handful?: number;
+}
+
+// Fixed mass and volume units. Volumes assume roughly the density of water.
+const STANDARD_GRAMS: Partial<Record<QuantityUnit, number>> = {
+  g: 1,
+  kg: 1000,
+  oz: 28.35,
+  lb: 453.6,
+  ml: 1,
+  l: 1000,
+};
+
+// Category defaults used when a food has no entry in FOOD_PORTIONS
+const CATEGORY_PORTIONS: Record<FoodGroup['category'], PortionSizes> = {
+  fruits: { cup: 150, medium: 120, slice: 30, handful: 40 },
+  vegetables: { cup: 90, medium: 100, slice: 15, handful: 30 },
+  grains: { cup: 185, medium: 30, slice: 30, handful: 30 },
+  proteins: { cup: 140, medium: 100, slice: 30, handful: 30 },
+  dairy: { cup: 240, medium: 30, slice: 20, handful: 30 },
+  nuts: { cup: 140, medium: 5, slice: 5, handful: 28 },
+  herbs: { cup: 16, medium: 2, slice: 1, handful: 8 },
+  spices: { cup: 100, medium: 2, slice: 1, handful: 10 },
+};
+
+// Household measures for common foods, keyed by singular lowercase name.
+// Grain weights follow the basis of the catalog's per-100g values (cooked for
+// quinoa and rice, dry for oats, barley and similar).
+const FOOD_PORTIONS: Record<string, PortionSizes> = {
+  apple: { cup: 125, medium: 182 },
+  avocado: { cup: 150, medium: 150 },
+  banana: { cup: 150, medium: 118 },
+  blackberry: { cup: 144, medium: 5 },
+  blueberry: { cup: 148, medium: 1.5 },
+  cherry: { cup: 154, medium: 8 },
+  grape: { cup: 151, medium: 5 },
+  grapefruit: { cup: 230, medium: 246 },
+  kiwi: { cup: 180, medium: 69 },
+  mango: { cup: 165, medium: 200 },
+  orange: { cup: 180, medium: 131 },
+  papaya: { cup: 145, medium: 300 },
+  peach: { cup: 154, medium: 150 },
+  pear: { cup: 140, medium: 178 },
+  pineapple: { cup: 165, medium: 900, slice: 84 },
+  plum: { cup: 165, medium: 66 },
+  pomegranate: { cup: 174, medium: 282 },
+  raspberry: { cup: 123, medium: 2 },
+  strawberry: { cup: 152, medium: 12 },
+  watermelon: { cup: 152, medium: 4500, slice: 286 },
+  arugula: { cup: 20, handful: 10 },
+  'bell pepper': { cup: 149, medium: 119 },
+  broccoli: { cup: 91, medium: 150 },
+  cabbage: { cup: 89, medium: 900 },
+  carrot: { cup: 128, medium: 61 },
+  cauliflower: { cup: 107, medium: 575 },
+  cucumber: { cup: 104, medium: 300, slice: 7 },
+  kale: { cup: 67, handful: 20 },
+  lettuce: { cup: 36, handful: 15 },
+  mushroom: { cup: 70, medium: 18 },
+  onion: { cup: 160, medium: 110 },
+  potato: { cup: 150, medium: 173 },
+  spinach: { cup: 30, handful: 25 },
+  'sweet potato': { cup: 133, medium: 130 },
+  tomato: { cup: 180, medium: 123, slice: 20 },
+  zucchini: { cup: 124, medium: 196 },
+  amaranth: { cup: 246 },
+  barley: { cup: 200 },
+  'brown rice': { cup: 195 },
+  buckwheat: { cup: 170 },
+  bulgur: { cup: 182 },
+  couscous: { cup: 157 },
+  farro: { cup: 200 },
+  millet: { cup: 200 },
+  oat: { cup: 81 },
+  polenta: { cup: 240 },
+  quinoa: { cup: 185 },
+  sorghum: { cup: 192 },
+  spelt: { cup: 174 },
+  teff: { cup: 252 },
+  'whole wheat bread': { slice: 32, medium: 32 },
+  'wild rice': { cup: 164 },
+};
+
+export function getPortionSizes(
+  normalizedName: string,
+  category: FoodGroup['category']
+): PortionSizes {
+  return {
+    ...CATEGORY_PORTIONS[category],
+    ...FOOD_PORTIONS[normalizedName],
+  };
+}
+
+/**
+ * Convert an amount in the given unit to grams for a specific food. Spoon
+ * measures are derived from the food's cup weight and size words from its
+ * medium weight, so each food only needs a couple of reference values.
+ */
+export function toGrams(
+  amount: number,
+  unit: QuantityUnit,
+  portions: PortionSizes
+): number | null {
+  const standard = STANDARD_GRAMS[unit];
+  if (standard !== undefined) {
+    return amount * standard;
+  }
+
+  const { cup, medium, slice, handful } = portions;
+  const perUnit: Partial<Record<QuantityUnit, number | undefined>> = {
+    cup,
+    tbsp: cup && cup / 16,
+    tsp: cup && cup / 48,
+    medium,
+    piece: medium,
+    small: medium && medium * 0.75,
+    large: medium && medium * 1.5,
+    slice: slice ?? (medium && medium / 8),
+    handful,
+  };
+
+  const grams = perUnit[unit];
+  return grams === undefined ? null : amount * grams;
+}
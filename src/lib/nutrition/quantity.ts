@@ -0,0 +1,202 @@
+// ============================================================================
+// QUANTITY PARSING
+// ============================================================================
+
+export type QuantityUnit =
+  | 'g'
+  | 'kg'
+  | 'oz'
+  | 'lb'
+  | 'ml'
+  | 'l'
+  | 'cup'
+  | 'tbsp'
+  | 'tsp'
+  | 'piece'
+  | 'small'
+  | 'medium'
+  | 'large'
+  | 'slice'
+  | 'handful';
+
+export interface ParsedQuantity {
+  amount: number;
+  unit: QuantityUnit;
+}
+
+const UNIT_ALIASES: Record<string, QuantityUnit> = {
+  g: 'g',
+  gr: 'g',
+  gram: 'g',
+  grams: 'g',
+  kg: 'kg',
+  kilogram: 'kg',
+  kilograms: 'kg',
+  oz: 'oz',
+  ounce: 'oz',
+  ounces: 'oz',
+  lb: 'lb',
+  lbs: 'lb',
+  pound: 'lb',
+  pounds: 'lb',
+  ml: 'ml',
+  milliliter: 'ml',
+  milliliters: 'ml',
+  l: 'l',
+  liter: 'l',
+  liters: 'l',
+  cup: 'cup',
+  cups: 'cup',
+  c: 'cup',
+  tbsp: 'tbsp',
+  tbs: 'tbsp',
+  tablespoon: 'tbsp',
+  tablespoons: 'tbsp',
+  tsp: 'tsp',
+  teaspoon: 'tsp',
+  teaspoons: 'tsp',
+  piece: 'piece',
+  pieces: 'piece',
+  whole: 'piece',
+  item: 'piece',
+  items: 'piece',
+  small: 'small',
+  medium: 'medium',
+  med: 'medium',
+  large: 'large',
+  slice: 'slice',
+  slices: 'slice',
+  handful: 'handful',
+  handfuls: 'handful',
+};
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '½': ' 1/2',
+  '⅓': ' 1/3',
+  '⅔': ' 2/3',
+  '¼': ' 1/4',
+  '¾': ' 3/4',
+  '⅛': ' 1/8',
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  half: 0.5,
+};
+
+// "1", "1.5", "1/2", "1 1/2", optionally followed by a range "1-2"
+const AMOUNT_PATTERN =
+  /^(\d+\s+\d+\/\d+|\d+\/\d+|\d*\.?\d+)(?:\s*(?:-|–|to)\s*(\d+\/\d+|\d*\.?\d+))?/;
+
+function parseNumber(value: string): number {
+  const parts = value.trim().split(/\s+/);
+  return parts.reduce((total, part) => {
+    if (part.includes('/')) {
+      const [numerator, denominator] = part.split('/').map(Number);
+      return total + (denominator ? numerator / denominator : 0);
+    }
+    return total + Number(part);
+  }, 0);
+}
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/[½⅓⅔¼¾⅛]/g, match => UNICODE_FRACTIONS[match])
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Split leading amount and unit off a quantity string. Returns the parsed
+ * quantity and whatever text follows it (the ingredient name, if any).
+ */
+function splitQuantity(
+  text: string
+): { quantity: ParsedQuantity; rest: string } | null {
+  let remaining = normalizeText(text);
+  let amount: number | undefined;
+
+  const numeric = remaining.match(AMOUNT_PATTERN);
+  const aHalf = remaining.match(/^an? half(?=\s|$)/);
+  if (numeric) {
+    const low = parseNumber(numeric[1]);
+    // Ranges like "1-2 cups" are averaged
+    amount = numeric[2] ? (low + parseNumber(numeric[2])) / 2 : low;
+    remaining = remaining.slice(numeric[0].length).trim();
+  } else if (aHalf) {
+    amount = 0.5;
+    remaining = remaining.slice(aHalf[0].length).trim();
+  } else {
+    const word = remaining.split(' ')[0];
+    if (word in NUMBER_WORDS) {
+      amount = NUMBER_WORDS[word];
+      remaining = remaining.slice(word.length).trim();
+    }
+  }
+
+  if (amount === undefined || !Number.isFinite(amount) || amount <= 0) {
+    return null;
+  }
+
+  // "1 and a half cups", "one and a half cups"
+  const andAHalf = remaining.match(/^and (?:a )?half(?=\s|$)/);
+  if (andAHalf) {
+    amount += 0.5;
+    remaining = remaining.slice(andAHalf[0].length).trim();
+  }
+
+  // "half a cup"
+  remaining = remaining.replace(/^(a|an|of)\s+/, '');
+
+  const unitMatch = remaining.match(/^([a-z]+)\.?(?:\s+of)?(?=\s|$)/);
+  const unit = unitMatch ? UNIT_ALIASES[unitMatch[1]] : undefined;
+  if (unit && unitMatch) {
+    remaining = remaining.slice(unitMatch[0].length).trim();
+  }
+
+  return {
+    quantity: { amount, unit: unit ?? 'piece' },
+    rest: remaining,
+  };
+}
+
+/**
+ * Parse quantity strings such as "1 cup", "80g", "1 1/2 tbsp", "½ cup",
+ * "1 and a half cups" or "1 medium". A bare number is treated as a count of
+ * whole pieces.
+ */
+export function parseQuantity(text: string): ParsedQuantity | null {
+  // Allow units glued to the number ("80g", "2tbsp")
+  const spaced = text.replace(/(\d)([a-zA-Z])/g, '$1 $2');
+  return splitQuantity(spaced)?.quantity ?? null;
+}
+
+/**
+ * Split a free-text ingredient such as "1 cup strawberries" into its
+ * quantity and name. Text without a leading amount is returned as the name.
+ */
+export function parseIngredientText(text: string): {
+  name: string;
+  quantity: string;
+} {
+  const trimmed = text.trim();
+  const split = splitQuantity(trimmed.replace(/(\d)([a-zA-Z])/g, '$1 $2'));
+
+  if (!split || !split.rest) {
+    return { name: trimmed, quantity: '' };
+  }
+
+  // Keep the original casing by taking the same number of trailing words
+  const words = trimmed.split(/\s+/);
+  const nameLength = split.rest.split(' ').length;
+  return {
+    name: words.slice(-nameLength).join(' '),
+    quantity: words.slice(0, -nameLength).join(' '),
+  };
+}
@@ -0,0 +1,258 @@
+import { z } from 'zod';
+import type { MealPlanRequest } from './ai';
+import type { CatalogFood } from './combinationGenerator';
+import { Combination, PLATE_CATEGORIES } from './combinations';
+import { PantryItem, pantryOperations } from './database';
+import { toDiaryDate } from './foodLog';
+import type { GeneratedMeal } from './mealPlans';
+import { matchFoodGroup, normalizeFoodName } from './nutrition';
+import { PantryModeSchema } from './validation/schemas';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PantryMode = z.infer<typeof PantryModeSchema>;
+
+// A pantry item as generation sees it, resolved against today's date
+export interface PantryStockItem {
+  name: string;
+  daysLeft?: number; // days until it expires; 0 means today
+}
+
+export interface PantryStock {
+  mode: PantryMode;
+  items: PantryStockItem[]; // soonest to expire first
+}
+
+// The pantry items one combination or meal uses
+export interface PantryUsage {
+  slot: string; // "Monday", or "Day 1 dinner" for meal plans
+  items: string[];
+}
+
+// ============================================================================
+// STOCK
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whole days from today until a YYYY-MM-DD expiry date; negative once expired
+ */
+export function daysUntilExpiry(
+  date: string,
+  today: Date = new Date()
+): number {
+  return Math.round(
+    (Date.parse(`${date}T00:00:00Z`) -
+      Date.parse(`${toDiaryDate(today)}T00:00:00Z`)) /
+      DAY_MS
+  );
+}
+
+/**
+ * Turn stored pantry items into what generation works from. Expired items
+ * are left out, and the rest are ordered soonest to expire first.
+ */
+export function toPantryStock(
+  items: PantryItem[],
+  mode: PantryMode,
+  today: Date = new Date()
+): PantryStock {
+  const stock = items
+    .map(item => ({
+      name: item.name,
+      daysLeft: item.expiresOn
+        ? daysUntilExpiry(item.expiresOn, today)
+        : undefined,
+    }))
+    .filter(item => item.daysLeft === undefined || item.daysLeft >= 0)
+    .sort(
+      (a, b) =>
+        (a.daysLeft ?? Infinity) - (b.daysLeft ?? Infinity) ||
+        a.name.localeCompare(b.name)
+    );
+
+  return { mode, items: stock };
+}
+
+/**
+ * Attach the user's pantry to a request that asks for a pantry mode. Unlike
+ * goals and preferences, a failed read is not skipped: the user asked for a
+ * plan built from what they have.
+ */
+export async function withPantry(
+  request: MealPlanRequest,
+  userId: string
+): Promise<MealPlanRequest> {
+  if (!request.pantryMode) return request;
+
+  const items = await pantryOperations.getByUserId(userId);
+  return { ...request, pantry: toPantryStock(items, request.pantryMode) };
+}
+
+function describeStockItem(item: PantryStockItem): string {
+  if (item.daysLeft === undefined) return item.name;
+  if (item.daysLeft === 0) return `${item.name} (expires today)`;
+  return `${item.name} (expires in ${item.daysLeft} day${item.daysLeft === 1 ? '' : 's'})`;
+}
+
+/**
+ * Describe the pantry for the model prompt
+ */
+export function describePantry(stock?: PantryStock): string {
+  if (!stock) return '';
+
+  const items = stock.items.map(describeStockItem).join(', ');
+  return stock.mode === 'only'
+    ? `\n\nPantry: the user wants to cook only with what they have. Use ONLY these ingredients and no others: ${items}. Salt, pepper, oil, water, vinegar, herbs and spices may be assumed.`
+    : `\n\nPantry: the user has these at home. Use them first, starting with the ones that expire soonest: ${items}.`;
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+// Assumed to be in every kitchen, so pantry-only plans may use them
+const STAPLES = new Set(
+  [
+    'salt',
+    'pepper',
+    'black pepper',
+    'oil',
+    'olive oil',
+    'water',
+    'vinegar',
+  ].map(normalizeFoodName)
+);
+const STAPLE_CATEGORIES = new Set(['herbs', 'spices']);
+
+/**
+ * Build a lookup from ingredient names to the pantry items they use. Names
+ * that resolve to the same catalog food match ("baby spinach" uses a pantry's
+ * "Spinach"); names outside the catalog match when they normalize the same.
+ */
+export function pantryMatcher(
+  stock: PantryStock,
+  foods: CatalogFood[]
+): (name: string) => PantryStockItem | undefined {
+  const keyOf = (name: string) => {
+    const food = matchFoodGroup(name, foods);
+    return food ? `food:${food.id}` : `name:${normalizeFoodName(name)}`;
+  };
+
+  // Items are soonest to expire first, so a duplicate keeps the earliest
+  const byKey = new Map<string, PantryStockItem>();
+  for (const item of stock.items) {
+    const key = keyOf(item.name);
+    if (!byKey.has(key)) byKey.set(key, item);
+  }
+
+  return name => byKey.get(keyOf(name));
+}
+
+/**
+ * The stocked items each candidate food stands for, keyed by food ID, for
+ * scoring and restricting the rule-based generator
+ */
+export function stockedFoods(
+  foods: CatalogFood[],
+  stock?: PantryStock
+): Map<string, PantryStockItem> {
+  const stocked = new Map<string, PantryStockItem>();
+  for (const item of stock?.items ?? []) {
+    const food = matchFoodGroup(item.name, foods);
+    if (food && !stocked.has(food.id)) stocked.set(food.id, item);
+  }
+  return stocked;
+}
+
+/**
+ * Extra score for a stocked food. Any stocked food outranks a requested one,
+ * and one expiring within the week gains up to 7 more so it is used first.
+ */
+export function pantryScore(item: PantryStockItem): number {
+  return item.daysLeft === undefined ? 4 : 4 + Math.max(0, 7 - item.daysLeft);
+}
+
+/**
+ * Ingredients a pantry-only plan should not contain: anything that is
+ * neither in the pantry nor a kitchen staple
+ */
+export function offPantryIngredients(
+  ingredients: { name: string; category?: string }[],
+  stock: PantryStock,
+  foods: CatalogFood[]
+): string[] {
+  const match = pantryMatcher(stock, foods);
+  return ingredients
+    .filter(
+      ingredient =>
+        !match(ingredient.name) &&
+        !STAPLES.has(normalizeFoodName(ingredient.name)) &&
+        !STAPLE_CATEGORIES.has(ingredient.category ?? '')
+    )
+    .map(ingredient => ingredient.name);
+}
+
+// ============================================================================
+// USAGE
+// ============================================================================
+
+function usage(
+  slots: { slot: string; ingredients: string[] }[],
+  stock: PantryStock,
+  foods: CatalogFood[]
+): PantryUsage[] {
+  const match = pantryMatcher(stock, foods);
+  return slots.map(({ slot, ingredients }) => ({
+    slot,
+    items: Array.from(
+      new Set(
+        ingredients.flatMap(name => {
+          const item = match(name);
+          return item ? [item.name] : [];
+        })
+      )
+    ),
+  }));
+}
+
+/**
+ * Which pantry items each day's combination uses
+ */
+export function combinationPantryUsage(
+  combinations: Combination[],
+  stock: PantryStock,
+  foods: CatalogFood[]
+): PantryUsage[] {
+  return usage(
+    combinations.map(combination => ({
+      slot: combination.day,
+      ingredients: PLATE_CATEGORIES.flatMap(category =>
+        combination[category].map(ingredient => ingredient.name)
+      ),
+    })),
+    stock,
+    foods
+  );
+}
+
+/**
+ * Which pantry items each meal of a plan uses
+ */
+export function mealPantryUsage(
+  meals: GeneratedMeal[],
+  stock: PantryStock,
+  foods: CatalogFood[]
+): PantryUsage[] {
+  return usage(
+    meals.map(meal => ({
+      slot: `Day ${meal.day} ${meal.type}`,
+      ingredients: meal.ingredients.map(ingredient => ingredient.name),
+    })),
+    stock,
+    foods
+  );
+}
@@ -0,0 +1,285 @@
+import { z } from 'zod';
+import type { MealPlanRequest } from './ai';
+import { Combination, CombinationIngredient } from './combinations';
+import { UserPreferences, userPreferencesOperations } from './database';
+import type { GeneratedMeal } from './mealPlans';
+import {
+  CookingProfileSchema,
+  DietaryRestrictionSchema,
+} from './validation/schemas';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CookingProfile = z.infer<typeof CookingProfileSchema>;
+export type CookingSkill = UserPreferences['cookingSkill'];
+export type MealPrepTime = UserPreferences['mealPrepTime'];
+export type ServingSize = UserPreferences['servingSize'];
+
+interface ComplexityLimit {
+  perCategory: number; // fruits, vegetables or grains per combination
+  ingredients: number; // per meal
+  instructions: number; // per meal
+  minutes: number; // rough hands-on time per meal, for the prompt
+}
+
+// ============================================================================
+// LIMITS
+// ============================================================================
+
+// Portion multipliers; generation always targets a medium portion
+export const SERVING_FACTORS: Record<ServingSize, number> = {
+  small: 0.75,
+  medium: 1,
+  large: 1.5,
+};
+
+export const COMPLEXITY_LIMITS: Record<MealPrepTime, ComplexityLimit> = {
+  quick: { perCategory: 1, ingredients: 5, instructions: 4, minutes: 20 },
+  moderate: { perCategory: 2, ingredients: 8, instructions: 6, minutes: 45 },
+  extensive: { perCategory: 2, ingredients: 12, instructions: 12, minutes: 90 },
+};
+
+const SKILL_GUIDANCE: Record<CookingSkill, string> = {
+  beginner:
+    'The cook is a beginner: use simple techniques and spell out each step, including times and doneness cues.',
+  intermediate:
+    'The cook is comfortable with everyday techniques such as roasting, sautéing and simmering.',
+  advanced:
+    'The cook is experienced: advanced techniques and concise instructions are welcome.',
+};
+
+const SPICE_GUIDANCE: Record<UserPreferences['spiceTolerance'], string> = {
+  mild: 'Keep seasoning mild and avoid hot chilies.',
+  medium: 'Moderate heat is fine.',
+  hot: 'Spicy dishes are welcome.',
+};
+
+// ============================================================================
+// MERGING
+// ============================================================================
+
+/**
+ * Load a user's stored preferences. Preferences only refine a plan, so a
+ * failed read is logged and generation carries on without them.
+ */
+export async function loadUserPreferences(
+  userId: string
+): Promise<UserPreferences | null> {
+  try {
+    return await userPreferencesOperations.get(userId);
+  } catch (error) {
+    console.warn('Could not load user preferences:', error);
+    return null;
+  }
+}
+
+// Union two lists, keeping the first spelling of each entry
+function union(first: string[] = [], second: string[] = []): string[] {
+  const seen = new Set<string>();
+  return [...first, ...second].filter(item => {
+    const key = item.trim().toLowerCase();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Merge stored preferences into a generation request. Values sent with the
+ * request win for the cooking profile, while restrictions and allergies are
+ * combined so a request can never drop one the user has saved. Invalid
+ * stored values are ignored field by field.
+ */
+export function mergePreferences(
+  request: MealPlanRequest,
+  stored: Partial<UserPreferences> | null
+): MealPlanRequest {
+  if (!stored) return request;
+
+  const profile: CookingProfile = {};
+  for (const key of Object.keys(CookingProfileSchema.shape) as Array<
+    keyof CookingProfile
+  >) {
+    const field = CookingProfileSchema.shape[key].safeParse(stored[key]);
+    if (field.success && field.data !== undefined) {
+      Object.assign(profile, { [key]: field.data });
+    }
+  }
+
+  const dietaryRestrictions = union(
+    request.dietaryRestrictions,
+    (stored.dietaryRestrictions ?? []).filter(
+      restriction => DietaryRestrictionSchema.safeParse(restriction).success
+    )
+  );
+  const allergies = union(request.allergies, stored.allergies);
+
+  return {
+    ...request,
+    dietaryRestrictions: dietaryRestrictions.length
+      ? dietaryRestrictions
+      : undefined,
+    allergies: allergies.length ? allergies : undefined,
+    profile: { ...profile, ...request.profile },
+  };
+}
+
+// ============================================================================
+// PROMPT
+// ============================================================================
+
+/**
+ * Describe the cooking profile for the model prompt
+ */
+export function describeProfile(profile: CookingProfile = {}): string {
+  const lines: string[] = [];
+
+  if (profile.cookingSkill) lines.push(SKILL_GUIDANCE[profile.cookingSkill]);
+  if (profile.mealPrepTime) {
+    const limit = COMPLEXITY_LIMITS[profile.mealPrepTime];
+    lines.push(
+      `Preparation time is ${profile.mealPrepTime}: about ${limit.minutes} minutes per meal, at most ${limit.ingredients} ingredients and ${limit.instructions} steps.`
+    );
+  }
+  if (profile.servingSize && profile.servingSize !== 'medium') {
+    lines.push(
+      "Write quantities for a standard portion; they are scaled to the user's portion size afterwards."
+    );
+  }
+  if (profile.spiceTolerance) {
+    lines.push(SPICE_GUIDANCE[profile.spiceTolerance]);
+  }
+  if (profile.preferredCuisines?.length) {
+    lines.push(
+      `Favor these cuisines: ${profile.preferredCuisines.join(', ')}.`
+    );
+  }
+  if (profile.healthGoals?.length) {
+    lines.push(`Health goals: ${profile.healthGoals.join(', ')}.`);
+  }
+
+  return lines.length ? `\n\nCooking profile:\n- ${lines.join('\n- ')}` : '';
+}
+
+// ============================================================================
+// SCALING
+// ============================================================================
+
+const LEADING_AMOUNT = /^(\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:\.\d+)?)(.*)$/;
+const METRIC_UNIT = /^\s*(g|gr|grams?|ml|milliliters?)\b/i;
+const FRACTIONS = ['', '1/4', '1/2', '3/4'];
+
+function parseAmount(text: string): number {
+  return text
+    .trim()
+    .split(/\s+/)
+    .reduce((total, part) => {
+      const [numerator, denominator] = part.split('/').map(Number);
+      return total + (denominator ? numerator / denominator : numerator);
+    }, 0);
+}
+
+// Grams and milliliters round to 5; everything else to the nearest quarter
+function formatAmount(value: number, metric: boolean): string {
+  if (metric) return String(Math.max(5, Math.round(value / 5) * 5));
+
+  const quarters = Math.max(1, Math.round(value * 4));
+  const whole = Math.floor(quarters / 4);
+  const fraction = FRACTIONS[quarters % 4];
+  if (!whole) return fraction;
+  return fraction ? `${whole} ${fraction}` : String(whole);
+}
+
+/**
+ * Scale a quantity such as "1 1/2 cups" or "80g". Quantities without a
+ * leading number ("a handful") are returned unchanged.
+ */
+export function scaleQuantity(quantity: string, factor: number): string {
+  const match = quantity.trim().match(LEADING_AMOUNT);
+  if (!match || factor === 1) return quantity;
+
+  const [, amount, rest] = match;
+  return `${formatAmount(parseAmount(amount) * factor, METRIC_UNIT.test(rest))}${rest}`;
+}
+
+function scaleMealAmount(amount: string, unit: string, factor: number) {
+  if (factor === 1 || !LEADING_AMOUNT.test(amount.trim())) return amount;
+  return formatAmount(parseAmount(amount) * factor, METRIC_UNIT.test(unit));
+}
+
+// ============================================================================
+// APPLYING
+// ============================================================================
+
+// Overflowing steps are folded into the last allowed one rather than lost
+function limitInstructions(steps: string[], limit: number): string[] {
+  if (steps.length <= limit) return steps;
+  return [
+    ...steps.slice(0, limit - 1),
+    steps
+      .slice(limit - 1)
+      .map((step, index) => {
+        const clause = step.replace(/\.$/, '');
+        return index
+          ? clause.charAt(0).toLowerCase() + clause.slice(1)
+          : clause;
+      })
+      .join(', then ')
+      .concat('.'),
+  ];
+}
+
+/**
+ * Apply serving size and prep time to a week of combinations: quantities are
+ * scaled and quick plans keep a single item per category
+ */
+export function applyProfileToCombinations(
+  combinations: Combination[],
+  profile: CookingProfile = {}
+): Combination[] {
+  const factor = SERVING_FACTORS[profile.servingSize ?? 'medium'];
+  const limit = profile.mealPrepTime
+    ? COMPLEXITY_LIMITS[profile.mealPrepTime].perCategory
+    : Infinity;
+  const adjust = (ingredients: CombinationIngredient[]) =>
+    ingredients.slice(0, limit).map(ingredient => ({
+      ...ingredient,
+      quantity: scaleQuantity(ingredient.quantity, factor),
+    }));
+
+  return combinations.map(combination => ({
+    ...combination,
+    fruits: adjust(combination.fruits),
+    vegetables: adjust(combination.vegetables),
+    grains: adjust(combination.grains),
+  }));
+}
+
+/**
+ * Apply serving size and prep time to generated meals: amounts are scaled and
+ * ingredients and steps are capped for the chosen prep time
+ */
+export function applyProfileToMeals(
+  meals: GeneratedMeal[],
+  profile: CookingProfile = {}
+): GeneratedMeal[] {
+  const factor = SERVING_FACTORS[profile.servingSize ?? 'medium'];
+  const limit = profile.mealPrepTime
+    ? COMPLEXITY_LIMITS[profile.mealPrepTime]
+    : undefined;
+
+  return meals.map(meal => ({
+    ...meal,
+    ingredients: meal.ingredients
+      .slice(0, limit?.ingredients ?? meal.ingredients.length)
+      .map(ingredient => ({
+        ...ingredient,
+        amount: scaleMealAmount(ingredient.amount, ingredient.unit, factor),
+      })),
+    instructions: limit
+      ? limitInstructions(meal.instructions, limit.instructions)
+      : meal.instructions,
+  }));
+}
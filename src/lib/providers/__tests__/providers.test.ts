@@ -0,0 +1,209 @@
+import { CombinationListSchema } from '@/lib/validation/schemas';
+import { fallbackFoodGroups } from '../../fallbackData';
+import { TextCompletionProvider } from '../textCompletion';
+import {
+  createProviders,
+  getProviderConfigs,
+  MealPlanContext,
+  MealSlotContext,
+  parseProviderEntry,
+  ProviderError,
+  RuleBasedProvider,
+} from '..';
+
+const context: MealPlanContext = {
+  request: { fruits: ['Banana'], vegetables: [], grains: [] },
+  prompt: 'prompt',
+  foodGroups: fallbackFoodGroups,
+  expectedCount: 7,
+  seed: 42,
+  season: 'fall',
+};
+
+describe('provider config', () => {
+  it('parses type, model and timeout', () => {
+    expect(
+      parseProviderEntry('gemini:gemini-1.5-pro-latest@15000', 5000)
+    ).toEqual({
+      type: 'gemini',
+      model: 'gemini-1.5-pro-latest',
+      timeoutMs: 15000,
+    });
+    expect(parseProviderEntry('rule-based', 5000)).toEqual({
+      type: 'rule-based',
+      timeoutMs: 5000,
+    });
+  });
+
+  it('rejects unknown provider types', () => {
+    expect(() => parseProviderEntry('claude', 5000)).toThrow(
+      /Unknown meal plan provider/
+    );
+  });
+
+  it('defaults to the offline provider without an AI key', () => {
+    expect(getProviderConfigs({})).toEqual([
+      { type: 'rule-based', timeoutMs: 10000 },
+    ]);
+  });
+
+  it('skips providers that are missing credentials', () => {
+    const providers = createProviders({
+      MEAL_PLAN_PROVIDERS: 'gemini,openai-compatible:llama3,rule-based',
+    });
+
+    expect(providers.map(provider => provider.name)).toEqual(['rule-based']);
+  });
+});
+
+describe('RuleBasedProvider', () => {
+  it('builds a deterministic, schema-valid week from the catalog', async () => {
+    const provider = new RuleBasedProvider(1000);
+
+    const first = await provider.generate(context);
+    const second = await provider.generate(context);
+
+    expect(first).toEqual(second);
+    expect(first).toHaveLength(7);
+    expect(
+      CombinationListSchema.safeParse({ combinations: first }).success
+    ).toBe(true);
+    // Requested ingredients are used first
+    expect(first[0].fruits[0].name).toBe('Banana');
+  });
+
+  it('fails when a plate category is missing', async () => {
+    const provider = new RuleBasedProvider(1000);
+
+    await expect(
+      provider.generate({
+        ...context,
+        foodGroups: fallbackFoodGroups.filter(f => f.category !== 'grains'),
+      })
+    ).rejects.toBeInstanceOf(ProviderError);
+  });
+
+  it('cooks only from the pantry', async () => {
+    const week = await new RuleBasedProvider(1000).generate({
+      ...context,
+      request: {
+        ...context.request,
+        pantry: {
+          mode: 'only',
+          items: [{ name: 'Apple' }, { name: 'Carrot' }, { name: 'Oats' }],
+        },
+      },
+    });
+
+    const names = week.flatMap(day =>
+      [...day.fruits, ...day.vegetables, ...day.grains].map(item => item.name)
+    );
+    expect(new Set(names)).toEqual(new Set(['Apple', 'Carrot', 'Oats']));
+  });
+
+  it('uses the soonest-expiring pantry items first', async () => {
+    const [meal] = await new RuleBasedProvider(1000).generateMeals({
+      ...context,
+      request: {
+        ...context.request,
+        pantry: {
+          mode: 'expiring-first',
+          items: [
+            { name: 'Spinach', daysLeft: 0 },
+            { name: 'Brown Rice', daysLeft: 1 },
+          ],
+        },
+      },
+      plan: { days: 1, mealSlots: ['dinner'] },
+    });
+
+    const names = meal.ingredients.map(ingredient => ingredient.name);
+    expect(names).toEqual(expect.arrayContaining(['Spinach', 'Brown Rice']));
+  });
+});
+
+class StubProvider extends TextCompletionProvider {
+  readonly name = 'stub';
+  prompts: string[] = [];
+
+  constructor(private responses: string[]) {
+    super(1000);
+  }
+
+  protected async complete(prompt: string): Promise<string> {
+    this.prompts.push(prompt);
+    return this.responses.shift() ?? '';
+  }
+}
+
+describe('TextCompletionProvider', () => {
+  it('feeds validation errors back and retries', async () => {
+    const week = await new RuleBasedProvider(1000).generate(context);
+    const provider = new StubProvider([
+      'not json',
+      JSON.stringify({ combinations: week }),
+    ]);
+
+    await expect(provider.generate(context)).resolves.toEqual(week);
+    expect(provider.prompts[1]).toMatch(
+      /\n\nYour previous response did not match the required JSON format: .+\nReturn the corrected JSON only\.$/
+    );
+  });
+
+  it('gives up after the retry budget', async () => {
+    const provider = new StubProvider([]);
+
+    await expect(provider.generate(context)).rejects.toThrow(
+      /invalid response/
+    );
+  });
+});
+
+describe('meal plans', () => {
+  const mealContext = {
+    ...context,
+    plan: { days: 2, mealSlots: ['breakfast', 'dinner'] },
+  } satisfies MealSlotContext;
+
+  it('builds every requested slot with the rule-based provider', async () => {
+    const meals = await new RuleBasedProvider(1000).generateMeals(mealContext);
+
+    expect(meals.map(meal => `${meal.day}:${meal.type}`)).toEqual([
+      '1:breakfast',
+      '1:dinner',
+      '2:breakfast',
+      '2:dinner',
+    ]);
+  });
+
+  it('retries model output that misses a slot', async () => {
+    const meals = await new RuleBasedProvider(1000).generateMeals(mealContext);
+    const provider = new StubProvider([
+      JSON.stringify({ meals: meals.slice(1) }),
+      JSON.stringify({ meals }),
+    ]);
+
+    await expect(provider.generateMeals(mealContext)).resolves.toEqual(meals);
+    expect(provider.prompts[1]).toContain('Missing meals: day 1 breakfast');
+  });
+
+  it('regenerates only the targeted meals', async () => {
+    const current = await new RuleBasedProvider(1000).generateMeals(
+      mealContext
+    );
+    const regenerating = {
+      ...mealContext,
+      request: {
+        ...mealContext.request,
+        regenerateMeals: { current, targets: [{ day: 2, type: 'dinner' }] },
+      },
+    } satisfies MealSlotContext;
+
+    const fresh = await new RuleBasedProvider(1000).generateMeals(regenerating);
+    expect(fresh.map(meal => `${meal.day}:${meal.type}`)).toEqual(['2:dinner']);
+
+    // Models are held to the same targets
+    const provider = new StubProvider([JSON.stringify({ meals: fresh })]);
+    await expect(provider.generateMeals(regenerating)).resolves.toEqual(fresh);
+  });
+});
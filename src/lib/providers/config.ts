@@ -0,0 +1,73 @@
+import { MealPlanProviderType, ProviderConfig } from './types';
+
+const PROVIDER_TYPES: readonly MealPlanProviderType[] = [
+  'gemini',
+  'openai-compatible',
+  'rule-based',
+];
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+// Used when MEAL_PLAN_PROVIDERS is not set: the Gemini models the planner has
+// always used, then the local provider so generation never depends on a key
+const DEFAULT_AI_PROVIDERS =
+  'gemini:gemini-1.5-flash-latest@10000,gemini:gemini-1.5-pro-latest@15000,rule-based';
+const DEFAULT_OFFLINE_PROVIDERS = 'rule-based';
+
+type Env = Record<string, string | undefined>;
+
+function parseTimeout(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function isProviderType(value: string): value is MealPlanProviderType {
+  return (PROVIDER_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Parse a single provider entry of the form `type[:model][@timeoutMs]`,
+ * e.g. `gemini:gemini-1.5-pro-latest@15000` or `rule-based`
+ */
+export function parseProviderEntry(
+  entry: string,
+  defaultTimeoutMs: number
+): ProviderConfig {
+  const [spec, timeout] = entry.trim().split('@');
+  const separator = spec.indexOf(':');
+  const type = separator === -1 ? spec : spec.slice(0, separator);
+  const model = separator === -1 ? undefined : spec.slice(separator + 1);
+
+  if (!isProviderType(type)) {
+    throw new Error(
+      `Unknown meal plan provider "${type}". Expected one of: ${PROVIDER_TYPES.join(', ')}`
+    );
+  }
+
+  return {
+    type,
+    ...(model && { model }),
+    timeoutMs: parseTimeout(timeout, defaultTimeoutMs),
+  };
+}
+
+/**
+ * Resolve the ordered provider chain from the environment. Providers are tried
+ * in the listed order until one returns a valid plan.
+ */
+export function getProviderConfigs(env: Env = process.env): ProviderConfig[] {
+  const defaultTimeoutMs = parseTimeout(
+    env.MEAL_PLAN_PROVIDER_TIMEOUT_MS,
+    DEFAULT_TIMEOUT_MS
+  );
+  const hasGeminiKey = !!(env.NEXT_PUBLIC_AI_API_KEY || env.AI_API_KEY);
+
+  const list =
+    env.MEAL_PLAN_PROVIDERS?.trim() ||
+    (hasGeminiKey ? DEFAULT_AI_PROVIDERS : DEFAULT_OFFLINE_PROVIDERS);
+
+  return list
+    .split(',')
+    .filter(entry => entry.trim())
+    .map(entry => parseProviderEntry(entry, defaultTimeoutMs));
+}
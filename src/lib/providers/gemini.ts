@@ -0,0 +1,27 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { TextCompletionProvider } from './textCompletion';
+
+export class GeminiProvider extends TextCompletionProvider {
+  readonly name: string;
+  private client: GoogleGenerativeAI;
+
+  constructor(
+    apiKey: string,
+    private model: string,
+    timeoutMs: number
+  ) {
+    super(timeoutMs);
+    this.name = `gemini:${model}`;
+    this.client = new GoogleGenerativeAI(apiKey);
+  }
+
+  protected async complete(prompt: string): Promise<string> {
+    const model = this.client.getGenerativeModel({
+      model: this.model,
+      generationConfig: { responseMimeType: 'application/json' },
+    });
+
+    const result = await model.generateContent(prompt);
+    return result.response.text();
+  }
+}
@@ -0,0 +1,62 @@
+import { getProviderConfigs } from './config';
+import { GeminiProvider } from './gemini';
+import { OpenAICompatibleProvider } from './openaiCompatible';
+import { RuleBasedProvider } from './ruleBased';
+import { MealPlanProvider, ProviderConfig } from './types';
+
+export * from './types';
+export { getProviderConfigs, parseProviderEntry } from './config';
+export { GeminiProvider } from './gemini';
+export { OpenAICompatibleProvider } from './openaiCompatible';
+export { RuleBasedProvider } from './ruleBased';
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Instantiate a provider from its config. Returns null (with a warning) when
+ * the provider is listed but its credentials or endpoint are missing, so a
+ * partially configured chain still works.
+ */
+export function createProvider(
+  config: ProviderConfig,
+  env: Env = process.env
+): MealPlanProvider | null {
+  switch (config.type) {
+    case 'gemini': {
+      const apiKey = env.NEXT_PUBLIC_AI_API_KEY || env.AI_API_KEY;
+      if (!apiKey) {
+        console.warn('Skipping Gemini provider: no AI API key configured');
+        return null;
+      }
+      return new GeminiProvider(
+        apiKey,
+        config.model || 'gemini-1.5-flash-latest',
+        config.timeoutMs
+      );
+    }
+    case 'openai-compatible': {
+      const baseUrl = env.OPENAI_COMPATIBLE_BASE_URL;
+      const model = config.model || env.OPENAI_COMPATIBLE_MODEL;
+      if (!baseUrl || !model) {
+        console.warn(
+          'Skipping OpenAI-compatible provider: OPENAI_COMPATIBLE_BASE_URL and a model are required'
+        );
+        return null;
+      }
+      return new OpenAICompatibleProvider(
+        baseUrl,
+        model,
+        env.OPENAI_COMPATIBLE_API_KEY,
+        config.timeoutMs
+      );
+    }
+    case 'rule-based':
+      return new RuleBasedProvider(config.timeoutMs);
+  }
+}
+
+export function createProviders(env: Env = process.env): MealPlanProvider[] {
+  return getProviderConfigs(env)
+    .map(config => createProvider(config, env))
+    .filter((provider): provider is MealPlanProvider => provider !== null);
+}
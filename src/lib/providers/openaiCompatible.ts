@@ -0,0 +1,62 @@
+import { TextCompletionProvider } from './textCompletion';
+import { ProviderError } from './types';
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+}
+
+/**
+ * Talks to any server exposing the OpenAI `/chat/completions` API, which
+ * includes local model servers such as Ollama, llama.cpp and vLLM
+ */
+export class OpenAICompatibleProvider extends TextCompletionProvider {
+  readonly name: string;
+
+  constructor(
+    private baseUrl: string,
+    private model: string,
+    private apiKey: string | undefined,
+    timeoutMs: number
+  ) {
+    super(timeoutMs);
+    this.name = `openai-compatible:${model}`;
+  }
+
+  protected async complete(prompt: string): Promise<string> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(
+        `${this.baseUrl.replace(/\/+$/, '')}/chat/completions`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+          },
+          body: JSON.stringify({
+            model: this.model,
+            messages: [{ role: 'user', content: prompt }],
+            response_format: { type: 'json_object' },
+          }),
+          signal: controller.signal,
+        }
+      );
+
+      if (!response.ok) {
+        throw new ProviderError(this.name, `HTTP ${response.status}`);
+      }
+
+      const data: ChatCompletionResponse = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+      if (!content) {
+        throw new ProviderError(this.name, 'empty completion');
+      }
+
+      return content;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { Combination } from '../combinations';
+import {
+  GeneratorError,
+  generateCombinations,
+  generateMeals,
+  regenerateCombinations,
+  regenerateMeals,
+} from '../combinationGenerator';
+import type { GeneratedMeal } from '../mealPlans';
+import {
+  MealPlanContext,
+  MealPlanProvider,
+  MealSlotContext,
+  ProviderError,
+} from './types';
+
+/**
+ * Builds a week of combinations straight from the food catalog without any
+ * model. The same catalog, request and seed always produce the same plan,
+ * which makes it suitable for offline use and CI.
+ */
+export class RuleBasedProvider implements MealPlanProvider {
+  readonly name = 'rule-based';
+
+  constructor(public readonly timeoutMs: number) {}
+
+  async generate(context: MealPlanContext): Promise<Combination[]> {
+    const { request, foodGroups, expectedCount, seed, season } = context;
+    const options = {
+      seed,
+      season,
+      dietaryRestrictions: request.dietaryRestrictions,
+      allergies: request.allergies,
+      cookingSkill: request.profile?.cookingSkill,
+      mealPrepTime: request.profile?.mealPrepTime,
+      goal: request.goal,
+      pantry: request.pantry,
+      requested: {
+        fruits: request.fruits,
+        vegetables: request.vegetables,
+        grains: request.grains,
+      },
+    };
+
+    return this.run(() =>
+      request.regenerate
+        ? regenerateCombinations(foodGroups, request.regenerate, options)
+        : generateCombinations(foodGroups, { ...options, days: expectedCount })
+    );
+  }
+
+  async generateMeals(context: MealSlotContext): Promise<GeneratedMeal[]> {
+    const { request, foodGroups, plan, seed, season } = context;
+
+    const options = {
+      ...plan,
+      seed,
+      season,
+      dietaryRestrictions: request.dietaryRestrictions,
+      allergies: request.allergies,
+      cookingSkill: request.profile?.cookingSkill,
+      mealPrepTime: request.profile?.mealPrepTime,
+      goal: request.goal,
+      pantry: request.pantry,
+      requested: {
+        fruits: request.fruits,
+        vegetables: request.vegetables,
+        grains: request.grains,
+      },
+    };
+
+    return this.run(() =>
+      request.regenerateMeals
+        ? regenerateMeals(foodGroups, request.regenerateMeals, options)
+        : generateMeals(foodGroups, options)
+    );
+  }
+
+  private run<T>(generate: () => T): T {
+    try {
+      return generate();
+    } catch (error) {
+      if (error instanceof GeneratorError) {
+        throw new ProviderError(this.name, error.message);
+      }
+      throw error;
+    }
+  }
+}
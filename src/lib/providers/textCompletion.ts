@@ -0,0 +1,94 @@
+import { AI_CONSTANTS } from '../constants';
+import { Combination, parseCombinationsResponse } from '../combinations';
+import { GeneratedMeal, parseMealsResponse } from '../mealPlans';
+import {
+  MealPlanContext,
+  MealPlanProvider,
+  MealSlotContext,
+  ProviderError,
+  withTimeout,
+} from './types';
+
+type ParseResult<T> =
+  | { success: true; value: T }
+  | { success: false; error: string };
+
+// The first of the '; '-separated schema issues, for one-line logs
+function summarizeError(error: string): string {
+  const [first, ...rest] = error.split('; ');
+  return rest.length ? `${first} (and ${rest.length} more)` : first;
+}
+
+/**
+ * Base class for providers backed by a text-generating model. Subclasses only
+ * implement `complete`; schema validation and the correction loop live here so
+ * every model is held to the same JSON contract.
+ */
+export abstract class TextCompletionProvider implements MealPlanProvider {
+  abstract readonly name: string;
+
+  constructor(public readonly timeoutMs: number) {}
+
+  protected abstract complete(prompt: string): Promise<string>;
+
+  async generate(context: MealPlanContext): Promise<Combination[]> {
+    return this.completeValidated(context.prompt, text => {
+      const parsed = parseCombinationsResponse(text, context.expectedCount);
+      return parsed.success
+        ? { success: true, value: parsed.combinations }
+        : parsed;
+    });
+  }
+
+  async generateMeals(context: MealSlotContext): Promise<GeneratedMeal[]> {
+    return this.completeValidated(context.prompt, text => {
+      // A regeneration only returns the meals it replaces
+      const parsed = parseMealsResponse(
+        text,
+        context.plan,
+        context.request.regenerateMeals?.targets
+      );
+      return parsed.success ? { success: true, value: parsed.meals } : parsed;
+    });
+  }
+
+  private async completeValidated<T>(
+    prompt: string,
+    parse: (text: string) => ParseResult<T>
+  ): Promise<T> {
+    let attemptPrompt = prompt;
+    let lastError = 'no response';
+
+    // Re-ask the same model when its output fails schema validation,
+    // feeding the validation errors back so it can correct itself
+    for (
+      let attempt = 0;
+      attempt <= AI_CONSTANTS.COMBINATIONS.SCHEMA_RETRIES;
+      attempt++
+    ) {
+      const text = await withTimeout(
+        this.complete(attemptPrompt),
+        this.timeoutMs,
+        this.name
+      );
+
+      const parsed = parse(text);
+      if (parsed.success) {
+        return parsed.value;
+      }
+
+      lastError = parsed.error;
+      console.warn(
+        `Schema validation failed for ${this.name} (attempt ${attempt + 1}): ${summarizeError(parsed.error)}`
+      );
+      attemptPrompt = [
+        prompt,
+        '',
+        `Your previous response did not match the required JSON format: ${parsed.error}`,
+        'Return the corrected JSON only.',
+      ].join('\n');
+    }
+
+    throw new ProviderError(this.name, `invalid response (${lastError})`);
+  }
+}
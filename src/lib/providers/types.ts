@@ -0,0 +1,87 @@
+import type { MealPlanRequest } from '../ai';
+import type { Combination } from '../combinations';
+import type { CatalogFood, Season } from '../combinationGenerator';
+import type { GeneratedMeal, MealPlanOptions } from '../mealPlans';
+
+export type { CatalogFood } from '../combinationGenerator';
+
+// ============================================================================
+// PROVIDER CONTRACT
+// ============================================================================
+
+export type MealPlanProviderType =
+  | 'gemini'
+  | 'openai-compatible'
+  | 'rule-based';
+
+export interface ProviderConfig {
+  type: MealPlanProviderType;
+  model?: string;
+  timeoutMs: number;
+}
+
+/**
+ * Everything a provider needs to produce a week of combinations. The prompt
+ * is built once by the caller so every text model receives the same input.
+ */
+export interface MealPlanContext {
+  request: MealPlanRequest;
+  prompt: string;
+  foodGroups: CatalogFood[];
+  expectedCount: number;
+  seed: number;
+  season: Season;
+}
+
+/**
+ * Context for a multi-day plan: every day in `plan.days` needs one meal per
+ * slot in `plan.mealSlots`, or only the targets of `request.regenerateMeals`
+ */
+export interface MealSlotContext
+  extends Omit<MealPlanContext, 'expectedCount'> {
+  plan: MealPlanOptions;
+}
+
+export interface MealPlanProvider {
+  /** Identifier reported back to clients, e.g. `gemini:gemini-1.5-flash-latest` */
+  readonly name: string;
+  readonly timeoutMs: number;
+  generate(context: MealPlanContext): Promise<Combination[]>;
+  generateMeals(context: MealSlotContext): Promise<GeneratedMeal[]>;
+}
+
+export class ProviderError extends Error {
+  constructor(
+    public readonly provider: string,
+    message: string
+  ) {
+    super(`${provider}: ${message}`);
+    this.name = 'ProviderError';
+  }
+}
+
+/**
+ * Reject with a ProviderError if the promise does not settle within the
+ * provider's timeout
+ */
+export async function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  provider: string
+): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () =>
+        reject(new ProviderError(provider, `timed out after ${timeoutMs}ms`)),
+      timeoutMs
+    );
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
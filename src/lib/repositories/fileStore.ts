@@ -0,0 +1,101 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  foodGroupOperations,
+  hasFirebaseConfig,
+  setRepositories,
+  SYSTEM_ACTOR,
+} from '@/lib/database';
+import { importFoods, parseFoodCsv } from '@/lib/foodImport';
+import {
+  createLocalRepositories,
+  LocalDatabase,
+  LocalDatabaseStore,
+} from './local';
+import type { DatabaseBackend } from './types';
+
+// Server-only: reads and writes files, so only instrumentation and tests
+// import this module
+
+export const DEFAULT_LOCAL_DATABASE_PATH = '.data/local-database.json';
+
+// The catalog a new local database starts with, same as database/populate
+export const SEED_CSV_PATH = 'expanded_foods_database.csv';
+
+/**
+ * A local database kept in one JSON file. Saves go to a temporary file that
+ * then replaces the old one, so a crash mid-save leaves the last good copy.
+ */
+export function createFileStore(filePath: string): LocalDatabaseStore {
+  return {
+    async load() {
+      try {
+        const text = await fs.promises.readFile(filePath, 'utf-8');
+        return JSON.parse(text) as LocalDatabase;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async save(database) {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      const tempPath = `${filePath}.tmp`;
+      await fs.promises.writeFile(tempPath, JSON.stringify(database));
+      await fs.promises.rename(tempPath, filePath);
+    },
+  };
+}
+
+/**
+ * The backend DATABASE_BACKEND names; without it, Firestore when a Firebase
+ * project is configured and the local database otherwise
+ */
+export function configuredBackend(): DatabaseBackend {
+  const backend = process.env.DATABASE_BACKEND;
+  if (backend === 'firestore' || backend === 'local') return backend;
+  if (backend) {
+    throw new Error(
+      `DATABASE_BACKEND must be "firestore" or "local", got "${backend}"`
+    );
+  }
+  return hasFirebaseConfig() ? 'firestore' : 'local';
+}
+
+/**
+ * Switch the database operations to a local database in `filePath`. An empty
+ * catalog is seeded from SEED_CSV_PATH, recorded in each food's history as a
+ * system import.
+ */
+export async function installLocalDatabase(
+  filePath: string,
+  seedCsvPath = path.join(process.cwd(), SEED_CSV_PATH)
+): Promise<void> {
+  setRepositories(createLocalRepositories(createFileStore(filePath)));
+
+  const foods = await foodGroupOperations.getAll({ includeInactive: true });
+  if (foods.length === 0) {
+    const parsed = parseFoodCsv(
+      await fs.promises.readFile(seedCsvPath, 'utf-8')
+    );
+    const { counts } = await importFoods(parsed, {
+      actor: SYSTEM_ACTOR,
+      reason: `Seeded from ${path.basename(seedCsvPath)}`,
+    });
+    console.log(`[database] Seeded ${counts.create} food groups`);
+  }
+}
+
+// Install the configured backend, see configuredBackend. Firestore needs no
+// setup.
+export async function installConfiguredBackend(): Promise<DatabaseBackend> {
+  const backend = configuredBackend();
+  if (backend === 'local') {
+    const filePath = path.resolve(
+      process.env.LOCAL_DATABASE_PATH ?? DEFAULT_LOCAL_DATABASE_PATH
+    );
+    await installLocalDatabase(filePath);
+    console.log(`[database] Using the local database in ${filePath}`);
+  }
+  return backend;
+}
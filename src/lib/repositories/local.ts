@@ -0,0 +1,711 @@
+import { randomUUID } from 'crypto';
+import { Timestamp } from 'firebase/firestore';
+import {
+  AuditContext,
+  FoodGroup,
+  FoodGroupAuditAction,
+  FoodGroupAuditEntry,
+  FoodGroupInput,
+  FoodGroupSnapshot,
+  FoodLogEntry,
+  foodLogOrder,
+  NutritionGoal,
+  PantryItem,
+  pantryOrder,
+  SavedCombination,
+  toSnapshot,
+  UserPreferences,
+} from '@/lib/database';
+import { createCatalogSearch } from '@/lib/foodSearch';
+import type { GenerationRecord } from '@/lib/generationHistory';
+import type { MealPlan } from '@/lib/mealPlans';
+import type { Repositories } from './types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// A stored document without its ID; timestamps are ISO strings so the whole
+// database is plain JSON
+type LocalRecord = Record<string, unknown>;
+
+// Documents by ID, one map per Firestore collection
+export interface LocalDatabase {
+  foodGroups: Record<string, LocalRecord>;
+  foodGroupAudit: Record<string, LocalRecord>;
+  userPreferences: Record<string, LocalRecord>; // by user ID
+  savedCombinations: Record<string, LocalRecord>;
+  nutritionGoals: Record<string, LocalRecord>;
+  mealPlans: Record<string, LocalRecord>;
+  generations: Record<string, LocalRecord>;
+  foodLog: Record<string, LocalRecord>;
+  shoppingLists: Record<string, LocalRecord>; // by `${userId}_${listKey}`
+  pantry: Record<string, LocalRecord>;
+  // The admin allowlist, by uid; add a uid here by hand to make it an admin
+  admins: Record<string, LocalRecord>;
+  adminActions: Record<string, LocalRecord>;
+}
+
+// Where a local database is kept between runs, e.g. a file
+export interface LocalDatabaseStore {
+  load(): Promise<LocalDatabase | null>; // null if nothing was saved yet
+  save(database: LocalDatabase): Promise<void>;
+}
+
+export interface LocalRepositoryOptions {
+  now?: () => Date;
+  newId?: () => string;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export const emptyLocalDatabase = (): LocalDatabase => ({
+  foodGroups: {},
+  foodGroupAudit: {},
+  userPreferences: {},
+  savedCombinations: {},
+  nutritionGoals: {},
+  mealPlans: {},
+  generations: {},
+  foodLog: {},
+  shoppingLists: {},
+  pantry: {},
+  admins: {},
+  adminActions: {},
+});
+
+// Callers never share objects with the database. Fields set to undefined are
+// dropped, the way Firestore removes them.
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// A memory-only store, for tests and throwaway runs
+export function createMemoryStore(
+  initial: LocalDatabase | null = null
+): LocalDatabaseStore {
+  let saved = initial && clone(initial);
+  return {
+    async load() {
+      return saved && clone(saved);
+    },
+    async save(database) {
+      saved = clone(database);
+    },
+  };
+}
+
+// Firestore hands out Timestamps for these; the local database returns the
+// same so callers cannot tell the backends apart
+const withTimestamps = (record: LocalRecord) => ({
+  ...record,
+  createdAt: Timestamp.fromDate(new Date(record.createdAt as string)),
+  updatedAt: Timestamp.fromDate(new Date(record.updatedAt as string)),
+});
+
+const toFoodGroup = (id: string, record: LocalRecord): FoodGroup =>
+  ({ ...withTimestamps(clone(record)), id }) as FoodGroup;
+
+const toSavedCombination = (
+  id: string,
+  record: LocalRecord
+): SavedCombination =>
+  ({ ...withTimestamps(clone(record)), id }) as SavedCombination;
+
+// Documents whose timestamps are ISO strings, as stored
+const toDocument = <T>(id: string, record: LocalRecord): T =>
+  ({ ...clone(record), id }) as T;
+
+const userDocuments = <T>(
+  records: Record<string, LocalRecord>,
+  userId: string
+) =>
+  Object.entries(records)
+    .filter(([, record]) => record.userId === userId)
+    .map(([id, record]) => toDocument<T>(id, record));
+
+const byName = (a: FoodGroup, b: FoodGroup) => a.name.localeCompare(b.name);
+
+const newestFirst = (a: { createdAt: string }, b: { createdAt: string }) =>
+  b.createdAt.localeCompare(a.createdAt);
+
+// ============================================================================
+// REPOSITORIES
+// ============================================================================
+
+/**
+ * Repositories kept in memory and saved to `store` after every write, for
+ * running the app without a Firebase project. The database is loaded on
+ * first use. Writes apply in memory at once and are saved in order; a write
+ * that touches several documents, such as an import, is saved as a whole.
+ */
+export function createLocalRepositories(
+  store: LocalDatabaseStore,
+  { now = () => new Date(), newId = randomUUID }: LocalRepositoryOptions = {}
+): Repositories {
+  let loading: Promise<LocalDatabase> | null = null;
+  let saving: Promise<void> = Promise.resolve();
+
+  const open = () => {
+    loading ??= store
+      .load()
+      .then(database => ({ ...emptyLocalDatabase(), ...database }))
+      .catch(error => {
+        loading = null; // try again on the next call
+        throw error;
+      });
+    return loading;
+  };
+
+  const read = async <T>(reader: (database: LocalDatabase) => T) =>
+    reader(await open());
+
+  // `change` throws to abort without writing anything
+  const write = async <T>(
+    change: (database: LocalDatabase, timestamp: string) => T
+  ): Promise<T> => {
+    const database = await open();
+    const result = change(database, now().toISOString());
+    saving = saving.catch(() => undefined).then(() => store.save(database));
+    await saving;
+    return result;
+  };
+
+  const catalogSearch = createCatalogSearch(async () =>
+    foodGroups(await open())
+  );
+
+  const recordAudit = (
+    database: LocalDatabase,
+    foodGroupId: string,
+    action: FoodGroupAuditAction,
+    { actor, reason }: AuditContext,
+    before: FoodGroupSnapshot | null,
+    after: FoodGroupSnapshot,
+    createdAt: string
+  ) => {
+    database.foodGroupAudit[newId()] = {
+      foodGroupId,
+      action,
+      actor,
+      ...(reason ? { reason } : {}),
+      before,
+      after,
+      createdAt,
+    };
+  };
+
+  const createFood = (
+    database: LocalDatabase,
+    foodGroup: FoodGroupInput,
+    action: FoodGroupAuditAction,
+    audit: AuditContext,
+    timestamp: string
+  ) => {
+    const id = newId();
+    database.foodGroups[id] = clone({
+      ...foodGroup,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    });
+    recordAudit(
+      database,
+      id,
+      action,
+      audit,
+      null,
+      toSnapshot(foodGroup),
+      timestamp
+    );
+    catalogSearch.invalidate();
+    return id;
+  };
+
+  const updateFood = (
+    database: LocalDatabase,
+    id: string,
+    updates: Partial<FoodGroupInput>,
+    action: FoodGroupAuditAction,
+    audit: AuditContext,
+    timestamp: string
+  ) => {
+    const current = database.foodGroups[id];
+    const updated: LocalRecord = clone({
+      ...current,
+      ...updates,
+      updatedAt: timestamp,
+    });
+    recordAudit(
+      database,
+      id,
+      action,
+      audit,
+      toSnapshot(current as Partial<FoodGroup>),
+      toSnapshot(updated as Partial<FoodGroup>),
+      timestamp
+    );
+    database.foodGroups[id] = updated;
+    catalogSearch.invalidate();
+  };
+
+  const foodGroups = (database: LocalDatabase) =>
+    Object.entries(database.foodGroups).map(([id, record]) =>
+      toFoodGroup(id, record)
+    );
+
+  const requireRecord = (
+    records: Record<string, LocalRecord>,
+    id: string,
+    kind: string
+  ) => {
+    const record = records[id];
+    if (!record) throw new Error(`${kind} not found: ${id}`);
+    return record;
+  };
+
+  const requireFood = (database: LocalDatabase, id: string) =>
+    requireRecord(database.foodGroups, id, 'Food group');
+
+  // Add a document, stamped with when it was created and, unless
+  // `updatedAt` is false, last updated
+  const insert = (
+    records: Record<string, LocalRecord>,
+    document: object,
+    timestamp: string,
+    updatedAt = true
+  ) => {
+    const id = newId();
+    records[id] = clone({
+      ...document,
+      createdAt: timestamp,
+      ...(updatedAt ? { updatedAt: timestamp } : {}),
+    });
+    return id;
+  };
+
+  // Merge updates into a document; fields set to undefined are removed
+  const patch = (
+    records: Record<string, LocalRecord>,
+    id: string,
+    kind: string,
+    updates: object,
+    timestamp?: string
+  ) => {
+    records[id] = clone({
+      ...requireRecord(records, id, kind),
+      ...updates,
+      ...(timestamp ? { updatedAt: timestamp } : {}),
+    });
+  };
+
+  return {
+    foodGroups: {
+      async create(foodGroup, audit) {
+        return write((database, timestamp) =>
+          createFood(database, foodGroup, 'create', audit, timestamp)
+        );
+      },
+
+      async getAll({ includeInactive = false } = {}) {
+        return read(database =>
+          foodGroups(database).filter(food => includeInactive || food.isActive)
+        );
+      },
+
+      async getByCategory(category) {
+        return read(database =>
+          foodGroups(database)
+            .filter(food => food.category === category && food.isActive)
+            .sort(byName)
+        );
+      },
+
+      async getById(id) {
+        return read(database => {
+          const record = database.foodGroups[id];
+          return record ? toFoodGroup(id, record) : null;
+        });
+      },
+
+      async update(id, updates, audit, action = 'update') {
+        await write((database, timestamp) => {
+          requireFood(database, id);
+          updateFood(database, id, updates, action, audit, timestamp);
+        });
+      },
+
+      async delete(id, audit) {
+        await this.update(id, { isActive: false }, audit, 'delete');
+      },
+
+      async restore(id, audit) {
+        await this.update(id, { isActive: true }, audit, 'restore');
+      },
+
+      // Unlike Firestore's batches of 500 writes, the whole import is one
+      // write, so it applies completely or not at all
+      async commitBatch({ create, update, deactivate }, audit) {
+        await write((database, timestamp) => {
+          update.forEach(({ id }) => requireFood(database, id));
+          deactivate.forEach(id => requireFood(database, id));
+
+          create.forEach(foodGroup =>
+            createFood(database, foodGroup, 'import', audit, timestamp)
+          );
+          update.forEach(({ id, updates }) =>
+            updateFood(database, id, updates, 'import', audit, timestamp)
+          );
+          deactivate.forEach(id =>
+            updateFood(
+              database,
+              id,
+              { isActive: false },
+              'import',
+              audit,
+              timestamp
+            )
+          );
+        });
+      },
+
+      async search(searchTerm, options = {}) {
+        return catalogSearch.search(searchTerm, options);
+      },
+
+      async query(query) {
+        return catalogSearch.query(query);
+      },
+    },
+
+    foodGroupAudit: {
+      async getByFoodGroupId(foodGroupId) {
+        return read(database =>
+          Object.entries(database.foodGroupAudit)
+            .filter(([, record]) => record.foodGroupId === foodGroupId)
+            .map(
+              ([id, record]) =>
+                ({ ...clone(record), id }) as FoodGroupAuditEntry
+            )
+            .sort(newestFirst)
+        );
+      },
+
+      async getById(id) {
+        return read(database => {
+          const record = database.foodGroupAudit[id];
+          return record
+            ? ({ ...clone(record), id } as FoodGroupAuditEntry)
+            : null;
+        });
+      },
+    },
+
+    userPreferences: {
+      async upsert(userId, preferences) {
+        await write((database, timestamp) => {
+          const current = database.userPreferences[userId];
+          database.userPreferences[userId] = clone({
+            createdAt: timestamp,
+            ...current,
+            userId,
+            ...preferences,
+            updatedAt: timestamp,
+          });
+        });
+      },
+
+      async get(userId) {
+        return read(database => {
+          const record = database.userPreferences[userId];
+          return record
+            ? (withTimestamps(clone(record)) as UserPreferences)
+            : null;
+        });
+      },
+
+      async update(userId, updates) {
+        await write((database, timestamp) => {
+          const current = requireRecord(
+            database.userPreferences,
+            userId,
+            'User preferences'
+          );
+          database.userPreferences[userId] = clone({
+            ...current,
+            ...updates,
+            updatedAt: timestamp,
+          });
+        });
+      },
+    },
+
+    savedCombinations: {
+      async save(combination) {
+        return write((database, timestamp) =>
+          insert(database.savedCombinations, combination, timestamp)
+        );
+      },
+
+      async getByUserId(userId) {
+        return read(database =>
+          Object.entries(database.savedCombinations)
+            .filter(([, record]) => record.userId === userId)
+            .map(([id, record]) => toSavedCombination(id, record))
+        );
+      },
+
+      async getFavorites(userId) {
+        const combinations = await this.getByUserId(userId);
+        return combinations.filter(combination => combination.isFavorite);
+      },
+
+      async getById(id) {
+        return read(database => {
+          const record = database.savedCombinations[id];
+          return record ? toSavedCombination(id, record) : null;
+        });
+      },
+
+      async update(id, updates) {
+        await write((database, timestamp) =>
+          patch(
+            database.savedCombinations,
+            id,
+            'Saved combination',
+            updates,
+            timestamp
+          )
+        );
+      },
+
+      async toggleFavorite(id, isFavorite) {
+        await this.update(id, { isFavorite });
+      },
+
+      async delete(id) {
+        await write(database => {
+          delete database.savedCombinations[id];
+        });
+      },
+    },
+
+    nutritionGoals: {
+      async create(userId, goal) {
+        return write((database, timestamp) =>
+          insert(database.nutritionGoals, { ...goal, userId }, timestamp)
+        );
+      },
+
+      async getByUserId(userId) {
+        return read(database =>
+          userDocuments<NutritionGoal>(database.nutritionGoals, userId).sort(
+            newestFirst
+          )
+        );
+      },
+
+      async getActive(userId) {
+        const goals = await this.getByUserId(userId);
+        return goals.find(goal => goal.isActive) ?? null;
+      },
+
+      async getById(id) {
+        return read(database => {
+          const record = database.nutritionGoals[id];
+          return record ? toDocument<NutritionGoal>(id, record) : null;
+        });
+      },
+
+      async update(id, updates) {
+        await write((database, timestamp) =>
+          patch(
+            database.nutritionGoals,
+            id,
+            'Nutrition goal',
+            updates,
+            timestamp
+          )
+        );
+      },
+
+      async activate(userId, id) {
+        await write((database, timestamp) => {
+          Object.entries(database.nutritionGoals)
+            .filter(
+              ([goalId, goal]) =>
+                goal.userId === userId && goal.isActive !== (goalId === id)
+            )
+            .forEach(([goalId, goal]) => {
+              goal.isActive = goalId === id;
+              goal.updatedAt = timestamp;
+            });
+        });
+      },
+
+      async delete(id) {
+        await write(database => {
+          delete database.nutritionGoals[id];
+        });
+      },
+    },
+
+    mealPlans: {
+      async save(userId, mealPlan) {
+        return write((database, timestamp) =>
+          insert(database.mealPlans, { ...mealPlan, userId }, timestamp)
+        );
+      },
+
+      async getByUserId(userId) {
+        return read(database =>
+          userDocuments<MealPlan>(database.mealPlans, userId).sort(newestFirst)
+        );
+      },
+
+      async getById(id) {
+        return read(database => {
+          const record = database.mealPlans[id];
+          return record ? toDocument<MealPlan>(id, record) : null;
+        });
+      },
+
+      async update(id, updates) {
+        await write((database, timestamp) =>
+          patch(database.mealPlans, id, 'Meal plan', updates, timestamp)
+        );
+      },
+
+      async delete(id) {
+        await write(database => {
+          delete database.mealPlans[id];
+        });
+      },
+    },
+
+    generationHistory: {
+      async save(record) {
+        return write((database, timestamp) =>
+          insert(database.generations, record, timestamp, false)
+        );
+      },
+
+      async getByUserId(userId) {
+        return read(database =>
+          userDocuments<GenerationRecord>(database.generations, userId).sort(
+            newestFirst
+          )
+        );
+      },
+
+      async getById(id) {
+        return read(database => {
+          const record = database.generations[id];
+          return record ? toDocument<GenerationRecord>(id, record) : null;
+        });
+      },
+    },
+
+    foodLog: {
+      async create(entry) {
+        return write((database, timestamp) =>
+          insert(database.foodLog, entry, timestamp, false)
+        );
+      },
+
+      async getByUserId(userId, from, to) {
+        return read(database =>
+          userDocuments<FoodLogEntry>(database.foodLog, userId)
+            .filter(
+              entry =>
+                (!from || entry.date >= from) && (!to || entry.date <= to)
+            )
+            .sort(foodLogOrder)
+        );
+      },
+
+      async getById(id) {
+        return read(database => {
+          const record = database.foodLog[id];
+          return record ? toDocument<FoodLogEntry>(id, record) : null;
+        });
+      },
+
+      async update(id, updates) {
+        await write(database =>
+          patch(database.foodLog, id, 'Food log entry', updates)
+        );
+      },
+
+      async delete(id) {
+        await write(database => {
+          delete database.foodLog[id];
+        });
+      },
+    },
+
+    shoppingLists: {
+      async getChecked(userId, listKey) {
+        return read(database => {
+          const record = database.shoppingLists[`${userId}_${listKey}`];
+          return record ? [...((record.checked as string[]) ?? [])] : [];
+        });
+      },
+
+      async setChecked(userId, listKey, checked) {
+        await write((database, timestamp) => {
+          database.shoppingLists[`${userId}_${listKey}`] = clone({
+            userId,
+            listKey,
+            checked,
+            updatedAt: timestamp,
+          });
+        });
+      },
+    },
+
+    pantry: {
+      async create(userId, item) {
+        return write((database, timestamp) =>
+          insert(database.pantry, { ...item, userId }, timestamp)
+        );
+      },
+
+      async getByUserId(userId) {
+        return read(database =>
+          userDocuments<PantryItem>(database.pantry, userId).sort(pantryOrder)
+        );
+      },
+
+      async getById(id) {
+        return read(database => {
+          const record = database.pantry[id];
+          return record ? toDocument<PantryItem>(id, record) : null;
+        });
+      },
+
+      async update(id, updates) {
+        await write((database, timestamp) =>
+          patch(database.pantry, id, 'Pantry item', updates, timestamp)
+        );
+      },
+
+      async delete(id) {
+        await write(database => {
+          delete database.pantry[id];
+        });
+      },
+    },
+
+    admin: {
+      async isAdmin(uid) {
+        return read(database => database.admins[uid] !== undefined);
+      },
+
+      async logAction(entry) {
+        return write((database, timestamp) =>
+          insert(database.adminActions, entry, timestamp, false)
+        );
+      },
+    },
+  };
+}
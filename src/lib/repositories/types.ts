@@ -0,0 +1,160 @@
+import type {
+  AdminActionLogInput,
+  AuditContext,
+  FoodGroup,
+  FoodGroupAuditAction,
+  FoodGroupAuditEntry,
+  FoodGroupBatch,
+  FoodGroupInput,
+  FoodGroupQueryOptions,
+  FoodLogEntry,
+  FoodLogEntryInput,
+  NutritionGoal,
+  NutritionGoalInput,
+  PantryItem,
+  PantryItemInput,
+  SavedCombination,
+  UserPreferences,
+} from '@/lib/database';
+import type { FoodGroupPage, FoodGroupQuery } from '@/lib/foodQuery';
+import type { RankedFood } from '@/lib/foodSearch';
+import type {
+  GenerationRecord,
+  GenerationRecordInput,
+} from '@/lib/generationHistory';
+import type { MealPlan, MealPlanContent } from '@/lib/mealPlans';
+
+// ============================================================================
+// REPOSITORIES
+// ============================================================================
+
+// The food catalog. Every write is recorded in the food's audit trail by the
+// same backend, see FoodGroupAuditRepository.
+export interface FoodGroupRepository {
+  create(foodGroup: FoodGroupInput, audit: AuditContext): Promise<string>;
+  getAll(options?: FoodGroupQueryOptions): Promise<FoodGroup[]>;
+  getByCategory(category: FoodGroup['category']): Promise<FoodGroup[]>;
+  getById(id: string): Promise<FoodGroup | null>;
+  // Fields set to undefined are removed
+  update(
+    id: string,
+    updates: Partial<FoodGroupInput>,
+    audit: AuditContext,
+    action?: FoodGroupAuditAction
+  ): Promise<void>;
+  delete(id: string, audit: AuditContext): Promise<void>; // soft delete
+  restore(id: string, audit: AuditContext): Promise<void>;
+  commitBatch(batch: FoodGroupBatch, audit: AuditContext): Promise<void>;
+  // Best match first, see searchFoodIndex
+  search(
+    searchTerm: string,
+    options?: FoodGroupQueryOptions
+  ): Promise<RankedFood[]>;
+  // Filter, sort and page the catalog, see runFoodGroupQuery
+  query(query: FoodGroupQuery): Promise<FoodGroupPage>;
+}
+
+export interface FoodGroupAuditRepository {
+  getByFoodGroupId(foodGroupId: string): Promise<FoodGroupAuditEntry[]>; // newest first
+  getById(id: string): Promise<FoodGroupAuditEntry | null>;
+}
+
+export interface UserPreferencesRepository {
+  upsert(userId: string, preferences: Partial<UserPreferences>): Promise<void>;
+  get(userId: string): Promise<UserPreferences | null>;
+  update(userId: string, updates: Partial<UserPreferences>): Promise<void>;
+}
+
+export type SavedCombinationInput = Omit<
+  SavedCombination,
+  'id' | 'createdAt' | 'updatedAt'
+>;
+
+export interface SavedCombinationsRepository {
+  save(combination: SavedCombinationInput): Promise<string>;
+  getByUserId(userId: string): Promise<SavedCombination[]>;
+  getFavorites(userId: string): Promise<SavedCombination[]>;
+  getById(id: string): Promise<SavedCombination | null>;
+  update(id: string, updates: Partial<SavedCombination>): Promise<void>;
+  toggleFavorite(id: string, isFavorite: boolean): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface NutritionGoalsRepository {
+  create(userId: string, goal: NutritionGoalInput): Promise<string>;
+  getByUserId(userId: string): Promise<NutritionGoal[]>; // newest first
+  getActive(userId: string): Promise<NutritionGoal | null>;
+  getById(id: string): Promise<NutritionGoal | null>;
+  // Fields set to undefined are removed
+  update(id: string, updates: Partial<NutritionGoalInput>): Promise<void>;
+  // Make one goal the active one, deactivating the user's others
+  activate(userId: string, id: string): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface MealPlanRepository {
+  save(userId: string, mealPlan: MealPlanContent): Promise<string>;
+  getByUserId(userId: string): Promise<MealPlan[]>; // newest first
+  getById(id: string): Promise<MealPlan | null>;
+  update(id: string, updates: Partial<MealPlanContent>): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface GenerationHistoryRepository {
+  save(record: GenerationRecordInput): Promise<string>;
+  getByUserId(userId: string): Promise<GenerationRecord[]>; // newest first
+  getById(id: string): Promise<GenerationRecord | null>;
+}
+
+export interface FoodLogRepository {
+  create(entry: FoodLogEntryInput): Promise<string>;
+  // Entries between two days (inclusive), oldest first
+  getByUserId(
+    userId: string,
+    from?: string,
+    to?: string
+  ): Promise<FoodLogEntry[]>;
+  getById(id: string): Promise<FoodLogEntry | null>;
+  update(
+    id: string,
+    updates: Partial<Pick<FoodLogEntry, 'date' | 'mealSlot' | 'quantity'>>
+  ): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface ShoppingListRepository {
+  getChecked(userId: string, listKey: string): Promise<string[]>;
+  // Replaces the list's checked item keys
+  setChecked(userId: string, listKey: string, checked: string[]): Promise<void>;
+}
+
+export interface PantryRepository {
+  create(userId: string, item: PantryItemInput): Promise<string>;
+  getByUserId(userId: string): Promise<PantryItem[]>; // soonest to expire first
+  getById(id: string): Promise<PantryItem | null>;
+  // Fields set to undefined are removed
+  update(id: string, updates: Partial<PantryItemInput>): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface AdminRepository {
+  isAdmin(uid: string): Promise<boolean>; // on the admin allowlist
+  logAction(entry: AdminActionLogInput): Promise<string>;
+}
+
+// One storage backend for all of the app's data
+export interface Repositories {
+  foodGroups: FoodGroupRepository;
+  foodGroupAudit: FoodGroupAuditRepository;
+  userPreferences: UserPreferencesRepository;
+  savedCombinations: SavedCombinationsRepository;
+  nutritionGoals: NutritionGoalsRepository;
+  mealPlans: MealPlanRepository;
+  generationHistory: GenerationHistoryRepository;
+  foodLog: FoodLogRepository;
+  shoppingLists: ShoppingListRepository;
+  pantry: PantryRepository;
+  admin: AdminRepository;
+}
+
+export type DatabaseBackend = 'firestore' | 'local';
@@ -0,0 +1,435 @@
+import type { CatalogFood } from './combinationGenerator';
+import type { Combination } from './combinations';
+import { formatCsv } from './csv';
+import type { FoodGroup, SavedCombination } from './database';
+import type { MealPlan } from './mealPlans';
+import {
+  matchFoodGroup,
+  normalizeFoodName,
+  parseIngredientText,
+  parseQuantity,
+  QuantityUnit,
+} from './nutrition';
+import { FoodCategorySchema } from './validation/schemas';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// One ingredient line of a plan or combination
+export interface ShoppingIngredient {
+  name: string;
+  quantity: string;
+  category?: string; // meal plans name a category per ingredient
+}
+
+// What a list is built from; exactly one is set
+export interface ShoppingListSource {
+  planId?: string;
+  generationId?: string;
+  combinationIds?: string[];
+}
+
+export type ShoppingCategory = FoodGroup['category'] | 'other';
+
+export interface ShoppingItem {
+  key: string; // stable across rebuilds, used for the checked state
+  name: string;
+  category: ShoppingCategory;
+  subcategory?: string;
+  quantities: string[]; // one summed amount per kind of unit
+  notes: string[]; // quantities that cannot be added up, e.g. "to taste"
+  occurrences: number;
+  checked: boolean;
+}
+
+export interface ShoppingSection {
+  category: ShoppingCategory;
+  subcategory?: string;
+  items: ShoppingItem[];
+}
+
+export interface ShoppingList {
+  key: string;
+  title: string;
+  sections: ShoppingSection[];
+  itemCount: number;
+  checkedCount: number;
+}
+
+export type ShoppingListFormat = 'text' | 'csv' | 'html';
+
+const CATEGORY_ORDER: readonly ShoppingCategory[] = [
+  ...FoodCategorySchema.options,
+  'other',
+];
+
+// ============================================================================
+// SOURCES
+// ============================================================================
+
+export const shoppingListKeys = {
+  plan: (id: string) => `plan:${id}`,
+  generation: (id: string) => `generation:${id}`,
+  // Order-independent, so the same selection keeps its checked items
+  combinations: (ids: string[]) => `combinations:${[...ids].sort().join(',')}`,
+};
+
+export function planIngredients(
+  plan: Pick<MealPlan, 'meals'>
+): ShoppingIngredient[] {
+  return plan.meals.flatMap(meal =>
+    meal.ingredients.map(ingredient => ({
+      name: ingredient.name,
+      quantity: `${ingredient.amount} ${ingredient.unit}`.trim(),
+      category: ingredient.category,
+    }))
+  );
+}
+
+export function combinationIngredients(
+  combinations: Pick<Combination, 'fruits' | 'vegetables' | 'grains'>[]
+): ShoppingIngredient[] {
+  return combinations.flatMap(combination =>
+    (['fruits', 'vegetables', 'grains'] as const).flatMap(category =>
+      combination[category].map(ingredient => ({ ...ingredient, category }))
+    )
+  );
+}
+
+/**
+ * Saved combinations store free-text ingredients such as "1 cup spinach"
+ */
+export function savedCombinationIngredients(
+  combinations: SavedCombination[]
+): ShoppingIngredient[] {
+  return combinations.flatMap(combination =>
+    (
+      [
+        'fruits',
+        'vegetables',
+        'grains',
+        'proteins',
+        'dairy',
+        'nuts',
+        'herbs',
+        'spices',
+      ] as const
+    ).flatMap(category =>
+      (combination[category] ?? []).map(text => ({
+        ...parseIngredientText(text),
+        category,
+      }))
+    )
+  );
+}
+
+// ============================================================================
+// MERGING
+// ============================================================================
+
+const OUNCE = 28.35;
+const POUND = 453.6;
+const CUP = 240;
+const TABLESPOON = 15;
+const TEASPOON = 5;
+
+// Units that add up with each other, in grams or milliliters
+const MASS: Partial<Record<QuantityUnit, number>> = {
+  g: 1,
+  kg: 1000,
+  oz: OUNCE,
+  lb: POUND,
+};
+const VOLUME: Partial<Record<QuantityUnit, number>> = {
+  ml: 1,
+  l: 1000,
+  cup: CUP,
+  tbsp: TABLESPOON,
+  tsp: TEASPOON,
+};
+const METRIC: readonly QuantityUnit[] = ['g', 'kg', 'ml', 'l'];
+
+// A running total for one kind of unit. Totals stay metric when any part
+// was metric and otherwise use the household units the recipes used.
+interface Measure {
+  amount: number;
+  metric: boolean;
+}
+
+// Rounded to a shopping-friendly step, without float noise like 1.2000001
+const roundTo = (value: number, step: number) =>
+  String(Number((Math.round(value / step) * step).toFixed(2)));
+
+function formatMeasure(kind: string, { amount, metric }: Measure): string {
+  if (kind === 'mass') {
+    if (metric) {
+      return amount >= 1000
+        ? `${roundTo(amount / 1000, 0.1)} kg`
+        : `${roundTo(amount, 1)} g`;
+    }
+    return amount >= POUND
+      ? `${roundTo(amount / POUND, 0.1)} lb`
+      : `${roundTo(amount / OUNCE, 0.5)} oz`;
+  }
+
+  if (kind === 'volume') {
+    if (metric) {
+      return amount >= 1000
+        ? `${roundTo(amount / 1000, 0.1)} l`
+        : `${roundTo(amount, 1)} ml`;
+    }
+    if (amount >= CUP / 4) {
+      const cups = roundTo(amount / CUP, 0.25);
+      return `${cups} ${cups === '1' ? 'cup' : 'cups'}`;
+    }
+    return amount >= TABLESPOON
+      ? `${roundTo(amount / TABLESPOON, 0.5)} tbsp`
+      : `${roundTo(amount / TEASPOON, 0.25)} tsp`;
+  }
+
+  // Counts: plain pieces, sizes, slices and handfuls
+  const count = roundTo(amount, 0.5);
+  if (kind === 'piece') return count;
+  if (kind === 'slice' || kind === 'handful') {
+    return `${count} ${kind}${count === '1' ? '' : 's'}`;
+  }
+  return `${count} ${kind}`;
+}
+
+function toMeasure(
+  quantity: string
+): { kind: string; amount: number; metric: boolean } | null {
+  const parsed = parseQuantity(quantity);
+  if (!parsed) return null;
+
+  const metric = METRIC.includes(parsed.unit);
+  const mass = MASS[parsed.unit];
+  if (mass !== undefined) {
+    return { kind: 'mass', amount: parsed.amount * mass, metric };
+  }
+  const volume = VOLUME[parsed.unit];
+  if (volume !== undefined) {
+    return { kind: 'volume', amount: parsed.amount * volume, metric };
+  }
+  return { kind: parsed.unit, amount: parsed.amount, metric };
+}
+
+const isFoodCategory = (value?: string): value is FoodGroup['category'] =>
+  FoodCategorySchema.safeParse(value).success;
+
+interface Draft {
+  item: Omit<ShoppingItem, 'quantities' | 'checked'>;
+  measures: Map<string, Measure>;
+}
+
+/**
+ * Merge ingredient lines into one shopping list. Lines naming the same
+ * catalog food (or, for unknown foods, the same normalized name) become one
+ * item; their quantities are summed per kind of unit, so grams and ounces
+ * add up while cups and grams stay separate. Items are grouped by the
+ * catalog's category and subcategory.
+ */
+export function buildShoppingList(
+  ingredients: ShoppingIngredient[],
+  foods: CatalogFood[],
+  {
+    key,
+    title,
+    checked = [],
+  }: { key: string; title: string; checked?: string[] }
+): ShoppingList {
+  const drafts = new Map<string, Draft>();
+
+  for (const ingredient of ingredients) {
+    const food = matchFoodGroup(ingredient.name, foods);
+    const itemKey = food
+      ? `food:${food.id}`
+      : `name:${normalizeFoodName(ingredient.name) || ingredient.name.toLowerCase()}`;
+
+    const draft = drafts.get(itemKey) ?? {
+      item: {
+        key: itemKey,
+        name: food?.name ?? ingredient.name.trim(),
+        category:
+          food?.category ??
+          (isFoodCategory(ingredient.category) ? ingredient.category : 'other'),
+        ...(food?.subcategory && { subcategory: food.subcategory }),
+        notes: [],
+        occurrences: 0,
+      },
+      measures: new Map<string, Measure>(),
+    };
+    drafts.set(itemKey, draft);
+    draft.item.occurrences += 1;
+
+    const quantity = ingredient.quantity.trim();
+    if (!quantity) continue;
+
+    const measure = toMeasure(quantity);
+    if (!measure) {
+      if (!draft.item.notes.includes(quantity)) draft.item.notes.push(quantity);
+      continue;
+    }
+
+    const total = draft.measures.get(measure.kind);
+    draft.measures.set(measure.kind, {
+      amount: (total?.amount ?? 0) + measure.amount,
+      metric: (total?.metric ?? false) || measure.metric,
+    });
+  }
+
+  const checkedKeys = new Set(checked);
+  const items: ShoppingItem[] = [...drafts.values()].map(
+    ({ item, measures }) => ({
+      ...item,
+      quantities: [...measures].map(([kind, measure]) =>
+        formatMeasure(kind, measure)
+      ),
+      checked: checkedKeys.has(item.key),
+    })
+  );
+
+  const sections = new Map<string, ShoppingSection>();
+  for (const item of items) {
+    const sectionKey = `${item.category}:${item.subcategory ?? ''}`;
+    const section = sections.get(sectionKey) ?? {
+      category: item.category,
+      ...(item.subcategory && { subcategory: item.subcategory }),
+      items: [],
+    };
+    sections.set(sectionKey, section);
+    section.items.push(item);
+  }
+
+  return {
+    key,
+    title,
+    sections: [...sections.values()]
+      .sort(
+        (a, b) =>
+          CATEGORY_ORDER.indexOf(a.category) -
+            CATEGORY_ORDER.indexOf(b.category) ||
+          (a.subcategory ?? '').localeCompare(b.subcategory ?? '')
+      )
+      .map(section => ({
+        ...section,
+        items: section.items.sort((a, b) => a.name.localeCompare(b.name)),
+      })),
+    itemCount: items.length,
+    checkedCount: items.filter(item => item.checked).length,
+  };
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+const capitalize = (value: string) =>
+  value.charAt(0).toUpperCase() + value.slice(1);
+
+export function sectionTitle(section: ShoppingSection): string {
+  return section.subcategory
+    ? `${capitalize(section.category)} · ${section.subcategory}`
+    : capitalize(section.category);
+}
+
+function describeAmount(item: ShoppingItem): string {
+  return [...item.quantities, ...item.notes].join(' + ');
+}
+
+function toText(list: ShoppingList): string {
+  const lines = [list.title, ''];
+  for (const section of list.sections) {
+    lines.push(sectionTitle(section).toUpperCase());
+    for (const item of section.items) {
+      const amount = describeAmount(item);
+      lines.push(
+        `[${item.checked ? 'x' : ' '}] ${item.name}${amount ? ` — ${amount}` : ''}`
+      );
+    }
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+// Quote fields per RFC 4180 when they contain a delimiter, quote or newline
+function toCsv(list: ShoppingList): string {
+  const rows = [
+    ['Category', 'Subcategory', 'Item', 'Quantity', 'Notes', 'Checked'],
+    ...list.sections.flatMap(section =>
+      section.items.map(item => [
+        item.category,
+        item.subcategory ?? '',
+        item.name,
+        item.quantities.join(' + '),
+        item.notes.join('; '),
+        item.checked ? 'yes' : 'no',
+      ])
+    ),
+  ];
+  return formatCsv(rows);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function toHtml(list: ShoppingList): string {
+  const sections = list.sections
+    .map(section => {
+      const items = section.items
+        .map(item => {
+          const amount = describeAmount(item);
+          return `<li class="${item.checked ? 'checked' : ''}"><span class="box">${
+            item.checked ? '&#9745;' : '&#9744;'
+          }</span> ${escapeHtml(item.name)}${
+            amount ? ` <span class="amount">${escapeHtml(amount)}</span>` : ''
+          }</li>`;
+        })
+        .join('\n');
+      return `<h2>${escapeHtml(sectionTitle(section))}</h2>\n<ul>\n${items}\n</ul>`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(list.title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 40rem; margin: 2rem auto; }
+h2 { font-size: 1rem; border-bottom: 1px solid #ccc; margin-top: 1.5rem; }
+ul { list-style: none; padding: 0; }
+li { padding: 0.2rem 0; }
+li.checked { color: #888; text-decoration: line-through; }
+.amount { color: #555; }
+@media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(list.title)}</h1>
+${sections}
+</body>
+</html>
+`;
+}
+
+export function exportShoppingList(
+  list: ShoppingList,
+  format: ShoppingListFormat
+): string {
+  switch (format) {
+    case 'csv':
+      return toCsv(list);
+    case 'html':
+      return toHtml(list);
+    default:
+      return toText(list);
+  }
+}
@@ -0,0 +1,422 @@
+import { parseCsv } from './csv';
+import type { FoodGroup, FoodPortion } from './database';
+import type { FoodImportError, FoodImportResult } from './foodImport';
+import {
+  COVERAGE_THRESHOLD,
+  MACRO_DAILY_VALUES,
+  MicronutrientKey,
+  Micronutrients,
+  REFERENCE_INTAKES,
+} from './nutrition/dailyValues';
+import { FoodGroupSchema } from './validation/schemas';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// One food from a FoodData Central download, before it is mapped
+export interface FdcFood {
+  row: number; // item number in JSON, line of food.csv in CSV
+  fdcId: number;
+  description: string;
+  category?: string; // FDC food category, e.g. "Vegetables and Vegetable Products"
+  nutrients: Map<number, number>; // FDC nutrient ID → amount per 100g
+  portions: FoodPortion[];
+}
+
+// The CSV files of a bulk download; only food.csv and food_nutrient.csv are
+// required
+export interface FdcCsvFiles {
+  food: string;
+  foodNutrient: string;
+  foodCategory?: string;
+  foodPortion?: string;
+  measureUnit?: string;
+}
+
+export interface FdcImportResult extends FoodImportResult {
+  skipped: number; // foods in categories the catalog does not carry
+}
+
+// ============================================================================
+// MAPPING
+// ============================================================================
+
+// FDC nutrient IDs (nutrient.csv `id`), in the units REFERENCE_INTAKES uses
+const MICRONUTRIENT_IDS: Record<number, MicronutrientKey> = {
+  1106: 'vitaminA', // RAE, µg
+  1162: 'vitaminC',
+  1109: 'vitaminE', // alpha-tocopherol
+  1185: 'vitaminK', // phylloquinone, µg
+  1165: 'thiamin',
+  1166: 'riboflavin',
+  1167: 'niacin',
+  1175: 'vitaminB6',
+  1177: 'folate', // total, µg
+  1178: 'vitaminB12', // µg
+  1087: 'calcium',
+  1089: 'iron',
+  1090: 'magnesium',
+  1091: 'phosphorus',
+  1092: 'potassium',
+  1095: 'zinc',
+  1103: 'selenium', // µg
+  1098: 'copper',
+  1101: 'manganese',
+};
+
+const ENERGY_IDS = [1008, 2047, 2048]; // kcal; Foundation foods use Atwater
+const PROTEIN_ID = 1003;
+const FAT_ID = 1004;
+const CARBS_ID = 1005;
+const FIBER_ID = 1079;
+
+// FDC food categories the catalog carries; the rest are skipped
+const CATEGORY_MAP: Record<string, FoodGroup['category']> = {
+  'fruits and fruit juices': 'fruits',
+  'vegetables and vegetable products': 'vegetables',
+  'cereal grains and pasta': 'grains',
+  'legumes and legume products': 'proteins',
+  'nut and seed products': 'nuts',
+  'spices and herbs': 'spices',
+  'dairy and egg products': 'dairy',
+  'poultry products': 'proteins',
+  'beef products': 'proteins',
+  'pork products': 'proteins',
+  'lamb, veal, and game products': 'proteins',
+  'finfish and shellfish products': 'proteins',
+};
+
+const HERBS =
+  /\b(basil|parsley|cilantro|dill|mint|peppermint|spearmint|rosemary|thyme|sage|oregano|tarragon|chives|marjoram|bay leaf)\b/i;
+
+// Nutrients a food can be listed for
+type ListedNutrient = MicronutrientKey | 'protein' | 'fiber';
+
+const BENEFITS: Record<ListedNutrient, string> = {
+  vitaminA: 'Eye health',
+  vitaminC: 'Immune support',
+  vitaminE: 'Antioxidant support',
+  vitaminK: 'Bone health',
+  thiamin: 'Energy',
+  riboflavin: 'Energy',
+  niacin: 'Energy',
+  vitaminB6: 'Brain health',
+  folate: 'Pregnancy support',
+  vitaminB12: 'Blood health',
+  calcium: 'Bone health',
+  iron: 'Blood health',
+  magnesium: 'Muscle function',
+  phosphorus: 'Bone health',
+  potassium: 'Heart health',
+  zinc: 'Immune support',
+  selenium: 'Antioxidant support',
+  copper: 'Blood health',
+  manganese: 'Bone health',
+  protein: 'Muscle building',
+  fiber: 'Digestive health',
+};
+
+// Nutrient names listed per food, most significant first
+const MAX_LISTED_NUTRIENTS = 5;
+const MAX_PORTIONS = 20;
+
+/**
+ * The catalog category for an FDC food, if the catalog carries it. Spices
+ * and herbs are split by name, and eggs count as proteins.
+ */
+export function fdcCategory(
+  category: string | undefined,
+  description: string
+): FoodGroup['category'] | undefined {
+  const mapped = CATEGORY_MAP[category?.trim().toLowerCase() ?? ''];
+  if (mapped === 'spices' && HERBS.test(description)) return 'herbs';
+  if (mapped === 'dairy' && /^egg\b/i.test(description)) return 'proteins';
+  return mapped;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Map an FDC food into catalog fields. FDC has no benefits, so the nutrient
+ * list holds the nutrients the food is a high source of (20% DV or more per
+ * 100g, at most five) and the benefits follow from those.
+ */
+export function toCatalogFood(
+  food: FdcFood,
+  category: FoodGroup['category']
+): Record<string, unknown> {
+  const amount = (id: number) => food.nutrients.get(id);
+
+  const micronutrients: Micronutrients = {};
+  const coverage: { key: ListedNutrient; pct: number }[] = [];
+  for (const [id, key] of Object.entries(MICRONUTRIENT_IDS)) {
+    const value = amount(Number(id));
+    if (value === undefined) continue;
+    micronutrients[key] = round(value);
+    coverage.push({
+      key,
+      pct: (value / REFERENCE_INTAKES[key].dailyValue) * 100,
+    });
+  }
+
+  const protein = amount(PROTEIN_ID);
+  const fiber = amount(FIBER_ID);
+  if (protein !== undefined) {
+    coverage.push({
+      key: 'protein',
+      pct: (protein / MACRO_DAILY_VALUES.protein) * 100,
+    });
+  }
+  if (fiber !== undefined) {
+    coverage.push({
+      key: 'fiber',
+      pct: (fiber / MACRO_DAILY_VALUES.fiber) * 100,
+    });
+  }
+
+  const ranked = coverage.sort((a, b) => b.pct - a.pct);
+  const high = ranked.filter(({ pct }) => pct >= COVERAGE_THRESHOLD);
+  // A food that is a high source of nothing still lists its best nutrient
+  const listed = (high.length > 0 ? high : ranked.slice(0, 1)).slice(
+    0,
+    MAX_LISTED_NUTRIENTS
+  );
+  const label = (key: ListedNutrient) =>
+    key === 'protein'
+      ? 'Protein'
+      : key === 'fiber'
+        ? 'Fiber'
+        : REFERENCE_INTAKES[key].label;
+
+  const portions = food.portions
+    .filter(portion => portion.description)
+    .slice(0, MAX_PORTIONS);
+
+  const energy = ENERGY_IDS.map(amount).find(value => value !== undefined);
+  const macros = {
+    caloriesPer100g: energy,
+    proteinPer100g: protein,
+    carbsPer100g: amount(CARBS_ID),
+    fatPer100g: amount(FAT_ID),
+    fiberPer100g: fiber,
+  };
+
+  return {
+    name: food.description,
+    category,
+    subcategory: food.category,
+    nutrients: listed.map(({ key }) => label(key)),
+    benefits: Array.from(new Set(listed.map(({ key }) => BENEFITS[key]))),
+    ...Object.fromEntries(
+      Object.entries(macros)
+        .filter(([, value]) => value !== undefined)
+        .map(([field, value]) => [field, round(value as number)])
+    ),
+    ...(Object.keys(micronutrients).length > 0 ? { micronutrients } : {}),
+    ...(portions.length > 0 ? { portions } : {}),
+    fdcId: food.fdcId,
+    isActive: true,
+  };
+}
+
+/**
+ * Map FDC foods into validated catalog foods. Foods outside the catalog's
+ * categories are skipped and counted; foods that fail validation, such as
+ * those without nutrient data, are reported by row.
+ */
+export function mapFdcFoods(foods: FdcFood[]): FdcImportResult {
+  const result: FdcImportResult = {
+    foods: [],
+    errors: [],
+    rowCount: foods.length,
+    missingHeaders: [],
+    ignoredHeaders: [],
+    skipped: 0,
+  };
+
+  for (const food of foods) {
+    const category = fdcCategory(food.category, food.description);
+    if (!category) {
+      result.skipped++;
+      continue;
+    }
+
+    const validation = FoodGroupSchema.safeParse(toCatalogFood(food, category));
+    if (validation.success) {
+      // Catalog foods a release deactivated stay deactivated
+      result.foods.push({
+        row: food.row,
+        food: validation.data,
+        setsActive: false,
+      });
+    } else {
+      result.errors.push(
+        ...validation.error.issues.map(
+          (issue): FoodImportError => ({
+            row: food.row,
+            column: issue.path.length > 0 ? String(issue.path[0]) : undefined,
+            message: `${food.description} (FDC ${food.fdcId}): ${issue.message}`,
+          })
+        )
+      );
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// READING
+// ============================================================================
+
+// The shapes of FDC JSON downloads that are read; everything else is ignored
+interface FdcJsonFood {
+  fdcId?: number;
+  description?: string;
+  foodCategory?: { description?: string };
+  wweiaFoodCategory?: { wweiaFoodCategoryDescription?: string };
+  brandedFoodCategory?: string;
+  foodNutrients?: { nutrient?: { id?: number }; amount?: number }[];
+  foodPortions?: {
+    amount?: number;
+    modifier?: string;
+    portionDescription?: string;
+    gramWeight?: number;
+    measureUnit?: { name?: string };
+  }[];
+}
+
+// "1 cup, sliced" from FDC's amount, unit and modifier; SR Legacy leaves the
+// unit "undetermined" and puts it in the modifier
+function portionDescription(
+  amount: number | undefined,
+  unit: string | undefined,
+  modifier: string | undefined,
+  description: string | undefined
+): string {
+  if (description && description !== 'Quantity not specified') {
+    return description;
+  }
+  return [amount, unit === 'undetermined' ? undefined : unit, modifier]
+    .filter(part => part !== undefined && part !== '')
+    .join(' ');
+}
+
+/**
+ * Read foods from an FDC JSON download (Foundation, SR Legacy, Survey or
+ * Branded). The foods are the first array in the top-level object, e.g.
+ * `FoundationFoods`.
+ */
+export function parseFdcJson(text: string): FdcFood[] {
+  const data: unknown = JSON.parse(text);
+  const items = Array.isArray(data)
+    ? data
+    : Object.values(data as Record<string, unknown>).find(Array.isArray);
+  if (!items) throw new Error('No foods found in the FoodData Central file');
+
+  return (items as FdcJsonFood[])
+    .map((item, index) => ({
+      row: index + 1,
+      fdcId: item.fdcId ?? 0,
+      description: item.description?.trim() ?? '',
+      category:
+        item.foodCategory?.description ??
+        item.wweiaFoodCategory?.wweiaFoodCategoryDescription ??
+        item.brandedFoodCategory,
+      nutrients: new Map(
+        (item.foodNutrients ?? []).flatMap(({ nutrient, amount }) =>
+          nutrient?.id !== undefined && typeof amount === 'number'
+            ? [[nutrient.id, amount] as [number, number]]
+            : []
+        )
+      ),
+      portions: (item.foodPortions ?? []).flatMap(portion =>
+        portion.gramWeight && portion.gramWeight > 0
+          ? [
+              {
+                description: portionDescription(
+                  portion.amount,
+                  portion.measureUnit?.name,
+                  portion.modifier,
+                  portion.portionDescription
+                ),
+                grams: round(portion.gramWeight),
+              },
+            ]
+          : []
+      ),
+    }))
+    .filter(food => food.fdcId > 0 && food.description);
+}
+
+// Rows of one CSV file as objects keyed by header
+function csvRows(
+  text: string
+): { line: number; row: Record<string, string> }[] {
+  const [header, ...records] = parseCsv(text).records;
+  if (!header) return [];
+  return records.map(({ line, values }) => ({
+    line,
+    row: Object.fromEntries(
+      header.values.map((name, index) => [name.trim(), values[index] ?? ''])
+    ),
+  }));
+}
+
+/**
+ * Read foods from the CSV files of an FDC bulk download, joined on `fdc_id`
+ */
+export function parseFdcCsv(files: FdcCsvFiles): FdcFood[] {
+  const categories = new Map(
+    csvRows(files.foodCategory ?? '').map(({ row }) => [
+      row.id,
+      row.description,
+    ])
+  );
+  const units = new Map(
+    csvRows(files.measureUnit ?? '').map(({ row }) => [row.id, row.name])
+  );
+
+  const foods = new Map<string, FdcFood>();
+  for (const { line, row } of csvRows(files.food)) {
+    const fdcId = Number(row.fdc_id);
+    if (!fdcId || !row.description?.trim()) continue;
+    foods.set(row.fdc_id, {
+      row: line,
+      fdcId,
+      description: row.description.trim(),
+      // Branded foods name their category instead of referencing one
+      category: categories.get(row.food_category_id) ?? row.food_category_id,
+      nutrients: new Map(),
+      portions: [],
+    });
+  }
+
+  for (const { row } of csvRows(files.foodNutrient)) {
+    const amount = parseFloat(row.amount);
+    if (!Number.isNaN(amount)) {
+      foods.get(row.fdc_id)?.nutrients.set(Number(row.nutrient_id), amount);
+    }
+  }
+
+  const portionRows = csvRows(files.foodPortion ?? '').sort(
+    (a, b) => (Number(a.row.seq_num) || 0) - (Number(b.row.seq_num) || 0)
+  );
+  for (const { row } of portionRows) {
+    const grams = parseFloat(row.gram_weight);
+    const food = foods.get(row.fdc_id);
+    if (!food || !(grams > 0)) continue;
+    food.portions.push({
+      description: portionDescription(
+        row.amount ? parseFloat(row.amount) : undefined,
+        units.get(row.measure_unit_id),
+        row.modifier,
+        row.portion_description
+      ),
+      grams: round(grams),
+    });
+  }
+
+  return Array.from(foods.values());
+}
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { MICRONUTRIENT_KEYS } from '@/lib/nutrition/dailyValues';
+import { decodeFoodCursor, FOOD_RANGE_FIELDS } from '@/lib/foodQuery';
 
 // Base validation schemas
 export const BaseStringSchema = z
@@ -32,6 +34,34 @@ export const SeasonalitySchema = z.enum([
   'year-round',
 ]);
 
+// Micronutrient amounts per 100g in the units of REFERENCE_INTAKES (mg or µg)
+export const MicronutrientsSchema = z.partialRecord(
+  z.enum(MICRONUTRIENT_KEYS),
+  z.number().min(0, 'Value must be positive').max(100000, 'Value too large')
+);
+
+// Major food allergens, as tagged on catalog entries
+export const AllergenSchema = z.enum([
+  'gluten',
+  'milk',
+  'eggs',
+  'fish',
+  'shellfish',
+  'tree-nuts',
+  'peanuts',
+  'soy',
+  'sesame',
+]);
+
+// What an animal-derived food comes from; plant foods leave it unset
+export const AnimalSourceSchema = z.enum([
+  'meat',
+  'seafood',
+  'dairy',
+  'eggs',
+  'other',
+]);
+
 export const FoodGroupSchema = z.object({
   name: BaseStringSchema.min(1, 'Name is required').max(100, 'Name too long'),
   category: FoodCategorySchema,
@@ -51,9 +81,41 @@ export const FoodGroupSchema = z.object({
   carbsPer100g: BaseNumberSchema.max(100).optional(),
   fatPer100g: BaseNumberSchema.max(100).optional(),
   fiberPer100g: BaseNumberSchema.max(100).optional(),
+  micronutrients: MicronutrientsSchema.optional(),
+  allergens: z
+    .array(AllergenSchema)
+    .max(AllergenSchema.options.length)
+    .optional(),
+  containsGluten: z.boolean().optional(),
+  animalDerived: AnimalSourceSchema.optional(),
+  portions: z
+    .array(
+      z.object({
+        description: BaseStringSchema.max(100),
+        grams: BaseNumberSchema.positive(),
+      })
+    )
+    .max(50)
+    .optional(),
+  fdcId: z.number().int().positive().optional(),
   isActive: z.boolean().default(true),
 });
 
+// File formats the food catalog imports from and exports to
+export const FoodFileFormatSchema = z.enum(['csv', 'tsv', 'json', 'ndjson']);
+
+export const FoodExportQuerySchema = z.object({
+  format: FoodFileFormatSchema.default('csv'),
+  category: FoodCategorySchema.optional(),
+  active: z.enum(['true', 'false']).optional(),
+});
+
+// A USDA FoodData Central download, named as listed by the importer
+export const UsdaImportRequestSchema = z.object({
+  dataset: z.string().min(1).max(255),
+  dryRun: z.boolean().default(false),
+});
+
 // User preference schemas
 export const DietaryRestrictionSchema = z.enum([
   'Vegetarian',
@@ -77,7 +139,126 @@ export const UserPreferencesSchema = z.object({
   spiceTolerance: z.enum(['mild', 'medium', 'hot']),
 });
 
+// The preferences that shape how a plan is generated, rather than what it
+// may contain
+export const CookingProfileSchema = UserPreferencesSchema.pick({
+  cookingSkill: true,
+  mealPrepTime: true,
+  servingSize: true,
+  spiceTolerance: true,
+  preferredCuisines: true,
+  healthGoals: true,
+}).partial();
+
+// Daily targets; every macro is optional so a goal can focus on one
+export const NutritionGoalSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().trim().max(500).default(''),
+  targetNutrients: z.array(BaseStringSchema.max(100)).max(20).default([]),
+  targetCalories: z.number().int().min(800).max(6000).optional(),
+  targetProtein: z.number().min(0).max(500).optional(),
+  targetCarbs: z.number().min(0).max(1000).optional(),
+  targetFat: z.number().min(0).max(400).optional(),
+  targetFiber: z.number().min(0).max(150).optional(),
+  isActive: z.boolean().default(false),
+});
+
 // Meal planning schemas
+export const MealTypeSchema = z.enum(['breakfast', 'lunch', 'dinner', 'snack']);
+
+export const MealPlanOptionsSchema = z.object({
+  days: z.number().int().min(1).max(14),
+  mealSlots: z
+    .array(MealTypeSchema)
+    .min(1)
+    .max(4)
+    .refine(slots => new Set(slots).size === slots.length, {
+      message: 'Meal slots must be unique',
+    }),
+});
+
+export const DiaryDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+// One thing eaten: either a catalog food with a quantity such as "150g", or
+// a saved combination with a number of servings such as "1" or "1/2"
+const FoodLogEntryFieldsSchema = z.object({
+  date: DiaryDateSchema,
+  mealSlot: MealTypeSchema,
+  foodGroupId: z.string().min(1).max(128).optional(),
+  combinationId: z.string().min(1).max(128).optional(),
+  quantity: z.string().trim().min(1, 'Quantity is required').max(50),
+});
+
+export const FoodLogEntrySchema = FoodLogEntryFieldsSchema.refine(
+  entry => !entry.foodGroupId !== !entry.combinationId,
+  {
+    message: 'Log either a food or a saved combination',
+    path: ['foodGroupId'],
+  }
+);
+
+// What stays editable once logged; the referenced food never changes
+export const FoodLogUpdateSchema = FoodLogEntryFieldsSchema.pick({
+  date: true,
+  mealSlot: true,
+  quantity: true,
+}).partial();
+
+// A shopping list is built from a saved plan, a generation or a selection
+// of saved combinations
+export const ShoppingListSourceSchema = z
+  .object({
+    planId: z.string().min(1).max(128).optional(),
+    generationId: z.string().min(1).max(128).optional(),
+    combinationIds: z
+      .array(z.string().min(1).max(128))
+      .min(1)
+      .max(50)
+      .optional(),
+  })
+  .refine(
+    source =>
+      [source.planId, source.generationId, source.combinationIds].filter(
+        Boolean
+      ).length === 1,
+    { message: 'Choose a plan, a generation or saved combinations' }
+  );
+
+export const ShoppingListFormatSchema = z.enum(['json', 'text', 'csv', 'html']);
+
+// The list key becomes part of a document ID, so it is restricted to the
+// shapes the shopping list builds
+export const ShoppingListCheckedSchema = z.object({
+  listKey: z
+    .string()
+    .max(1400)
+    .regex(/^(plan|generation|combinations):[\w,-]+$/, 'Invalid list key'),
+  checked: z.array(z.string().min(1).max(200)).max(500),
+});
+
+// Something the user has at home, with an optional quantity and expiry
+export const PantryItemSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  foodGroupId: z.string().min(1).max(128).optional(),
+  quantity: z.string().trim().max(50).default(''),
+  expiresOn: DiaryDateSchema.optional(),
+});
+
+// What a pantry update may change; only the optional fields can be cleared
+// by sending null
+export const PantryItemUpdateSchema = PantryItemSchema.extend({
+  quantity: PantryItemSchema.shape.quantity.removeDefault(),
+  foodGroupId: PantryItemSchema.shape.foodGroupId.unwrap().nullable(),
+  expiresOn: DiaryDateSchema.nullable(),
+})
+  .partial()
+  .strict();
+
+// Cook from the pantry alone, or use its soonest-expiring items first
+export const PantryModeSchema = z.enum(['only', 'expiring-first']);
+
 export const MealPlanRequestSchema = z.object({
   fruits: z.array(z.string().min(1).max(100)).max(20),
   vegetables: z.array(z.string().min(1).max(100)).max(20),
@@ -85,6 +266,167 @@ export const MealPlanRequestSchema = z.object({
   userPrompt: z.string().min(1).max(500).optional(),
   preferences: z.string().min(1).max(1000).optional(),
   dietaryRestrictions: z.array(DietaryRestrictionSchema).max(10).optional(),
+  allergies: z.array(z.string().trim().min(1).max(100)).max(20).optional(),
+  // Fix violating ingredients (default) or discard the provider's plan
+  dietaryEnforcement: z.enum(['repair', 'reject']).optional(),
+  // Overrides the user's stored preferences for this request
+  profile: CookingProfileSchema.optional(),
+  // Steer ingredient picks toward the user's active nutrition goal
+  optimizeForGoal: z.boolean().optional(),
+  // Build the plan around the user's pantry
+  pantryMode: PantryModeSchema.optional(),
+  seed: z.number().int().min(0).max(4294967295).optional(),
+  // When present, generate a multi-day plan instead of weekly combinations
+  plan: MealPlanOptionsSchema.optional(),
+  // Record the run in the user's history, linked to the plan it regenerates
+  userId: z.string().min(1).max(128).optional(),
+  parentId: z.string().min(1).max(128).optional(),
+});
+
+// Structured meal plan output schemas (validated AI responses)
+export const WeekdaySchema = z.enum([
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+  'Sunday',
+]);
+
+export const CombinationIngredientSchema = z.object({
+  name: z.string().trim().min(1, 'Ingredient name is required').max(100),
+  quantity: z.string().trim().min(1, 'Quantity is required').max(100),
+});
+
+export const CombinationSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(200),
+  day: WeekdaySchema,
+  fruits: z.array(CombinationIngredientSchema).min(1).max(2),
+  vegetables: z.array(CombinationIngredientSchema).min(1).max(2),
+  grains: z.array(CombinationIngredientSchema).length(1),
+  benefits: z.string().trim().min(1, 'Benefits are required').max(1000),
+  preparation: z.string().trim().min(1, 'Preparation is required').max(1000),
+});
+
+export const CombinationListSchema = z.object({
+  combinations: z.array(CombinationSchema).min(1).max(7),
+});
+
+export const PlateCategorySchema = z.enum(['fruits', 'vegetables', 'grains']);
+
+// Regenerate part of an existing week. Each target replaces a whole day, or
+// only the listed categories of it; locked ingredients survive either way.
+export const RegenerationSchema = z
+  .object({
+    current: z.array(CombinationSchema).min(1).max(7),
+    targets: z
+      .array(
+        z.object({
+          day: WeekdaySchema,
+          categories: z.array(PlateCategorySchema).min(1).max(3).optional(),
+        })
+      )
+      .min(1)
+      .max(7),
+    locks: z
+      .array(
+        z.object({
+          day: WeekdaySchema,
+          category: PlateCategorySchema,
+          name: z.string().trim().min(1).max(100),
+        })
+      )
+      .max(35)
+      .default([]),
+  })
+  .refine(
+    ({ current, targets }) =>
+      targets.every(target => current.some(c => c.day === target.day)),
+    { message: 'Every target day must be part of the current plan' }
+  );
+
+export const MealIngredientSchema = z.object({
+  name: z.string().trim().min(1, 'Ingredient name is required').max(100),
+  amount: z.string().trim().min(1, 'Amount is required').max(50),
+  unit: z.string().trim().max(50),
+  category: z.string().trim().max(50),
+  notes: z.string().trim().max(200).optional(),
+});
+
+export const GeneratedMealSchema = z.object({
+  day: z.number().int().min(1).max(14),
+  type: MealTypeSchema,
+  name: z.string().trim().min(1, 'Name is required').max(200),
+  ingredients: z.array(MealIngredientSchema).min(1).max(12),
+  instructions: z.array(z.string().trim().min(1).max(500)).min(1).max(12),
+  preparationTime: z.string().trim().min(1).max(50),
+  cookingTime: z.string().trim().min(1).max(50),
+});
+
+export const GeneratedMealListSchema = z.object({
+  meals: z.array(GeneratedMealSchema).min(1).max(56),
+});
+
+// Regenerate single meals of an existing plan. Each target names a day and
+// slot to replace; every other meal in `current` is kept.
+export const MealRegenerationSchema = z
+  .object({
+    current: z.array(GeneratedMealSchema).min(1).max(56),
+    targets: z
+      .array(GeneratedMealSchema.pick({ day: true, type: true }))
+      .min(1)
+      .max(56),
+  })
+  .refine(
+    ({ current, targets }) =>
+      targets.every(target =>
+        current.some(
+          meal => meal.day === target.day && meal.type === target.type
+        )
+      ),
+    { message: 'Every target meal must be part of the current plan' }
+  );
+
+// Combinations are regenerated with `regenerate`; a meal plan sends its
+// `plan` options with `regenerateMeals`
+export const MealPlanRegenerationRequestSchema = MealPlanRequestSchema.extend({
+  regenerate: RegenerationSchema.optional(),
+  regenerateMeals: MealRegenerationSchema.optional(),
+})
+  .refine(
+    ({ plan, regenerate, regenerateMeals }) =>
+      plan
+        ? !!regenerateMeals && !regenerate
+        : !!regenerate && !regenerateMeals,
+    {
+      message:
+        'Send regenerate for combinations, or plan with regenerateMeals for a meal plan',
+    }
+  )
+  .refine(
+    ({ plan, regenerateMeals }) =>
+      !plan ||
+      !regenerateMeals ||
+      regenerateMeals.current.every(
+        meal => meal.day <= plan.days && plan.mealSlots.includes(meal.type)
+      ),
+    {
+      message: 'Every current meal must fit the plan days and meal slots',
+      path: ['regenerateMeals', 'current'],
+    }
+  );
+
+// Meal plans as sent by clients for saving; nutrition is recomputed server-side
+export const MealPlanSchema = MealPlanOptionsSchema.extend({
+  title: z.string().trim().min(1, 'Title is required').max(200),
+  description: z.string().trim().max(1000),
+  meals: z.array(GeneratedMealSchema).min(1).max(56),
+  preparationTime: z.string().trim().max(50),
+  difficulty: z.enum(['easy', 'medium', 'hard']),
+  servings: z.number().int().min(1).max(20),
+  provider: z.string().trim().max(100).optional(),
+  seed: z.number().int().min(0).max(4294967295).optional(),
 });
 
 // Search and filter schemas
@@ -97,6 +439,55 @@ export const PaginationSchema = z.object({
   limit: z.number().min(1).max(100).default(20),
 });
 
+// Inclusive bounds on one of FOOD_RANGE_FIELDS, either side optional
+export const NumberRangeSchema = z
+  .object({
+    min: z.number().optional(),
+    max: z.number().optional(),
+  })
+  .refine(
+    ({ min, max }) => min === undefined || max === undefined || min <= max,
+    'min cannot be greater than max'
+  );
+
+export const FoodSortSchema = z.enum([
+  'relevance',
+  'name',
+  'category',
+  'calories',
+  'protein',
+  'carbs',
+  'fat',
+  'fiber',
+  'glycemicIndex',
+]);
+
+// A catalog query as readFoodGroupQuery reads it from the URL. Tags within a
+// list are alternatives for category, subcategory and seasonality, and all
+// required for nutrients and benefits.
+export const FoodGroupQuerySchema = z.object({
+  search: SearchQuerySchema.optional(),
+  categories: z.array(FoodCategorySchema).max(20).optional(),
+  subcategories: z.array(BaseStringSchema.max(100)).max(20).optional(),
+  seasonality: z.array(SeasonalitySchema).max(20).optional(),
+  nutrients: z.array(BaseStringSchema.max(100)).max(20).optional(),
+  benefits: z.array(BaseStringSchema.max(200)).max(20).optional(),
+  ranges: z
+    .partialRecord(z.enum(FOOD_RANGE_FIELDS), NumberRangeSchema)
+    .optional(),
+  includeInactive: z.boolean().optional(),
+  sortBy: FoodSortSchema.optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
+  page: PaginationSchema.shape.page.unwrap().int().optional(),
+  limit: PaginationSchema.shape.limit.unwrap().int().optional(),
+  offset: z.number().int().min(0).optional(),
+  cursor: z
+    .string()
+    .max(100)
+    .refine(cursor => decodeFoodCursor(cursor) !== null, 'Invalid cursor')
+    .optional(),
+});
+
 // User authentication schemas
 export const UserProfileSchema = z.object({
   displayName: BaseStringSchema.max(100).optional(),
@@ -112,21 +503,55 @@ export const AdminActionSchema = z.object({
   reason: BaseStringSchema.max(500).optional(),
 });
 
+// Why the catalog was changed, recorded in each food's history with the
+// admin who changed it
+export const CatalogAuditSchema = z.object({
+  reason: AdminActionSchema.shape.reason,
+});
+
+// Restores a food to the version an audit entry recorded
+export const FoodGroupRevertSchema = CatalogAuditSchema.extend({
+  auditId: z.string().min(1).max(128),
+});
+
 // Export all schemas
 export const ValidationSchemas = {
   FoodGroup: FoodGroupSchema,
+  FoodExportQuery: FoodExportQuerySchema,
+  UsdaImportRequest: UsdaImportRequestSchema,
   UserPreferences: UserPreferencesSchema,
+  NutritionGoal: NutritionGoalSchema,
+  FoodLogEntry: FoodLogEntrySchema,
+  ShoppingListSource: ShoppingListSourceSchema,
+  ShoppingListChecked: ShoppingListCheckedSchema,
+  PantryItem: PantryItemSchema,
+  PantryItemUpdate: PantryItemUpdateSchema,
   MealPlanRequest: MealPlanRequestSchema,
+  Combination: CombinationSchema,
+  CombinationList: CombinationListSchema,
+  MealPlanRegenerationRequest: MealPlanRegenerationRequestSchema,
+  MealPlanOptions: MealPlanOptionsSchema,
+  GeneratedMealList: GeneratedMealListSchema,
+  MealRegeneration: MealRegenerationSchema,
+  MealPlan: MealPlanSchema,
   SearchQuery: SearchQuerySchema,
   CategoryFilter: CategoryFilterSchema,
   Pagination: PaginationSchema,
+  FoodGroupQuery: FoodGroupQuerySchema,
   UserProfile: UserProfileSchema,
   AdminAction: AdminActionSchema,
+  CatalogAudit: CatalogAuditSchema,
+  FoodGroupRevert: FoodGroupRevertSchema,
 } as const;
 
 // Type exports for use in components
 export type ValidatedFoodGroup = z.infer<typeof FoodGroupSchema>;
 export type ValidatedUserPreferences = z.infer<typeof UserPreferencesSchema>;
 export type ValidatedMealPlanRequest = z.infer<typeof MealPlanRequestSchema>;
+export type ValidatedCombination = z.infer<typeof CombinationSchema>;
+export type ValidatedMealPlan = z.infer<typeof MealPlanSchema>;
 export type ValidatedUserProfile = z.infer<typeof UserProfileSchema>;
 export type ValidatedAdminAction = z.infer<typeof AdminActionSchema>;
+export type ValidatedFoodLogEntry = z.infer<typeof FoodLogEntrySchema>;
+export type ValidatedPantryItem = z.infer<typeof PantryItemSchema>;
+export type ValidatedFoodGroupQuery = z.infer<typeof FoodGroupQuerySchema>;
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { AuthError, requireAdmin } from '@/lib/auth';
+import { adminOperations } from '@/lib/database';
+import { monitoring } from '@/lib/monitoring';
+import { AdminActionSchema } from '@/lib/validation/schemas';
+
+// What an admin route does, e.g. `{ action: 'import', resource: 'foodGroups' }`
+export type AdminAction = z.input<typeof AdminActionSchema>;
+
+// Either the admin's uid or the response to send instead of handling the
+// request
+export type AdminGuardResult =
+  | { uid: string; response?: never }
+  | { uid?: never; response: NextResponse };
+
+/**
+ * Admin guard for API routes. Admins hold the `admin` custom claim or are on
+ * the `admins` allowlist; other callers get 401 without a valid ID token and
+ * 403 with one. An action the route performs is validated against
+ * AdminActionSchema and logged in `adminActions` before the route runs.
+ */
+export async function applyAdminGuard(
+  request: NextRequest,
+  action?: AdminAction
+): Promise<AdminGuardResult> {
+  const { pathname } = new URL(request.url);
+
+  let uid: string;
+  try {
+    uid = await requireAdmin(request, adminOperations.isAdmin);
+  } catch (error) {
+    if (!(error instanceof AuthError)) throw error;
+
+    monitoring.warn('Admin access denied', {
+      method: request.method,
+      path: pathname,
+      status: error.status,
+    });
+    return {
+      response: NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      ),
+    };
+  }
+
+  if (action) {
+    const validation = AdminActionSchema.safeParse({
+      ...action,
+      data: { method: request.method, path: pathname, ...action.data },
+    });
+    if (!validation.success) {
+      return {
+        response: NextResponse.json(
+          {
+            success: false,
+            error: 'Invalid admin action',
+            details: validation.error.issues,
+          },
+          { status: 400 }
+        ),
+      };
+    }
+
+    await adminOperations.logAction({ ...validation.data, actor: uid });
+    monitoring.info('Admin action', { ...validation.data, actor: uid });
+  }
+
+  return { uid };
+}
+
+/**
+ * Debug endpoints expose configuration details, so outside development they
+ * respond as if they did not exist
+ */
+export function applyDevelopmentOnly(): NextResponse | null {
+  if (process.env.NODE_ENV === 'development') return null;
+
+  return NextResponse.json(
+    { success: false, error: 'Not found' },
+    { status: 404 }
+  );
+}